@@ -0,0 +1,187 @@
+/**
+ * @description
+ * "Authorized apps" account settings page.
+ * Lists the clients holding tokens for the user's account (this app, the local agent,
+ * MCP desktop clients) with their scopes and last use, and lets the user revoke them.
+ *
+ * @dependencies
+ * - /api/account/apps: List endpoint.
+ * - /api/account/apps/[id]: Revoke endpoint.
+ * - lib/mcp/client: DPoP proofs for the grants endpoint, which the routes forward for DPoP sessions.
+ *
+ * @notes
+ * - Revoking this app's own grant ends the current session as well.
+ */
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from "sonner";
+import { ReloadIcon, TrashIcon } from "@radix-ui/react-icons";
+import { useAuth } from '@/context/auth-context';
+import { createGrantsProofHeaders } from '@/lib/mcp/client';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface AuthorizedApp {
+  id: string;
+  clientId: string;
+  clientName: string;
+  scopes: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  current: boolean; // This app's own grant
+}
+
+export default function AuthorizedAppsPage() {
+  const { authState, logout } = useAuth();
+  const [apps, setApps] = useState<AuthorizedApp[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchApps = useCallback(async () => {
+    if (authState.status !== 'authenticated') {
+      setIsLoading(authState.status === 'loading');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const headers = await createGrantsProofHeaders();
+      const response = await fetch('/api/account/apps', { headers, credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to load authorized apps: ${response.status}`);
+      }
+      setApps(data.apps);
+    } catch (fetchError: any) {
+      console.error('Failed to load authorized apps:', fetchError);
+      setError(fetchError.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authState.status]);
+
+  useEffect(() => {
+    fetchApps();
+  }, [fetchApps]);
+
+  const handleRevokeApp = async (app: AuthorizedApp) => {
+    setRevokingId(app.id);
+    try {
+      const headers = await createGrantsProofHeaders(app.id);
+      const response = await fetch(`/api/account/apps/${encodeURIComponent(app.id)}`, { method: 'DELETE', headers, credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to revoke access: ${response.status}`);
+      }
+      toast.success("Access revoked", { description: app.clientName });
+      setApps(prev => prev.filter(item => item.id !== app.id));
+      if (data.signedOut) {
+        // The session's own tokens were part of the revoked grant
+        await logout();
+      }
+    } catch (revokeError: any) {
+      console.error('Failed to revoke authorized app:', revokeError);
+      toast.error("Could not revoke access", { description: revokeError.message });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Authorized apps</CardTitle>
+            <CardDescription>
+              Apps and agents that can access your account. Revoking one ends all of its tokens; it has to be authorized again to regain access.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="icon" onClick={fetchApps} disabled={isLoading} title="Reload">
+            <ReloadIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : apps.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No apps are authorized to access your account.</p>
+          ) : (
+            <ul className="divide-y">
+              {apps.map(app => (
+                <li key={app.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{app.clientName}</span>
+                      {app.current && <Badge variant="secondary">This app</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {app.clientId} · {app.scopes.join(' ')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Authorized {new Date(app.createdAt).toLocaleString()} ·{' '}
+                      {app.lastUsedAt ? `Last used ${new Date(app.lastUsedAt).toLocaleString()}` : 'Never used'}
+                    </p>
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive/80"
+                        title="Revoke access"
+                        disabled={revokingId === app.id}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revoke access for {app.clientName}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {app.current
+                            ? 'This signs you out here and on every device using this app.'
+                            : 'The app will lose access to your account until you authorize it again.'}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleRevokeApp(app)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Revoke
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
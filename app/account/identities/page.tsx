@@ -0,0 +1,215 @@
+/**
+ * @description
+ * "Linked identities" account settings page.
+ * Lists the sign-in identities (Hanko users) linked to the account, lets the user
+ * link another one (by signing in with it) and remove identities they no longer use.
+ *
+ * @dependencies
+ * - /api/account/identities: List and link-intent endpoints.
+ * - /api/account/identities/[id]: Unlink endpoint.
+ * - lib/mcp/client: `redirectToAuthorization` for the re-authentication with the new identity.
+ * - lib/auth/hanko-client: Ends the current Hanko session so another identity can sign in.
+ *
+ * @notes
+ * - The server refuses to remove the last identity or the one currently signed in;
+ *   the buttons are disabled for those cases as well.
+ */
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from "sonner";
+import { ReloadIcon, TrashIcon, PlusCircledIcon } from "@radix-ui/react-icons";
+import { useAuth } from '@/context/auth-context';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { redirectToAuthorization } from '@/lib/mcp/client';
+
+interface LinkedIdentity {
+  id: string;
+  provider: string;
+  subject: string;
+  email: string | null;
+  createdAt: string;
+  current: boolean;
+}
+
+export default function LinkedIdentitiesPage() {
+  const { authState } = useAuth();
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isLinking, setIsLinking] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const fetchIdentities = useCallback(async () => {
+    if (authState.status !== 'authenticated') {
+      setIsLoading(authState.status === 'loading');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/account/identities', { credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to load identities: ${response.status}`);
+      }
+      setIdentities(data.identities);
+    } catch (fetchError: any) {
+      console.error('Failed to load linked identities:', fetchError);
+      setError(fetchError.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authState.status]);
+
+  useEffect(() => {
+    fetchIdentities();
+  }, [fetchIdentities]);
+
+  // Record the link intent, then sign in with the other identity; the OAuth callback completes the link
+  const handleLinkIdentity = async () => {
+    setIsLinking(true);
+    try {
+      const response = await fetch('/api/account/identities', { method: 'POST', credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to start linking: ${response.status}`);
+      }
+      // End the current Hanko session so the auth-worker asks which identity to use
+      const { endHankoSession } = await import('@/lib/auth/hanko-client');
+      await endHankoSession();
+      await redirectToAuthorization({ returnTo: '/account/identities', prompt: 'login' });
+    } catch (linkError: any) {
+      console.error('Failed to start identity linking:', linkError);
+      toast.error("Could not link identity", { description: linkError.message });
+      setIsLinking(false);
+    }
+  };
+
+  const handleRemoveIdentity = async (identity: LinkedIdentity) => {
+    setRemovingId(identity.id);
+    try {
+      const response = await fetch(`/api/account/identities/${identity.id}`, { method: 'DELETE', credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to remove identity: ${response.status}`);
+      }
+      toast.success("Identity removed", { description: identity.email || identity.subject });
+      setIdentities(prev => prev.filter(item => item.id !== identity.id));
+    } catch (removeError: any) {
+      console.error('Failed to remove identity:', removeError);
+      toast.error("Could not remove identity", { description: removeError.message });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const removeDisabledReason = (identity: LinkedIdentity): string | null => {
+    if (identities.length <= 1) return "An account must keep at least one linked identity";
+    if (identity.current) return "You are signed in with this identity";
+    return null;
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Linked identities</CardTitle>
+            <CardDescription>
+              Sign-in identities that open this account. Linking another one requires signing in with it.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="icon" onClick={fetchIdentities} disabled={isLoading} title="Reload">
+              <ReloadIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button onClick={handleLinkIdentity} disabled={isLinking || isLoading}>
+              <PlusCircledIcon className="mr-2 h-4 w-4" />
+              {isLinking ? 'Redirecting...' : 'Link another identity'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : identities.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No identities are linked to this account yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {identities.map(identity => {
+                const disabledReason = removeDisabledReason(identity);
+                return (
+                  <li key={identity.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{identity.email || 'Unknown email'}</span>
+                        {identity.current && <Badge variant="secondary">Current</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono truncate">
+                        {identity.provider}: {identity.subject}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Linked {new Date(identity.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive/80"
+                          title={disabledReason || "Remove identity"}
+                          disabled={!!disabledReason || removingId === identity.id}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Remove this identity?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {identity.email || identity.subject} will no longer be able to sign in to this account.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleRemoveIdentity(identity)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Remove
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
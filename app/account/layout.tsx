@@ -0,0 +1,25 @@
+/**
+ * @description
+ * Layout for the /account settings section. Enforces the `/account` route policy
+ * (an authenticated session) before any settings page renders, and shows the
+ * navigation between the settings pages.
+ */
+
+import React from 'react';
+import { requirePageAccess } from '@/lib/auth/page-guard';
+import { AccountNav } from '@/components/account/account-nav';
+
+interface AccountLayoutProps {
+  children: React.ReactNode;
+}
+
+export default async function AccountLayout({ children }: AccountLayoutProps) {
+  await requirePageAccess('/account');
+
+  return (
+    <>
+      <AccountNav />
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * @description
+ * "Session" account settings page: a token inspector for the current browser session.
+ * Decodes the access and refresh tokens (header, registered claims such as issuer, audience,
+ * subject and scopes, and custom claims like `hankoUserId`), counts down to expiry and
+ * introspects a token at the auth-worker on demand.
+ *
+ * @dependencies
+ * - /api/auth/session/inspect: Decoded tokens, introspection and reveal.
+ * - context/auth-context: Session status; the view reloads after each token refresh.
+ * - lib/mcp/client: Re-authentication before revealing.
+ *
+ * @notes
+ * - Token values are masked by default. Revealing or copying fetches the raw access token on
+ *   demand, and only shortly after signing in; otherwise the user is asked to sign in again.
+ *   The refresh token is never revealed.
+ */
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from "sonner";
+import { ReloadIcon, CopyIcon, EyeOpenIcon, EyeClosedIcon } from "@radix-ui/react-icons";
+import { useAuth } from '@/context/auth-context';
+import { redirectToAuthorization } from '@/lib/mcp/client';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+type TokenType = 'access_token' | 'refresh_token';
+
+interface TokenDescription {
+  type: TokenType;
+  format: 'jwt' | 'opaque';
+  masked: string;
+  header: Record<string, unknown> | null;
+  claims: Record<string, unknown> | null;
+  expiresAt: number | null;
+}
+
+const TOKEN_LABELS: Record<TokenType, string> = {
+  access_token: 'Access token',
+  refresh_token: 'Refresh token',
+};
+
+// Claims shown in the summary grid; everything else is listed as a custom claim
+const REGISTERED_CLAIMS: { key: string; label: string }[] = [
+  { key: 'iss', label: 'Issuer' },
+  { key: 'aud', label: 'Audience' },
+  { key: 'sub', label: 'Subject' },
+  { key: 'scope', label: 'Scopes' },
+  { key: 'client_id', label: 'Client' },
+  { key: 'iat', label: 'Issued at' },
+  { key: 'nbf', label: 'Not before' },
+  { key: 'exp', label: 'Expires at' },
+  { key: 'jti', label: 'Token ID' },
+];
+const TIMESTAMP_CLAIMS = new Set(['iat', 'nbf', 'exp']);
+
+const CodeBlock = ({ data }: { data: unknown }) => (
+  <pre className="p-4 bg-gray-100 dark:bg-gray-900 rounded-md text-xs overflow-x-auto"><code>{JSON.stringify(data, null, 2)}</code></pre>
+);
+
+function formatClaim(key: string, value: unknown): string {
+  if (TIMESTAMP_CLAIMS.has(key) && typeof value === 'number') {
+    return new Date(value * 1000).toLocaleString();
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+}
+
+function formatCountdown(remainingMs: number): string {
+  if (remainingMs <= 0) return 'Expired';
+  const totalSeconds = Math.floor(remainingMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const parts = hours > 0 ? [hours, minutes, seconds] : [minutes, seconds];
+  return parts.map((part, index) => index === 0 ? String(part) : String(part).padStart(2, '0')).join(':');
+}
+
+// Carries the API's error code, e.g. `login_required` when revealing needs a fresh sign-in
+class InspectActionError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'InspectActionError';
+  }
+}
+
+async function postInspectAction(action: 'introspect' | 'reveal', token: TokenType) {
+  const response = await fetch('/api/auth/session/inspect', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify({ action, token }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new InspectActionError(data.message || `Request failed: ${response.status}`, data.error);
+  }
+  return data;
+}
+
+function toastTokenError(title: string, error: any) {
+  if (error instanceof InspectActionError && error.code === 'login_required') {
+    toast.error(title, {
+      description: error.message,
+      action: {
+        label: 'Sign in again',
+        onClick: () => redirectToAuthorization({ returnTo: '/account/session', prompt: 'login' }),
+      },
+    });
+    return;
+  }
+  toast.error(title, { description: error.message });
+}
+
+function TokenCard({ token, now }: { token: TokenDescription; now: number }) {
+  const [revealedValue, setRevealedValue] = useState<string | null>(null);
+  const [introspection, setIntrospection] = useState<Record<string, unknown> | null>(null);
+  const [isIntrospecting, setIsIntrospecting] = useState(false);
+
+  // A refreshed session brings new tokens; forget what was revealed or introspected for the old ones
+  useEffect(() => {
+    setRevealedValue(null);
+    setIntrospection(null);
+  }, [token.masked]);
+
+  const fetchValue = async (): Promise<string> => {
+    const { value } = await postInspectAction('reveal', token.type);
+    return value;
+  };
+
+  const handleToggleReveal = async () => {
+    if (revealedValue) {
+      setRevealedValue(null);
+      return;
+    }
+    try {
+      setRevealedValue(await fetchValue());
+    } catch (revealError: any) {
+      console.error('Failed to reveal token:', revealError);
+      toastTokenError("Could not reveal token", revealError);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(revealedValue || await fetchValue());
+      toast.success(`${TOKEN_LABELS[token.type]} copied to clipboard`);
+    } catch (copyError: any) {
+      console.error('Failed to copy token:', copyError);
+      toastTokenError("Could not copy token", copyError);
+    }
+  };
+
+  const handleIntrospect = async () => {
+    setIsIntrospecting(true);
+    try {
+      const { result } = await postInspectAction('introspect', token.type);
+      setIntrospection(result);
+    } catch (introspectError: any) {
+      console.error('Introspection failed:', introspectError);
+      toast.error("Introspection failed", { description: introspectError.message });
+    } finally {
+      setIsIntrospecting(false);
+    }
+  };
+
+  const customClaims = token.claims
+    ? Object.entries(token.claims).filter(([key]) => !REGISTERED_CLAIMS.some(claim => claim.key === key))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            {TOKEN_LABELS[token.type]}
+            <Badge variant="secondary">{token.format === 'jwt' ? 'JWT' : 'Opaque'}</Badge>
+          </CardTitle>
+          <CardDescription>
+            {token.expiresAt
+              ? <>Expires in <span className="font-mono">{formatCountdown(token.expiresAt - now)}</span> ({new Date(token.expiresAt).toLocaleString()})</>
+              : 'No expiry information'}
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={handleIntrospect} disabled={isIntrospecting}>
+          {isIntrospecting ? 'Introspecting...' : 'Introspect'}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <code className="flex-1 min-w-0 break-all rounded-md bg-gray-100 dark:bg-gray-900 p-2 text-xs">
+            {revealedValue || token.masked}
+          </code>
+          {token.type === 'access_token' && (
+            <>
+              <Button variant="outline" size="icon" onClick={handleToggleReveal} title={revealedValue ? 'Hide' : 'Reveal'}>
+                {revealedValue ? <EyeClosedIcon className="h-4 w-4" /> : <EyeOpenIcon className="h-4 w-4" />}
+              </Button>
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copy">
+                <CopyIcon className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+
+        {token.claims ? (
+          <>
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+              {REGISTERED_CLAIMS.filter(claim => token.claims![claim.key] !== undefined).map(claim => (
+                <React.Fragment key={claim.key}>
+                  <dt className="text-muted-foreground">{claim.label}</dt>
+                  <dd className="font-mono break-all">{formatClaim(claim.key, token.claims![claim.key])}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+            {customClaims.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-1">Custom claims</p>
+                <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+                  {customClaims.map(([key, value]) => (
+                    <React.Fragment key={key}>
+                      <dt className="text-muted-foreground font-mono">{key}</dt>
+                      <dd className="font-mono break-all">{formatClaim(key, value)}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              </div>
+            )}
+            <div>
+              <p className="text-sm font-medium mb-1">Header</p>
+              <CodeBlock data={token.header} />
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">This token is opaque; use introspection to see what it grants.</p>
+        )}
+
+        {introspection && (
+          <div>
+            <p className="text-sm font-medium mb-1">Introspection result</p>
+            <CodeBlock data={introspection} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SessionInspectorPage() {
+  const { authState } = useAuth();
+  const [tokens, setTokens] = useState<TokenDescription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const fetchTokens = useCallback(async () => {
+    if (authState.status !== 'authenticated') {
+      setIsLoading(authState.status === 'loading');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/session/inspect', { credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to load session tokens: ${response.status}`);
+      }
+      setTokens(data.tokens);
+    } catch (fetchError: any) {
+      console.error('Failed to load session tokens:', fetchError);
+      setError(fetchError.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authState.status]);
+
+  // Reload whenever the session is renewed (new expiry)
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens, authState.expiresAt]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Session tokens</CardTitle>
+            <CardDescription>
+              The tokens held for this browser session. Values stay masked; the access token can be revealed or copied shortly after signing in, the refresh token never.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="icon" onClick={fetchTokens} disabled={isLoading} title="Reload">
+            <ReloadIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        {(isLoading || error) && (
+          <CardContent>
+            {isLoading ? <Skeleton className="h-12 w-full" /> : <p className="text-sm text-destructive">{error}</p>}
+          </CardContent>
+        )}
+      </Card>
+      {!isLoading && !error && tokens.map(token => (
+        <TokenCard key={token.type} token={token} now={now} />
+      ))}
+    </div>
+  );
+}
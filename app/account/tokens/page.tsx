@@ -0,0 +1,320 @@
+/**
+ * @description
+ * "Tokens" account settings page.
+ * Lets the user create personal access tokens for scripts and integrations (name, scopes,
+ * expiry), shows each new token once, and lists existing tokens with revocation.
+ *
+ * @dependencies
+ * - /api/account/tokens: List and create endpoints.
+ * - /api/account/tokens/[id]: Revoke endpoint.
+ * - lib/constants: Scopes and expiry options a token may have.
+ *
+ * @notes
+ * - Only a hash is stored server-side, so a lost token cannot be shown again; revoke it and create a new one.
+ */
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from "sonner";
+import { ReloadIcon, TrashIcon, CopyIcon } from "@radix-ui/react-icons";
+import { useAuth } from '@/context/auth-context';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  MCP_SCOPE_DATA_READ,
+  PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS,
+  PERSONAL_ACCESS_TOKEN_SCOPES,
+} from '@/lib/constants';
+
+interface PersonalAccessToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const NO_EXPIRY = 'never';
+
+function describeExpiryOption(days: number | null): string {
+  return days === null ? 'No expiry' : `${days} days`;
+}
+
+function describeStatus(token: PersonalAccessToken): { label: string; active: boolean } {
+  if (token.revokedAt) return { label: 'Revoked', active: false };
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) return { label: 'Expired', active: false };
+  return { label: token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}` : 'No expiry', active: true };
+}
+
+export default function PersonalAccessTokensPage() {
+  const { authState } = useAuth();
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>([MCP_SCOPE_DATA_READ]);
+  const [expiry, setExpiry] = useState('30');
+  const [isCreating, setIsCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    if (authState.status !== 'authenticated') {
+      setIsLoading(authState.status === 'loading');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/account/tokens', { credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to load tokens: ${response.status}`);
+      }
+      setTokens(data.tokens);
+    } catch (fetchError: any) {
+      console.error('Failed to load personal access tokens:', fetchError);
+      setError(fetchError.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authState.status]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(item => item !== scope));
+  };
+
+  const handleCreateToken = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/account/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiry === NO_EXPIRY ? null : Number(expiry),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to create token: ${response.status}`);
+      }
+      setNewToken(data.token);
+      setTokens(prev => [data.record, ...prev]);
+      setName('');
+    } catch (createError: any) {
+      console.error('Failed to create personal access token:', createError);
+      toast.error("Could not create token", { description: createError.message });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast.success("Token copied to clipboard");
+    } catch (copyError) {
+      console.error('Failed to copy token:', copyError);
+      toast.error("Could not copy token", { description: "Select and copy it manually." });
+    }
+  };
+
+  const handleRevokeToken = async (token: PersonalAccessToken) => {
+    setRevokingId(token.id);
+    try {
+      const response = await fetch(`/api/account/tokens/${token.id}`, { method: 'DELETE', credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to revoke token: ${response.status}`);
+      }
+      toast.success("Token revoked", { description: token.name });
+      setTokens(prev => prev.map(item => item.id === token.id ? { ...item, revokedAt: new Date().toISOString() } : item));
+    } catch (revokeError: any) {
+      console.error('Failed to revoke personal access token:', revokeError);
+      toast.error("Could not revoke token", { description: revokeError.message });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Create a personal access token</CardTitle>
+          <CardDescription>
+            Tokens let scripts and integrations call the RAG and insights APIs as you, with only the scopes you choose.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreateToken} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="token-name">Name</Label>
+              <Input
+                id="token-name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="e.g. Nightly vault sync"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="flex flex-wrap gap-4">
+                {PERSONAL_ACCESS_TOKEN_SCOPES.map(scope => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <Label htmlFor={`scope-${scope}`} className="font-mono text-xs">{scope}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="token-expiry">Expiry</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="token-expiry" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS.map(days => (
+                    <SelectItem key={days ?? NO_EXPIRY} value={days === null ? NO_EXPIRY : String(days)}>
+                      {describeExpiryOption(days)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={isCreating || !name.trim() || scopes.length === 0}>
+              {isCreating ? 'Creating...' : 'Create token'}
+            </Button>
+          </form>
+          {newToken && (
+            <div className="mt-6 space-y-2 rounded-md border p-4">
+              <p className="text-sm font-medium">Copy your new token now. It will not be shown again.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={newToken} className="font-mono text-xs" onFocus={(event) => event.target.select()} />
+                <Button type="button" variant="outline" size="icon" onClick={handleCopyToken} title="Copy token">
+                  <CopyIcon className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setNewToken(null)}>Done</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Your tokens</CardTitle>
+            <CardDescription>Revoke tokens you no longer use. Revocation takes effect within a minute.</CardDescription>
+          </div>
+          <Button variant="outline" size="icon" onClick={fetchTokens} disabled={isLoading} title="Reload">
+            <ReloadIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You have not created any tokens yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {tokens.map(token => {
+                const status = describeStatus(token);
+                return (
+                  <li key={token.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{token.name}</span>
+                        <Badge variant={status.active ? 'secondary' : 'outline'}>{status.label}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono truncate">
+                        {token.tokenPrefix}... · {token.scopes.join(' ')}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Created {new Date(token.createdAt).toLocaleString()} ·{' '}
+                        {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : 'Never used'}
+                      </p>
+                    </div>
+                    {!token.revokedAt && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive hover:text-destructive/80"
+                            title="Revoke token"
+                            disabled={revokingId === token.id}
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke this token?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Scripts and integrations using &quot;{token.name}&quot; will stop working.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleRevokeToken(token)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Revoke
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
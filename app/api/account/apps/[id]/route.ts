@@ -0,0 +1,70 @@
+/**
+ * @description
+ * API route handler for a single authorized app.
+ * - DELETE /api/account/apps/[id]: Revokes the grant, ending every token the client holds for the caller.
+ *
+ * @dependencies
+ * - next/server: For Next.js API route types.
+ * - lib/auth/route-guard: Verifies the caller and resolves the linked Supabase user.
+ * - lib/auth/grants: Grant listing and revocation at the auth-worker.
+ * - lib/auth/session: Ends the session when this app's own grant is revoked.
+ * - lib/auth/verify-token: Drops the session's revoked access token from the verification cache.
+ * - lib/constants: Provides OAUTH_CLIENT_ID and the header of the listing proof.
+ *
+ * @notes
+ * - Browser sessions only, like the collection route. A DPoP session sends two proofs: one for the
+ *   revocation (`DPoP`) and one for the listing that checks the grant first (GRANTS_LIST_PROOF_HEADER).
+ * - Revoking this app's own grant also revokes the session's tokens, so the session is ended
+ *   and `signedOut: true` tells the browser to reset its auth state.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/route-guard';
+import { listAuthorizedApplications, revokeAuthorizedApplication, GrantsUnavailableError, GrantsProofRequiredError } from '@/lib/auth/grants';
+import { destroySession, clearSessionCookie } from '@/lib/auth/session';
+import { forgetVerifiedToken } from '@/lib/auth/verify-token';
+import { OAUTH_CLIENT_ID, GRANTS_LIST_PROOF_HEADER } from '@/lib/constants';
+
+interface RouteParams {
+    params: { id: string };
+}
+
+const NOT_FOUND = { error: 'Not Found', message: 'Authorized app not found or already revoked.' };
+
+/**
+ * Revokes one of the grants held for the caller's account.
+ */
+export const DELETE = withAuth(async (req: NextRequest, caller, { params }: RouteParams) => {
+    const { id } = params;
+    console.log(`[API /api/account/apps/${id} DELETE] Received request from user ${caller.userId}.`);
+    if (!caller.session) {
+        return NextResponse.json({ error: 'Forbidden', message: 'Authorized apps can only be managed from a signed-in browser session.' }, { status: 403 });
+    }
+
+    try {
+        // Only grants listed for the caller can be revoked
+        const app = (await listAuthorizedApplications(caller.session, req.headers.get(GRANTS_LIST_PROOF_HEADER))).find(item => item.id === id);
+        if (!app || !(await revokeAuthorizedApplication(caller.session, id, req.headers.get('dpop')))) {
+            return NextResponse.json(NOT_FOUND, { status: 404 });
+        }
+        console.log(`[API /api/account/apps/${id} DELETE] Revoked grant of ${app.clientId} for user ${caller.userId}.`);
+
+        if (app.clientId !== OAUTH_CLIENT_ID) {
+            return NextResponse.json({ success: true, signedOut: false });
+        }
+        await forgetVerifiedToken(caller.session.accessToken);
+        await destroySession(caller.session);
+        const response = NextResponse.json({ success: true, signedOut: true });
+        clearSessionCookie(response);
+        return response;
+    } catch (error: any) {
+        if (error instanceof GrantsUnavailableError) {
+            return NextResponse.json({ error: 'Not Implemented', message: error.message }, { status: 501 });
+        }
+        if (error instanceof GrantsProofRequiredError) {
+            return NextResponse.json({ error: 'Bad Request', message: error.message }, { status: 400 });
+        }
+        console.error(`[API /api/account/apps/${id} DELETE] Error:`, error);
+        return NextResponse.json({ error: 'Bad Gateway', message: 'Failed to revoke the authorized app.' }, { status: 502 });
+    }
+});
@@ -0,0 +1,47 @@
+/**
+ * @description
+ * API route handler for the clients authorized to act for the caller's account.
+ * - GET /api/account/apps: Lists the grants the auth-worker holds for the caller, flagging this app's own.
+ *
+ * @dependencies
+ * - next/server: For Next.js API route types.
+ * - lib/auth/route-guard: Verifies the caller and resolves the linked Supabase user.
+ * - lib/auth/grants: Grant listing at the auth-worker.
+ * - lib/constants: Provides OAUTH_CLIENT_ID.
+ *
+ * @notes
+ * - Browser sessions only: the session's token authenticates the call to the auth-worker. For a
+ *   DPoP-bound token the browser's proof for the grant listing comes in the `DPoP` header.
+ * - Responds 501 when the auth-worker has no `grants_endpoint`, and 400 when a DPoP session sent no proof.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/route-guard';
+import { listAuthorizedApplications, GrantsUnavailableError, GrantsProofRequiredError } from '@/lib/auth/grants';
+import { OAUTH_CLIENT_ID } from '@/lib/constants';
+
+/**
+ * Lists the clients holding grants for the caller's account.
+ */
+export const GET = withAuth(async (req: NextRequest, caller) => {
+    console.log(`[API /api/account/apps GET] Listing authorized apps for user ${caller.userId}.`);
+    if (!caller.session) {
+        return NextResponse.json({ error: 'Forbidden', message: 'Authorized apps can only be managed from a signed-in browser session.' }, { status: 403 });
+    }
+
+    try {
+        const apps = await listAuthorizedApplications(caller.session, req.headers.get('dpop'));
+        return NextResponse.json({
+            apps: apps.map(app => ({ ...app, current: app.clientId === OAUTH_CLIENT_ID })),
+        });
+    } catch (error: any) {
+        if (error instanceof GrantsUnavailableError) {
+            return NextResponse.json({ error: 'Not Implemented', message: error.message }, { status: 501 });
+        }
+        if (error instanceof GrantsProofRequiredError) {
+            return NextResponse.json({ error: 'Bad Request', message: error.message }, { status: 400 });
+        }
+        console.error('[API /api/account/apps GET] Error:', error);
+        return NextResponse.json({ error: 'Bad Gateway', message: 'Failed to list authorized apps.' }, { status: 502 });
+    }
+});
@@ -0,0 +1,59 @@
+/**
+ * @description
+ * API route handler for a single linked identity.
+ * - DELETE /api/account/identities/[id]: Unlinks the identity from the caller's account.
+ *
+ * @dependencies
+ * - next/server: For Next.js API route types.
+ * - lib/auth/route-guard: Verifies the caller and resolves the linked Supabase user.
+ * - lib/auth/identity: Identity link storage.
+ *
+ * @notes
+ * - Refuses (409) to remove the account's last identity, and the identity the caller is
+ *   signed in with (sign in with another identity to remove it).
+ * - Browser sessions only, like the collection route.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/route-guard';
+import { forgetLinkedUser, listIdentityLinks, unlinkIdentity } from '@/lib/auth/identity';
+
+interface RouteParams {
+    params: { id: string };
+}
+
+/**
+ * Unlinks an identity from the caller's account.
+ */
+export const DELETE = withAuth(async (req: NextRequest, caller, { params }: RouteParams) => {
+    const { id } = params;
+    console.log(`[API /api/account/identities/${id} DELETE] Received request from user ${caller.userId}.`);
+    if (!caller.session) {
+        return NextResponse.json({ error: 'Forbidden', message: 'Linked identities can only be managed from a signed-in browser session.' }, { status: 403 });
+    }
+
+    try {
+        const identity = (await listIdentityLinks(caller.userId)).find(link => link.id === id);
+        if (!identity) {
+            return NextResponse.json({ error: 'Not Found', message: 'Linked identity not found.' }, { status: 404 });
+        }
+        if (identity.subject === caller.subject) {
+            return NextResponse.json({ error: 'current_identity', message: 'You are signed in with this identity. Sign in with another one to remove it.' }, { status: 409 });
+        }
+
+        const result = await unlinkIdentity(id, caller.userId);
+        if (result === 'last_identity') {
+            return NextResponse.json({ error: 'last_identity', message: 'An account must keep at least one linked identity.' }, { status: 409 });
+        }
+        if (result === 'not_found') {
+            return NextResponse.json({ error: 'Not Found', message: 'Linked identity not found.' }, { status: 404 });
+        }
+
+        forgetLinkedUser(identity.subject);
+        console.log(`[API /api/account/identities/${id} DELETE] Unlinked identity ${identity.subject} from user ${caller.userId}.`);
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error(`[API /api/account/identities/${id} DELETE] Error:`, error);
+        return NextResponse.json({ error: 'Internal Server Error', message: 'Failed to unlink identity.' }, { status: 500 });
+    }
+});
@@ -0,0 +1,62 @@
+/**
+ * @description
+ * API route handlers for the sign-in identities linked to the caller's account.
+ * - GET /api/account/identities: Lists the linked identities, flagging the one currently signed in.
+ * - POST /api/account/identities: Starts linking another identity. Records a link intent for the
+ *   caller's account; the client then re-authenticates with the other identity and
+ *   `/api/auth/link-supabase` completes the link.
+ *
+ * @dependencies
+ * - next/server: For Next.js API route types.
+ * - lib/auth/route-guard: Verifies the caller and resolves the linked Supabase user.
+ * - lib/auth/identity: Identity link storage.
+ * - lib/auth/link-intent: Link intent cookie.
+ *
+ * @notes
+ * - Browser sessions only: bearer tokens (scripts, integrations) cannot manage identities.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, type VerifiedCaller } from '@/lib/auth/route-guard';
+import { listIdentityLinks } from '@/lib/auth/identity';
+import { setLinkIntentCookie } from '@/lib/auth/link-intent';
+
+function requireBrowserSession(caller: VerifiedCaller): NextResponse | null {
+    if (caller.session) {
+        return null;
+    }
+    return NextResponse.json({ error: 'Forbidden', message: 'Linked identities can only be managed from a signed-in browser session.' }, { status: 403 });
+}
+
+/**
+ * Lists the identities linked to the caller's account.
+ */
+export const GET = withAuth(async (req: NextRequest, caller) => {
+    console.log(`[API /api/account/identities GET] Listing identities for user ${caller.userId}.`);
+    const sessionError = requireBrowserSession(caller);
+    if (sessionError) return sessionError;
+
+    try {
+        const identities = await listIdentityLinks(caller.userId);
+        return NextResponse.json({
+            identities: identities.map(identity => ({ ...identity, current: identity.subject === caller.subject })),
+        });
+    } catch (error: any) {
+        console.error('[API /api/account/identities GET] Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error', message: 'Failed to list linked identities.' }, { status: 500 });
+    }
+});
+
+/**
+ * Starts linking another identity to the caller's account.
+ */
+export const POST = withAuth(async (req: NextRequest, caller) => {
+    console.log(`[API /api/account/identities POST] Starting identity link for user ${caller.userId}.`);
+    const sessionError = requireBrowserSession(caller);
+    if (sessionError) return sessionError;
+
+    const response = NextResponse.json({ success: true });
+    const expiresAt = await setLinkIntentCookie(response, { supabaseUserId: caller.userId, initiatedBy: caller.subject });
+    console.log(`[API /api/account/identities POST] Link intent recorded until ${new Date(expiresAt).toISOString()}.`);
+    return response;
+});
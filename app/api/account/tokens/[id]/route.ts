@@ -0,0 +1,45 @@
+/**
+ * @description
+ * API route handler for a single personal access token.
+ * - DELETE /api/account/tokens/[id]: Revokes the token.
+ *
+ * @dependencies
+ * - next/server: For Next.js API route types.
+ * - lib/auth/route-guard: Verifies the caller and resolves the linked Supabase user.
+ * - lib/auth/personal-access-tokens: Token storage.
+ *
+ * @notes
+ * - Revoked tokens stay listed (marked revoked) so their last use remains visible.
+ * - Browser sessions only, like the collection route.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/route-guard';
+import { revokePersonalAccessToken } from '@/lib/auth/personal-access-tokens';
+
+interface RouteParams {
+    params: { id: string };
+}
+
+/**
+ * Revokes one of the caller's personal access tokens.
+ */
+export const DELETE = withAuth(async (req: NextRequest, caller, { params }: RouteParams) => {
+    const { id } = params;
+    console.log(`[API /api/account/tokens/${id} DELETE] Received request from user ${caller.userId}.`);
+    if (!caller.session) {
+        return NextResponse.json({ error: 'Forbidden', message: 'Personal access tokens can only be managed from a signed-in browser session.' }, { status: 403 });
+    }
+
+    try {
+        const revoked = await revokePersonalAccessToken(caller.userId, id);
+        if (!revoked) {
+            return NextResponse.json({ error: 'Not Found', message: 'Active token not found.' }, { status: 404 });
+        }
+        console.log(`[API /api/account/tokens/${id} DELETE] Revoked token for user ${caller.userId}.`);
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error(`[API /api/account/tokens/${id} DELETE] Error:`, error);
+        return NextResponse.json({ error: 'Internal Server Error', message: 'Failed to revoke personal access token.' }, { status: 500 });
+    }
+});
@@ -0,0 +1,99 @@
+/**
+ * @description
+ * API route handlers for the caller's personal access tokens.
+ * - GET /api/account/tokens: Lists the caller's tokens (never their secrets).
+ * - POST /api/account/tokens: Creates a token and returns its secret, which is shown only once.
+ *
+ * @dependencies
+ * - next/server: For Next.js API route types.
+ * - lib/auth/route-guard: Verifies the caller and resolves the linked Supabase user.
+ * - lib/auth/personal-access-tokens: Token storage.
+ * - lib/auth/verify-token: Scope checks against the session's grant.
+ * - lib/constants: Allowed scopes and expiry options.
+ *
+ * @notes
+ * - Browser sessions only: a token cannot be used to create or list other tokens.
+ * - New tokens are limited to scopes the session itself was granted (403 `insufficient_scope` otherwise).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, type VerifiedCaller } from '@/lib/auth/route-guard';
+import { hasRequiredScopes, toRequestableScopes } from '@/lib/auth/verify-token';
+import { createPersonalAccessToken, listPersonalAccessTokens } from '@/lib/auth/personal-access-tokens';
+import { PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS, PERSONAL_ACCESS_TOKEN_SCOPES } from '@/lib/constants';
+
+interface CreateTokenRequestBody {
+    name?: string;
+    scopes?: string[];
+    expiresInDays?: number | null;
+}
+
+function requireBrowserSession(caller: VerifiedCaller): NextResponse | null {
+    if (caller.session) {
+        return null;
+    }
+    return NextResponse.json({ error: 'Forbidden', message: 'Personal access tokens can only be managed from a signed-in browser session.' }, { status: 403 });
+}
+
+/**
+ * Lists the caller's personal access tokens.
+ */
+export const GET = withAuth(async (req: NextRequest, caller) => {
+    console.log(`[API /api/account/tokens GET] Listing tokens for user ${caller.userId}.`);
+    const sessionError = requireBrowserSession(caller);
+    if (sessionError) return sessionError;
+
+    try {
+        const tokens = await listPersonalAccessTokens(caller.userId);
+        return NextResponse.json({ tokens });
+    } catch (error: any) {
+        console.error('[API /api/account/tokens GET] Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error', message: 'Failed to list personal access tokens.' }, { status: 500 });
+    }
+});
+
+/**
+ * Creates a personal access token for the caller.
+ */
+export const POST = withAuth(async (req: NextRequest, caller) => {
+    console.log(`[API /api/account/tokens POST] Creating token for user ${caller.userId}.`);
+    const sessionError = requireBrowserSession(caller);
+    if (sessionError) return sessionError;
+
+    let body: CreateTokenRequestBody;
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json({ error: 'Bad Request', message: 'Invalid JSON body.' }, { status: 400 });
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) {
+        return NextResponse.json({ error: 'Bad Request', message: 'A name of at most 100 characters is required.' }, { status: 400 });
+    }
+    const scopes = Array.isArray(body.scopes) ? body.scopes : [];
+    if (scopes.length === 0 || scopes.some(scope => !PERSONAL_ACCESS_TOKEN_SCOPES.includes(scope))) {
+        return NextResponse.json({ error: 'Bad Request', message: `Choose one or more of: ${PERSONAL_ACCESS_TOKEN_SCOPES.join(', ')}.` }, { status: 400 });
+    }
+    // A token can never carry more than the session that creates it was granted
+    const ungranted = scopes.filter(scope => !hasRequiredScopes(caller.claims.scope, [scope]));
+    if (ungranted.length > 0) {
+        console.warn(`[API /api/account/tokens POST] User ${caller.userId} requested ungranted scopes: ${ungranted.join(' ')}`);
+        return NextResponse.json(
+            { error: 'insufficient_scope', message: `Your session has not been granted: ${ungranted.join(', ')}.` },
+            { status: 403, headers: { 'WWW-Authenticate': `Bearer error="insufficient_scope", scope="${toRequestableScopes(ungranted).join(' ')}"` } }
+        );
+    }
+    const expiresInDays = body.expiresInDays ?? null;
+    if (!PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS.includes(expiresInDays)) {
+        return NextResponse.json({ error: 'Bad Request', message: 'Unsupported expiry.' }, { status: 400 });
+    }
+
+    try {
+        const { token, record } = await createPersonalAccessToken(caller.userId, { name, scopes, expiresInDays });
+        return NextResponse.json({ token, record }, { status: 201, headers: { 'Cache-Control': 'no-store' } });
+    } catch (error: any) {
+        console.error('[API /api/account/tokens POST] Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error', message: 'Failed to create personal access token.' }, { status: 500 });
+    }
+});
@@ -0,0 +1,68 @@
+/**
+ * @description
+ * API Route Handler that starts the OAuth authorization code flow server-side.
+ * Creates the state, PKCE verifier and OIDC nonce, keeps them in a signed, httpOnly cookie and returns the
+ * authorization URL to send the browser to. When the auth-worker supports Pushed Authorization
+ * Requests (RFC 9126), the parameters are pushed first and the URL only carries `client_id`
+ * and `request_uri`.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/authorization-request: State/verifier creation, PAR and the request cookie.
+ * - lib/constants: Default scopes.
+ *
+ * @notes
+ * - Handles POST requests to /api/auth/authorize with `{ scopes?, prompt? }`.
+ * - Returns `{ authorizationUrl, state }`. The state lets the browser recognise its own callback;
+ *   the verifier stays in the cookie and is used by `/api/auth/token` or `/api/device/verify`.
+ * - Errors use the OAuth `{ error, error_description }` shape.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { startAuthorizationRequest, setAuthorizationRequestCookie } from '@/lib/auth/authorization-request';
+import { OAUTH_DEFAULT_SCOPES } from '@/lib/constants';
+
+// Define expected request body structure
+interface AuthorizeRequestBody {
+    scopes?: string[];
+    prompt?: string;
+}
+
+const ALLOWED_PROMPTS = ['login', 'consent'] as const;
+
+/**
+ * Starts an authorization request and returns where to redirect the browser.
+ */
+export async function POST(request: NextRequest) {
+    let body: AuthorizeRequestBody;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'invalid_request', error_description: 'Invalid request body. JSON expected.' }, { status: 400 });
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return NextResponse.json({ error: 'invalid_request', error_description: 'Request body must be a JSON object.' }, { status: 400 });
+    }
+
+    const { scopes = OAUTH_DEFAULT_SCOPES, prompt } = body;
+    if (!Array.isArray(scopes) || scopes.some(scope => typeof scope !== 'string' || !scope)) {
+        return NextResponse.json({ error: 'invalid_request', error_description: 'scopes must be a list of scope names.' }, { status: 400 });
+    }
+    if (prompt !== undefined && !ALLOWED_PROMPTS.includes(prompt as typeof ALLOWED_PROMPTS[number])) {
+        return NextResponse.json({ error: 'invalid_request', error_description: `Unsupported prompt: ${prompt}.` }, { status: 400 });
+    }
+
+    try {
+        const { authorizationUrl, state, cookieValue } = await startAuthorizationRequest({
+            scopes,
+            prompt: prompt as typeof ALLOWED_PROMPTS[number] | undefined,
+        });
+        console.log(`[API /api/auth/authorize] Started authorization request (scope: ${scopes.join(' ')}).`);
+        const response = NextResponse.json({ authorizationUrl, state }, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+        setAuthorizationRequestCookie(response, cookieValue);
+        return response;
+    } catch (error: any) {
+        console.error('[API /api/auth/authorize] Failed to start the authorization request:', error);
+        return NextResponse.json({ error: 'server_error', error_description: `Could not start the authorization request: ${error.message}` }, { status: 502 });
+    }
+}
@@ -1,78 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '../../../../utils/supabase-admin'; // Keep for find/create user
-import { AUTH_WORKER_URL } from '@/lib/constants'; // Import worker URL
+import { getBearerToken, type IntrospectionResponse } from '@/lib/auth/introspect';
+import { verifyAccessToken } from '@/lib/auth/verify-token';
+import { findSupabaseUserIdByEmail, linkIdentity, rememberLinkedUser, resolveSupabaseUserId } from '@/lib/auth/identity';
+import { getSessionFromRequest, updateSession } from '@/lib/auth/session';
+import { getLinkIntentFromRequest, clearLinkIntentCookie } from '@/lib/auth/link-intent';
 
 interface LinkRequestBody {
     hankoUserId?: string;
-    hankoEmail?: string;
+    hankoEmail?: string; // Optional when the session's OIDC profile provides the email
     currentSupabaseUserId?: string;
 }
 
-// Define structure of a successful Introspection response from auth-worker
-interface IntrospectionResponse {
-    active: boolean;
-    scope?: string;
-    client_id?: string;
-    sub?: string; // Subject (user identifier used by auth-worker, likely hankoUserId)
-    exp?: number;
-    iat?: number;
-    token_type?: string;
-    // --- Crucially includes props embedded in the token ---
-    email?: string;
-    hankoUserId?: string; // Should match sub
-    name?: string;
-    // ... any other props you added ...
-}
-
 export async function POST(req: NextRequest) {
     console.log("[link-supabase] Received POST request.");
-    let requestingUser: any = null; // <-- Declare outside try block
-    let introspectionData: IntrospectionResponse; // <-- Declare outside try block
+    let introspectionData: IntrospectionResponse; // Assigned by the verification step below
 
     try {
-        // 1. Get the token from the header
-        const token = req.headers.get('authorization')?.replace('Bearer ', '') || null;
+        // 1. Get the token from the header, or from the BFF session
+        const bearerToken = getBearerToken(req.headers.get('authorization'));
+        const session = bearerToken ? null : await getSessionFromRequest(req);
+        const token = bearerToken || session?.accessToken;
         if (!token) {
             return NextResponse.json({ error: 'Unauthorized', message: 'No token provided for linking.' }, { status: 401 });
         }
 
-        // 2. Call the Auth Worker's Introspection Endpoint
-        const introspectionUrl = `${AUTH_WORKER_URL}/introspect`;
-        const introspectParams = new URLSearchParams();
-        introspectParams.append('token', token);
-        // Optional: Add client credentials if your introspection endpoint requires them (unlikely for public client flow)
-        // introspectParams.append('client_id', 'YOUR_MCP_AUTH_CLIENT_ID'); 
-        
-        console.log(`[link-supabase] Calling introspection endpoint: ${introspectionUrl}`);
-        try { // <-- Inner try for introspection fetch
-            const introspectResponse = await fetch(introspectionUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                body: introspectParams.toString(),
-                cache: 'no-store',
-            });
+        // 2. Verify the token (locally for JWTs, otherwise via the Auth Worker's Introspection Endpoint)
+        try { // Separate try: verification failures map to 401/502
+            introspectionData = await verifyAccessToken(token);
             
-            introspectionData = await introspectResponse.json();
-            
-            if (!introspectResponse.ok || !introspectionData.active) {
+            if (!introspectionData.active) {
                  console.error("[link-supabase] Token introspection failed or token inactive:", introspectionData);
                  const message = introspectionData?.active === false ? 'Token is inactive or invalid.' : 'Token introspection failed.';
                  return NextResponse.json({ error: 'Unauthorized', message: message }, { status: 401 });
             }
             console.log("[link-supabase] Token introspection successful:", introspectionData);
 
-            // ---> Assign requestingUser from introspection data if successful <---
-            // Use the 'sub' (subject) from introspection, assuming it's the unique ID used by Supabase admin
-            // Or adapt if your introspection returns the Supabase User ID directly
-            const introspectedSub = introspectionData.sub; // Or another relevant field
-            if (!introspectedSub) {
+            if (!introspectionData.sub) {
                  console.error("[link-supabase] Subject (sub) missing from introspection response.");
                  return NextResponse.json({ error: 'linking_error', message: 'Could not verify token subject.' }, { status: 500 });
             }
-            // We don't have the full Supabase user object here, just the ID (sub) verified by introspection
-            // Let's use the 'sub' as the effective user ID confirmed by the token.
-            requestingUser = { id: introspectedSub }; // Simulate user object with just ID
-            console.log(`[link-supabase] Linking request validated for subject: ${requestingUser.id}`);
+            if (bearerToken && introspectionData.cnf?.jkt) {
+                 // A bound token without its proof key is not proof of anything; the browser links via its session
+                 console.warn("[link-supabase] Rejected a DPoP-bound token sent as a bearer token.");
+                 return NextResponse.json({ error: 'invalid_token', message: 'DPoP-bound tokens cannot be used as bearer tokens.' }, { status: 401 });
+            }
+            console.log(`[link-supabase] Linking request validated for subject: ${introspectionData.sub}`);
 
         } catch (introspectionError: any) {
              console.error("[link-supabase] Error calling introspection endpoint:", introspectionError);
@@ -83,8 +56,8 @@ export async function POST(req: NextRequest) {
         const body: LinkRequestBody = await req.json();
         const { hankoUserId: hankoIdFromBody, hankoEmail: emailFromBody, currentSupabaseUserId } = body;
 
-        if (!hankoIdFromBody || !emailFromBody) {
-            return NextResponse.json({ error: 'Bad Request', message: 'Missing Hanko user ID or email in request body.' }, { status: 400 });
+        if (!hankoIdFromBody) {
+            return NextResponse.json({ error: 'Bad Request', message: 'Missing Hanko user ID in request body.' }, { status: 400 });
         }
 
         // 4. Extract validated Hanko ID from Introspection & Cross-Reference
@@ -100,74 +73,85 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: 'Mismatch Error', message: 'User identifier mismatch during linking.' }, { status: 400 });
         }
 
-        // ---> Use email from the REQUEST BODY for linking <--- 
-        const emailToLink = emailFromBody; 
+        // The email must be the one the authorization server vouches for; a body-only email could claim any account.
+        // Without an email claim in the token, fall back to the verified email of the session's validated ID token.
+        const profile = session?.profile?.sub === validatedHankoId ? session.profile : null;
+        const vouchedEmail = introspectionData.email || (profile?.emailVerified ? profile.email : null);
+        if (!vouchedEmail) {
+            console.error(`[link-supabase] Neither the token nor the session profile for ${validatedHankoId} carries a verified email; cannot link by email.`);
+            return NextResponse.json({ error: 'linking_error', message: 'The authenticated identity has no verified email address.' }, { status: 400 });
+        }
+        if (emailFromBody && vouchedEmail.toLowerCase() !== emailFromBody.toLowerCase()) {
+            console.error(`[link-supabase] SECURITY ALERT: Email mismatch! Vouched=${vouchedEmail}, Body=${emailFromBody}`);
+            return NextResponse.json({ error: 'Mismatch Error', message: 'Email does not match the authenticated identity.' }, { status: 403 });
+        }
+        const emailToLink = vouchedEmail;
         console.log(`[link-supabase] Proceeding to link/find Supabase user for email: ${emailToLink} (Hanko ID: ${validatedHankoId})`);
 
-        // 5. Find or Create Supabase User (using emailToLink)
-        let finalSupabaseUserId: string | undefined = currentSupabaseUserId;
-        let userAlreadyExisted = false;
-        
-        if (!finalSupabaseUserId) {
-            try {
-                console.log(`[link-supabase] Attempting create for: ${emailToLink}`);
-                const { data: newUser, error: createError } = await supabaseAdmin.auth.admin.createUser({
-                    email: emailToLink,
-                    email_confirm: true,
-                    app_metadata: { hanko_id: validatedHankoId }
-                });
-
-                // Log the result explicitly, even if there's an error object
-                console.log('[link-supabase] createUser response:', { data: newUser, error: createError });
+        // Set when the user is adding this identity to an existing account from the Linked identities page
+        const linkIntent = await getLinkIntentFromRequest(req);
+        const respond = (responseBody: object, init?: ResponseInit) => {
+            const response = NextResponse.json(responseBody, init);
+            if (linkIntent) clearLinkIntentCookie(response);
+            return response;
+        };
 
-                if (createError) {
-                    if (createError.status === 422 || /already registered|duplicate key/i.test(createError.message)) {
-                        console.log(`[link-supabase] User with email ${emailToLink} already exists.`);
-                        userAlreadyExisted = true;
+        // 5. Find or Create Supabase User (using emailToLink)
+        // Never trust the client-supplied Supabase ID on its own: it is only reused when it is
+        // already linked to this Hanko identity, otherwise a caller could claim another account.
+        let finalSupabaseUserId: string | null;
+        try {
+            const existingLinkId = await resolveSupabaseUserId(validatedHankoId, { bypassCache: true });
+            if (currentSupabaseUserId && currentSupabaseUserId !== existingLinkId) {
+                console.warn(`[link-supabase] Ignoring client-supplied Supabase User ID ${currentSupabaseUserId}; it is not linked to Hanko ID ${validatedHankoId}.`);
+            }
+            finalSupabaseUserId = existingLinkId;
+
+            if (linkIntent) {
+                console.log(`[link-supabase] Linking Hanko ID ${validatedHankoId} to account ${linkIntent.supabaseUserId} (started by ${linkIntent.initiatedBy}).`);
+                finalSupabaseUserId = existingLinkId || await linkIdentity(validatedHankoId, linkIntent.supabaseUserId, emailToLink);
+                if (finalSupabaseUserId !== linkIntent.supabaseUserId) {
+                    console.warn(`[link-supabase] Hanko ID ${validatedHankoId} already belongs to another account (${finalSupabaseUserId}).`);
+                    return respond({ error: 'identity_already_linked', message: 'This identity is already linked to a different account.' }, { status: 409 });
+                }
+            } else if (finalSupabaseUserId) {
+                console.log(`[link-supabase] Using already linked Supabase User ID: ${finalSupabaseUserId}`);
+            } else {
+                let targetUserId = await findSupabaseUserIdByEmail(emailToLink);
+                if (targetUserId) {
+                    console.log(`[link-supabase] Found existing Supabase user ID: ${targetUserId}`);
+                } else {
+                    console.log(`[link-supabase] Attempting create for: ${emailToLink}`);
+                    const { data: newUser, error: createError } = await supabaseAdmin.auth.admin.createUser({
+                        email: emailToLink,
+                        email_confirm: true,
+                    });
+                    if (createError) {
+                        // A concurrent request may have created the user between our lookup and createUser
+                        if (createError.status === 422 || /already registered|duplicate key/i.test(createError.message)) {
+                            console.log(`[link-supabase] User with email ${emailToLink} was created concurrently.`);
+                            targetUserId = await findSupabaseUserIdByEmail(emailToLink);
+                        } else {
+                            console.error("[link-supabase] createUser threw an unexpected error:", createError);
+                            throw createError;
+                        }
                     } else {
-                        // Rethrow *other* unexpected creation errors
-                        console.error("[link-supabase] createUser threw an unexpected error:", createError);
-                        throw createError; 
+                        targetUserId = newUser?.user?.id || null;
+                        console.log(`[link-supabase] Created new Supabase user: ${targetUserId}`);
                     }
-                } else if (newUser?.user?.id) { // Success case
-                    finalSupabaseUserId = newUser.user.id;
-                    console.log(`[link-supabase] Created new Supabase user: ${finalSupabaseUserId}`);
-                } else {
-                    // Handle unexpected success response without user data
-                     console.error("[link-supabase] createUser succeeded but returned no user data.");
-                     throw new Error("User creation succeeded but no user data returned.");
                 }
-            } catch (supabaseError: any) {
-                 // Log the caught error more clearly
-                 console.error("[link-supabase] EXCEPTION during Supabase user creation:", supabaseError);
-                 // Log the error name and message
-                 console.error(`[link-supabase] Error Name: ${supabaseError.name}, Message: ${supabaseError.message}`);
-                 // Optionally log the stack trace if helpful
-                 // console.error(supabaseError.stack);
-
-                 return NextResponse.json({ 
-                     error: 'supabase_user_error', 
-                     message: `Could not process Supabase user: ${supabaseError.message || 'Unknown creation error'}` 
-                 }, { status: 500 });
-            }
-
-            if (userAlreadyExisted) {
-                 try {
-                    console.log(`[link-supabase] Fetching existing ID for: ${emailToLink}`);
-                    // ... list/find logic using emailToLink ...
-                    const { data: usersList, error: listError } = await supabaseAdmin.auth.admin.listUsers({ page: 1, perPage: 50 });
-                    if (listError) throw listError;
-                    const existingUser = usersList?.users.find(u => u.email === emailToLink);
-                    if (existingUser) {
-                        finalSupabaseUserId = existingUser.id;
-                        console.log(`[link-supabase] Found existing Supabase user ID: ${finalSupabaseUserId}`);
-                        await supabaseAdmin.auth.admin.updateUserById(finalSupabaseUserId, { app_metadata: { hanko_id: validatedHankoId } });
-                    } else { throw new Error(`Failed to find existing user ${emailToLink} after duplicate error.`); }
-                } catch(findError: any) { /* ... return 500 ... */ }
+                if (!targetUserId) {
+                    throw new Error(`Could not find or create a Supabase user for ${emailToLink}.`);
+                }
+                // Idempotent: a concurrent link for the same identity wins and is returned here
+                finalSupabaseUserId = await linkIdentity(validatedHankoId, targetUserId, emailToLink);
             }
-        } else {
-             console.log(`[link-supabase] Using provided Supabase User ID: ${finalSupabaseUserId}`);
-             await supabaseAdmin.auth.admin.updateUserById(finalSupabaseUserId, { app_metadata: { hanko_id: validatedHankoId } });
+        } catch (supabaseError: any) {
+            console.error("[link-supabase] EXCEPTION while resolving or linking the Supabase user:", supabaseError);
+            return NextResponse.json({
+                error: 'supabase_user_error',
+                message: `Could not process Supabase user: ${supabaseError.message || 'Unknown error'}`
+            }, { status: 500 });
         }
 
         // 6. Verify ID exists
@@ -176,17 +160,14 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: 'Internal Server Error', message: 'Could not determine Supabase User ID.' }, { status: 500 });
          }
         
-        // 7. REMOVE Security Check comparing token sub and Supabase ID
-        /* 
-        if(validatedTokenSubjectId !== finalSupabaseUserId) { 
-            console.error(`[link-supabase] SECURITY ALERT: Token subject ID (${validatedTokenSubjectId}) does not match linked Supabase user ID (${finalSupabaseUserId}) for email ${emailToLink}.`);
-             return NextResponse.json({ error: 'Mismatch Error', message: 'User identifier mismatch during linking.' }, { status: 400 });
+        // 7. Return Success
+        rememberLinkedUser(validatedHankoId, finalSupabaseUserId);
+        if (session) {
+            // Remember the linked user on the session so the browser can read it from /api/auth/session
+            await updateSession(session, { supabaseUserId: finalSupabaseUserId });
         }
-        */
-
-        // 8. Return Success
         console.log(`[link-supabase] Linking successful. Supabase User ID: ${finalSupabaseUserId}`);
-        return NextResponse.json({ success: true, supabaseUserId: finalSupabaseUserId });
+        return respond({ success: true, supabaseUserId: finalSupabaseUserId });
 
     } catch (error: any) {
         console.error('[link-supabase] Unhandled Error:', error);
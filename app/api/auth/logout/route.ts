@@ -0,0 +1,59 @@
+/**
+ * @description
+ * API Route Handler for signing the user out everywhere the server can reach.
+ * - Revokes the session's refresh and access tokens at the auth-worker (RFC 7009).
+ * - Destroys the server-side session and clears the session cookie.
+ * - Clears the Supabase auth cookies maintained by `middleware.ts`.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/session: Session lookup, destruction and cookie helpers.
+ * - lib/auth/revoke: Token revocation against the auth-worker.
+ *
+ * @notes
+ * - The Hanko session lives in the browser and is ended client-side by `AuthProvider.signOut`.
+ * - Revocation failures are reported in the response but never block the local sign-out.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest, destroySession, clearSessionCookie } from '@/lib/auth/session';
+import { revokeToken } from '@/lib/auth/revoke';
+
+// Cookies written by @supabase/ssr are named `sb-<project-ref>-auth-token` (optionally chunked as `.0`, `.1`, ...)
+const SUPABASE_COOKIE_PREFIX = 'sb-';
+
+/**
+ * Revokes the current session's tokens and ends the session.
+ */
+export async function POST(req: NextRequest) {
+    console.log('[API /api/auth/logout POST] Received sign-out request.');
+    try {
+        const session = await getSessionFromRequest(req);
+        let refreshTokenRevoked = false;
+        let accessTokenRevoked = false;
+
+        if (session) {
+            // Revoke the refresh token first: it is the long-lived credential
+            if (session.refreshToken) {
+                refreshTokenRevoked = await revokeToken(session.refreshToken, 'refresh_token');
+            }
+            accessTokenRevoked = await revokeToken(session.accessToken, 'access_token');
+            await destroySession(session);
+            console.log(`[API /api/auth/logout POST] Session ended (refresh token revoked: ${refreshTokenRevoked}, access token revoked: ${accessTokenRevoked}).`);
+        } else {
+            console.log('[API /api/auth/logout POST] No active session; clearing cookies only.');
+        }
+
+        const response = NextResponse.json({ refreshTokenRevoked, accessTokenRevoked }, { status: 200 });
+        clearSessionCookie(response);
+        req.cookies.getAll()
+            .filter(cookie => cookie.name.startsWith(SUPABASE_COOKIE_PREFIX))
+            .forEach(cookie => response.cookies.delete(cookie.name));
+        return response;
+    } catch (error: any) {
+        console.error('[API /api/auth/logout POST] Error:', error);
+        const response = NextResponse.json({ error: 'server_error', message: 'Failed to sign out completely.' }, { status: 500 });
+        clearSessionCookie(response);
+        return response;
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * @description
+ * API Route Handler behind the token inspector (`/account/session`).
+ * - GET /api/auth/session/inspect: Decoded headers and claims of the session's access and
+ *   refresh tokens, with masked values.
+ * - POST /api/auth/session/inspect: On-demand actions for one of those tokens:
+ *   `{ action: 'introspect', token }` asks the auth-worker's introspection endpoint,
+ *   `{ action: 'reveal', token: 'access_token' }` returns the raw access token (for copying).
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/session: Session lookup.
+ * - lib/auth/token-inspection: Decoding and masking.
+ * - lib/auth/introspect: Token introspection.
+ * - lib/constants: How recent a sign-in revealing requires.
+ *
+ * @notes
+ * - Session cookie only: bearer tokens are not accepted, so the raw values never leave the
+ *   session unless the signed-in user asks to reveal them.
+ * - The refresh token is never revealed. The access token is only revealed within
+ *   TOKEN_REVEAL_MAX_AUTH_AGE_SECONDS of signing in (403 `login_required` otherwise), so a
+ *   hijacked or unattended session cannot export it without the user re-authenticating.
+ * - Responses are marked `no-store`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import type { SessionRecord } from '@/lib/auth/session-store';
+import { describeToken, type InspectableTokenType } from '@/lib/auth/token-inspection';
+import { introspectToken } from '@/lib/auth/introspect';
+import { TOKEN_REVEAL_MAX_AUTH_AGE_SECONDS } from '@/lib/constants';
+
+interface InspectRequestBody {
+    action?: 'introspect' | 'reveal';
+    token?: InspectableTokenType;
+}
+
+const NO_STORE_HEADERS = { 'Cache-Control': 'no-store' };
+
+async function loadSession(req: NextRequest): Promise<SessionRecord | NextResponse> {
+    try {
+        const session = await getSessionFromRequest(req);
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized', message: 'No active session.' }, { status: 401 });
+        }
+        return session;
+    } catch (error: any) {
+        console.error('[API /api/auth/session/inspect] Failed to load session:', error);
+        return NextResponse.json({ error: 'server_error', message: 'Failed to load session.' }, { status: 500 });
+    }
+}
+
+function selectToken(session: SessionRecord, type: InspectableTokenType | undefined): string | null {
+    if (type === 'access_token') return session.accessToken;
+    if (type === 'refresh_token') return session.refreshToken;
+    return null;
+}
+
+/**
+ * Describes the session's tokens.
+ */
+export async function GET(req: NextRequest) {
+    const session = await loadSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const tokens = [describeToken('access_token', session.accessToken, session.expiresAt)];
+    if (session.refreshToken) {
+        tokens.push(describeToken('refresh_token', session.refreshToken));
+    }
+    return NextResponse.json({ tokens, sessionExpiresAt: session.expiresAt }, { status: 200, headers: NO_STORE_HEADERS });
+}
+
+/**
+ * Introspects or reveals one of the session's tokens.
+ */
+export async function POST(req: NextRequest) {
+    const session = await loadSession(req);
+    if (session instanceof NextResponse) return session;
+
+    let body: InspectRequestBody;
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json({ error: 'Bad Request', message: 'Invalid JSON body.' }, { status: 400 });
+    }
+    const token = selectToken(session, body.token);
+    if (!token) {
+        return NextResponse.json({ error: 'Bad Request', message: 'Unknown or missing token.' }, { status: 400 });
+    }
+
+    if (body.action === 'reveal') {
+        if (body.token !== 'access_token') {
+            console.warn(`[API /api/auth/session/inspect POST] Refused to reveal ${body.token} for session ${session.id.substring(0, 8)}...`);
+            return NextResponse.json({ error: 'Forbidden', message: 'Only the access token can be revealed.' }, { status: 403 });
+        }
+        // Each login creates a new session, so its creation time is when the user last authenticated
+        if (Date.now() - session.createdAt > TOKEN_REVEAL_MAX_AUTH_AGE_SECONDS * 1000) {
+            return NextResponse.json(
+                { error: 'login_required', message: 'Sign in again to reveal the access token.' },
+                { status: 403, headers: NO_STORE_HEADERS }
+            );
+        }
+        console.log(`[API /api/auth/session/inspect POST] Revealing ${body.token} for session ${session.id.substring(0, 8)}...`);
+        return NextResponse.json({ value: token }, { status: 200, headers: NO_STORE_HEADERS });
+    }
+    if (body.action === 'introspect') {
+        try {
+            const result = await introspectToken(token);
+            return NextResponse.json({ result }, { status: 200, headers: NO_STORE_HEADERS });
+        } catch (error: any) {
+            console.error('[API /api/auth/session/inspect POST] Introspection failed:', error);
+            return NextResponse.json({ error: 'server_error', message: 'Failed to reach the introspection endpoint.' }, { status: 502 });
+        }
+    }
+    return NextResponse.json({ error: 'Bad Request', message: "Action must be 'introspect' or 'reveal'." }, { status: 400 });
+}
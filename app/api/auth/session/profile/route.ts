@@ -0,0 +1,49 @@
+/**
+ * @description
+ * API Route Handler completing the profile of a DPoP-bound session.
+ * - POST /api/auth/session/profile: Calls the auth-worker's userinfo endpoint with the session's
+ *   access token and the browser's `DPoP` proof for it, stores the claims the ID token lacked on
+ *   the session and returns the session summary.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/session: Session lookup, update and summary.
+ * - lib/auth/user-profile: Userinfo with a forwarded proof.
+ *
+ * @notes
+ * - The token route cannot call userinfo for a DPoP-bound token, since only the browser holds the
+ *   key (see lib/auth/user-profile). The browser calls this route right after the login.
+ * - Bearer sessions, sessions without a profile (no `openid`) and complete profiles are returned
+ *   unchanged; a DPoP session with an incomplete profile needs the proof (400 `invalid_request`).
+ * - A userinfo failure leaves the profile as it is; the summary is still returned.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest, updateSession, toSessionSummary } from '@/lib/auth/session';
+import { completeUserProfile, isProfileIncomplete } from '@/lib/auth/user-profile';
+
+/**
+ * Completes the session's profile from userinfo and returns the session summary.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        let session = await getSessionFromRequest(req);
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized', message: 'No active session.' }, { status: 401 });
+        }
+        if (session.tokenType === 'DPoP' && session.profile && isProfileIncomplete(session.profile)) {
+            const proof = req.headers.get('dpop');
+            if (!proof) {
+                return NextResponse.json({ error: 'invalid_request', message: 'A DPoP proof for the userinfo endpoint is required.' }, { status: 400 });
+            }
+            const profile = await completeUserProfile(session.profile, session.accessToken, proof);
+            if (profile !== session.profile) {
+                session = await updateSession(session, { profile });
+            }
+        }
+        return NextResponse.json(await toSessionSummary(session), { status: 200 });
+    } catch (error: any) {
+        console.error('[API /api/auth/session/profile POST] Error:', error);
+        return NextResponse.json({ error: 'server_error', message: 'Failed to complete the profile.' }, { status: 500 });
+    }
+}
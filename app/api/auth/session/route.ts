@@ -0,0 +1,50 @@
+/**
+ * @description
+ * API Route Handler exposing the current backend-for-frontend session to the browser.
+ * - GET /api/auth/session: Returns the non-secret session summary (status, scope, expiry, linked user).
+ * - DELETE /api/auth/session: Ends the session and clears the session cookie.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/session: Session lookup and cookie helpers.
+ *
+ * @notes
+ * - Tokens are never included in responses from this route.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest, destroySession, clearSessionCookie, toSessionSummary } from '@/lib/auth/session';
+
+/**
+ * Returns the session summary, or `{ authenticated: false }` when there is no valid session.
+ */
+export async function GET(req: NextRequest) {
+    try {
+        const session = await getSessionFromRequest(req);
+        if (!session) {
+            return NextResponse.json({ authenticated: false }, { status: 200 });
+        }
+        return NextResponse.json(await toSessionSummary(session), { status: 200 });
+    } catch (error: any) {
+        console.error('[API /api/auth/session GET] Error:', error);
+        return NextResponse.json({ error: 'server_error', message: 'Failed to load session.' }, { status: 500 });
+    }
+}
+
+/**
+ * Destroys the server-side session and clears the cookie.
+ */
+export async function DELETE(req: NextRequest) {
+    try {
+        const session = await getSessionFromRequest(req);
+        if (session) {
+            await destroySession(session);
+        }
+        const response = new NextResponse(null, { status: 204 });
+        clearSessionCookie(response);
+        return response;
+    } catch (error: any) {
+        console.error('[API /api/auth/session DELETE] Error:', error);
+        return NextResponse.json({ error: 'server_error', message: 'Failed to end session.' }, { status: 500 });
+    }
+}
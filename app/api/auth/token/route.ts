@@ -1,20 +1,41 @@
 /**
  * @description
- * API Route Handler for exchanging an authorization code for OAuth tokens.
+ * API Route Handler for exchanging an authorization code for OAuth tokens and
+ * for renewing them with a refresh token.
  * This route acts as a backend-for-frontend (BFF) layer. It receives the code
- * and PKCE verifier from the client-side component (`MCPClient`) and performs
- * the server-to-server call to the actual Authorization Server's (`auth-worker`)
- * token endpoint.
+ * and state from the client-side component (`MCPClient`), or a renewal
+ * request from `AuthProvider`, and performs the server-to-server call to the actual
+ * Authorization Server's (`auth-worker`) token endpoint. The resulting tokens are
+ * kept in a server-side session; the browser only receives an encrypted, httpOnly
+ * session cookie and a non-secret session summary.
  *
  * @dependencies
  * - next/server: Provides NextResponse and NextRequest types.
- * - lib/constants: Provides AUTH_WORKER_URL, OAUTH_CLIENT_ID, OAUTH_REDIRECT_URI.
+ * - lib/constants: Provides OAUTH_CLIENT_ID, OAUTH_REDIRECT_URI, TOKEN_REFRESH_LEEWAY_SECONDS.
+ * - lib/auth/discovery: Provides the token endpoint from the auth-worker's metadata.
+ * - lib/auth/session: Server-side session creation and the session cookie.
+ * - lib/auth/authorization-request: PKCE verifier and nonce of the login started by `/api/auth/authorize`.
+ * - lib/auth/user-profile: ID token validation and the user profile stored with the session.
  *
  * @notes
  * - Handles POST requests to /api/auth/token.
- * - Expects 'code' and 'codeVerifier' in the JSON request body.
- * - Calls the auth-worker's /token endpoint.
- * - Returns token data or error details back to the client component.
+ * - `grantType: 'authorization_code'` (default) expects 'code' and 'state' in the JSON body. The state
+ *   must match the authorization request cookie, which supplies the PKCE verifier and is cleared afterwards.
+ *   It replaces (and revokes) any previous session, e.g. after a step-up authorization.
+ * - `grantType: 'refresh_token'` renews the tokens of the session referenced by the session cookie.
+ *   If the session is not yet inside the renewal window (another tab already renewed it),
+ *   the current summary is returned without contacting the auth-worker.
+ * - Calls the token endpoint advertised in the auth-worker's metadata.
+ * - DPoP: the browser's `DPoP` proof header is forwarded to the token endpoint, and `DPoP-Nonce`
+ *   is passed back so the browser can retry with the nonce. Whether the session's tokens are
+ *   DPoP-bound is recorded from the response's `token_type`.
+ * - OIDC: an `id_token` in the response is validated (including the nonce for code exchanges) and,
+ *   together with userinfo, becomes the session's profile. Tokens that come with an invalid ID token
+ *   are revoked and the request fails with `invalid_token`. Userinfo for DPoP-bound tokens is left to
+ *   the browser, which has the key (see app/api/auth/session/profile).
+ * - Returns the session summary (scope, expiry, linked user, profile) or error details back to the client component.
+ * - A session store failure answers 500 `server_error` naming what failed (a new login's tokens are then
+ *   revoked); 503 is kept for an auth-worker that cannot be reached.
  * - This approach keeps sensitive token exchange logic off the client-side,
  *   although for a public client like this demo, the benefit is mainly structure;
  *   for confidential clients, this is where the client secret would be used securely.
@@ -22,25 +43,40 @@
 
 import { NextResponse, type NextRequest } from 'next/server';
 import {
-	AUTH_WORKER_URL, // URL of your separate auth worker
 	OAUTH_CLIENT_ID, // Client ID for this Next.js app
-	OAUTH_REDIRECT_URI // Redirect URI used in the initial auth request
+	OAUTH_REDIRECT_URI, // Redirect URI used in the initial auth request
+	TOKEN_REFRESH_LEEWAY_SECONDS // Renewal window shared with AuthProvider
 } from '@/lib/constants';
-import { supabaseAdmin } from '@/utils/supabase-admin'; // Import your admin client
+import { getAuthorizationServerMetadata } from '@/lib/auth/discovery';
+import { revokeToken } from '@/lib/auth/revoke';
+import {
+	createSession,
+	updateSessionTokens,
+	destroySession,
+	getSessionFromRequest,
+	setSessionCookie,
+	clearSessionCookie,
+	toSessionSummary,
+} from '@/lib/auth/session';
+import { getAuthorizationRequest, hasAuthorizationRequest, clearAuthorizationRequestCookie } from '@/lib/auth/authorization-request';
+import { resolveUserProfile, IdTokenValidationError, type UserProfile } from '@/lib/auth/user-profile';
+import type { SessionRecord } from '@/lib/auth/session-store';
 
 // Define expected request body structure
 interface TokenRequestBody {
+	grantType?: 'authorization_code' | 'refresh_token';
 	code?: string;
-	codeVerifier?: string;
+	state?: string;
 }
 
 // Define expected success response structure from auth-worker
 interface AuthWorkerTokenResponse {
     access_token: string;
-    token_type: 'Bearer';
+    token_type: 'Bearer' | 'DPoP';
     expires_in: number;
     refresh_token?: string;
     scope: string;
+    id_token?: string; // When `openid` was granted
 }
 
 // Define expected error response structure from auth-worker
@@ -49,8 +85,23 @@ interface AuthWorkerErrorResponse {
     error_description?: string;
 }
 
+/** Passes the auth-worker's `DPoP-Nonce` on to the browser, which signs the proofs. */
+function forwardDpopNonce(upstream: Response, response: NextResponse): NextResponse {
+    const nonce = upstream.headers.get('dpop-nonce');
+    if (nonce) {
+        response.headers.set('DPoP-Nonce', nonce);
+    }
+    return response;
+}
+
+/** Answers a failure of the session store, naming what could not be done (e.g. 'store the session'). */
+function sessionStoreError(action: string, error: unknown): NextResponse {
+    console.error(`[Token Route] Failed to ${action}:`, error);
+    return NextResponse.json({ error: 'server_error', error_description: `Failed to ${action}.` }, { status: 500 });
+}
+
 /**
- * Handles POST requests to exchange authorization code for tokens.
+ * Handles POST requests to exchange an authorization code (or a refresh token) for tokens.
  * @param request - The incoming NextRequest object.
  * @returns A NextResponse object with token data or error details.
  */
@@ -64,41 +115,105 @@ export async function POST(request: NextRequest) {
 		console.error('Failed to parse request body:', error);
 		return NextResponse.json({ error: 'invalid_request', error_description: 'Invalid request body. JSON expected.' }, { status: 400 });
 	}
-
-	const { code, codeVerifier } = requestBody;
-
-	// Validate input
-	if (!code || !codeVerifier) {
-        console.error('Missing code or codeVerifier in request body.');
-		return NextResponse.json({ error: 'invalid_request', error_description: 'Missing required parameters: code, codeVerifier.' }, { status: 400 });
+	if (!requestBody || typeof requestBody !== 'object' || Array.isArray(requestBody)) {
+		return NextResponse.json({ error: 'invalid_request', error_description: 'Request body must be a JSON object.' }, { status: 400 });
 	}
 
+	const { grantType = 'authorization_code', code, state } = requestBody;
+
     // --- Prepare request to Auth Worker's Token Endpoint ---
-    const tokenUrl = `${AUTH_WORKER_URL}/token`;
+    let tokenUrl: string;
+    try {
+        tokenUrl = (await getAuthorizationServerMetadata()).token_endpoint;
+    } catch (discoveryError: any) {
+        console.error('Failed to discover authorization server metadata:', discoveryError);
+        return NextResponse.json({ error: 'server_error', error_description: 'Could not discover the authorization server endpoints.' }, { status: 502 });
+    }
 	const params = new URLSearchParams();
-	params.append('grant_type', 'authorization_code');
-	params.append('code', code);
-	params.append('redirect_uri', OAUTH_REDIRECT_URI); // Must match the one used in /authorize
-	params.append('client_id', OAUTH_CLIENT_ID);       // Client ID of this Next.js app
-	params.append('code_verifier', codeVerifier);     // PKCE code verifier
-
-    console.log(`Sending request to Auth Worker token endpoint: ${tokenUrl}`);
-    console.log('Token request params:', {
-        grant_type: 'authorization_code',
-        code: '***', // Mask code
-        redirect_uri: OAUTH_REDIRECT_URI,
-        client_id: OAUTH_CLIENT_ID,
-        code_verifier: '***' // Mask verifier
-    });
+	let nonce: string | null | undefined; // The ID token of a code exchange must carry it (null: none was sent)
+
+	// The refresh token never leaves the server: it is read from the session
+	let existingSession: SessionRecord | null = null;
+	if (grantType === 'refresh_token') {
+		try {
+			existingSession = await getSessionFromRequest(request);
+		} catch (sessionError) {
+			return sessionStoreError('load session', sessionError);
+		}
+	}
 
+	if (grantType === 'refresh_token') {
+		// Validate input
+		if (!existingSession?.refreshToken) {
+			console.error('No renewable session found for refresh request.');
+			return NextResponse.json({ error: 'invalid_grant', error_description: 'No renewable session.' }, { status: 401 });
+		}
+		// Another tab may have renewed the shared session a moment ago; don't spend the rotated refresh token twice
+		if (existingSession.expiresAt - Date.now() > TOKEN_REFRESH_LEEWAY_SECONDS * 1000) {
+			console.log('Session was renewed recently; returning the current session summary.');
+			return NextResponse.json(await toSessionSummary(existingSession), { status: 200 });
+		}
+		params.append('grant_type', 'refresh_token');
+		params.append('refresh_token', existingSession.refreshToken);
+		params.append('client_id', OAUTH_CLIENT_ID);
+
+		console.log(`Sending refresh request to Auth Worker token endpoint: ${tokenUrl}`);
+		console.log('Token request params:', {
+			grant_type: 'refresh_token',
+			refresh_token: '***', // Mask refresh token
+			client_id: OAUTH_CLIENT_ID,
+		});
+	} else if (grantType === 'authorization_code') {
+		// Validate input
+		if (!code || !state) {
+			console.error('Missing code or state in request body.');
+			return NextResponse.json({ error: 'invalid_request', error_description: 'Missing required parameters: code, state.' }, { status: 400 });
+		}
+		// The verifier never left the server; a mismatching state means a forged, replayed or stale callback
+		if (!hasAuthorizationRequest(request)) {
+			return NextResponse.json({ error: 'missing_verifier', error_description: 'No authorization request in progress; it may have expired. Please sign in again.' }, { status: 400 });
+		}
+		const authorizationRequest = await getAuthorizationRequest(request, state);
+		if (!authorizationRequest) {
+			const mismatchResponse = NextResponse.json({ error: 'invalid_request', error_description: 'State mismatch or expired authorization request.' }, { status: 400 });
+			clearAuthorizationRequestCookie(mismatchResponse);
+			return mismatchResponse;
+		}
+		const { codeVerifier } = authorizationRequest;
+		nonce = authorizationRequest.nonce;
+		params.append('grant_type', 'authorization_code');
+		params.append('code', code);
+		params.append('redirect_uri', OAUTH_REDIRECT_URI); // Must match the one used in the authorization request
+		params.append('client_id', OAUTH_CLIENT_ID);       // Client ID of this Next.js app
+		params.append('code_verifier', codeVerifier);     // PKCE code verifier
+
+		console.log(`Sending request to Auth Worker token endpoint: ${tokenUrl}`);
+		console.log('Token request params:', {
+			grant_type: 'authorization_code',
+			code: '***', // Mask code
+			redirect_uri: OAUTH_REDIRECT_URI,
+			client_id: OAUTH_CLIENT_ID,
+			code_verifier: '***' // Mask verifier
+		});
+	} else {
+		console.error(`Unsupported grantType requested: ${grantType}`);
+		return NextResponse.json({ error: 'unsupported_grant_type', error_description: `Unsupported grant type: ${grantType}.` }, { status: 400 });
+	}
+
+	const tokenRequestHeaders: Record<string, string> = {
+		'Content-Type': 'application/x-www-form-urlencoded',
+		// No Authorization header for public clients using PKCE
+	};
+	// Proof of possession of the browser's key, signed for the token endpoint
+	const dpopProof = request.headers.get('dpop');
+	if (dpopProof) {
+		tokenRequestHeaders['DPoP'] = dpopProof;
+	}
 
 	try {
 		const tokenResponse = await fetch(tokenUrl, {
 			method: 'POST',
-			headers: {
-				'Content-Type': 'application/x-www-form-urlencoded',
-                // No Authorization header for public clients using PKCE
-			},
+			headers: tokenRequestHeaders,
 			body: params.toString(),
             cache: 'no-store', // Ensure fresh request for token exchange
 		});
@@ -120,72 +235,96 @@ export async function POST(request: NextRequest) {
 		if (!tokenResponse.ok || 'error' in responseData) {
             // Forward the error from the auth server
             console.error('Auth Worker token endpoint returned error:', responseData);
-            const errorResponse = responseData as AuthWorkerErrorResponse;
-			return NextResponse.json(errorResponse, { status: tokenResponse.status }); // Use status from auth worker response
+            const errorResponse = forwardDpopNonce(tokenResponse, NextResponse.json(responseData as AuthWorkerErrorResponse, { status: tokenResponse.status })); // Use status from auth worker response
+            if (existingSession && (responseData as AuthWorkerErrorResponse).error === 'invalid_grant') {
+                // The refresh token is no longer usable; end the session
+                try {
+                    await destroySession(existingSession);
+                } catch (storeError) {
+                    return sessionStoreError('end the session', storeError);
+                }
+                clearSessionCookie(errorResponse);
+            }
+            // The code is spent, except when the auth-worker only asks for a retry with a DPoP nonce
+            if (grantType === 'authorization_code' && (responseData as AuthWorkerErrorResponse).error !== 'use_dpop_nonce') {
+                clearAuthorizationRequestCookie(errorResponse);
+            }
+			return errorResponse;
 		}
 
         // Token exchange successful, forward the token data
-        console.log('Token exchange successful.');
+        console.log(`Token exchange successful (grant: ${grantType}).`);
 
-        // --- REMOVE User Info Fetch Block ---
-        /*
-        const userInfoUrl = `${AUTH_WORKER_URL}/api/me`; 
-        let userEmail: string | undefined;
-        let userName: string | undefined; 
-        try {
-             console.log(`Fetching user info from: ${userInfoUrl}`);
-             const userInfoResponse = await fetch(userInfoUrl, {
-                 headers: {
-                     'Authorization': `Bearer ${tokenData.access_token}` 
-                 }
-             });
-             // ... rest of fetch and error handling ...
-             userEmail = userInfo.email; 
-             userName = userInfo.name;
-        } catch (userInfoError: any) {
-            // ... error handling ...
-             return NextResponse.json({ error: 'userinfo_error', ... }, { status: 502 });
-        }
-        */
-       // We will attempt find/create without email initially, relying on client to provide later if needed
-       let userEmail: string | undefined = undefined; // No email fetched here
-       let userName: string | undefined = undefined; // No name fetched here
-
-        // --- REMOVE Find or Create Supabase User Block ---
-        /* 
-        let supabaseUserId: string | undefined;
-        let userAlreadyExisted = false;
+        // --- Store Tokens in the Server-Side Session ---
+        // The linking happens in a separate step initiated by the client
+        const tokenData = responseData as AuthWorkerTokenResponse;
+
+        let profile: UserProfile | null;
         try {
-            if (!userEmail) { 
-                throw new Error("Cannot find or create Supabase user without an email address.");
+            profile = await resolveUserProfile(tokenData, { nonce, previous: existingSession?.profile });
+        } catch (profileError: any) {
+            if (!(profileError instanceof IdTokenValidationError)) throw profileError;
+            // Tokens that arrive with an invalid ID token cannot be trusted to belong to this login
+            console.error('[Token Route] Rejected ID token:', profileError.message);
+            if (tokenData.refresh_token) {
+                await revokeToken(tokenData.refresh_token, 'refresh_token');
             }
-            // ... rest of try block ...
-        } catch (supabaseError: any) {
-             // ... catch block ...
-             return NextResponse.json({ error: 'supabase_user_error', ... }, { status: 500 });
-        }
-        if (userAlreadyExisted) {
-             try {
-                 // ... find block ...
-            } catch(findError: any) {
-                 // ... catch block ...
-                 return NextResponse.json({ error: 'supabase_user_find_error', ... }, { status: 500 });
+            await revokeToken(tokenData.access_token, 'access_token');
+            const invalidResponse = NextResponse.json({ error: 'invalid_token', error_description: profileError.message }, { status: 502 });
+            if (existingSession) {
+                try {
+                    await destroySession(existingSession);
+                } catch (storeError) {
+                    return sessionStoreError('end the session', storeError);
+                }
+                clearSessionCookie(invalidResponse);
+            } else {
+                clearAuthorizationRequestCookie(invalidResponse);
             }
+            return invalidResponse;
         }
-        if (!supabaseUserId) {
-            // ... error check ...
-             return NextResponse.json({ error: 'linking_error', ... }, { status: 500 });
+
+        if (existingSession) {
+            let renewedSession: SessionRecord;
+            try {
+                renewedSession = await updateSessionTokens(existingSession, tokenData, profile);
+            } catch (storeError) {
+                return sessionStoreError('store the renewed tokens', storeError);
+            }
+            console.log(`[Token Route] Session tokens renewed (${renewedSession.tokenType}).`);
+            return forwardDpopNonce(tokenResponse, NextResponse.json(await toSessionSummary(renewedSession), { status: 200 }));
         }
-        */
 
-        // --- Return ONLY Tokens to Client --- 
-        // The linking happens in a separate step initiated by the client
-        const tokenData = responseData as AuthWorkerTokenResponse;
-        // The payload no longer includes supabase_user_id from this route
-        const responsePayload = { ...tokenData }; 
+        // A new login (e.g. a step-up for more scopes) replaces any session this browser already had
+        let session: SessionRecord;
+        let cookieValue: string;
+        try {
+            const previousSession = await getSessionFromRequest(request);
+            if (previousSession) {
+                if (previousSession.refreshToken) {
+                    await revokeToken(previousSession.refreshToken, 'refresh_token');
+                }
+                await destroySession(previousSession);
+                console.log('[Token Route] Replaced previous session.');
+            }
+            ({ session, cookieValue } = await createSession(tokenData, profile));
+        } catch (storeError) {
+            // The new tokens cannot be kept; don't leave them valid at the auth-worker
+            if (tokenData.refresh_token) {
+                await revokeToken(tokenData.refresh_token, 'refresh_token');
+            }
+            await revokeToken(tokenData.access_token, 'access_token');
+            const failedResponse = sessionStoreError('store the session', storeError);
+            clearAuthorizationRequestCookie(failedResponse);
+            return failedResponse;
+        }
+        // Only the non-secret session summary goes back to the browser
+        const response = forwardDpopNonce(tokenResponse, NextResponse.json(await toSessionSummary(session), { status: 200 }));
+        setSessionCookie(response, cookieValue);
+        clearAuthorizationRequestCookie(response);
 
-        console.log('[Token Route] Returning tokens to client.');
-        return NextResponse.json(responsePayload, { status: 200 });
+        console.log(`[Token Route] Session created (${session.tokenType}), returning summary to client.`);
+        return response;
 
 	} catch (error: any) {
 		console.error('Network or fetch error during token exchange:', error);
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, getForwardedAuthorization } from '@/lib/auth/route-guard';
+import { MCP_SCOPE_DATA_READ } from '@/lib/constants';
 
 const LLM_BACKEND_URL = process.env.LLM_BACKEND_URL || 'http://localhost:8100';
 
@@ -6,16 +8,9 @@ const LLM_BACKEND_URL = process.env.LLM_BACKEND_URL || 'http://localhost:8100';
  * POST /api/debug/rag
  * Debug helper to diagnose RAG service issues
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, caller) => {
+  const { userId } = caller;
   try {
-    // Get token and user ID from headers
-    const authHeader = request.headers.get('Authorization');
-    const userIdHeader = request.headers.get('X-User-ID');
-    
-    if (!userIdHeader) {
-      return NextResponse.json({ error: 'Missing X-User-ID header' }, { status: 400 });
-    }
-
     // Extract request body
     let requestBody;
     try {
@@ -27,10 +22,10 @@ export async function POST(request: NextRequest) {
     // Add userId to body
     const bodyWithUserId = {
       ...requestBody,
-      userId: userIdHeader
+      userId
     };
 
-    console.log(`Debug RAG request for user ${userIdHeader}:`, bodyWithUserId);
+    console.log(`Debug RAG request for user ${userId}:`, bodyWithUserId);
     
     // Forward to debug endpoint on LLM backend
     try {
@@ -38,7 +33,7 @@ export async function POST(request: NextRequest) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...(authHeader ? { 'Authorization': authHeader } : {})
+          ...getForwardedAuthorization(caller),
         },
         body: JSON.stringify(bodyWithUserId),
       });
@@ -63,4 +58,4 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : String(error)
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}, { requiredScopes: [MCP_SCOPE_DATA_READ] });
@@ -0,0 +1,76 @@
+/**
+ * @description
+ * Device authorization endpoint (RFC 8628 §3.1) for agents and CLI scripts.
+ * Returns a device code to poll `/api/device/token` with, and a user code the user
+ * enters on the `/device` page of this app.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/device-authorization: Device authorization bookkeeping.
+ * - lib/constants: Verification page path.
+ *
+ * @notes
+ * - Accepts `application/x-www-form-urlencoded` (per RFC 8628) or JSON.
+ * - `client_id` is a free-form name for the agent (e.g. "vault-agent"); it is shown to the user
+ *   on approval and must be repeated when polling.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { startDeviceAuthorization } from '@/lib/auth/device-authorization';
+import { DEVICE_VERIFICATION_PATH } from '@/lib/constants';
+
+const NO_STORE_HEADERS = { 'Cache-Control': 'no-store' };
+
+/**
+ * Reads the request parameters from a form or a JSON object body.
+ * @throws {Error} If the body is malformed or is JSON but not an object.
+ */
+async function readParams(req: NextRequest): Promise<Record<string, string>> {
+    if (req.headers.get('content-type')?.includes('application/json')) {
+        const body: unknown = await req.json();
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            throw new Error('Request body must be a JSON object.');
+        }
+        // Parameters are strings, as in a form; other JSON values are ignored
+        return Object.fromEntries(Object.entries(body).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+    }
+    return Object.fromEntries(new URLSearchParams(await req.text()));
+}
+
+/**
+ * Starts a device authorization.
+ */
+export async function POST(req: NextRequest) {
+    console.log('[API /api/device/authorize POST] Received device authorization request.');
+    let params: Record<string, string>;
+    try {
+        params = await readParams(req);
+    } catch {
+        return NextResponse.json({ error: 'invalid_request', error_description: 'Malformed request body.' }, { status: 400, headers: NO_STORE_HEADERS });
+    }
+
+    const clientId = typeof params.client_id === 'string' ? params.client_id.trim() : '';
+    if (!clientId || clientId.length > 100) {
+        return NextResponse.json({ error: 'invalid_client', error_description: 'A client_id naming the agent is required.' }, { status: 400, headers: NO_STORE_HEADERS });
+    }
+
+    try {
+        const authorization = await startDeviceAuthorization(clientId, params.scope);
+        const verificationUri = new URL(DEVICE_VERIFICATION_PATH, req.nextUrl.origin);
+        const verificationUriComplete = new URL(verificationUri);
+        verificationUriComplete.searchParams.set('user_code', authorization.userCode);
+
+        return NextResponse.json({
+            device_code: authorization.deviceCode,
+            user_code: authorization.userCode,
+            verification_uri: verificationUri.toString(),
+            verification_uri_complete: verificationUriComplete.toString(),
+            expires_in: authorization.expiresIn,
+            interval: authorization.interval,
+            scope: authorization.scope,
+        }, { status: 200, headers: NO_STORE_HEADERS });
+    } catch (error: any) {
+        console.error('[API /api/device/authorize POST] Error:', error);
+        return NextResponse.json({ error: 'server_error', error_description: 'Failed to start device authorization.' }, { status: 500, headers: NO_STORE_HEADERS });
+    }
+}
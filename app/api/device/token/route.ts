@@ -0,0 +1,95 @@
+/**
+ * @description
+ * Token endpoint for devices (RFC 8628 §3.4).
+ * - `grant_type=urn:ietf:params:oauth:grant-type:device_code`: polls a device authorization.
+ *   Answers `authorization_pending`, `slow_down`, `access_denied` or `expired_token` until the
+ *   user has decided, then returns the device's access and refresh tokens once.
+ * - `grant_type=refresh_token`: renews a device's tokens at the auth-worker, so agents only
+ *   need to know this app's URL.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/device-authorization: Device authorization polling.
+ * - lib/auth/token-endpoint: Refresh grant against the auth-worker.
+ *
+ * @notes
+ * - Accepts `application/x-www-form-urlencoded` (per RFC 8628) or JSON.
+ * - Errors use the OAuth error response format (`error`, `error_description`).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pollDeviceAuthorization } from '@/lib/auth/device-authorization';
+import { requestTokens } from '@/lib/auth/token-endpoint';
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const NO_STORE_HEADERS = { 'Cache-Control': 'no-store' };
+
+const POLL_ERROR_DESCRIPTIONS: Record<string, string> = {
+    authorization_pending: 'The user has not approved the request yet.',
+    slow_down: 'Polling too fast; increase the interval by 5 seconds.',
+    access_denied: 'The user denied the request.',
+    expired_token: 'The device code has expired. Start over.',
+    invalid_grant: 'Unknown device code or client.',
+};
+
+/**
+ * Reads the request parameters from a form or a JSON object body.
+ * @throws {Error} If the body is malformed or is JSON but not an object.
+ */
+async function readParams(req: NextRequest): Promise<Record<string, string>> {
+    if (req.headers.get('content-type')?.includes('application/json')) {
+        const body: unknown = await req.json();
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            throw new Error('Request body must be a JSON object.');
+        }
+        // Parameters are strings, as in a form; other JSON values are ignored
+        return Object.fromEntries(Object.entries(body).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+    }
+    return Object.fromEntries(new URLSearchParams(await req.text()));
+}
+
+function oauthError(error: string, description: string | undefined, status = 400) {
+    return NextResponse.json({ error, error_description: description }, { status, headers: NO_STORE_HEADERS });
+}
+
+/**
+ * Handles device token polls and refreshes.
+ */
+export async function POST(req: NextRequest) {
+    let params: Record<string, string>;
+    try {
+        params = await readParams(req);
+    } catch {
+        return oauthError('invalid_request', 'Malformed request body.');
+    }
+
+    try {
+        if (params.grant_type === DEVICE_CODE_GRANT_TYPE) {
+            if (!params.device_code || !params.client_id) {
+                return oauthError('invalid_request', 'Missing required parameters: device_code, client_id.');
+            }
+            const result = await pollDeviceAuthorization(params.device_code, params.client_id);
+            if (result.status === 'error') {
+                return oauthError(result.error, POLL_ERROR_DESCRIPTIONS[result.error]);
+            }
+            return NextResponse.json(result.tokens, { status: 200, headers: NO_STORE_HEADERS });
+        }
+
+        if (params.grant_type === 'refresh_token') {
+            if (!params.refresh_token) {
+                return oauthError('invalid_request', 'Missing required parameter: refresh_token.');
+            }
+            console.log('[API /api/device/token POST] Renewing device tokens.');
+            const result = await requestTokens({ grant_type: 'refresh_token', refresh_token: params.refresh_token });
+            if (!result.ok) {
+                return oauthError(result.error, result.error_description, result.status);
+            }
+            return NextResponse.json(result.tokens, { status: 200, headers: NO_STORE_HEADERS });
+        }
+
+        return oauthError('unsupported_grant_type', `Unsupported grant type: ${params.grant_type}.`);
+    } catch (error: any) {
+        console.error('[API /api/device/token POST] Error:', error);
+        return oauthError('server_error', 'Failed to process the token request.', 502);
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * @description
+ * User-facing side of the device authorization grant, called by the `/device` page.
+ * - GET /api/device/verify?user_code=...: Describes the pending request (agent name, scopes).
+ * - POST /api/device/verify: Records the user's decision. Approval carries the authorization
+ *   code from a PKCE round trip made for the device's scopes; it is exchanged here and the
+ *   resulting tokens are bound to the device authorization, not to the browser session.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/route-guard: Verifies the signed-in user.
+ * - lib/auth/device-authorization: Device authorization bookkeeping.
+ * - lib/auth/token-endpoint: Authorization code exchange.
+ * - lib/auth/verify-token / lib/auth/identity: Checks the new tokens belong to the same account.
+ * - lib/auth/user-profile: ID token validation, including the nonce of the round trip.
+ * - lib/auth/revoke: Discards tokens that cannot be bound.
+ * - lib/auth/authorization-request: PKCE verifier and nonce of the round trip (authorization request cookie).
+ *
+ * @notes
+ * - Browser sessions only. Tokens issued for a different account than the approving user's
+ *   are revoked and the approval is rejected.
+ * - An `id_token` in the response is validated like on the browser login (`/api/auth/token`);
+ *   tokens that come with an invalid ID token are revoked and the approval fails with `invalid_token`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/route-guard';
+import {
+    approveDeviceAuthorization,
+    denyDeviceAuthorization,
+    findPendingDeviceAuthorization,
+    formatUserCode,
+} from '@/lib/auth/device-authorization';
+import { requestTokens, type TokenEndpointResponse } from '@/lib/auth/token-endpoint';
+import { verifyAccessToken } from '@/lib/auth/verify-token';
+import { resolveSupabaseUserId } from '@/lib/auth/identity';
+import { revokeToken } from '@/lib/auth/revoke';
+import { getAuthorizationRequest, clearAuthorizationRequestCookie, type PendingAuthorizationRequest } from '@/lib/auth/authorization-request';
+import { resolveUserProfile, IdTokenValidationError } from '@/lib/auth/user-profile';
+import { OAUTH_REDIRECT_URI } from '@/lib/constants';
+
+interface VerifyRequestBody {
+    userCode?: string;
+    decision?: 'approve' | 'deny';
+    code?: string; // Authorization code for the device's scopes (approve only)
+    state?: string; // State of that round trip, matched against the authorization request cookie
+}
+
+const SESSION_REQUIRED = { error: 'Forbidden', message: 'Devices can only be approved from a signed-in browser session.' };
+const NOT_PENDING = { error: 'Not Found', message: 'This code is invalid, expired or has already been used.' };
+
+/** Revokes a token set that could not be bound to the device. */
+async function discardTokens(tokens: TokenEndpointResponse): Promise<void> {
+    if (tokens.refresh_token) {
+        await revokeToken(tokens.refresh_token, 'refresh_token');
+    }
+    await revokeToken(tokens.access_token, 'access_token');
+}
+
+/**
+ * Exchanges the approval's authorization code and binds the tokens to the device authorization.
+ */
+async function exchangeAndApprove(
+    userCode: string,
+    code: string,
+    authorizationRequest: PendingAuthorizationRequest,
+    approvingUserId: string
+): Promise<NextResponse> {
+    console.log(`[API /api/device/verify POST] Exchanging authorization code for device ${userCode}.`);
+    const result = await requestTokens({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: OAUTH_REDIRECT_URI,
+        code_verifier: authorizationRequest.codeVerifier,
+    });
+    if (!result.ok) {
+        return NextResponse.json({ error: result.error, message: result.error_description || 'Token exchange failed.' }, { status: result.status });
+    }
+
+    // Same ID token check as the browser login: the response must belong to this round trip
+    try {
+        await resolveUserProfile(result.tokens, { nonce: authorizationRequest.nonce });
+    } catch (profileError: any) {
+        if (!(profileError instanceof IdTokenValidationError)) throw profileError;
+        console.error('[API /api/device/verify POST] Rejected ID token:', profileError.message);
+        await discardTokens(result.tokens);
+        return NextResponse.json({ error: 'invalid_token', message: profileError.message }, { status: 502 });
+    }
+
+    // The device must act for the user who approved it, not whoever completed the sign-in
+    const claims = await verifyAccessToken(result.tokens.access_token);
+    const subject = claims.hankoUserId || claims.sub;
+    const tokenUserId = claims.active && subject ? await resolveSupabaseUserId(subject, { bypassCache: true }) : null;
+    if (tokenUserId !== approvingUserId) {
+        console.warn(`[API /api/device/verify POST] Issued tokens belong to ${tokenUserId}, not the approving user ${approvingUserId}.`);
+        await discardTokens(result.tokens);
+        return NextResponse.json({ error: 'account_mismatch', message: 'Sign in with an identity linked to your account to approve devices.' }, { status: 403 });
+    }
+
+    if (!(await approveDeviceAuthorization(userCode, approvingUserId, result.tokens))) {
+        await discardTokens(result.tokens);
+        return NextResponse.json(NOT_PENDING, { status: 404 });
+    }
+    return NextResponse.json({ success: true, scope: result.tokens.scope });
+}
+
+/**
+ * Describes the pending device authorization for the entered user code.
+ */
+export const GET = withAuth(async (req: NextRequest, caller) => {
+    if (!caller.session) {
+        return NextResponse.json(SESSION_REQUIRED, { status: 403 });
+    }
+    const userCode = req.nextUrl.searchParams.get('user_code') || '';
+    try {
+        const record = await findPendingDeviceAuthorization(userCode);
+        if (!record) {
+            return NextResponse.json(NOT_PENDING, { status: 404 });
+        }
+        return NextResponse.json({
+            userCode: formatUserCode(record.userCode),
+            clientId: record.clientId,
+            scope: record.scope,
+            expiresAt: record.expiresAt,
+        });
+    } catch (error: any) {
+        console.error('[API /api/device/verify GET] Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error', message: 'Failed to look up the code.' }, { status: 500 });
+    }
+});
+
+/**
+ * Approves or denies the pending device authorization.
+ */
+export const POST = withAuth(async (req: NextRequest, caller) => {
+    if (!caller.session) {
+        return NextResponse.json(SESSION_REQUIRED, { status: 403 });
+    }
+
+    let body: VerifyRequestBody;
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json({ error: 'Bad Request', message: 'Invalid JSON body.' }, { status: 400 });
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return NextResponse.json({ error: 'Bad Request', message: 'Request body must be a JSON object.' }, { status: 400 });
+    }
+    const { userCode, decision, code, state } = body;
+    if (!userCode || typeof userCode !== 'string' || (decision !== 'approve' && decision !== 'deny')) {
+        return NextResponse.json({ error: 'Bad Request', message: 'Missing userCode or decision.' }, { status: 400 });
+    }
+
+    try {
+        if (decision === 'deny') {
+            const denied = await denyDeviceAuthorization(userCode);
+            return denied
+                ? NextResponse.json({ success: true })
+                : NextResponse.json(NOT_PENDING, { status: 404 });
+        }
+
+        if (!code || !state || typeof code !== 'string' || typeof state !== 'string') {
+            return NextResponse.json({ error: 'Bad Request', message: 'Approval requires code and state.' }, { status: 400 });
+        }
+        const authorizationRequest = await getAuthorizationRequest(req, state);
+        if (!authorizationRequest) {
+            return NextResponse.json({ error: 'Bad Request', message: 'State mismatch or expired authorization request.' }, { status: 400 });
+        }
+        if (!(await findPendingDeviceAuthorization(userCode))) {
+            return NextResponse.json(NOT_PENDING, { status: 404 });
+        }
+
+        const approval = await exchangeAndApprove(userCode, code, authorizationRequest, caller.userId);
+        clearAuthorizationRequestCookie(approval); // The code is spent either way
+        return approval;
+    } catch (error: any) {
+        console.error('[API /api/device/verify POST] Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error', message: 'Failed to record the decision.' }, { status: 500 });
+    }
+});
@@ -1,23 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, getForwardedAuthorization } from '@/lib/auth/route-guard';
+import { MCP_SCOPE_DATA_READ } from '@/lib/constants';
 
 const LLM_BACKEND_URL = process.env.LLM_BACKEND_URL || 'http://localhost:8100';
 
 /**
  * POST /api/insights
  * Proxy for the LLM Insights backend.
- * Receives the request from client, forwards it to LLM backend with the access token.
+ * Receives the request from client, forwards it to LLM backend with the access token
+ * (never a personal access token) and the caller's verified user ID.
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, caller) => {
+  const { userId } = caller;
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing or invalid authorization header' }, { status: 401 });
-    }
-    
-    // Get User ID from X-User-ID header if present
-    const userIdHeader = request.headers.get('X-User-ID');
-
     // Extract request body
     let requestBody;
     try {
@@ -30,14 +25,11 @@ export async function POST(request: NextRequest) {
     try {
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
-        'Authorization': authHeader,
+        ...getForwardedAuthorization(caller),
+        // User ID resolved server-side from the verified token
+        'X-User-ID': userId,
       };
       
-      // Add X-User-ID header if provided
-      if (userIdHeader) {
-        headers['X-User-ID'] = userIdHeader;
-      }
-      
       const response = await fetch(`${LLM_BACKEND_URL}/insights`, {
         method: 'POST',
         headers,
@@ -55,4 +47,4 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}, { requiredScopes: [MCP_SCOPE_DATA_READ] });
@@ -1,20 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, getForwardedAuthorization } from '@/lib/auth/route-guard';
+import { MCP_SCOPE_DATA_READ } from '@/lib/constants';
 
 const LLM_BACKEND_URL = process.env.LLM_BACKEND_URL || 'http://localhost:8100';
 
 /**
  * POST /api/insights/summary
  * Proxy for the LLM Insights summary endpoint.
- * Receives the request from client, forwards it to LLM backend with the access token.
+ * Receives the request from client, forwards it to LLM backend with the access token
+ * (never a personal access token) and the caller's verified user ID.
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, caller) => {
+  const { userId } = caller;
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing or invalid authorization header' }, { status: 401 });
-    }
-
     // Extract request body
     let requestBody;
     try {
@@ -31,7 +29,8 @@ export async function POST(request: NextRequest) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': authHeader,
+          ...getForwardedAuthorization(caller),
+          'X-User-ID': userId,
         },
         body: JSON.stringify(requestBody),
       });
@@ -49,4 +48,4 @@ export async function POST(request: NextRequest) {
     console.error('Unexpected error in summary API route:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}, { requiredScopes: [MCP_SCOPE_DATA_READ] });
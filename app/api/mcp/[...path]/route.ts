@@ -0,0 +1,82 @@
+/**
+ * @description
+ * Same-origin proxy to the MCP Resource Server API (mcp-worker).
+ * The browser calls `/api/mcp/<path>`; this route looks up the BFF session from the
+ * session cookie and forwards the request to `${MCP_API_URL}/<path>` with the
+ * access token attached server-side.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/session: Session lookup from the encrypted cookie.
+ * - lib/constants: Provides MCP_API_URL.
+ *
+ * @notes
+ * - The mcp-worker remains responsible for validating the token and its scopes.
+ * - `WWW-Authenticate` is passed through so the client can react to auth challenges.
+ * - DPoP sessions: the token is sent with the `DPoP` scheme together with the browser's proof
+ *   (`DPoP` request header), and `DPoP-Nonce` challenges are passed back for the retry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import type { SessionRecord } from '@/lib/auth/session-store';
+import { MCP_API_URL } from '@/lib/constants';
+
+interface RouteParams {
+    params: { path: string[] };
+}
+
+// Response headers from the mcp-worker that are safe and useful to pass back
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'www-authenticate', 'dpop-nonce'];
+
+async function proxyToMcp(req: NextRequest, { params }: RouteParams): Promise<Response> {
+    const relativePath = `/${params.path.map(encodeURIComponent).join('/')}`;
+    console.log(`[API /api/mcp${relativePath} ${req.method}] Received request.`);
+
+    let session: SessionRecord | null;
+    try {
+        session = await getSessionFromRequest(req);
+    } catch (sessionError) {
+        console.error(`[API /api/mcp${relativePath}] Failed to load session:`, sessionError);
+        return NextResponse.json({ error: 'server_error', message: 'Failed to load session.' }, { status: 500 });
+    }
+    if (!session?.accessToken) {
+        return NextResponse.json({ error: 'Unauthorized', message: 'No active session.' }, { status: 401 });
+    }
+
+    const headers = new Headers();
+    headers.set('Authorization', `${session.tokenType} ${session.accessToken}`);
+    const dpopProof = req.headers.get('dpop');
+    if (session.tokenType === 'DPoP' && dpopProof) {
+        headers.set('DPoP', dpopProof);
+    }
+    const contentType = req.headers.get('content-type');
+    if (contentType) {
+        headers.set('Content-Type', contentType);
+    }
+
+    try {
+        const upstream = await fetch(`${MCP_API_URL}${relativePath}${req.nextUrl.search}`, {
+            method: req.method,
+            headers,
+            body: req.method === 'GET' || req.method === 'HEAD' ? undefined : await req.text(),
+            cache: 'no-store',
+        });
+
+        const responseHeaders = new Headers();
+        FORWARDED_RESPONSE_HEADERS.forEach(name => {
+            const value = upstream.headers.get(name);
+            if (value) responseHeaders.set(name, value);
+        });
+        return new NextResponse(upstream.body, { status: upstream.status, headers: responseHeaders });
+    } catch (error: any) {
+        console.error(`[API /api/mcp${relativePath}] Failed to reach mcp-worker:`, error);
+        return NextResponse.json({ error: 'Bad Gateway', message: 'Failed to reach the MCP API.' }, { status: 502 });
+    }
+}
+
+export const GET = proxyToMcp;
+export const POST = proxyToMcp;
+export const PUT = proxyToMcp;
+export const PATCH = proxyToMcp;
+export const DELETE = proxyToMcp;
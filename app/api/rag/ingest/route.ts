@@ -2,35 +2,29 @@
  * @description
  * Next.js API route handler for proxying document ingestion requests
  * to the RAG backend service.
- * - POST /api/rag/ingest: Ingests content for the authenticated user.
+ * - POST /api/rag/ingest: Ingests content for the authenticated user (requires `rag:ingest`, included in `mcp:data:write`).
  *
  * @dependencies
- * - @supabase/ssr: For server-side authentication.
  * - next/server: For Next.js API route types.
  * - ../../../../lib/rag/client: Utility function to call the RAG service.
- * - cookies: Required by @supabase/ssr.
+ * - lib/auth/route-guard: Verifies the bearer token and resolves the caller's user ID.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 // Remove Supabase Admin import if only used for auth
 // import { supabaseAdmin } from '../../../../utils/supabase-admin';
 import { fetchRagService } from '../../../../lib/rag/client'; // Adjust path
-// No cookies import needed here
+import { withAuth } from '@/lib/auth/route-guard';
+import { MCP_SCOPE_RAG_INGEST } from '@/lib/constants';
 
 /**
  * Handles POST requests to ingest content for the authenticated user.
  * Proxies the request to the RAG service backend, adding the user ID.
  */
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, { userId }) => {
     console.log("[API /api/rag/ingest POST] Received request.");
     try {
-        // ---> Read User ID from custom header <--- 
-        const userId = req.headers.get('X-User-ID');
-        if (!userId) {
-            console.warn("[API /api/rag/ingest POST] Missing X-User-ID header.");
-            return NextResponse.json({ error: 'Unauthorized', message: 'User ID header missing or invalid.' }, { status: 401 });
-        }
-        console.log(`[API /api/rag/ingest POST] Authenticated via header. User ID: ${userId}`);
+        console.log(`[API /api/rag/ingest POST] Authenticated via token. User ID: ${userId}`);
 
         // Extract ingestion data from the request body
         const body = await req.json();
@@ -70,4 +64,4 @@ export async function POST(req: NextRequest) {
 
         return NextResponse.json({ error: 'Proxy Error', message }, { status });
     }
-}
+}, { requiredScopes: [MCP_SCOPE_RAG_INGEST] });
@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchRagService } from '@/lib/rag/client'; // Adjust path if needed
 import { randomUUID } from 'crypto'; // Import randomUUID
+import { withAuth } from '@/lib/auth/route-guard';
+import { MCP_SCOPE_RAG_INGEST } from '@/lib/constants';
 
-// Helper to get or create the RAG source ID via the proxy route
+// Helper to get or create the RAG source ID directly against the RAG service
 async function getOrCreateRagSourceId(userId: string, accountType: string, sourceIdentifier: string = 'vault-agent'): Promise<string | null> {
-    const proxyUrlBase = '/api/rag/sources'; // Relative URL to the proxy in mcp-auth
-    const fetchOptions: RequestInit = {
-        headers: {
-            'Content-Type': 'application/json',
-            'X-User-ID': userId // Pass user ID for proxy authentication
-        }
-    };
-
     try {
         // 1. Try to GET existing sources for this type
         console.log(`[getOrCreateRagSourceId] Checking for existing source: userId=${userId}, accountType=${accountType}`);
@@ -64,17 +58,11 @@ async function getOrCreateRagSourceId(userId: string, accountType: string, sourc
     }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { userId }) => {
   console.log("[API /api/rag/ingest/vault-helper POST] Received request.");
-  let userId: string | null = null;
   try {
-    // 1. Authenticate
-    userId = request.headers.get('X-User-ID');
-    if (!userId) {
-      console.warn("[API /api/rag/ingest/vault-helper POST] Missing X-User-ID header.");
-      return NextResponse.json({ success: false, error: 'Unauthorized', message: 'User ID header missing.' }, { status: 401 });
-    }
-    console.log(`[API /api/rag/ingest/vault-helper POST] Authenticated via header. User ID: ${userId}`);
+    // 1. Authenticated by withAuth; userId is resolved from the verified token
+    console.log(`[API /api/rag/ingest/vault-helper POST] Authenticated via token. User ID: ${userId}`);
 
     // 2. Parse incoming data from the vault helper (contains vaultData format)
     let extractedData: any;
@@ -146,7 +134,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ success: true, data: ingestResult, sourceId: persistentSourceId, documentId: documentId }, { status: 200 });
 
   } catch (error: any) {
-    console.error(`[API /api/rag/ingest/vault-helper POST] Processing Error for user ${userId || 'UNKNOWN'}:`, error);
+    console.error(`[API /api/rag/ingest/vault-helper POST] Processing Error for user ${userId}:`, error);
     const errorMessage = error.message?.includes("RAG Service Error")
         ? error.message
         : error.message || 'Internal Server Error';
@@ -158,6 +146,6 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ success: false, error: 'Proxy Error', message: errorMessage }, { status: statusCode });
   }
-}
+}, { requiredScopes: [MCP_SCOPE_RAG_INGEST] });
 
 // Optional: Add GET/PUT/DELETE handlers if needed, otherwise they default to 405 Method Not Allowed
@@ -3,34 +3,29 @@
  * Next.js API route handlers for managing RAG data sources (list and create).
  * Acts as an authenticated proxy to the RAG backend service.
  * - GET /api/rag/sources: Lists sources for the authenticated user.
- * - POST /api/rag/sources: Creates a new source for the authenticated user.
+ * - POST /api/rag/sources: Creates a new source for the authenticated user (requires `mcp:data:write`).
  *
  * @dependencies
- * - @supabase/ssr: For server-side authentication.
  * - next/server: For Next.js API route types (NextRequest, NextResponse).
  * - ../../../../lib/rag/client: Utility function to call the RAG service.
- * - cookies: Required by @supabase/ssr.
+ * - lib/auth/route-guard: Verifies the bearer token and resolves the caller's user ID.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 // Remove Supabase Admin import if only used for auth
 // import { supabaseAdmin } from '../../../../utils/supabase-admin';
 import { fetchRagService } from '../../../../lib/rag/client'; // Adjust path
-// No cookies import needed here
+import { withAuth } from '@/lib/auth/route-guard';
+import { MCP_SCOPE_DATA_READ, MCP_SCOPE_DATA_WRITE } from '@/lib/constants';
 
 /**
  * Handles GET requests to list RAG data sources for the authenticated user.
  * Proxies the request to the RAG service backend.
  */
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest, { userId }) => {
     console.log("[API /api/rag/sources GET] Received request.");
     try {
-        const userId = req.headers.get('X-User-ID');
-        if (!userId) {
-            console.warn("[API /api/rag/sources GET] Missing X-User-ID header.");
-            return NextResponse.json({ error: 'Unauthorized', message: 'User ID header missing or invalid.' }, { status: 401 });
-        }
-        console.log(`[API /api/rag/sources GET] Authenticated via header. User ID: ${userId}`);
+        console.log(`[API /api/rag/sources GET] Authenticated via token. User ID: ${userId}`);
 
         // ---> Call fetchRagService, PASSING userId in BODY for GET <--- 
         // fetchRagService will now handle moving it to query param
@@ -47,23 +42,16 @@ export async function GET(req: NextRequest) {
         const status = error.message?.includes("RAG Service Error") ? 502 : 500;
         return NextResponse.json({ error: 'Proxy Error', message }, { status });
     }
-}
+}, { requiredScopes: [MCP_SCOPE_DATA_READ] });
 
 /**
  * Handles POST requests to create a new RAG data source for the authenticated user.
  * Proxies the request to the RAG service backend.
  */
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, { userId }) => {
     console.log("[API /api/rag/sources POST] Received request.");
     try {
-        // ---> Read User ID from custom header <--- 
-        const userId = req.headers.get('X-User-ID');
-
-        if (!userId) {
-            console.warn("[API /api/rag/sources POST] Missing X-User-ID header.");
-            return NextResponse.json({ error: 'Unauthorized', message: 'User ID header missing or invalid.' }, { status: 401 });
-        }
-         console.log(`[API /api/rag/sources POST] Authenticated via header. User ID: ${userId}`);
+         console.log(`[API /api/rag/sources POST] Authenticated via token. User ID: ${userId}`);
 
         // Extract source data from the request body
         const body = await req.json();
@@ -89,4 +77,4 @@ export async function POST(req: NextRequest) {
          const status = error.message?.includes("RAG Service Error") ? 502 : 500;
         return NextResponse.json({ error: 'Proxy Error', message }, { status });
     }
-}
+}, { requiredScopes: [MCP_SCOPE_DATA_WRITE] });
@@ -0,0 +1,18 @@
+/**
+ * @description
+ * Layout for the /debug section. Enforces the `/debug` route policy
+ * (authentication and required scopes) before the page renders.
+ */
+
+import React from 'react';
+import { requirePageAccess } from '@/lib/auth/page-guard';
+
+interface DebugLayoutProps {
+  children: React.ReactNode;
+}
+
+export default async function DebugLayout({ children }: DebugLayoutProps) {
+  await requirePageAccess('/debug');
+
+  return <>{children}</>;
+}
@@ -22,17 +22,16 @@ export default function DebugPage() {
     setDebugResult(null);
 
     try {
-      if (!authState.accessToken || !authState.supabaseUserId) {
+      if (authState.status !== 'authenticated' || !authState.supabaseUserId) {
         throw new Error('Not authenticated or missing user ID');
       }
 
       const response = await fetch('/api/debug/rag', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${authState.accessToken}`,
-          'X-User-ID': authState.supabaseUserId
+          'Content-Type': 'application/json'
         },
+        credentials: 'same-origin', // Session cookie identifies the caller
         body: JSON.stringify({ 
           query,
           matchThreshold: 0.8,
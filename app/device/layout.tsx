@@ -0,0 +1,18 @@
+/**
+ * @description
+ * Layout for the /device approval page. Enforces the `/device` route policy
+ * (an authenticated session) so the user code survives the login round trip.
+ */
+
+import React from 'react';
+import { requirePageAccess } from '@/lib/auth/page-guard';
+
+interface DeviceLayoutProps {
+  children: React.ReactNode;
+}
+
+export default async function DeviceLayout({ children }: DeviceLayoutProps) {
+  await requirePageAccess('/device');
+
+  return <>{children}</>;
+}
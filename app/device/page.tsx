@@ -0,0 +1,26 @@
+/**
+ * @description
+ * Page component for the device verification route (`/device`, RFC 8628).
+ * A signed-in user enters the code shown by an agent or CLI script and approves or denies it.
+ * Uses React Suspense as required when a component uses `useSearchParams`.
+ *
+ * @dependencies
+ * - react: Core React library (Suspense).
+ * - components/device/device-approval: The code entry and approval UI.
+ */
+
+'use client';
+
+import React, { Suspense } from 'react';
+import { DeviceApproval } from '@/components/device/device-approval';
+
+export default function DevicePage() {
+  return (
+    <div className="container mx-auto p-4 md:p-8">
+      <h1 className="text-2xl font-bold mb-4">Connect a device</h1>
+      <Suspense fallback={<p>Loading...</p>}>
+        <DeviceApproval />
+      </Suspense>
+    </div>
+  );
+}
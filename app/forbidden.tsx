@@ -0,0 +1,32 @@
+/**
+ * @description
+ * 403 page rendered (with a 403 status) when `requirePageAccess` calls `forbidden()`,
+ * i.e. the user is signed in but the session lacks a scope the route policy requires.
+ *
+ * @notes
+ * - Requires `experimental.authInterrupts` in next.config.ts.
+ */
+
+import Link from 'next/link';
+import { ExclamationTriangleIcon } from "@radix-ui/react-icons";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+export default function Forbidden() {
+  return (
+    <section className="max-w-xl mx-auto space-y-6">
+      <h1 className="text-2xl font-semibold">403 – Access denied</h1>
+      <Alert variant="destructive">
+        <ExclamationTriangleIcon className="h-4 w-4" />
+        <AlertTitle>Missing permission</AlertTitle>
+        <AlertDescription>
+          Your session was not granted the scope this page requires. Sign out and sign in again,
+          approving the requested permissions, or ask an administrator for access.
+        </AlertDescription>
+      </Alert>
+      <Button asChild variant="outline">
+        <Link href="/dashboard">Back to dashboard</Link>
+      </Button>
+    </section>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * @description
+ * Layout for the /insights section. Enforces the `/insights` route policy
+ * (authentication and required scopes) before the page renders.
+ */
+
+import React from 'react';
+import { requirePageAccess } from '@/lib/auth/page-guard';
+
+interface InsightsLayoutProps {
+  children: React.ReactNode;
+}
+
+export default async function InsightsLayout({ children }: InsightsLayoutProps) {
+  await requirePageAccess('/insights');
+
+  return <>{children}</>;
+}
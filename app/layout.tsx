@@ -5,6 +5,7 @@ import { ThemeProvider } from "@/components/theme-provider";
 import { Header } from "@/components/layout/header";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { AuthProvider } from "@/context/auth-context";
+import { SessionMonitor } from "@/components/auth/session-monitor";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -32,6 +33,7 @@ export default function RootLayout({
             <main className="container mx-auto px-4 py-8">
                  {children}
             </main>
+            <SessionMonitor />
             <Sonner theme="system" position="top-right" richColors />
           </AuthProvider>
         </ThemeProvider>
@@ -30,9 +30,7 @@ export default function IngestPage() {
         console.log("Fetching sources for ingest form...");
         try {
             const response = await fetch('/api/rag/sources', {
-                 headers: {
-                     'X-User-ID': userId // <-- Add User ID header
-                 }
+                 credentials: 'same-origin' // <-- Session cookie identifies the caller server-side
             });
             console.log("Sources fetch status:", response.status);
 
@@ -52,7 +50,7 @@ export default function IngestPage() {
         } finally {
             setIsLoadingSources(false);
         }
-    }, [userId]); // <-- Add userId dependency
+    }, [userId]); // <-- Re-create when the user changes
 
      useEffect(() => {
         // Fetch only when authenticated and userId is present
@@ -2,6 +2,7 @@
  * @description
  * Layout component specifically for the /rag section of the application.
  * Provides consistent structure and padding for RAG-related pages.
+ * Enforces the `/rag` route policy before any RAG page renders.
  *
  * @notes
  * - Wraps all pages under the /rag route segment.
@@ -9,12 +10,15 @@
  */
 
 import React from 'react';
+import { requirePageAccess } from '@/lib/auth/page-guard';
 
 interface RagLayoutProps {
   children: React.ReactNode;
 }
 
-export default function RagLayout({ children }: RagLayoutProps) {
+export default async function RagLayout({ children }: RagLayoutProps) {
+  await requirePageAccess('/rag');
+
   return (
     // Add padding or other layout styles common to the RAG section
     <main className="flex-1 p-4 md:p-6 lg:p-8">
@@ -38,9 +38,7 @@ export default function SearchPage() {
         console.log("Fetching sources for search filter...");
         try {
              const response = await fetch('/api/rag/sources', {
-                 headers: {
-                     'X-User-ID': userId // <-- Add User ID header
-                 }
+                 credentials: 'same-origin' // <-- Session cookie identifies the caller server-side
              });
              if (!response.ok) {
                 const errorData = await response.json().catch(() => ({}));
@@ -55,7 +53,7 @@ export default function SearchPage() {
         } finally {
             setIsLoadingSources(false);
         }
-    }, [userId]); // <-- Add userId dependency
+    }, [userId]); // <-- Re-create when the user changes
 
     useEffect(() => {
        // Fetch only when authenticated and userId is present
@@ -84,9 +82,9 @@ export default function SearchPage() {
              const response = await fetch('/api/rag/query', {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
-                    'X-User-ID': userId // <-- Add User ID header
+                    'Content-Type': 'application/json'
                 },
+                credentials: 'same-origin', // <-- Session cookie identifies the caller server-side
                 body: JSON.stringify({
                     queryText,
                     sourceTypes: selectedSourceTypes.length > 0 ? selectedSourceTypes : null,
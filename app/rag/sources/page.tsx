@@ -10,6 +10,8 @@ import { PlusCircledIcon, ReloadIcon } from "@radix-ui/react-icons";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ExclamationTriangleIcon } from "@radix-ui/react-icons";
+import { RequireScope } from '@/components/auth/require-scope';
+import { MCP_SCOPE_DATA_WRITE } from '@/lib/constants';
 
 // Define a basic type for the source data - align with API response
 // Add more specific types for metadata if possible
@@ -27,7 +29,6 @@ export interface DataSource {
 export default function SourcesPage() {
     const { authState } = useAuth();
     const userId = authState.supabaseUserId;
-    const accessToken = authState.accessToken;
 
     const [sources, setSources] = useState<DataSource[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -35,8 +36,8 @@ export default function SourcesPage() {
     const [isAddDialogOpen, setIsAddDialogOpen] = useState<boolean>(false);
 
     const fetchSources = useCallback(async () => {
-        if (authState.status !== 'authenticated' || !accessToken || !userId) {
-            const msg = `User not fully authenticated or details missing (Status: ${authState.status}, Token: ${accessToken ? 'OK' : 'Missing'}, SupabaseID: ${userId ? 'OK' : 'Missing'}). Cannot fetch sources.`;
+        if (authState.status !== 'authenticated' || !userId) {
+            const msg = `User not fully authenticated or details missing (Status: ${authState.status}, SupabaseID: ${userId ? 'OK' : 'Missing'}). Cannot fetch sources.`;
             console.warn(msg);
             if (authState.status === 'error' || authState.status === 'idle') {
                 setError("User is not properly authenticated. Please log in again.");
@@ -54,10 +55,7 @@ export default function SourcesPage() {
 
         try {
             const response = await fetch('/api/rag/sources', {
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'X-User-ID': userId
-                }
+                credentials: 'same-origin' // <-- Session cookie identifies the caller server-side
             });
             
             console.log("Fetch response status:", response.status);
@@ -79,7 +77,7 @@ export default function SourcesPage() {
         } finally {
             setIsLoading(false);
         }
-    }, [authState.status, authState.accessToken, authState.supabaseUserId]);
+    }, [authState.status, authState.supabaseUserId]);
 
     useEffect(() => {
         console.log(`SourcesPage useEffect triggered. Auth Status: ${authState.status}, SupabaseUserID: ${authState.supabaseUserId}`);
@@ -112,12 +110,22 @@ export default function SourcesPage() {
                     >
                         <ReloadIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
                     </Button>
+                    {/* Adding sources needs write access; without it show the button disabled with the reason */}
+                    <RequireScope
+                        scopes={[MCP_SCOPE_DATA_WRITE]}
+                        fallback={
+                            <Button disabled title={`Requires the ${MCP_SCOPE_DATA_WRITE} permission`}>
+                                <PlusCircledIcon className="mr-2 h-4 w-4" /> Add New Source
+                            </Button>
+                        }
+                    >
                      <Button 
                         onClick={() => setIsAddDialogOpen(true)}
                         disabled={authState.status !== 'authenticated'}
                      >
                         <PlusCircledIcon className="mr-2 h-4 w-4" /> Add New Source
                     </Button>
+                    </RequireScope>
                  </div>
 
             </div>
@@ -0,0 +1,18 @@
+/**
+ * @description
+ * Layout for the /vault section. Enforces the `/vault` route policy
+ * (authentication and required scopes) before the page renders.
+ */
+
+import React from 'react';
+import { requirePageAccess } from '@/lib/auth/page-guard';
+
+interface VaultLayoutProps {
+  children: React.ReactNode;
+}
+
+export default async function VaultLayout({ children }: VaultLayoutProps) {
+  await requirePageAccess('/vault');
+
+  return <>{children}</>;
+}
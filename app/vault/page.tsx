@@ -7,6 +7,8 @@ import { Separator } from "@/components/ui/separator";
 import { ReloadIcon } from "@radix-ui/react-icons";
 import { toast } from "sonner";
 import { useAuth } from '@/context/auth-context';
+import Link from 'next/link';
+import { DEVICE_VERIFICATION_PATH } from '@/lib/constants';
 
 export default function VaultPage() {
   const [isLoadingVault, setIsLoadingVault] = useState(true);
@@ -42,7 +44,7 @@ export default function VaultPage() {
   }, [fetchVaultData]);
 
   const handleRunAgent = async () => {
-    if (!authState.supabaseUserId) {
+    if (!authState.supabaseUserId || authState.status !== 'authenticated') {
       toast.error("Authentication Error", {
         description: "User ID not found. Please log in again.",
       });
@@ -87,9 +89,9 @@ export default function VaultPage() {
             const ingestResponse = await fetch('/api/rag/ingest/vault-helper', {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
-                    'X-User-ID': authState.supabaseUserId
+                    'Content-Type': 'application/json'
                 },
+                credentials: 'same-origin', // Session cookie identifies the caller
                 body: JSON.stringify({
                     sourceType: "vault-agent-run",
                     ...agentResultData
@@ -170,6 +172,10 @@ export default function VaultPage() {
       <p className="text-muted-foreground">
         View your current vault data or trigger the agent to update it and ingest into RAG.
       </p>
+      <p className="text-sm text-muted-foreground">
+        The local agent signs in with its own credentials: when it shows a code, approve it on the{' '}
+        <Link href={DEVICE_VERIFICATION_PATH} className="underline">Connect a device</Link> page.
+      </p>
 
       <Button
           onClick={handleRunAgent}
@@ -0,0 +1,39 @@
+/**
+ * @description
+ * Navigation between the /account settings pages, highlighting the current one.
+ */
+
+"use client";
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+
+const ACCOUNT_NAV_ITEMS: { href: string; label: string }[] = [
+  { href: '/account/identities', label: 'Linked identities' },
+  { href: '/account/tokens', label: 'Tokens' },
+  { href: '/account/apps', label: 'Authorized apps' },
+  { href: '/account/session', label: 'Session' },
+];
+
+export function AccountNav() {
+  const pathname = usePathname();
+
+  return (
+    <nav className="max-w-3xl mx-auto mb-6 flex gap-4 border-b text-sm">
+      {ACCOUNT_NAV_ITEMS.map(item => {
+        const isActive = pathname === item.href || pathname.startsWith(`${item.href}/`);
+        return (
+          <Link
+            key={item.href}
+            href={item.href}
+            className={`-mb-px border-b-2 px-1 pb-2 transition-colors ${
+              isActive ? 'border-primary text-foreground' : 'border-transparent text-foreground/60 hover:text-foreground/80'
+            }`}
+          >
+            {item.label}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
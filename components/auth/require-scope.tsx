@@ -0,0 +1,67 @@
+/**
+ * @description
+ * Scope-aware UI gating built on `useScopes()`.
+ * - `RequireScope`: renders its children only when every listed scope was granted;
+ *   otherwise renders a fallback (by default a `ScopeNotice`) or nothing when `hide` is set.
+ * - `ScopeNotice`: explains which permission is missing and offers to request it.
+ *
+ * @dependencies
+ * - context/auth-context: `useAuth` and `useScopes`.
+ * - lib/mcp/client: `requestScopes` for incremental authorization.
+ * - components/ui/button: shadcn/ui button component.
+ *
+ * @notes
+ * - Controls that should stay visible but disabled can use `useScopes()` directly
+ *   and place a `ScopeNotice` next to them.
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { useAuth, useScopes } from '@/context/auth-context';
+import { requestScopes } from '@/lib/mcp/client';
+
+interface ScopeNoticeProps {
+  scopes: string[]; // The missing scopes
+  action?: string; // What the user is trying to do, e.g. "save vault data"
+}
+
+export function ScopeNotice({ scopes, action }: ScopeNoticeProps) {
+  const { authState } = useAuth();
+  if (authState.status !== 'authenticated' || scopes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+      <span>
+        {action ? `To ${action}, you` : 'You'} need the <span className="font-mono">{scopes.join(', ')}</span> permission.
+      </span>
+      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => requestScopes(scopes, authState.scope)}>
+        Request access
+      </Button>
+    </div>
+  );
+}
+
+interface RequireScopeProps {
+  scopes: string[];
+  children: React.ReactNode;
+  fallback?: React.ReactNode; // Rendered instead of the default notice when scopes are missing
+  hide?: boolean; // Render nothing when scopes are missing
+  action?: string; // Passed to the default notice
+}
+
+export function RequireScope({ scopes, children, fallback, hide = false, action }: RequireScopeProps) {
+  const { missingScopes } = useScopes();
+  const missing = missingScopes(scopes);
+
+  if (missing.length === 0) {
+    return <>{children}</>;
+  }
+  if (hide) {
+    return null;
+  }
+  return <>{fallback ?? <ScopeNotice scopes={missing} action={action} />}</>;
+}
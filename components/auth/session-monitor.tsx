@@ -0,0 +1,201 @@
+/**
+ * @description
+ * Watches the signed-in session and warns before it ends.
+ * - Idle timeout: tracks user activity (shared across tabs) and signs out after
+ *   SESSION_IDLE_TIMEOUT_SECONDS without any.
+ * - Expiry: warns when the access token is about to expire without having been renewed.
+ * Both show an `AlertDialog` with a countdown offering "Stay signed in" (records activity
+ * and renews the session) or "Sign out".
+ *
+ * @dependencies
+ * - context/auth-context: Session state, `refreshSession`, `logout` and `signOut`.
+ * - lib/constants: Idle and warning thresholds, activity storage key.
+ * - components/ui/alert-dialog: shadcn/ui alert dialog.
+ *
+ * @notes
+ * - Rendered once inside `AuthProvider` (see app/layout.tsx); renders nothing while signed out.
+ * - Idle sign-out uses the full `signOut` (tokens revoked); an expired session only ends locally.
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/context/auth-context';
+import {
+  SESSION_IDLE_TIMEOUT_SECONDS,
+  SESSION_IDLE_WARNING_SECONDS,
+  SESSION_EXPIRY_WARNING_SECONDS,
+  STORAGE_KEY_LAST_ACTIVITY,
+} from '@/lib/constants';
+
+type SessionWarning = {
+  reason: 'idle' | 'expiry';
+  secondsLeft: number;
+};
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'scroll', 'touchstart'] as const;
+// Activity is written to localStorage at most this often
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+const CHECK_INTERVAL_MS = 1000;
+
+function readLastActivity(): number {
+  const stored = Number(localStorage.getItem(STORAGE_KEY_LAST_ACTIVITY));
+  return Number.isFinite(stored) && stored > 0 ? stored : Date.now();
+}
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function SessionMonitor() {
+  const { authState, refreshSession, logout, signOut } = useAuth();
+  const [warning, setWarning] = useState<SessionWarning | null>(null);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const isAuthenticated = authState.status === 'authenticated';
+
+  // Kept in refs so the activity listeners and the check timer are registered only once per session
+  const warningRef = useRef(warning);
+  warningRef.current = warning;
+  const expiresAtRef = useRef(authState.expiresAt);
+  expiresAtRef.current = authState.expiresAt;
+  const lastActivityWriteRef = useRef(0);
+  const endingRef = useRef(false);
+
+  const recordActivity = useCallback((force = false) => {
+    const now = Date.now();
+    if (!force && now - lastActivityWriteRef.current < ACTIVITY_WRITE_INTERVAL_MS) {
+      return;
+    }
+    lastActivityWriteRef.current = now;
+    localStorage.setItem(STORAGE_KEY_LAST_ACTIVITY, String(now));
+  }, []);
+
+  // Effect to track user activity while signed in
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+    recordActivity(true);
+    const onActivity = () => {
+      // While the dialog is open only its buttons count as activity
+      if (!warningRef.current) {
+        recordActivity();
+      }
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+    };
+  }, [isAuthenticated, recordActivity]);
+
+  // Effect to check the idle and expiry deadlines once per second
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setWarning(null);
+      return;
+    }
+    endingRef.current = false;
+
+    const check = () => {
+      if (endingRef.current) return;
+      const now = Date.now();
+      const idleSecondsLeft = Math.ceil((readLastActivity() + SESSION_IDLE_TIMEOUT_SECONDS * 1000 - now) / 1000);
+      const expiresAt = expiresAtRef.current;
+      const expirySecondsLeft = expiresAt ? Math.ceil((expiresAt - now) / 1000) : Infinity;
+
+      if (idleSecondsLeft <= 0) {
+        console.log('SessionMonitor: Idle timeout reached; signing out.');
+        endingRef.current = true;
+        setWarning(null);
+        signOut();
+        return;
+      }
+      if (expirySecondsLeft <= 0) {
+        console.log('SessionMonitor: Session expired; ending session.');
+        endingRef.current = true;
+        setWarning(null);
+        logout();
+        return;
+      }
+
+      if (expirySecondsLeft <= SESSION_EXPIRY_WARNING_SECONDS && expirySecondsLeft <= idleSecondsLeft) {
+        setWarning({ reason: 'expiry', secondsLeft: expirySecondsLeft });
+      } else if (idleSecondsLeft <= SESSION_IDLE_WARNING_SECONDS) {
+        setWarning({ reason: 'idle', secondsLeft: idleSecondsLeft });
+      } else if (warningRef.current) {
+        // Activity in another tab or a renewal elsewhere cleared the condition
+        setWarning(null);
+      }
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isAuthenticated, logout, signOut]);
+
+  const handleStaySignedIn = useCallback(async () => {
+    recordActivity(true);
+    setIsRenewing(true);
+    try {
+      const renewed = await refreshSession();
+      console.log(`SessionMonitor: Stay signed in (session renewed: ${renewed}).`);
+      if (renewed) {
+        setWarning(null);
+      }
+    } finally {
+      setIsRenewing(false);
+    }
+  }, [recordActivity, refreshSession]);
+
+  const handleSignOut = useCallback(() => {
+    endingRef.current = true;
+    setWarning(null);
+    signOut();
+  }, [signOut]);
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AlertDialog open={warning !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {warning?.reason === 'expiry' ? 'Your session is about to expire' : 'Are you still there?'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {warning?.reason === 'expiry'
+              ? 'We could not renew your session automatically.'
+              : 'You have been inactive for a while.'}{' '}
+            You will be signed out in <span className="font-mono">{formatCountdown(Math.max(warning?.secondsLeft ?? 0, 0))}</span>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={handleSignOut}>Sign out</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(event) => {
+              // Keep the dialog open until the renewal has succeeded
+              event.preventDefault();
+              handleStaySignedIn();
+            }}
+            disabled={isRenewing}
+          >
+            {isRenewing ? 'Renewing...' : 'Stay signed in'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * @description
+ * Code entry and approval UI for the device authorization grant.
+ * - Looks up the entered user code (prefilled from `?user_code=`) via `/api/device/verify`.
+ * - Shows which agent is asking for which scopes.
+ * - Approve: starts a PKCE authorization for those scopes; the OAuth callback (`MCPClient`)
+ *   hands the code to `/api/device/verify`, then returns here with `?result=approved|failed`.
+ * - Deny: records the decision directly.
+ *
+ * @dependencies
+ * - next/navigation: useSearchParams for the prefilled code and the result.
+ * - lib/mcp/client: `redirectToAuthorization`.
+ * - components/ui: shadcn/ui card, input, label, button, badge.
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { redirectToAuthorization } from '@/lib/mcp/client';
+import { DEVICE_VERIFICATION_PATH } from '@/lib/constants';
+
+interface PendingDevice {
+  userCode: string;
+  clientId: string;
+  scope: string;
+  expiresAt: number;
+}
+
+export function DeviceApproval() {
+  const searchParams = useSearchParams();
+  const result = searchParams.get('result');
+  const [userCode, setUserCode] = useState(searchParams.get('user_code') || '');
+  const [pending, setPending] = useState<PendingDevice | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [denied, setDenied] = useState(false);
+
+  const lookUpCode = useCallback(async (code: string) => {
+    if (!code.trim()) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/device/verify?user_code=${encodeURIComponent(code)}`, { credentials: 'same-origin' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Lookup failed: ${response.status}`);
+      }
+      setPending(data);
+    } catch (lookupError: any) {
+      console.error('Device code lookup failed:', lookupError);
+      setPending(null);
+      setError(lookupError.message);
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  // Codes from verification_uri_complete are looked up right away
+  useEffect(() => {
+    const prefilled = searchParams.get('user_code');
+    if (prefilled) {
+      lookUpCode(prefilled);
+    }
+  }, [searchParams, lookUpCode]);
+
+  const handleApprove = async () => {
+    if (!pending) return;
+    setIsBusy(true);
+    // The consent is the authorization itself: the auth-worker issues tokens for exactly these scopes
+    await redirectToAuthorization({
+      returnTo: DEVICE_VERIFICATION_PATH,
+      scopes: pending.scope.split(' '),
+      deviceUserCode: pending.userCode,
+    });
+  };
+
+  const handleDeny = async () => {
+    if (!pending) return;
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/device/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ userCode: pending.userCode, decision: 'deny' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Denial failed: ${response.status}`);
+      }
+      setPending(null);
+      setDenied(true);
+    } catch (denyError: any) {
+      console.error('Device denial failed:', denyError);
+      toast.error("Could not deny the device", { description: denyError.message });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (result === 'approved') {
+    return (
+      <Card className="max-w-lg">
+        <CardHeader>
+          <CardTitle>Device connected</CardTitle>
+          <CardDescription>You can return to your device; it will finish signing in on its own.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (denied) {
+    return (
+      <Card className="max-w-lg">
+        <CardHeader>
+          <CardTitle>Request denied</CardTitle>
+          <CardDescription>The device was not given access.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-lg">
+      <CardHeader>
+        <CardTitle>{pending ? 'Approve this device?' : 'Enter the code shown on your device'}</CardTitle>
+        <CardDescription>
+          {result === 'failed'
+            ? 'The last approval did not complete. Enter the code again to retry.'
+            : 'Agents and scripts use this to get their own access, which you can revoke independently of this browser.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending ? (
+          <div className="space-y-2 text-sm">
+            <p>
+              <span className="font-medium">{pending.clientId}</span> is requesting access with code{' '}
+              <span className="font-mono">{pending.userCode}</span>.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {pending.scope.split(' ').map(scope => (
+                <Badge key={scope} variant="secondary" className="font-mono">{scope}</Badge>
+              ))}
+            </div>
+            <p className="text-muted-foreground">Only approve if you started this on a device you control.</p>
+          </div>
+        ) : (
+          <form
+            className="space-y-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              lookUpCode(userCode);
+            }}
+          >
+            <Label htmlFor="user-code">Code</Label>
+            <Input
+              id="user-code"
+              value={userCode}
+              onChange={(event) => setUserCode(event.target.value)}
+              placeholder="XXXX-XXXX"
+              autoComplete="off"
+              className="font-mono uppercase tracking-widest"
+            />
+          </form>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        {pending ? (
+          <>
+            <Button variant="outline" onClick={handleDeny} disabled={isBusy}>Deny</Button>
+            <Button onClick={handleApprove} disabled={isBusy}>{isBusy ? 'Redirecting...' : 'Approve'}</Button>
+          </>
+        ) : (
+          <Button onClick={() => lookUpCode(userCode)} disabled={isBusy || !userCode.trim()}>
+            {isBusy ? 'Checking...' : 'Continue'}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
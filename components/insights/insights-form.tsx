@@ -1,7 +1,9 @@
 'use client';
 
 import React, { useState } from 'react';
-import { useAuth } from '@/context/auth-context';
+import { useAuth, useScopes } from '@/context/auth-context';
+import { ScopeNotice } from '@/components/auth/require-scope';
+import { MCP_SCOPE_DATA_READ } from '@/lib/constants';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -17,6 +19,7 @@ interface InsightsFormProps {
 
 const InsightsForm: React.FC<InsightsFormProps> = ({ onInsightsGenerated }) => {
   const { authState } = useAuth();
+  const missingScopes = useScopes().missingScopes([MCP_SCOPE_DATA_READ]); // Insights search the user's data
   const [query, setQuery] = useState('');
   const [insightTypes, setInsightTypes] = useState<InsightType[]>(['summary', 'action-items' as InsightType]);
   const [sourceTypes, setSourceTypes] = useState<string[]>(['gmail']); // Default to gmail but allow changing
@@ -70,7 +73,7 @@ const InsightsForm: React.FC<InsightsFormProps> = ({ onInsightsGenerated }) => {
       return;
     }
 
-    if (authState.status !== 'authenticated' || !authState.accessToken || !authState.supabaseUserId) {
+    if (authState.status !== 'authenticated' || !authState.supabaseUserId) {
       toast.error('You must be logged in to generate insights');
       return;
     }
@@ -78,12 +81,11 @@ const InsightsForm: React.FC<InsightsFormProps> = ({ onInsightsGenerated }) => {
     setIsLoading(true);
 
     try {
-      const result = await generateInsights(authState.accessToken, {
+      const result = await generateInsights({
         query,
         insightTypes,
         sourceTypes,
-        matchThreshold: 0.8,
-        userId: authState.supabaseUserId // Pass user ID explicitly
+        matchThreshold: 0.8
       });
 
       toast.success('Insights generated successfully');
@@ -189,10 +191,11 @@ const InsightsForm: React.FC<InsightsFormProps> = ({ onInsightsGenerated }) => {
             </div>
           </div>
 
+          <ScopeNotice scopes={missingScopes} action="generate insights" />
           <Button 
             type="submit" 
             className="w-full"
-            disabled={isLoading || !query.trim() || insightTypes.length === 0}
+            disabled={isLoading || !query.trim() || insightTypes.length === 0 || missingScopes.length > 0}
           >
             {isLoading ? 'Generating...' : 'Generate Insights'}
           </Button>
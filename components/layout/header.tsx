@@ -1,16 +1,72 @@
 "use client";
 
+import { useState } from 'react';
 import Link from 'next/link';
-import { useAuth } from '@/context/auth-context';
+import { useAuth, useScopes } from '@/context/auth-context';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
+import { redirectToAuthorization } from '@/lib/mcp/client';
+import { findRoutePolicy } from '@/lib/auth/route-policy';
+
+const NAV_ITEMS: { href: string; label: string; authenticatedOnly?: boolean }[] = [
+  { href: '/dashboard', label: 'Dashboard' },
+  { href: '/vault', label: 'Vault' },
+  { href: '/rag', label: 'RAG Mgmt' },
+  { href: '/insights', label: 'AI Insights' },
+  { href: '/debug', label: 'Debug', authenticatedOnly: true },
+  { href: '/account/identities', label: 'Account', authenticatedOnly: true },
+];
+
+// Links in the profile menu
+const PROFILE_MENU_ITEMS: { href: string; label: string }[] = [
+  { href: '/account/identities', label: 'Linked identities' },
+  { href: '/account/tokens', label: 'Tokens' },
+  { href: '/account/apps', label: 'Authorized apps' },
+  { href: '/account/session', label: 'Session' },
+];
+
+// Up to two initials from the display name, else the first letter of the email
+function toInitials(name: string | null | undefined, email: string | null | undefined): string {
+  const words = (name || '').trim().split(/\s+/).filter(Boolean);
+  if (words.length > 0) {
+    return words.slice(0, 2).map(word => word[0]).join('').toUpperCase();
+  }
+  return email ? email[0].toUpperCase() : '?';
+}
 
 export function Header() {
-  const { authState, logout } = useAuth();
-  const userId = authState.supabaseUserId;
+  const { authState, signOut } = useAuth();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const { missingScopes } = useScopes();
+  const { profile } = authState;
   const isAuthenticated = authState.status === 'authenticated';
-  const userInitials = userId ? userId.substring(0, 2).toUpperCase() : "?";
+  const userInitials = toInitials(profile?.name, profile?.email);
+  const displayName = profile?.name || profile?.email || 'Signed in';
+
+  // Signed-out users keep the links (the route guard sends them to login); signed-in users need the scopes
+  const missingNavScopes = (href: string) => {
+    const policy = findRoutePolicy(href);
+    return isAuthenticated && policy ? missingScopes(policy.requiredScopes) : [];
+  };
+
+  // Start the OAuth flow and come back to the current page (including its query) afterwards
+  const handleSignIn = () => {
+    redirectToAuthorization({ returnTo: window.location.href });
+  };
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    setIsMenuOpen(false);
+    try {
+      await signOut();
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -23,68 +79,89 @@ export function Header() {
             </span>
           </Link>
           <nav className="flex items-center gap-6 text-sm">
-            {/* Add navigation links here */}
-            <Link 
-              href="/dashboard"
-              className="transition-colors hover:text-foreground/80 text-foreground/60"
-            >
-              Dashboard
-            </Link>
-            <Link
-              href="/vault"
-              className="transition-colors hover:text-foreground/80 text-foreground/60"
-            >
-              Vault
-            </Link>
-            {/* Add RAG link */}
-            <Link
-              href="/rag"
-              className="transition-colors hover:text-foreground/80 text-foreground/60"
-            >
-              RAG Mgmt
-            </Link>
-            {/* Add Insights link */}
-            <Link
-              href="/insights"
-              className="transition-colors hover:text-foreground/80 text-foreground/60"
-            >
-              AI Insights
-            </Link>
-            {/* Add Debug link, only visible to authenticated users */}
-            {isAuthenticated && (
-              <Link
-                href="/debug"
-                className="transition-colors hover:text-foreground/80 text-foreground/60"
-              >
-                Debug
-              </Link>
-            )}
+            {/* Navigation links; sections the session lacks scopes for are shown disabled */}
+            {NAV_ITEMS.filter(item => !item.authenticatedOnly || isAuthenticated).map(item => {
+              const missing = missingNavScopes(item.href);
+              return missing.length === 0 ? (
+                <Link
+                  key={item.href}
+                  href={item.href}
+                  className="transition-colors hover:text-foreground/80 text-foreground/60"
+                >
+                  {item.label}
+                </Link>
+              ) : (
+                <span
+                  key={item.href}
+                  className="cursor-not-allowed text-foreground/30"
+                  title={`Requires the ${missing.join(', ')} permission`}
+                  aria-disabled="true"
+                >
+                  {item.label}
+                </span>
+              );
+            })}
              {/* Add more links as needed */}
             {/* <Link href="/client" className="transition-colors hover:text-foreground/80 text-foreground/60">Client</Link> */}
           </nav>
         </div>
         <div className="flex flex-1 items-center justify-between space-x-4 md:justify-end">
-          {/* --- User Status & Logout Button --- */}
+          {/* --- Profile Menu / Sign In Button --- */}
           {isAuthenticated ? (
-            <div className="flex items-center gap-3">
-                <Avatar className="h-8 w-8">
-                    {/* Add AvatarImage if you have user image URLs */}
-                    {/* <AvatarImage src="/path/to/user-image.png" alt="User Avatar" /> */}
+            <Popover open={isMenuOpen} onOpenChange={setIsMenuOpen}>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  className="rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  aria-label="Open profile menu"
+                >
+                  <Avatar className="h-8 w-8">
+                    {profile?.picture && <AvatarImage src={profile.picture} alt={displayName} />}
                     <AvatarFallback>{userInitials}</AvatarFallback>
-                </Avatar>
-                {/* <span className="text-sm text-muted-foreground hidden sm:inline">{userId ? `ID: ${userId.substring(0,6)}...` : 'Loading...'}</span> */} 
-                 <Button variant="outline" size="sm" onClick={logout}> 
-                    Logout
-                </Button>
-            </div>
+                  </Avatar>
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-64 p-0">
+                {/* Profile from the validated ID token (and userinfo) */}
+                <div className="px-4 py-3">
+                  <p className="text-sm font-medium truncate">{displayName}</p>
+                  {profile?.name && profile.email && (
+                    <p className="text-xs text-muted-foreground truncate">{profile.email}</p>
+                  )}
+                </div>
+                <Separator />
+                <nav className="flex flex-col py-1 text-sm">
+                  {PROFILE_MENU_ITEMS.map(item => (
+                    <Link
+                      key={item.href}
+                      href={item.href}
+                      className="px-4 py-2 transition-colors hover:bg-accent hover:text-accent-foreground"
+                      onClick={() => setIsMenuOpen(false)}
+                    >
+                      {item.label}
+                    </Link>
+                  ))}
+                </nav>
+                <Separator />
+                <div className="p-2">
+                  <Button variant="ghost" size="sm" className="w-full justify-start" onClick={handleSignOut} disabled={isSigningOut}>
+                    {isSigningOut ? 'Signing out...' : 'Sign out'}
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
           ) : authState.status === 'loading' ? (
              // Optional: Show loading state
              <Skeleton className="h-8 w-20" />
           ) : (
-            // Can add a Login button here if needed, or leave empty if login is elsewhere
-            <span className="text-sm text-muted-foreground">Not Logged In</span>
+            <div className="flex items-center gap-3">
+                <span className="text-sm text-muted-foreground">Not Logged In</span>
+                <Button variant="outline" size="sm" onClick={handleSignIn}>
+                    Sign in
+                </Button>
+            </div>
           )}
-          {/* --- End User Status & Logout Button --- */}
+          {/* --- End Profile Menu / Sign In Button --- */}
         </div>
       </div>
     </header>
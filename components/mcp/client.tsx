@@ -5,45 +5,52 @@
  * and provides UI for interacting with the protected MCP Resource Server API.
  *
  * Key features:
- * - Handles redirect callback from the auth-worker.
+ * - Handles redirect callback from the auth-worker, driven by the callback state machine
+ *   (`lib/mcp/callback-machine`); this component only performs each step's side effects.
  * - Extracts authorization code and state from URL query parameters.
- * - Retrieves PKCE verifier and state from sessionStorage using constants.
- * - Validates state parameter for CSRF protection.
+ * - Retrieves the stored state from sessionStorage using constants.
+ * - Validates state parameter for CSRF protection (checked again server-side, where the PKCE verifier lives).
  * - Calls the backend API route (`/api/auth/token`) to exchange code for tokens.
- * - Manages authentication state (tokens, errors, loading).
- * - Displays authentication status and token information.
+ * - For device approvals (see app/device), hands the code to `/api/device/verify` instead.
+ * - Manages authentication state (session status, errors, loading). Tokens stay server-side.
+ * - Displays authentication status and session information; token details live in the
+ *   token inspector (`/account/session`).
  * - Provides a button to make authenticated API calls to the mcp-worker.
  *
  * @dependencies
- * - react: Core React library (useState, useEffect, useCallback).
+ * - react: Core React library (useState, useEffect, useCallback, useReducer).
  * - next/navigation: Provides useSearchParams hook to read URL params.
  * - lib/mcp/client: Utilities for API calls (`fetchMcpApi`). Type definitions.
- * - lib/constants: Provides storage keys (STORAGE_KEY_PKCE_VERIFIER, STORAGE_KEY_OAUTH_STATE).
+ * - lib/mcp/callback-machine: OAuth callback states, events and transitions.
+ * - lib/auth/hanko-client: Shared Hanko SDK instance.
+ * - lib/constants: Provides the storage key (STORAGE_KEY_OAUTH_STATE).
  * - components/ui/button: shadcn/ui button component.
  * - sonner: Toast notifications library.
  *
  * @notes
- * - Token exchange now happens server-side via `/api/auth/token`.
+ * - Token exchange now happens server-side via `/api/auth/token`, which sets an httpOnly session cookie.
  * - Assumes a simple component `CodeBlock` exists for displaying JSON.
  */
 
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useReducer } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { toast } from "sonner"; // Import toast from sonner
 // Import only fetchMcpApi and type definitions from client lib
-import { fetchMcpApi, TokenResponse, TokenErrorResponse } from '@/lib/mcp/client';
+import { fetchMcpApi, requestSessionTokens, consumeStoredOAuthState, replayPendingMcpRequest, InsufficientScopeError, TokenResponse, TokenErrorResponse } from '@/lib/mcp/client';
+import { offerStepUpAuthorization } from '@/lib/mcp/step-up';
+import { callbackReducer, initialCallbackState, readCallbackParams, type CallbackEvent } from '@/lib/mcp/callback-machine';
 import { Button } from '@/components/ui/button';
 // Import storage key constants
-import { STORAGE_KEY_PKCE_VERIFIER, STORAGE_KEY_OAUTH_STATE } from '@/lib/constants';
+import { STORAGE_KEY_OAUTH_STATE, DEVICE_VERIFICATION_PATH } from '@/lib/constants';
 // Import the Auth Button to render when idle
 import MCPAuthButton from '@/lib/mcp/auth-button';
 import { useAuth } from '@/context/auth-context'; // Import useAuth
-// Import Hanko SDK
-import { Hanko } from "@teamhanko/hanko-elements";
-// Read env var directly
-const hankoApiUrl = process.env.NEXT_PUBLIC_HANKO_API_URL; 
+// Import Hanko SDK type and the shared instance (also used for sign-out)
+import type { Hanko } from "@teamhanko/hanko-elements";
+import { getHankoClient } from '@/lib/auth/hanko-client';
 
 // Assume a simple CodeBlock component exists for display
 const CodeBlock = ({ data }: { data: any }) => <pre className="p-4 bg-gray-100 dark:bg-gray-900 rounded-md text-xs overflow-x-auto"><code>{JSON.stringify(data, null, 2)}</code></pre>;
@@ -51,29 +58,22 @@ const CodeBlock = ({ data }: { data: any }) => <pre className="p-4 bg-gray-100 d
 export function MCPClient() {
   const searchParams = useSearchParams();
   const router = useRouter(); // <-- Get router instance
-  const { authState, login, logout, setAuthState } = useAuth(); // Use context state AND the login/logout functions
+  const { authState, login, logout, setAuthState, refreshSession } = useAuth(); // Use context state AND the login/logout/refresh functions
   const [apiResponse, setApiResponse] = useState<any>(null);
   const [apiError, setApiError] = useState<string | null>(null);
   const [isApiLoading, setIsApiLoading] = useState(false);
 
-  // Use useRef for Hanko instance to avoid re-triggering effect on setHanko
-  const hankoRef = useRef<Hanko | null>(null); 
-  const exchangeAttemptedRef = useRef(false);
+  // Use useRef for Hanko instance to avoid re-triggering effects
+  const hankoRef = useRef<Hanko | null>(null);
+  // OAuth callback progress; see lib/mcp/callback-machine for the states and transitions
+  const [callback, dispatchCallback] = useReducer(callbackReducer, initialCallbackState);
 
-  // Initialize Hanko SDK ONCE on mount and store in ref
+  // Get the shared Hanko SDK instance ONCE on mount and report whether linking will be possible
   useEffect(() => {
-    if (hankoApiUrl && !hankoRef.current) { // Initialize only if URL exists and ref is null
-        console.log("Initializing Hanko SDK instance...");
-        try {
-            hankoRef.current = new Hanko(hankoApiUrl);
-            console.log("Hanko SDK instance created.");
-        } catch (sdkError) {
-             console.error("Failed to initialize Hanko SDK:", sdkError);
-             // Handle error appropriately (e.g., show error to user)
-        }
-    } else if (!hankoApiUrl) {
-        console.error("NEXT_PUBLIC_HANKO_API_URL is not configured.");
+    if (!hankoRef.current) {
+        hankoRef.current = getHankoClient();
     }
+    dispatchCallback({ type: hankoRef.current ? 'SDK_READY' : 'SDK_UNAVAILABLE' });
   }, []); // Empty dependency array - runs only once on mount
 
   // Function to handle linking after login (now uses hankoRef)
@@ -81,8 +81,8 @@ export function MCPClient() {
     const hanko = hankoRef.current; // Get instance from ref
     
     // Check ref for Hanko instance
-    if (!hanko || currentAuthState.status !== 'authenticated' || !currentAuthState.accessToken) {
-        console.warn(`linkHankoToSupabase: Preconditions not met (Hanko SDK Ready: ${!!hanko}, Status: ${currentAuthState.status}, Token: ${!!currentAuthState.accessToken})`);
+    if (!hanko || currentAuthState.status !== 'authenticated') {
+        console.warn(`linkHankoToSupabase: Preconditions not met (Hanko SDK Ready: ${!!hanko}, Status: ${currentAuthState.status})`);
         return null;
     }
 
@@ -91,20 +91,19 @@ export function MCPClient() {
         const hankoUser = await hanko.user.getCurrent();
         console.log("Hanko user details fetched client-side:", hankoUser);
 
-        if (hankoUser && hankoUser.id && hankoUser.email) {
+        // Prefer the email from the validated OIDC profile; the server checks it against what the auth-worker vouches for
+        const email = currentAuthState.profile?.email || hankoUser?.email;
+        if (hankoUser && hankoUser.id && email) {
             // Now we have Hanko ID, Email, and the authState (which might have supabaseUserId undefined)
             // Call the linking API route
-            console.log(`Calling linking API with Hanko User ${hankoUser.id}, Email ${hankoUser.email}, Current Supabase User ${currentAuthState.supabaseUserId}`);
+            console.log(`Calling linking API with Hanko User ${hankoUser.id}, Email ${email}, Current Supabase User ${currentAuthState.supabaseUserId}`);
             try {
                 const linkResponse = await fetch('/api/auth/link-supabase', {
                     method: 'POST',
-                    headers: { 
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${currentAuthState.accessToken}` 
-                    },
+                    headers: { 'Content-Type': 'application/json' }, // Session cookie identifies the caller
                     body: JSON.stringify({
                         hankoUserId: hankoUser.id,
-                        hankoEmail: hankoUser.email,
+                        hankoEmail: email,
                         currentSupabaseUserId: currentAuthState.supabaseUserId 
                     })
                 });
@@ -143,146 +142,182 @@ export function MCPClient() {
     return null; // Return null if any error occurred
   }, [setAuthState]); // Removed hanko state from deps, using ref now
 
-  // Effect to handle the OAuth callback
+  // Feed OAuth callback parameters from the URL into the callback state machine
   useEffect(() => {
-    const code = searchParams.get('code');
-    const state = searchParams.get('state');
-    const error = searchParams.get('error');
-    const errorDescription = searchParams.get('error_description');
-
-    // --- Handle redirect errors ---
-    if (error) {
-        if (!exchangeAttemptedRef.current) { // Process error only once
-            console.error(`OAuth Error received: ${error} - ${errorDescription}`);
-            const errorMsg = `Authorization failed: ${error} (${errorDescription || 'No description provided'})`;
-            logout(); // Clear auth state
-            toast.error("OAuth Error", { description: errorMsg });
-            // Clear storage just in case
-            sessionStorage.removeItem(STORAGE_KEY_PKCE_VERIFIER);
-            sessionStorage.removeItem(STORAGE_KEY_OAUTH_STATE);
-            // Clear URL params
-            if (typeof window !== 'undefined') {
-                window.history.replaceState({}, '', window.location.pathname);
-            }
-            exchangeAttemptedRef.current = true; // Mark error as processed
-        }
+    const params = readCallbackParams(searchParams);
+    if (!params) {
+        console.log('Client page loaded, no OAuth callback detected.');
         return;
     }
+    if (authState.status === 'authenticated' && callback.status === 'idle') {
+        // Callback params still present, but already authenticated. Clear URL.
+        console.log("Already authenticated, clearing stale callback params from URL.");
+        window.history.replaceState({}, '', window.location.pathname);
+        return;
+    }
+    // Repeated deliveries of the same callback are ignored by the reducer
+    dispatchCallback({ type: 'CALLBACK_RECEIVED', params });
+  }, [searchParams, authState.status, callback.status]);
 
-    // --- Handle successful redirect ---
-    // Only proceed if code/state exist, auth is idle, AND exchange not yet attempted
-    if (code && state && authState.status === 'idle' && !exchangeAttemptedRef.current && hankoRef.current) {
-        
-        // Mark attempt *before* async operations
-        exchangeAttemptedRef.current = true; 
-        console.log('OAuth callback detected. Hanko SDK ready. Starting process...');
-
-        // Use an async IIFE to handle the entire flow
-        (async () => {
-            try {
-                // Retrieve and validate state/verifier
-                const storedVerifier = sessionStorage.getItem(STORAGE_KEY_PKCE_VERIFIER);
-                const storedState = sessionStorage.getItem(STORAGE_KEY_OAUTH_STATE);
-                sessionStorage.removeItem(STORAGE_KEY_PKCE_VERIFIER);
-                sessionStorage.removeItem(STORAGE_KEY_OAUTH_STATE);
-                console.log(`[MCPClient] Read/Cleared sessionStorage.`);
-
-                if (!storedState || storedState !== state) { throw new Error('State mismatch.'); }
-                console.log('OAuth state parameter validated.');
-                if (!storedVerifier) { throw new Error('PKCE verifier missing.'); }
-                console.log('PKCE verifier retrieved.');
-
-                // Set loading state
-                setAuthState(prev => ({ ...prev, status: 'loading', error: null }));
+  // Perform the side effect of each callback step; results come back as events
+  const callbackStep = callback.status === 'idle' ? 'idle' : `${callback.status}:${callback.key}`;
+  useEffect(() => {
+    let cancelled = false;
+    const dispatch = (event: CallbackEvent) => {
+        if (!cancelled) dispatchCallback(event);
+    };
+
+    switch (callback.status) {
+        case 'validatingState': {
+            // Retrieve and clear the stored state; the reducer validates it
+            const storedState = consumeStoredOAuthState();
+            console.log(`[MCPClient] Read/Cleared sessionStorage.`);
+            dispatchCallback({ type: 'STORAGE_READ', storedState });
+            break;
+        }
 
-                // --- Exchange Token ---
-                console.log('Calling /api/auth/token...');
-                const tokenRes = await fetch('/api/auth/token', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ code: code, codeVerifier: storedVerifier }),
-                });
-                const tokenData = await tokenRes.json();
-                if (!tokenRes.ok) {
-                    throw new Error(tokenData.error_description || tokenData.error || `Token exchange failed: ${tokenRes.status}`);
+        case 'waitingForSdk':
+            console.warn("OAuth callback detected, but Hanko SDK not yet initialized. Waiting...");
+            break;
+
+        case 'exchanging':
+            if (callback.target === 'device') {
+                // --- Device approval: the tokens go to the device, the browser session stays as it is ---
+                (async () => {
+                    try {
+                        const approveRes = await fetch('/api/device/verify', {
+                            method: 'POST',
+                            headers: { 'Content-Type': 'application/json' },
+                            credentials: 'same-origin',
+                            body: JSON.stringify({ userCode: callback.storedState.deviceUserCode, decision: 'approve', code: callback.code, state: callback.storedState.state }),
+                        });
+                        const approveData = await approveRes.json();
+                        if (!approveRes.ok) {
+                            throw new Error(approveData.message || `Device approval failed: ${approveRes.status}`);
+                        }
+                        toast.success("Device Approved", { description: "The device can now finish signing in." });
+                        dispatch({ type: 'DEVICE_APPROVAL_FINISHED', approved: true });
+                    } catch (deviceError: any) {
+                        console.error('Device approval failed:', deviceError);
+                        toast.error("Device Approval Failed", { description: deviceError.message });
+                        dispatch({ type: 'DEVICE_APPROVAL_FINISHED', approved: false });
+                    }
+                })();
+                break;
+            }
+            // --- Exchange Token ---
+            setAuthState(prev => ({ ...prev, status: 'loading', error: null }));
+            (async () => {
+                try {
+                    console.log('Calling /api/auth/token...');
+                    const tokenRes = await requestSessionTokens({ code: callback.code, state: callback.storedState.state });
+                    const tokenData = await tokenRes.json();
+                    if (!tokenRes.ok) {
+                        console.error('Token exchange rejected:', tokenData);
+                        dispatch({
+                            type: 'EXCHANGE_FAILED',
+                            error: tokenData.error,
+                            message: tokenData.error_description || tokenData.error || `Token exchange failed: ${tokenRes.status}`,
+                        });
+                        return;
+                    }
+                    console.log('Token exchange successful, session established:', tokenData);
+                    // --- Store the session summary (might lack supabaseUserId) ---
+                    login(tokenData);
+                    dispatch({ type: 'EXCHANGE_SUCCEEDED', session: tokenData });
+                } catch (exchangeError: any) {
+                    console.error('Error during token exchange:', exchangeError);
+                    dispatch({ type: 'EXCHANGE_FAILED', message: exchangeError.message });
                 }
-                console.log('Token exchange successful:', tokenData);
-                
-                // --- Store initial token data (might lack supabaseUserId) ---
-                login(tokenData); 
-                console.log(`Tokens stored. Initial Supabase User ID: ${tokenData.supabase_user_id}`);
-                
-                // --- Link Hanko and get final state (with definite supabaseUserId) ---
-                const initialAuthState = { 
-                    ...authState, // Spread previous state for safety
-                    status: 'authenticated', 
-                    accessToken: tokenData.access_token, 
-                    refreshToken: tokenData.refresh_token || null,
-                    expiresAt: Date.now() + (tokenData.expires_in || 3600) * 1000,
-                    scope: tokenData.scope || null,
-                    supabaseUserId: tokenData.supabase_user_id || null
-                } as typeof authState; // Assert type
-                const finalSupabaseUserId = await linkHankoToSupabase(initialAuthState);
+            })();
+            break;
+
+        case 'linking':
+            // --- Link Hanko and get final state (with definite supabaseUserId) ---
+            (async () => {
+                const finalSupabaseUserId = await linkHankoToSupabase({
+                    status: 'authenticated',
+                    error: null,
+                    expiresAt: callback.session.expiresAt,
+                    scope: callback.session.scope || null,
+                    supabaseUserId: callback.session.supabaseUserId || null,
+                    profile: callback.session.profile || null,
+                });
                 console.log(`Linking process completed. Final Supabase User ID: ${finalSupabaseUserId}`);
-                
-                // --- Success ---
-                toast.success("Authentication Successful", { description: "Session initialized."});
-                
-                // Clear URL AFTER everything is done
-                if (typeof window !== 'undefined') {
-                    window.history.replaceState({}, '', window.location.pathname);
-                    console.log('[MCPClient] Cleared auth code/state from URL.');
-                }
-                
-                // Redirect AFTER linking and state update
-                console.log("Redirecting to dashboard...");
-                router.replace("/dashboard"); // Or appropriate page
+                dispatch({ type: 'LINKING_FINISHED' });
+            })();
+            break;
 
-            } catch (err: any) {
-                // Handle ANY error in the flow
-                console.error('Error during OAuth callback processing:', err);
-                logout(); // Reset state
-                toast.error("Authentication Failed", { description: err.message });
-                exchangeAttemptedRef.current = false; // Allow retry on error
+        case 'done': {
+            // Clear URL AFTER everything is done
+            window.history.replaceState({}, '', window.location.pathname);
+            console.log('[MCPClient] Cleared auth code/state from URL.');
+            const { outcome } = callback;
+            if (outcome.kind === 'device') {
+                router.replace(`${DEVICE_VERIFICATION_PATH}?result=${outcome.approved ? 'approved' : 'failed'}`);
+                break;
             }
-        })(); // Immediately invoke the async function
-
-    } else if (authState.status === 'idle' && !code && !error) {
-        // Normal page load without callback params
-        if (exchangeAttemptedRef.current) {
-            // Reset ref if we land here after a previous attempt (e.g., error occurred, user navigated away/back)
-            exchangeAttemptedRef.current = false; 
+            toast.success("Authentication Successful", { description: "Session initialized."});
+            (async () => {
+                // --- Retry the request that triggered a step-up authorization, if any ---
+                if (outcome.pendingRequest) {
+                    try {
+                        const retryRes = await replayPendingMcpRequest(outcome.pendingRequest);
+                        if (retryRes.ok) {
+                            toast.success("Request Completed", { description: `${outcome.pendingRequest.method} ${outcome.pendingRequest.path} succeeded with the new permissions.` });
+                        } else {
+                            toast.error("Request Failed", { description: `Retry returned ${retryRes.status}.` });
+                        }
+                    } catch (retryError: any) {
+                        console.error('Retrying the pending request failed:', retryError);
+                        toast.error("Request Failed", { description: retryError.message });
+                    }
+                }
+                // Redirect back to the page originally requested
+                console.log(`Redirecting to ${outcome.returnTo}...`);
+                router.replace(outcome.returnTo);
+            })();
+            break;
         }
-        console.log('Client page loaded, no OAuth callback detected.');
-    } else if (code && state && authState.status === 'authenticated') {
-         // Callback params still present, but already authenticated. Clear URL.
-         console.log("Already authenticated, clearing stale callback params from URL.");
-         if (typeof window !== 'undefined') {
+
+        case 'failed': {
+            console.error(`OAuth callback failed (${callback.error.code}): ${callback.error.message}`);
+            // Only the callback is reset: anyone can link to /client?error=..., so a failed callback must not end the session
+            setAuthState(prev => prev.status === 'loading'
+                ? { ...prev, status: prev.expiresAt ? 'authenticated' : 'error', error: callback.error.message }
+                : prev);
+            toast.error(callback.error.code === 'authorization_error' ? "OAuth Error" : "Authentication Failed", { description: callback.error.message });
+            // Clear storage and URL params
+            sessionStorage.removeItem(STORAGE_KEY_OAUTH_STATE);
             window.history.replaceState({}, '', window.location.pathname);
-         }
-    } else if (code && state && authState.status === 'idle' && !exchangeAttemptedRef.current && !hankoRef.current) {
-        // Condition added: Callback detected but Hanko SDK isn't ready yet
-        console.warn("OAuth callback detected, but Hanko SDK not yet initialized. Waiting...");
-        // Optional: Set a loading state specific to SDK initialization?
+            break;
+        }
     }
 
-  // Only include dependencies that trigger re-evaluation when necessary
-  // Avoid including setAuthState directly if possible
-  }, [searchParams, authState.status, login, logout, setAuthState, router, linkHankoToSupabase]); 
+    return () => {
+        cancelled = true;
+    };
+  // Each step's side effect must run exactly once, so only entering a new step re-triggers this effect
+  // (not SDK status updates or new handler identities)
+  }, [callbackStep]);
 
   // Handler for making an example API call to the mcp-worker
   const handleApiCall = useCallback(async () => {
-    if (authState.status !== 'authenticated' || !authState.accessToken) {
-        setApiError('Not authenticated or access token missing.');
+    if (authState.status !== 'authenticated') {
+        setApiError('Not authenticated.');
         toast.warning("Authentication Required", { description: "Please authenticate first.", duration: 3000 }); // Add toast
         return;
     }
     if (authState.expiresAt && Date.now() > authState.expiresAt) {
-        setApiError('Access token expired. Please re-authenticate or refresh.');
-        // Use logout to reset state on expiry
-        logout(); 
-        toast.error("Token Expired", { description: "Your session has expired. Please log in again.", duration: 3000 }); // Add toast
-        return;
+        // Try to renew the session before giving up on the call
+        const refreshed = await refreshSession();
+        if (!refreshed) {
+            setApiError('Access token expired. Please re-authenticate.');
+            // Use logout to reset state on expiry
+            logout(); 
+            toast.error("Token Expired", { description: "Your session has expired. Please log in again.", duration: 3000 }); // Add toast
+            return;
+        }
     }
 
     setIsApiLoading(true);
@@ -291,9 +326,9 @@ export function MCPClient() {
     console.log('Making API call to mcp-worker...');
 
     try {
-        // Use fetchMcpApi which now points to MCP_API_URL from constants
+        // Use fetchMcpApi, which goes through the same-origin /api/mcp proxy
         // Call the /data endpoint created in mcp-worker/src/index.ts
-        const response = await fetchMcpApi(authState.accessToken, '/data'); // Use relative path
+        const response = await fetchMcpApi('/data'); // Use relative path
 
         const data = await response.json(); // Attempt to parse JSON regardless of status
 
@@ -308,6 +343,11 @@ export function MCPClient() {
             toast.success("API Call Successful", { duration: 2000 }); // Add toast
         }
     } catch (error) {
+        if (error instanceof InsufficientScopeError) {
+            setApiError(error.message);
+            offerStepUpAuthorization(error, authState.scope);
+            return;
+        }
         console.error('Network error during API call:', error);
         const errorMsg = error instanceof Error ? error.message : 'Network error during API call';
         setApiError(errorMsg);
@@ -315,7 +355,7 @@ export function MCPClient() {
     } finally {
         setIsApiLoading(false);
     }
-  }, [authState.status, authState.accessToken, authState.expiresAt, logout]); // Add logout to dependency array
+  }, [authState.status, authState.expiresAt, authState.scope, logout, refreshSession]); // Add logout/refresh to dependency array
 
   // --- Conditional Rendering --- 
   if (authState.status === 'idle') {
@@ -325,7 +365,7 @@ export function MCPClient() {
         <p className="mb-4 text-gray-600 dark:text-gray-400">
             Click the button below to start the OAuth flow.
         </p>
-        <MCPAuthButton />
+        <MCPAuthButton returnTo={searchParams.get('returnTo')} />
       </div>
     );
   }
@@ -346,19 +386,12 @@ export function MCPClient() {
             {authState.error && (
                 <p className="text-red-600 dark:text-red-400 mt-2 text-sm">Error: {authState.error}</p>
             )}
-            {authState.status === 'authenticated' && authState.accessToken && (
+            {authState.status === 'authenticated' && (
                 <div className="mt-4 space-y-3">
-                    <div>
-                        <p className="text-sm font-medium mb-1">Access Token:</p>
-                        <CodeBlock data={authState.accessToken} />
-                    </div>
-                     {authState.refreshToken && (
-                         <div>
-                            <p className="text-sm font-medium mb-1">Refresh Token:</p>
-                            <CodeBlock data={authState.refreshToken} />
-                            <p className="text-xs text-muted-foreground mt-1">Note: Refresh flow not implemented in demo.</p>
-                         </div>
-                     )}
+                    <p className="text-xs text-muted-foreground">
+                        Tokens are held in a secure server-side session and renewed automatically before they expire.{' '}
+                        <Link href="/account/session" className="underline underline-offset-4">Inspect tokens</Link>
+                    </p>
                      <div>
                          <p className="text-sm">Scope(s): <span className="font-mono bg-gray-200 dark:bg-gray-600 px-1 rounded">{authState.scope || 'N/A'}</span></p>
                      </div>
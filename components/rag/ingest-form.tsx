@@ -16,7 +16,9 @@ import {
 import { Loader2 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ExclamationTriangleIcon } from "@radix-ui/react-icons";
-import { useAuth } from '@/context/auth-context'; // <-- Import useAuth
+import { useAuth, useScopes } from '@/context/auth-context'; // <-- Import useAuth
+import { ScopeNotice } from '@/components/auth/require-scope';
+import { MCP_SCOPE_DATA_WRITE } from '@/lib/constants';
 
 interface IngestFormProps {
     sources: DataSource[]; // List of available sources to associate content with
@@ -26,6 +28,7 @@ interface IngestFormProps {
 export function IngestForm({ sources, onSuccess }: IngestFormProps) {
     const { authState } = useAuth(); // <-- Use the hook
     const userId = authState.supabaseUserId; // <-- Get userId from context
+    const missingWriteScopes = useScopes().missingScopes([MCP_SCOPE_DATA_WRITE]); // Ingesting needs write access
 
     const [selectedSourceId, setSelectedSourceId] = useState<string>('');
     const [documentId, setDocumentId] = useState<string>(''); // e.g., filename, URL, unique ID
@@ -83,9 +86,9 @@ export function IngestForm({ sources, onSuccess }: IngestFormProps) {
             const response = await fetch('/api/rag/ingest', {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
-                     'X-User-ID': userId // <-- Add User ID header
+                    'Content-Type': 'application/json'
                  },
+                credentials: 'same-origin', // <-- Session cookie identifies the caller server-side
                 body: JSON.stringify({
                     sourceId: selectedSourceId,
                     documentId: documentId.trim(),
@@ -207,8 +210,9 @@ export function IngestForm({ sources, onSuccess }: IngestFormProps) {
             </div>
 
              {/* Submit Button */}
-             <div className="flex justify-end pt-4">
-                 <Button type="submit" disabled={isLoading || !userId || !selectedSourceId || !documentId || !content}>
+             <div className="flex items-center justify-end gap-4 pt-4">
+                 <ScopeNotice scopes={missingWriteScopes} action="ingest content" />
+                 <Button type="submit" disabled={isLoading || !userId || !selectedSourceId || !documentId || !content || missingWriteScopes.length > 0}>
                     {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
                     Ingest Content
                 </Button>
@@ -57,9 +57,9 @@ export function SourceForm({ onSuccess, onCancel }: SourceFormProps) {
             const response = await fetch('/api/rag/sources', {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
-                    'X-User-ID': userId // <-- Add User ID header
+                    'Content-Type': 'application/json'
                  },
+                credentials: 'same-origin', // <-- Session cookie identifies the caller server-side
                 body: JSON.stringify({
                     sourceType,
                     sourceIdentifier: sourceIdentifier || null, // Send null if empty
@@ -29,13 +29,9 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { createClient } from '@supabase/supabase-js';
-
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { useAuth, useScopes } from '@/context/auth-context';
+import { ScopeNotice } from '@/components/auth/require-scope';
+import { MCP_SCOPE_DATA_WRITE } from '@/lib/constants';
 
 interface SourcesListProps {
     sources: DataSource[];
@@ -45,25 +41,27 @@ interface SourcesListProps {
 }
 
 export function SourcesList({ sources, isLoading, error, onRefresh }: SourcesListProps) {
+    const { authState } = useAuth();
+    const { missingScopes } = useScopes();
+    // Toggling and deleting sources needs write access
+    const missingWriteScopes = missingScopes([MCP_SCOPE_DATA_WRITE]);
+    const canWrite = missingWriteScopes.length === 0;
+    const writeDisabledReason = canWrite ? undefined : `Requires the ${missingWriteScopes.join(', ')} permission`;
 
     const handleToggleEnable = async (sourceId: string, currentEnabledStatus: boolean) => {
         console.log(`Toggling enable status for source ${sourceId} to ${!currentEnabledStatus}`);
         
         try {
-            // Get authentication token
-            const { data: { session } } = await supabase.auth.getSession();
-            const token = session?.access_token;
-            
-            if (!token) {
-                throw new Error("No authentication token available. Please log in again.");
+            if (authState.status !== 'authenticated') {
+                throw new Error("No active session. Please log in again.");
             }
 
-            const response = await fetch(`/api/rag/sources/${sourceId}`, {
+            const response = await fetch(`/api/rag/sources/${encodeURIComponent(sourceId)}`, {
                 method: 'PUT',
                 headers: { 
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}` // Add auth token
+                    'Content-Type': 'application/json'
                 },
+                credentials: 'same-origin', // Session cookie identifies the caller
                 body: JSON.stringify({ enabled: !currentEnabledStatus }),
             });
 
@@ -84,19 +82,13 @@ export function SourcesList({ sources, isLoading, error, onRefresh }: SourcesLis
     const handleDeleteSource = async (sourceId: string) => {
          console.log(`Attempting to delete source ${sourceId}`);
          try {
-            // Get authentication token
-            const { data: { session } } = await supabase.auth.getSession();
-            const token = session?.access_token;
-            
-            if (!token) {
-                throw new Error("No authentication token available. Please log in again.");
+            if (authState.status !== 'authenticated') {
+                throw new Error("No active session. Please log in again.");
             }
 
-            const response = await fetch(`/api/rag/sources/${sourceId}`, {
+            const response = await fetch(`/api/rag/sources/${encodeURIComponent(sourceId)}`, {
                 method: 'DELETE',
-                headers: {
-                    'Authorization': `Bearer ${token}` // Add auth token
-                }
+                credentials: 'same-origin' // Session cookie identifies the caller
             });
 
              if (!response.ok && response.status !== 204) {
@@ -185,6 +177,7 @@ export function SourcesList({ sources, isLoading, error, onRefresh }: SourcesLis
                 <CardTitle>Data Sources</CardTitle>
             </CardHeader>
             <CardContent>
+                <ScopeNotice scopes={missingWriteScopes} action="add, enable, disable or delete sources" />
                 <Table>
                     <TableHeader>
                         <TableRow>
@@ -211,6 +204,8 @@ export function SourcesList({ sources, isLoading, error, onRefresh }: SourcesLis
                                         onCheckedChange={() => handleToggleEnable(source.id, source.enabled)}
                                         aria-label={source.enabled ? 'Disable Source' : 'Enable Source'}
                                         id={`switch-${source.id}`}
+                                        disabled={!canWrite}
+                                        title={writeDisabledReason}
                                     />
                                 </TableCell>
                                  <TableCell>{formatDate(source.lastSyncedAt)}</TableCell>
@@ -223,7 +218,7 @@ export function SourcesList({ sources, isLoading, error, onRefresh }: SourcesLis
                                      {/* Delete Button with Confirmation */}
                                      <AlertDialog>
                                         <AlertDialogTrigger asChild>
-                                            <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive/80" title="Delete Source">
+                                            <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive/80" title={writeDisabledReason || "Delete Source"} disabled={!canWrite}>
                                                 <TrashIcon className="h-4 w-4" />
                                             </Button>
                                         </AlertDialogTrigger>
@@ -5,17 +5,23 @@ import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { useAuth } from '@/context/auth-context'; // Import useAuth
-import { fetchMcpApi } from '@/lib/mcp/client'; // Import API helper
+import { useAuth, useScopes } from '@/context/auth-context'; // Import useAuth
+import { fetchMcpApi, InsufficientScopeError } from '@/lib/mcp/client'; // Import API helper
+import { offerStepUpAuthorization } from '@/lib/mcp/step-up';
+import { ScopeNotice } from '@/components/auth/require-scope';
+import { MCP_SCOPE_DATA_WRITE } from '@/lib/constants';
 
 export function VaultEditor() {
-  const { authState } = useAuth(); // Use context
+  const { authState, refreshSession } = useAuth(); // Use context
   const [vaultContent, setVaultContent] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isFetching, setIsFetching] = useState<boolean>(true);
 
   // Use authState from context
-  const isAuthenticated = authState.status === 'authenticated' && !!authState.accessToken;
+  const isAuthenticated = authState.status === 'authenticated';
+  // Saving needs write access; reading only needs the default scopes
+  const { missingScopes } = useScopes();
+  const missingWriteScopes = missingScopes([MCP_SCOPE_DATA_WRITE]);
 
   // Function to invoke local agent helper
   const handleInvokeHelper = useCallback(async () => {
@@ -79,7 +85,7 @@ export function VaultEditor() {
     setIsFetching(true);
     try {
         // Use existing /api/data endpoint which includes vaultData
-        const response = await fetchMcpApi(authState.accessToken!, '/data');
+        const response = await fetchMcpApi('/data');
 
         if (!response.ok) {
             let errorMessage = 'Unknown error';
@@ -106,7 +112,7 @@ export function VaultEditor() {
     } finally {
         setIsFetching(false);
     }
-  }, [isAuthenticated, authState.accessToken]); // Dependency on token
+  }, [isAuthenticated]); // Dependency on session status
 
   // Fetch data on component mount
   useEffect(() => {
@@ -121,9 +127,12 @@ export function VaultEditor() {
          return;
       }
       if (authState.expiresAt && Date.now() > authState.expiresAt) {
-          toast.error("Token Expired", { description: "Your session has expired. Please log in again." });
-          // Optionally trigger re-auth or update context status
-          return;
+          // Renew the session instead of discarding the user's edits
+          const refreshed = await refreshSession();
+          if (!refreshed) {
+              toast.error("Token Expired", { description: "Your session has expired. Please log in again." });
+              return;
+          }
       }
 
       let parsedData;
@@ -139,7 +148,7 @@ export function VaultEditor() {
 
       try {
           // Call the POST /api/vault endpoint on mcp-worker
-          const response = await fetchMcpApi(authState.accessToken!, '/vault', {
+          const response = await fetchMcpApi('/vault', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify(parsedData),
@@ -160,12 +169,17 @@ export function VaultEditor() {
           toast.success("Vault Saved", { description: "Your data has been securely saved." });
 
       } catch (error: any) {
+          if (error instanceof InsufficientScopeError) {
+              // Saving needs write access that the default login does not ask for
+              offerStepUpAuthorization(error, authState.scope);
+              return;
+          }
           console.error("Error saving vault data:", error);
           toast.error("Save Failed", { description: error.message });
       } finally {
           setIsLoading(false);
       }
-  }, [vaultContent, isAuthenticated, authState.accessToken, authState.expiresAt]);
+  }, [vaultContent, isAuthenticated, authState.expiresAt, authState.scope, refreshSession]);
 
 
   return (
@@ -187,7 +201,7 @@ export function VaultEditor() {
             />
          )}
         <div className="flex gap-2">
-          <Button onClick={handleSaveVault} disabled={isLoading || isFetching || !isAuthenticated}>
+          <Button onClick={handleSaveVault} disabled={isLoading || isFetching || !isAuthenticated || missingWriteScopes.length > 0}>
             {isLoading ? "Saving..." : "Save Vault Data"}
           </Button>
           <Button onClick={handleInvokeHelper} disabled={!isAuthenticated} variant="outline">
@@ -195,6 +209,7 @@ export function VaultEditor() {
           </Button>
         </div>
         {!isAuthenticated && <p className="text-sm text-red-500">Please authenticate via the Dashboard to manage vault data.</p>}
+        <ScopeNotice scopes={missingWriteScopes} action="save vault data" />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,164 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, render, waitFor } from '@testing-library/react';
+import { AuthProvider, useAuth, useScopes, type SessionSummary } from '@/context/auth-context';
+
+const mocks = vi.hoisted(() => ({
+  requestSessionTokens: vi.fn(),
+  endHankoSession: vi.fn(),
+  discardDpopKeyPair: vi.fn(),
+}));
+
+vi.mock('@/lib/mcp/client', () => ({ requestSessionTokens: mocks.requestSessionTokens }));
+vi.mock('@/lib/auth/hanko-client', () => ({ endHankoSession: mocks.endHankoSession }));
+vi.mock('@/lib/auth/dpop', () => ({ discardDpopKeyPair: mocks.discardDpopKeyPair }));
+
+type AuthContextValue = ReturnType<typeof useAuth>;
+
+// Each AuthProvider stands in for one browser tab; they talk over a real BroadcastChannel
+const tabs: Record<string, AuthContextValue> = {};
+
+function TabProbe({ name }: { name: string }) {
+  tabs[name] = useAuth();
+  return null;
+}
+
+function renderTabs(...names: string[]) {
+  names.forEach(name => render(<AuthProvider><TabProbe name={name} /></AuthProvider>));
+}
+
+// Exclusive per-name locks shared by all tabs, like the Web Locks API
+function createLockManager() {
+  const queues = new Map<string, Promise<unknown>>();
+  return {
+    request: (name: string, callback: () => Promise<unknown>) => {
+      const result = (queues.get(name) ?? Promise.resolve()).then(() => callback());
+      queues.set(name, result.catch(() => undefined));
+      return result;
+    },
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+let serverSession: (SessionSummary & { authenticated: true }) | { authenticated: false };
+
+beforeEach(() => {
+  serverSession = { authenticated: false };
+  vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url === '/api/auth/session' && (init?.method ?? 'GET') === 'GET') return jsonResponse(serverSession);
+    if (url === '/api/auth/session' || url === '/api/auth/logout') return jsonResponse({});
+    return jsonResponse({ error: 'not_found' }, 404);
+  }));
+  Object.defineProperty(navigator, 'locks', { value: createLockManager(), configurable: true });
+  mocks.requestSessionTokens.mockReset();
+  mocks.endHankoSession.mockReset().mockResolvedValue(undefined);
+  mocks.discardDpopKeyPair.mockReset().mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  cleanup(); // Unmounting closes each tab's channel
+  vi.unstubAllGlobals();
+  Object.keys(tabs).forEach(name => delete tabs[name]);
+});
+
+const session: SessionSummary = {
+  scope: 'openid mcp:data:read',
+  expiresAt: Date.now() + 60 * 60 * 1000,
+  supabaseUserId: 'supabase-user-1',
+  profile: null,
+};
+
+describe('AuthProvider across tabs', () => {
+  it('shares a login with the other tabs', async () => {
+    renderTabs('first', 'second');
+    await waitFor(() => expect(tabs.second.authState.status).toBe('idle'));
+
+    act(() => tabs.first.login(session));
+
+    await waitFor(() => expect(tabs.second.authState).toMatchObject({
+      status: 'authenticated',
+      expiresAt: session.expiresAt,
+      supabaseUserId: 'supabase-user-1',
+    }));
+  });
+
+  it('shares a logout with the other tabs', async () => {
+    serverSession = { authenticated: true, ...session };
+    renderTabs('first', 'second');
+    await waitFor(() => expect(tabs.second.authState.status).toBe('authenticated'));
+
+    await act(() => tabs.first.logout());
+
+    await waitFor(() => expect(tabs.second.authState.status).toBe('idle'));
+    expect(tabs.first.authState.status).toBe('idle');
+  });
+
+  it('signs every tab out even when the Hanko SDK fails to load', async () => {
+    serverSession = { authenticated: true, ...session };
+    mocks.endHankoSession.mockRejectedValue(new Error('Loading chunk failed'));
+    renderTabs('first', 'second');
+    await waitFor(() => expect(tabs.second.authState.status).toBe('authenticated'));
+
+    await act(() => tabs.first.signOut());
+
+    expect(tabs.first.authState.status).toBe('idle');
+    await waitFor(() => expect(tabs.second.authState.status).toBe('idle'));
+    expect(mocks.discardDpopKeyPair).toHaveBeenCalled();
+  });
+
+  it('never renews the shared session from two tabs at once', async () => {
+    // Inside the renewal window, so both tabs schedule a refresh right away
+    serverSession = { authenticated: true, ...session, expiresAt: Date.now() + 10 * 1000 };
+    const renewedExpiry = Date.now() + 60 * 60 * 1000;
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mocks.requestSessionTokens.mockImplementation(async () => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      inFlight -= 1;
+      return jsonResponse({ ...session, expiresAt: renewedExpiry });
+    });
+
+    renderTabs('first', 'second');
+
+    await waitFor(() => {
+      expect(tabs.first.authState.expiresAt).toBe(renewedExpiry);
+      expect(tabs.second.authState.expiresAt).toBe(renewedExpiry);
+    });
+    expect(mocks.requestSessionTokens).toHaveBeenCalled();
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('shares one refresh between concurrent callers in the same tab', async () => {
+    serverSession = { authenticated: true, ...session };
+    renderTabs('only');
+    await waitFor(() => expect(tabs.only.authState.status).toBe('authenticated'));
+
+    const first = tabs.only.refreshSession();
+    const second = tabs.only.refreshSession();
+
+    expect(second).toBe(first);
+    await act(() => first);
+  });
+});
+
+describe('useScopes', () => {
+  it('counts the scopes implied by the granted ones', async () => {
+    serverSession = { authenticated: true, ...session, scope: 'openid mcp:data:write' };
+    let scopes: ReturnType<typeof useScopes> | undefined;
+    function ScopesProbe() {
+      scopes = useScopes();
+      return null;
+    }
+    render(<AuthProvider><ScopesProbe /></AuthProvider>);
+
+    await waitFor(() => expect(scopes?.scopes).toEqual(['openid', 'mcp:data:write']));
+    expect(scopes?.hasScopes(['rag:ingest'])).toBe(true);
+    expect(scopes?.missingScopes(['rag:ingest', 'mcp:data:read'])).toEqual(['mcp:data:read']);
+  });
+});
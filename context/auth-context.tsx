@@ -1,125 +1,304 @@
 'use client';
 
-import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback, useRef, useMemo } from 'react';
+import { TOKEN_REFRESH_LEEWAY_SECONDS, AUTH_SYNC_CHANNEL_NAME, AUTH_REFRESH_LOCK_NAME } from '@/lib/constants';
+import { requestSessionTokens } from '@/lib/mcp/client';
+import { discardDpopKeyPair } from '@/lib/auth/dpop';
+import { expandGrantedScopes } from '@/lib/auth/scopes';
+import type { UserProfile } from '@/lib/auth/user-profile';
 
 // Define the shape of the auth state
-type AuthState = {
+// Tokens are deliberately absent: they stay in the server-side session (see lib/auth/session.ts)
+export type AuthState = {
   status: 'idle' | 'loading' | 'authenticated' | 'error';
-  accessToken: string | null;
-  refreshToken: string | null;
   error: string | null;
   expiresAt: number | null;
   scope: string | null;
   supabaseUserId: string | null;
+  profile: UserProfile | null; // Validated OIDC profile (name, email, picture); null without `openid`
 };
 
+// Session summary returned by /api/auth/token and /api/auth/session
+export interface SessionSummary {
+  scope: string | null;
+  expiresAt: number;
+  supabaseUserId: string | null;
+  accessTokenHash?: string | null; // Set for DPoP-bound sessions
+  profile?: UserProfile | null;
+}
+
 // Define the context type
 interface AuthContextType {
   authState: AuthState;
   setAuthState: React.Dispatch<React.SetStateAction<AuthState>>;
-  login: (tokenData: any) => void;
-  logout: () => void;
+  login: (session: SessionSummary) => void;
+  // Ends the local session only (e.g. after an unrecoverable refresh failure)
+  logout: () => Promise<void>;
+  // Full sign-out: revokes tokens, ends the Hanko session and clears Supabase cookies
+  signOut: () => Promise<void>;
+  // Renews the server-side session's access token. Resolves to true on success.
+  refreshSession: () => Promise<boolean>;
 }
 
+// Messages exchanged between the AuthProviders of all open tabs
+type AuthSyncMessage =
+  | { type: 'session'; session: SessionSummary } // Login, token renewal or account link in another tab
+  | { type: 'logout' };
+
 // Create the context with a default value
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Storage keys
-const AUTH_STATE_KEY = 'mcp_auth_state';
+// Legacy storage key from when tokens were kept in localStorage; cleared on mount
+const LEGACY_AUTH_STATE_KEY = 'mcp_auth_state';
+
+const initialAuthState: AuthState = {
+  status: 'idle',
+  error: null,
+  expiresAt: null,
+  scope: null,
+  supabaseUserId: null,
+  profile: null,
+};
+
+// Reduces a state to what other tabs need to know; null for transient states that are not shared
+function toSyncSnapshot(state: AuthState): string | null {
+  if (state.status === 'authenticated') {
+    return JSON.stringify([state.expiresAt, state.scope, state.supabaseUserId, state.profile]);
+  }
+  return state.status === 'idle' ? 'signed-out' : null;
+}
 
 // Create the provider component
 export function AuthProvider({ children }: { children: ReactNode }) {
   // ALWAYS initialize with the default state on both server and client initial render
-  const [authState, setAuthState] = useState<AuthState>({
-    status: 'idle', // Or 'loading' if you prefer to show a loader initially
-    accessToken: null,
-    refreshToken: null,
-    error: null,
-    expiresAt: null,
-    scope: null,
-    supabaseUserId: null,
-  });
-
-  // NEW: Effect to load state from storage ONLY on the client AFTER initial mount
+  const [authState, setAuthState] = useState<AuthState>(initialAuthState);
+
+  // Keep a ref to the latest state so timers and async callbacks never read a stale closure
+  const authStateRef = useRef(authState);
+  authStateRef.current = authState;
+  // In-flight refresh request, shared so concurrent callers don't spend the refresh token twice
+  const refreshPromiseRef = useRef<Promise<boolean> | null>(null);
+  // Channel to the other tabs, and the last state they are known to share with this one
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const syncedSnapshotRef = useRef<string | null>(toSyncSnapshot(initialAuthState));
+
+  // Effect to receive login, logout and renewal updates from other tabs
   useEffect(() => {
-    console.log("AuthProvider: Checking localStorage on client mount...");
-    const storedState = localStorage.getItem(AUTH_STATE_KEY);
-    if (storedState) {
+    if (typeof BroadcastChannel === 'undefined') {
+      console.warn('AuthProvider: BroadcastChannel is not available; tabs will not share auth updates.');
+      return;
+    }
+    const channel = new BroadcastChannel(AUTH_SYNC_CHANNEL_NAME);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<AuthSyncMessage>) => {
+      const message = event.data;
+      console.log(`AuthProvider: Received '${message.type}' from another tab.`);
+      const next: AuthState = message.type === 'session'
+        ? {
+            status: 'authenticated',
+            error: null,
+            expiresAt: message.session.expiresAt,
+            scope: message.session.scope || null,
+            supabaseUserId: message.session.supabaseUserId || null,
+            profile: message.session.profile || null,
+          }
+        : initialAuthState;
+      // Mark as already shared so the broadcast effect below does not echo it back
+      syncedSnapshotRef.current = toSyncSnapshot(next);
+      setAuthState(next);
+    };
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, []);
+
+  // Effect to push local logins, logouts and renewals to the other tabs
+  useEffect(() => {
+    const snapshot = toSyncSnapshot(authState);
+    if (snapshot === null || snapshot === syncedSnapshotRef.current) {
+      return;
+    }
+    syncedSnapshotRef.current = snapshot;
+    const message: AuthSyncMessage = authState.status === 'authenticated'
+      ? {
+          type: 'session',
+          session: {
+            expiresAt: authState.expiresAt ?? 0,
+            scope: authState.scope,
+            supabaseUserId: authState.supabaseUserId,
+            profile: authState.profile,
+          },
+        }
+      : { type: 'logout' };
+    console.log(`AuthProvider: Broadcasting '${message.type}' to other tabs.`);
+    channelRef.current?.postMessage(message);
+  }, [authState]);
+
+  // Effect to load the session summary from the server ONLY on the client AFTER initial mount
+  useEffect(() => {
+    // Remove tokens persisted by older versions of the app
+    localStorage.removeItem(LEGACY_AUTH_STATE_KEY);
+
+    let cancelled = false;
+    console.log("AuthProvider: Loading session from server on client mount...");
+    // Only overwrite the state we set here; a callback exchange may have started in the meantime
+    const hydratingState: AuthState = { ...initialAuthState, status: 'loading' };
+    const applyIfStillHydrating = (next: AuthState) => {
+      setAuthState(prev => prev === hydratingState ? next : prev);
+    };
+    setAuthState(prev => prev.status === 'idle' ? hydratingState : prev);
+    (async () => {
       try {
-        const parsedState = JSON.parse(storedState) as AuthState;
-        if (parsedState.accessToken && parsedState.expiresAt && parsedState.expiresAt > Date.now()) {
-          console.log('AuthProvider: Restoring valid auth state from storage via useEffect.');
-          // Use setAuthState to update state AFTER initial render
-          setAuthState({ ...parsedState, status: 'authenticated' }); 
+        const response = await fetch('/api/auth/session', { credentials: 'same-origin', cache: 'no-store' });
+        const data = await response.json();
+        if (cancelled) return;
+        if (response.ok && data.authenticated) {
+          console.log('AuthProvider: Restoring session from server.');
+          applyIfStillHydrating({
+            status: 'authenticated',
+            error: null,
+            expiresAt: data.expiresAt,
+            scope: data.scope,
+            supabaseUserId: data.supabaseUserId,
+            profile: data.profile || null,
+          });
         } else {
-          // Clear invalid/expired state found in storage
-           console.log('AuthProvider: Stored state invalid or expired, removing.');
-          localStorage.removeItem(AUTH_STATE_KEY);
-          // Optionally set state back to idle if it wasn't already
-          // setAuthState(prev => prev.status !== 'idle' ? { ...initialIdleState } : prev);
+          console.log("AuthProvider: No active session on server.");
+          applyIfStillHydrating(initialAuthState);
         }
       } catch (e) {
-        console.error('AuthProvider: Failed to parse stored auth state in useEffect.', e);
-        localStorage.removeItem(AUTH_STATE_KEY);
+        console.error('AuthProvider: Failed to load session from server.', e);
+        if (!cancelled) {
+          applyIfStillHydrating(initialAuthState);
+        }
       }
-    } else {
-        console.log("AuthProvider: No auth state found in storage.");
-    }
+    })();
+    return () => { cancelled = true; };
   }, []); // Empty dependency array ensures this runs only once on client mount
 
-  // Persist auth state to localStorage whenever it changes
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-        // Persist ONLY if fully authenticated and valid
-        if (authState.status === 'authenticated' && authState.accessToken && authState.expiresAt && authState.expiresAt > Date.now()) {
-            console.log('AuthProvider: Persisting auth state to storage.');
-            // Ensure we are saving the *current* authState, including supabaseUserId if present
-            localStorage.setItem(AUTH_STATE_KEY, JSON.stringify(authState)); 
-        } else if (localStorage.getItem(AUTH_STATE_KEY)) {
-             // Clear storage ONLY if the state is NOT validly authenticated AND something is currently stored
-             console.log(`AuthProvider: Clearing storage because status is ${authState.status} (or token invalid/expired) and item exists.`);
-             localStorage.removeItem(AUTH_STATE_KEY);
-        }
-        // Do nothing if not authenticated AND nothing is stored
-    }
-  }, [authState]); // Run whenever authState changes
-
   // Helper function to update state upon successful login
-  const login = (tokenData: any) => {
-    console.log('AuthProvider: login called with token data:', tokenData);
-    const expiresAt = Date.now() + (tokenData.expires_in || 3600) * 1000; // Calculate expiry time
-    const newState: AuthState = {
+  const login = useCallback((session: SessionSummary) => {
+    console.log('AuthProvider: login called with session summary:', session);
+    setAuthState({
         status: 'authenticated',
-        accessToken: tokenData.access_token,
-        refreshToken: tokenData.refresh_token || null,
         error: null,
-        expiresAt: expiresAt,
-        scope: tokenData.scope || null,
-        supabaseUserId: tokenData.supabase_user_id || null,
-    };
-    setAuthState(newState);
-    if (!tokenData.supabase_user_id) {
-        console.warn('AuthProvider: Supabase User ID was missing from login token data!');
-    }
-  };
+        expiresAt: session.expiresAt,
+        scope: session.scope || null,
+        supabaseUserId: session.supabaseUserId || null,
+        profile: session.profile || null,
+    });
+  }, []);
 
-  // Helper function to clear state on logout
-  const logout = () => {
+  // Helper function to end the server-side session and clear state
+  const logout = useCallback(async () => {
     console.log('AuthProvider: logout called.');
-    setAuthState({
-        status: 'idle',
-        accessToken: null,
-        refreshToken: null,
-        error: null,
-        expiresAt: null,
-        scope: null,
-        supabaseUserId: null,
-    });
-    // No need to explicitly clear storage here, the useEffect handles it
-  };
+    setAuthState(initialAuthState);
+    try {
+      await fetch('/api/auth/session', { method: 'DELETE', credentials: 'same-origin' });
+    } catch (error) {
+      console.error('AuthProvider: Failed to end server session.', error);
+    }
+    await discardDpopKeyPair();
+  }, []);
+
+  // Helper function to sign out everywhere: auth-worker tokens, BFF session, Hanko and Supabase cookies
+  const signOut = useCallback(async () => {
+    console.log('AuthProvider: signOut called.');
+    // Reset first: a failure below (e.g. the Hanko chunk not loading) must not leave this or other tabs signed in
+    setAuthState(initialAuthState);
+    try {
+      const response = await fetch('/api/auth/logout', { method: 'POST', credentials: 'same-origin' });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        console.error('AuthProvider: Server sign-out failed.', result);
+      } else {
+        console.log('AuthProvider: Server sign-out complete.', result);
+      }
+    } catch (error) {
+      console.error('AuthProvider: Failed to reach sign-out endpoint.', error);
+    }
+    try {
+      // Loaded lazily so the Hanko SDK is not part of every page's bundle
+      const { endHankoSession } = await import('@/lib/auth/hanko-client');
+      await endHankoSession();
+    } catch (error) {
+      console.error('AuthProvider: Failed to end Hanko session.', error);
+    } finally {
+      await discardDpopKeyPair();
+    }
+  }, []);
+
+  // Ask the backend to renew the session's tokens with its stored refresh token
+  const refreshSession = useCallback((): Promise<boolean> => {
+    if (refreshPromiseRef.current) {
+      return refreshPromiseRef.current;
+    }
+
+    console.log('AuthProvider: Refreshing session...');
+    const renew = async (): Promise<boolean> => {
+      try {
+        // The previous lock holder may already have renewed the shared session and told us about it
+        const { expiresAt: currentExpiry } = authStateRef.current;
+        if (currentExpiry && currentExpiry - Date.now() > TOKEN_REFRESH_LEEWAY_SECONDS * 1000) {
+          console.log('AuthProvider: Session was already renewed by another tab.');
+          return true;
+        }
+        const response = await requestSessionTokens({ grantType: 'refresh_token' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error_description || data.error || `Token refresh failed: ${response.status}`);
+        }
+
+        console.log('AuthProvider: Session refresh successful.');
+        setAuthState(prev => ({
+          ...prev,
+          status: 'authenticated',
+          error: null,
+          expiresAt: data.expiresAt,
+          scope: data.scope || prev.scope,
+          supabaseUserId: data.supabaseUserId || prev.supabaseUserId,
+          profile: data.profile || prev.profile,
+        }));
+        return true;
+      } catch (error) {
+        console.error('AuthProvider: Failed to refresh session.', error);
+        // Only drop the session once the current access token is actually unusable
+        const { expiresAt } = authStateRef.current;
+        if (!expiresAt || expiresAt <= Date.now()) {
+          await logout();
+        }
+        return false;
+      }
+    };
+    // Only one tab renews at a time; the others wait for the lock and then see the renewed expiry
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const renewal = (async () => {
+      try {
+        return locks ? await locks.request(AUTH_REFRESH_LOCK_NAME, renew) : await renew();
+      } finally {
+        refreshPromiseRef.current = null;
+      }
+    })();
+    refreshPromiseRef.current = renewal;
+    return renewal;
+  }, [logout]);
+
+  // Schedule a background refresh shortly before the access token expires
+  useEffect(() => {
+    if (authState.status !== 'authenticated' || !authState.expiresAt) {
+      return;
+    }
+    const delay = Math.max(authState.expiresAt - TOKEN_REFRESH_LEEWAY_SECONDS * 1000 - Date.now(), 0);
+    console.log(`AuthProvider: Scheduling session refresh in ${Math.round(delay / 1000)}s.`);
+    const timer = setTimeout(() => {
+      refreshSession();
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [authState.status, authState.expiresAt, refreshSession]);
 
   return (
-    <AuthContext.Provider value={{ authState, setAuthState, login, logout }}>
+    <AuthContext.Provider value={{ authState, setAuthState, login, logout, signOut, refreshSession }}>
       {children}
     </AuthContext.Provider>
   );
@@ -131,6 +310,30 @@ export function useAuth() {
   if (context === undefined) {
     throw new Error('useAuth must be used within an AuthProvider');
   }
-  // Context now includes { authState: { ..., supabaseUserId: string | null }, login, logout }
+  // Context exposes { authState: { status, scope, expiresAt, supabaseUserId, error }, login, logout, signOut, refreshSession }
   return context;
 }
+
+// Scope helpers derived from the granted scope string
+export interface ScopeHelpers {
+  scopes: string[]; // Granted scopes as listed in the grant; empty unless authenticated
+  hasScopes: (required: string[]) => boolean;
+  missingScopes: (required: string[]) => string[];
+}
+
+// Hook for gating UI on the scopes granted to the current session
+export function useScopes(): ScopeHelpers {
+  const { authState } = useAuth();
+  const { status, scope } = authState;
+  return useMemo(() => {
+    const scopes = status === 'authenticated' && scope ? scope.split(' ').filter(Boolean) : [];
+    // Counts implied scopes (e.g. rag:ingest through mcp:data:write), like the server-side guards
+    const granted = expandGrantedScopes(status === 'authenticated' ? scope : null);
+    const missingScopes = (required: string[]) => required.filter(s => !granted.has(s));
+    return {
+      scopes,
+      hasScopes: (required: string[]) => missingScopes(required).length === 0,
+      missingScopes,
+    };
+  }, [status, scope]);
+}
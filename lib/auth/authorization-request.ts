@@ -0,0 +1,191 @@
+/**
+ * @description
+ * Server-side start of the OAuth authorization code flow.
+ * Creates the state, PKCE verifier and OIDC nonce with Node `crypto`, builds the authorization URL
+ * (pushing the parameters to the auth-worker first when it supports PAR, RFC 9126) and keeps them
+ * in a short-lived, signed, httpOnly cookie. The code exchange later checks the state returned by
+ * the auth-worker against the cookie and takes the verifier (and the nonce the ID token must carry)
+ * from it, so the browser only ever sees the state (which travels through the redirect anyway).
+ *
+ * @dependencies
+ * - jose: HS256 signature of the cookie payload.
+ * - lib/auth/discovery: Authorization and PAR endpoints, PKCE and scope support.
+ * - lib/auth/keys: Cookie signing key (separate from the session cookie's).
+ * - lib/constants: Client ID, redirect URI, cookie name and lifetime.
+ *
+ * @notes
+ * - Server-side only.
+ * - One authorization request per browser at a time: starting a new login replaces the cookie,
+ *   so a login still open in another tab fails with a state mismatch and has to be restarted.
+ */
+
+import { randomBytes, createHash } from 'node:crypto';
+import { SignJWT, jwtVerify } from 'jose';
+import type { NextRequest, NextResponse } from 'next/server';
+import {
+    getAuthorizationServerMetadata,
+    supportsS256Pkce,
+    supportsPushedAuthorizationRequests,
+    filterSupportedScopes,
+} from '@/lib/auth/discovery';
+import { getDerivedKey } from '@/lib/auth/keys';
+import {
+    OAUTH_CLIENT_ID,
+    OAUTH_REDIRECT_URI,
+    AUTHORIZATION_REQUEST_COOKIE_NAME,
+    AUTHORIZATION_REQUEST_MAX_AGE_SECONDS,
+} from '@/lib/constants';
+
+export interface AuthorizationRequestOptions {
+    scopes: string[];
+    prompt?: 'login' | 'consent';
+}
+
+export interface StartedAuthorizationRequest {
+    authorizationUrl: string; // Where to send the browser
+    state: string; // Echoed back by the auth-worker on the callback
+    cookieValue: string; // Signed state, verifier and nonce, see setAuthorizationRequestCookie
+}
+
+// What the code exchange needs from the authorization request in progress
+export interface PendingAuthorizationRequest {
+    codeVerifier: string;
+    nonce: string | null; // Set when `openid` was requested
+}
+
+/**
+ * Pushes the authorization parameters to the PAR endpoint.
+ * @returns The `request_uri` referencing them.
+ * @throws {Error} If the auth-worker rejects the request or cannot be reached.
+ */
+async function pushAuthorizationRequest(endpoint: string, params: URLSearchParams): Promise<string> {
+    console.log(`[authorization-request] Pushing authorization request to ${endpoint} (scope: ${params.get('scope')}).`);
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params.toString(), // No client authentication for this public client
+        cache: 'no-store',
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || typeof data?.request_uri !== 'string') {
+        throw new Error(`Pushed authorization request failed (${response.status}): ${data?.error_description || data?.error || 'no request_uri'}`);
+    }
+    return data.request_uri;
+}
+
+/**
+ * Creates the state, PKCE verifier and nonce for a new login and builds the authorization URL.
+ * Falls back to a plain front-channel request when PAR is not advertised, or when the push
+ * fails and the auth-worker does not require PAR.
+ * @throws {Error} If discovery fails, S256 PKCE is unsupported, or a required push fails.
+ */
+export async function startAuthorizationRequest(options: AuthorizationRequestOptions): Promise<StartedAuthorizationRequest> {
+    const metadata = await getAuthorizationServerMetadata();
+    if (!supportsS256Pkce(metadata)) {
+        throw new Error('Authorization server does not support S256 PKCE.');
+    }
+
+    const state = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(48).toString('base64url'); // 64 characters (RFC 7636 §4.1)
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+    const scopes = filterSupportedScopes(metadata, options.scopes);
+    const nonce = scopes.includes('openid') ? randomBytes(32).toString('base64url') : null;
+
+    const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: OAUTH_CLIENT_ID,
+        redirect_uri: OAUTH_REDIRECT_URI,
+        scope: scopes.join(' '),
+        state,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+    });
+    if (nonce) {
+        params.append('nonce', nonce);
+    }
+    if (options.prompt) {
+        params.append('prompt', options.prompt);
+    }
+
+    const authorizationUrl = new URL(metadata.authorization_endpoint);
+    let requestUri: string | null = null;
+    if (supportsPushedAuthorizationRequests(metadata)) {
+        try {
+            requestUri = await pushAuthorizationRequest(metadata.pushed_authorization_request_endpoint as string, params);
+        } catch (error) {
+            if (metadata.require_pushed_authorization_requests) {
+                throw error;
+            }
+            console.warn('[authorization-request] Falling back to a front-channel authorization request:', error);
+        }
+    }
+    if (requestUri) {
+        // The parameters were pushed over the back channel; the URL only references them
+        authorizationUrl.searchParams.append('client_id', OAUTH_CLIENT_ID);
+        authorizationUrl.searchParams.append('request_uri', requestUri);
+    } else {
+        params.forEach((value, key) => authorizationUrl.searchParams.append(key, value));
+    }
+
+    const cookieValue = await new SignJWT({ state, cv: codeVerifier, ...(nonce ? { nonce } : {}) })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuedAt()
+        .setExpirationTime(`${AUTHORIZATION_REQUEST_MAX_AGE_SECONDS}s`)
+        .sign(await getDerivedKey('authorization-request'));
+
+    return { authorizationUrl: authorizationUrl.toString(), state, cookieValue };
+}
+
+/**
+ * Returns the PKCE verifier and nonce of the authorization request in progress, provided the
+ * state the auth-worker returned matches it. Returns null when the cookie is absent, expired,
+ * tampered with or belongs to another request.
+ */
+export async function getAuthorizationRequest(req: NextRequest, state: string): Promise<PendingAuthorizationRequest | null> {
+    const cookieValue = req.cookies.get(AUTHORIZATION_REQUEST_COOKIE_NAME)?.value;
+    if (!cookieValue) return null;
+    try {
+        const { payload } = await jwtVerify(cookieValue, await getDerivedKey('authorization-request'), { algorithms: ['HS256'] });
+        if (payload.state !== state || typeof payload.cv !== 'string') {
+            console.warn('[authorization-request] State does not match the authorization request in progress.');
+            return null;
+        }
+        return { codeVerifier: payload.cv, nonce: typeof payload.nonce === 'string' ? payload.nonce : null };
+    } catch (error) {
+        console.warn('[authorization-request] Rejected invalid or expired authorization request cookie.');
+        return null;
+    }
+}
+
+/**
+ * True when the browser still sends an authorization request cookie, whether or not it matches.
+ * The cookie's max-age bounds it, so its absence means the PKCE verifier has expired or never existed.
+ */
+export function hasAuthorizationRequest(req: NextRequest): boolean {
+    return Boolean(req.cookies.get(AUTHORIZATION_REQUEST_COOKIE_NAME)?.value);
+}
+
+export function setAuthorizationRequestCookie(response: NextResponse, cookieValue: string): void {
+    response.cookies.set({
+        name: AUTHORIZATION_REQUEST_COOKIE_NAME,
+        value: cookieValue,
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: AUTHORIZATION_REQUEST_MAX_AGE_SECONDS,
+    });
+}
+
+/** Removes the cookie once its code has been exchanged (or the exchange failed); codes are single-use. */
+export function clearAuthorizationRequestCookie(response: NextResponse): void {
+    response.cookies.set({
+        name: AUTHORIZATION_REQUEST_COOKIE_NAME,
+        value: '',
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: 0,
+    });
+}
@@ -0,0 +1,120 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { randomBytes } from 'node:crypto';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the supabase-js query builder for the device_authorizations queries
+const table = vi.hoisted(() => ({ rows: [] as Record<string, unknown>[] }));
+
+vi.mock('@/utils/supabase-admin', () => {
+    const query = (operation: 'select' | 'delete' | 'update', values?: Row) => {
+        const filters: ((row: Row) => boolean)[] = [];
+        const run = () => {
+            const matching = table.rows.filter(row => filters.every(filter => filter(row)));
+            if (operation === 'delete') table.rows = table.rows.filter(row => !matching.includes(row));
+            if (operation === 'update') matching.forEach(row => Object.assign(row, values));
+            return matching;
+        };
+        const builder = {
+            eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), builder),
+            lt: (column: string, value: string) => (filters.push(row => String(row[column]) < value), builder),
+            select: () => builder,
+            maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+            then: (resolve: (result: { error: null }) => void) => resolve((run(), { error: null })),
+        };
+        return builder;
+    };
+    return {
+        supabaseAdmin: {
+            from: () => ({
+                select: () => query('select'),
+                delete: () => query('delete'),
+                update: (values: Row) => query('update', values),
+                upsert: async (row: Row) => {
+                    table.rows = table.rows.filter(existing => existing.id !== row.id).concat({ ...row });
+                    return { error: null };
+                },
+            }),
+        },
+    };
+});
+
+const { startDeviceAuthorization, approveDeviceAuthorization, pollDeviceAuthorization } = await import('@/lib/auth/device-authorization');
+const { getDeviceAuthorizationStore, SupabaseDeviceAuthorizationStore } = await import('@/lib/auth/device-store');
+
+const tokens = { access_token: 'device-access-token', token_type: 'Bearer', expires_in: 3600, refresh_token: 'device-refresh-token', scope: 'mcp:data:read' };
+
+beforeAll(() => {
+    vi.stubEnv('SESSION_SECRET', randomBytes(32).toString('hex'));
+});
+
+describe('pollDeviceAuthorization', () => {
+    it('keeps an approval that lands while a poll is in flight', async () => {
+        const { deviceCode, userCode } = await startDeviceAuthorization('vault-agent', 'mcp:data:read');
+        const store = getDeviceAuthorizationStore();
+        const pending = await store.findByUserCode(userCode.replace('-', ''));
+
+        // The poll reads the record, then the approval is saved before the poll writes back
+        vi.spyOn(store, 'get').mockImplementationOnce(async () => {
+            await approveDeviceAuthorization(userCode, 'supabase-user-1', tokens);
+            return pending;
+        });
+        expect(await pollDeviceAuthorization(deviceCode, 'vault-agent')).toEqual({ status: 'error', error: 'authorization_pending' });
+
+        const next = await pollDeviceAuthorization(deviceCode, 'vault-agent');
+        expect(next).toMatchObject({ status: 'issued', tokens: { access_token: 'device-access-token', refresh_token: 'device-refresh-token' } });
+    });
+});
+
+describe('SupabaseDeviceAuthorizationStore', () => {
+    const now = Date.now();
+    const record = {
+        id: 'device-code-hash',
+        userCode: 'BDWPHQPK',
+        clientId: 'vault-agent',
+        scope: 'mcp:data:read',
+        status: 'approved' as const,
+        supabaseUserId: 'supabase-user-1',
+        accessToken: 'device-access-token',
+        refreshToken: 'device-refresh-token',
+        tokenExpiresIn: 3600,
+        grantedScope: 'mcp:data:read',
+        interval: 5,
+        lastPolledAt: null,
+        expiresAt: now + 60_000,
+        createdAt: now,
+    };
+
+    it('encrypts the issued tokens at rest', async () => {
+        table.rows = [];
+        const store = new SupabaseDeviceAuthorizationStore();
+
+        await store.set(record);
+
+        const [row] = table.rows;
+        expect(JSON.stringify(row)).not.toContain('device-access-token');
+        expect(JSON.stringify(row)).not.toContain('device-refresh-token');
+        expect(await store.take(record.id)).toEqual(record);
+    });
+
+    it('purges expired records when saving one', async () => {
+        table.rows = [];
+        const store = new SupabaseDeviceAuthorizationStore();
+        await store.set({ ...record, id: 'expired', userCode: 'BBBBBBBB' });
+        table.rows[0].expires_at = new Date(now - 1000).toISOString();
+
+        await store.set(record);
+
+        expect(table.rows.map(row => row.id)).toEqual([record.id]);
+    });
+
+    it('records a poll only on a pending record', async () => {
+        table.rows = [];
+        const store = new SupabaseDeviceAuthorizationStore();
+        await store.set(record);
+
+        await store.recordPoll(record.id, now, 10);
+
+        expect(await store.get(record.id)).toEqual(record);
+    });
+});
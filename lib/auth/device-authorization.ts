@@ -0,0 +1,233 @@
+/**
+ * @description
+ * OAuth 2.0 Device Authorization Grant (RFC 8628) for agents and CLI scripts.
+ * This app fronts the auth-worker, which only offers the authorization code flow:
+ * 1. The device calls `/api/device/authorize` and shows the user code.
+ * 2. A signed-in user enters it on the `/device` page and approves. The page runs a regular
+ *    PKCE authorization for the requested scopes; the resulting tokens are bound to the
+ *    device authorization instead of the browser session (`/api/device/verify`).
+ * 3. The device polls `/api/device/token` and receives its own access and refresh tokens.
+ *
+ * @dependencies
+ * - lib/auth/device-store: Pluggable storage for pending authorizations.
+ * - lib/auth/token-endpoint: Token set shape.
+ * - lib/constants: Lifetimes, polling interval and allowed scopes.
+ *
+ * @notes
+ * - Tokens are issued by the auth-worker, so they are accepted everywhere a browser token is
+ *   and can be revoked there (RFC 7009) independently of the browser session.
+ * - Device codes are stored hashed; the token set is handed out once and the record deleted.
+ */
+
+import { getDeviceAuthorizationStore, type DeviceAuthorizationRecord } from '@/lib/auth/device-store';
+import type { TokenEndpointResponse } from '@/lib/auth/token-endpoint';
+import {
+    DEVICE_CODE_LIFETIME_SECONDS,
+    DEVICE_POLL_INTERVAL_SECONDS,
+    DEVICE_ALLOWED_SCOPES,
+    DEVICE_DEFAULT_SCOPES,
+} from '@/lib/constants';
+
+// RFC 8628 §6.1: consonants only, so codes cannot spell words and are easy to type
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+const USER_CODE_LENGTH = 8;
+// RFC 8628 §3.5: back off by at least 5 seconds on `slow_down`
+const SLOW_DOWN_INCREMENT_SECONDS = 5;
+
+export interface DeviceAuthorizationStart {
+    deviceCode: string;
+    userCode: string; // Formatted for display, e.g. "BDWP-HQPK"
+    scope: string;
+    expiresIn: number;
+    interval: number;
+}
+
+export type DevicePollResult =
+    | { status: 'issued'; tokens: TokenEndpointResponse }
+    | { status: 'error'; error: 'authorization_pending' | 'slow_down' | 'access_denied' | 'expired_token' | 'invalid_grant' };
+
+function randomBase64Url(byteLength: number): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+    return Buffer.from(bytes).toString('base64url');
+}
+
+function generateUserCode(): string {
+    // Rejection sampling keeps every character equally likely
+    const limit = 256 - (256 % USER_CODE_ALPHABET.length);
+    let code = '';
+    while (code.length < USER_CODE_LENGTH) {
+        for (const byte of crypto.getRandomValues(new Uint8Array(USER_CODE_LENGTH))) {
+            if (byte < limit && code.length < USER_CODE_LENGTH) {
+                code += USER_CODE_ALPHABET[byte % USER_CODE_ALPHABET.length];
+            }
+        }
+    }
+    return code;
+}
+
+async function hashDeviceCode(deviceCode: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(deviceCode));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Normalizes what a user typed: case-insensitive, separators and spaces ignored.
+ */
+export function normalizeUserCode(input: string): string {
+    return input.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+/**
+ * Formats a normalized user code for display ("BDWPHQPK" → "BDWP-HQPK").
+ */
+export function formatUserCode(userCode: string): string {
+    const half = Math.ceil(userCode.length / 2);
+    return `${userCode.slice(0, half)}-${userCode.slice(half)}`;
+}
+
+/**
+ * Restricts requested scopes to those devices may hold. Falls back to the defaults when none remain.
+ */
+export function resolveDeviceScopes(requested: string | undefined): string[] {
+    const scopes = (requested || '').split(' ').filter(scope => DEVICE_ALLOWED_SCOPES.includes(scope));
+    return scopes.length > 0 ? Array.from(new Set(scopes)) : DEVICE_DEFAULT_SCOPES;
+}
+
+/**
+ * Starts a device authorization for the given client.
+ */
+export async function startDeviceAuthorization(clientId: string, requestedScope: string | undefined): Promise<DeviceAuthorizationStart> {
+    const store = getDeviceAuthorizationStore();
+    const deviceCode = randomBase64Url(32);
+    const scope = resolveDeviceScopes(requestedScope).join(' ');
+
+    // User codes are short; retry on the (unlikely) collision with a live one
+    let userCode = generateUserCode();
+    while (await store.findByUserCode(userCode)) {
+        userCode = generateUserCode();
+    }
+
+    const now = Date.now();
+    await store.set({
+        id: await hashDeviceCode(deviceCode),
+        userCode,
+        clientId,
+        scope,
+        status: 'pending',
+        supabaseUserId: null,
+        accessToken: null,
+        refreshToken: null,
+        tokenExpiresIn: null,
+        grantedScope: null,
+        interval: DEVICE_POLL_INTERVAL_SECONDS,
+        lastPolledAt: null,
+        expiresAt: now + DEVICE_CODE_LIFETIME_SECONDS * 1000,
+        createdAt: now,
+    });
+    console.log(`[startDeviceAuthorization] Started device authorization for client '${clientId}' (scope: ${scope}).`);
+
+    return {
+        deviceCode,
+        userCode: formatUserCode(userCode),
+        scope,
+        expiresIn: DEVICE_CODE_LIFETIME_SECONDS,
+        interval: DEVICE_POLL_INTERVAL_SECONDS,
+    };
+}
+
+/**
+ * Looks up a pending, unexpired authorization by the code the user typed.
+ */
+export async function findPendingDeviceAuthorization(userCodeInput: string): Promise<DeviceAuthorizationRecord | null> {
+    const record = await getDeviceAuthorizationStore().findByUserCode(normalizeUserCode(userCodeInput));
+    if (!record || record.status !== 'pending' || record.expiresAt <= Date.now()) {
+        return null;
+    }
+    return record;
+}
+
+/**
+ * Binds a freshly issued token set to a pending authorization.
+ * @returns False if the authorization is no longer pending (expired, denied or already approved).
+ */
+export async function approveDeviceAuthorization(
+    userCodeInput: string,
+    supabaseUserId: string,
+    tokens: TokenEndpointResponse
+): Promise<boolean> {
+    const record = await findPendingDeviceAuthorization(userCodeInput);
+    if (!record) {
+        return false;
+    }
+    await getDeviceAuthorizationStore().set({
+        ...record,
+        status: 'approved',
+        supabaseUserId,
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token || null,
+        tokenExpiresIn: tokens.expires_in ?? null,
+        grantedScope: tokens.scope || record.scope,
+    });
+    console.log(`[approveDeviceAuthorization] Client '${record.clientId}' approved by user ${supabaseUserId}.`);
+    return true;
+}
+
+/**
+ * Marks a pending authorization as denied; the device learns about it on its next poll.
+ * @returns False if the authorization is no longer pending.
+ */
+export async function denyDeviceAuthorization(userCodeInput: string): Promise<boolean> {
+    const record = await findPendingDeviceAuthorization(userCodeInput);
+    if (!record) {
+        return false;
+    }
+    await getDeviceAuthorizationStore().set({ ...record, status: 'denied' });
+    console.log(`[denyDeviceAuthorization] Client '${record.clientId}' denied.`);
+    return true;
+}
+
+/**
+ * Handles one token poll from a device (RFC 8628 §3.4/§3.5).
+ */
+export async function pollDeviceAuthorization(deviceCode: string, clientId: string): Promise<DevicePollResult> {
+    const store = getDeviceAuthorizationStore();
+    const id = await hashDeviceCode(deviceCode);
+    const record = await store.get(id);
+    if (!record || record.clientId !== clientId) {
+        return { status: 'error', error: 'invalid_grant' };
+    }
+
+    const now = Date.now();
+    if (record.expiresAt <= now) {
+        await store.delete(id);
+        return { status: 'error', error: 'expired_token' };
+    }
+    if (record.status === 'denied') {
+        await store.delete(id);
+        return { status: 'error', error: 'access_denied' };
+    }
+    if (record.status === 'approved') {
+        const issued = await store.take(id);
+        if (!issued?.accessToken) {
+            // A concurrent poll already collected the tokens
+            return { status: 'error', error: 'invalid_grant' };
+        }
+        console.log(`[pollDeviceAuthorization] Issued tokens to client '${issued.clientId}' for user ${issued.supabaseUserId}.`);
+        return {
+            status: 'issued',
+            tokens: {
+                access_token: issued.accessToken,
+                token_type: 'Bearer',
+                expires_in: issued.tokenExpiresIn ?? undefined,
+                refresh_token: issued.refreshToken ?? undefined,
+                scope: issued.grantedScope ?? issued.scope,
+            },
+        };
+    }
+
+    // Still pending: enforce the polling interval. Only the polling state is written, and only while the
+    // record is pending, so an approval that landed since the read above is kept for the next poll
+    const tooFast = record.lastPolledAt !== null && now - record.lastPolledAt < record.interval * 1000;
+    await store.recordPoll(id, now, tooFast ? record.interval + SLOW_DOWN_INCREMENT_SECONDS : record.interval);
+    return { status: 'error', error: tooFast ? 'slow_down' : 'authorization_pending' };
+}
@@ -0,0 +1,274 @@
+/**
+ * @description
+ * Server-side storage for pending device authorizations (RFC 8628).
+ * A record links the device code an agent or CLI polls with, the user code a person
+ * types on the `/device` page and, once approved, the token set issued for the device.
+ *
+ * Backends (selected like the session store, with SESSION_STORE):
+ * - MemoryDeviceAuthorizationStore: Process-local map. Default; suitable for local development and single instances.
+ * - SupabaseDeviceAuthorizationStore: Persists records in the `device_authorizations` table (see supabase/migrations),
+ *   with the issued access and refresh tokens encrypted at rest.
+ *
+ * @dependencies
+ * - utils/supabase-admin: Service-role client for the Supabase backend.
+ * - jose / lib/auth/keys: Token encryption (JWE dir + A256GCM) for the Supabase backend.
+ *
+ * @notes
+ * - Records are keyed by a SHA-256 hash of the device code; the code itself is never stored.
+ * - `take` removes and returns a record in one step so an issued token set is handed out once.
+ * - `recordPoll` only touches pending records, so a poll racing an approval cannot undo it.
+ * - Expired records are purged whenever a record is saved.
+ * - Server-side only. Never import this module from client components.
+ */
+
+import { CompactEncrypt, compactDecrypt } from 'jose';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { getDerivedKey } from '@/lib/auth/keys';
+
+export type DeviceAuthorizationStatus = 'pending' | 'approved' | 'denied';
+
+export interface DeviceAuthorizationRecord {
+    id: string; // SHA-256 hash of the device code
+    userCode: string; // Normalized (uppercase, no separator)
+    clientId: string; // Name the agent or CLI identified itself with
+    scope: string; // Requested scopes, space-delimited
+    status: DeviceAuthorizationStatus;
+    supabaseUserId: string | null; // Set on approval
+    accessToken: string | null; // Set on approval, handed out on the next poll
+    refreshToken: string | null;
+    tokenExpiresIn: number | null; // Seconds, as returned by the auth-worker
+    grantedScope: string | null;
+    interval: number; // Current minimum polling interval, seconds
+    lastPolledAt: number | null;
+    expiresAt: number; // Device code expiry, epoch ms
+    createdAt: number;
+}
+
+export interface DeviceAuthorizationStore {
+    get(id: string): Promise<DeviceAuthorizationRecord | null>;
+    findByUserCode(userCode: string): Promise<DeviceAuthorizationRecord | null>;
+    set(record: DeviceAuthorizationRecord): Promise<void>;
+    // Updates the polling state of a record that is still pending; any other record is left as it is
+    recordPoll(id: string, lastPolledAt: number, interval: number): Promise<void>;
+    take(id: string): Promise<DeviceAuthorizationRecord | null>;
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * Keeps device authorizations in process memory. Records are lost on restart.
+ */
+export class MemoryDeviceAuthorizationStore implements DeviceAuthorizationStore {
+    private records = new Map<string, DeviceAuthorizationRecord>();
+
+    async get(id: string): Promise<DeviceAuthorizationRecord | null> {
+        return this.records.get(id) ?? null;
+    }
+
+    async findByUserCode(userCode: string): Promise<DeviceAuthorizationRecord | null> {
+        for (const record of this.records.values()) {
+            if (record.userCode === userCode) return record;
+        }
+        return null;
+    }
+
+    async set(record: DeviceAuthorizationRecord): Promise<void> {
+        // Drop expired records while we are here
+        const now = Date.now();
+        this.records.forEach((existing, id) => {
+            if (existing.expiresAt <= now) this.records.delete(id);
+        });
+        this.records.set(record.id, record);
+    }
+
+    async recordPoll(id: string, lastPolledAt: number, interval: number): Promise<void> {
+        const record = this.records.get(id);
+        if (record?.status === 'pending') {
+            this.records.set(id, { ...record, lastPolledAt, interval });
+        }
+    }
+
+    async take(id: string): Promise<DeviceAuthorizationRecord | null> {
+        const record = this.records.get(id) ?? null;
+        this.records.delete(id);
+        return record;
+    }
+
+    async delete(id: string): Promise<void> {
+        this.records.delete(id);
+    }
+}
+
+type DeviceAuthorizationRow = {
+    id: string;
+    user_code: string;
+    client_id: string;
+    scope: string;
+    status: string;
+    supabase_user_id: string | null;
+    access_token: string | null;
+    refresh_token: string | null;
+    token_expires_in: number | null;
+    granted_scope: string | null;
+    interval: number;
+    last_polled_at: string | null;
+    expires_at: string;
+    created_at: string;
+};
+
+async function encryptToken(token: string): Promise<string> {
+    return new CompactEncrypt(new TextEncoder().encode(token))
+        .setProtectedHeader({ alg: 'dir', enc: 'A256GCM' })
+        .encrypt(await getDerivedKey('device-tokens'));
+}
+
+async function decryptToken(value: string): Promise<string> {
+    const { plaintext } = await compactDecrypt(value, await getDerivedKey('device-tokens'));
+    return new TextDecoder().decode(plaintext);
+}
+
+async function fromRow(row: DeviceAuthorizationRow): Promise<DeviceAuthorizationRecord> {
+    let accessToken: string | null = null;
+    let refreshToken: string | null = null;
+    try {
+        accessToken = row.access_token ? await decryptToken(row.access_token) : null;
+        refreshToken = row.refresh_token ? await decryptToken(row.refresh_token) : null;
+    } catch (decryptError) {
+        // Written with another key (e.g. a rotated SESSION_SECRET) or not encrypted: the device gets nothing
+        console.warn(`[SupabaseDeviceAuthorizationStore] Could not decrypt the tokens of a device authorization.`);
+        accessToken = null;
+        refreshToken = null;
+    }
+    return {
+        id: row.id,
+        userCode: row.user_code,
+        clientId: row.client_id,
+        scope: row.scope,
+        status: row.status as DeviceAuthorizationStatus,
+        supabaseUserId: row.supabase_user_id,
+        accessToken,
+        refreshToken,
+        tokenExpiresIn: row.token_expires_in,
+        grantedScope: row.granted_scope,
+        interval: row.interval,
+        lastPolledAt: row.last_polled_at ? new Date(row.last_polled_at).getTime() : null,
+        expiresAt: new Date(row.expires_at).getTime(),
+        createdAt: new Date(row.created_at).getTime(),
+    };
+}
+
+/**
+ * Persists device authorizations in the Supabase `device_authorizations` table using the service role.
+ * Issued tokens are encrypted before they are written, so the table (or a backup of it) alone
+ * does not yield usable credentials.
+ */
+export class SupabaseDeviceAuthorizationStore implements DeviceAuthorizationStore {
+    async get(id: string): Promise<DeviceAuthorizationRecord | null> {
+        const { data, error } = await supabaseAdmin
+            .from('device_authorizations')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+        if (error) {
+            console.error(`[SupabaseDeviceAuthorizationStore] Failed to load device authorization:`, error);
+            throw error;
+        }
+        return data ? await fromRow(data) : null;
+    }
+
+    async findByUserCode(userCode: string): Promise<DeviceAuthorizationRecord | null> {
+        const { data, error } = await supabaseAdmin
+            .from('device_authorizations')
+            .select('*')
+            .eq('user_code', userCode)
+            .maybeSingle();
+        if (error) {
+            console.error(`[SupabaseDeviceAuthorizationStore] Failed to look up user code:`, error);
+            throw error;
+        }
+        return data ? await fromRow(data) : null;
+    }
+
+    async set(record: DeviceAuthorizationRecord): Promise<void> {
+        // Drop expired records while we are here, including approved ones whose device never collected its tokens
+        const { error: purgeError } = await supabaseAdmin
+            .from('device_authorizations')
+            .delete()
+            .lt('expires_at', new Date().toISOString());
+        if (purgeError) {
+            console.error(`[SupabaseDeviceAuthorizationStore] Failed to purge expired device authorizations:`, purgeError);
+            throw purgeError;
+        }
+        const { error } = await supabaseAdmin.from('device_authorizations').upsert({
+            id: record.id,
+            user_code: record.userCode,
+            client_id: record.clientId,
+            scope: record.scope,
+            status: record.status,
+            supabase_user_id: record.supabaseUserId,
+            access_token: record.accessToken ? await encryptToken(record.accessToken) : null,
+            refresh_token: record.refreshToken ? await encryptToken(record.refreshToken) : null,
+            token_expires_in: record.tokenExpiresIn,
+            granted_scope: record.grantedScope,
+            interval: record.interval,
+            last_polled_at: record.lastPolledAt ? new Date(record.lastPolledAt).toISOString() : null,
+            expires_at: new Date(record.expiresAt).toISOString(),
+            created_at: new Date(record.createdAt).toISOString(),
+        });
+        if (error) {
+            console.error(`[SupabaseDeviceAuthorizationStore] Failed to save device authorization:`, error);
+            throw error;
+        }
+    }
+
+    async recordPoll(id: string, lastPolledAt: number, interval: number): Promise<void> {
+        const { error } = await supabaseAdmin
+            .from('device_authorizations')
+            .update({ last_polled_at: new Date(lastPolledAt).toISOString(), interval })
+            .eq('id', id)
+            .eq('status', 'pending');
+        if (error) {
+            console.error(`[SupabaseDeviceAuthorizationStore] Failed to record device poll:`, error);
+            throw error;
+        }
+    }
+
+    async take(id: string): Promise<DeviceAuthorizationRecord | null> {
+        // DELETE ... RETURNING: only one concurrent poll gets the row back
+        const { data, error } = await supabaseAdmin
+            .from('device_authorizations')
+            .delete()
+            .eq('id', id)
+            .select('*')
+            .maybeSingle();
+        if (error) {
+            console.error(`[SupabaseDeviceAuthorizationStore] Failed to consume device authorization:`, error);
+            throw error;
+        }
+        return data ? await fromRow(data) : null;
+    }
+
+    async delete(id: string): Promise<void> {
+        const { error } = await supabaseAdmin.from('device_authorizations').delete().eq('id', id);
+        if (error) {
+            console.error(`[SupabaseDeviceAuthorizationStore] Failed to delete device authorization:`, error);
+            throw error;
+        }
+    }
+}
+
+// Keep a single store per server process (survives Next.js dev hot reloads)
+const globalForDevices = globalThis as unknown as { __mcpDeviceStore?: DeviceAuthorizationStore };
+
+/**
+ * Returns the configured device authorization store.
+ */
+export function getDeviceAuthorizationStore(): DeviceAuthorizationStore {
+    if (!globalForDevices.__mcpDeviceStore) {
+        const backend = process.env.SESSION_STORE || 'memory';
+        console.log(`[getDeviceAuthorizationStore] Using '${backend}' device authorization store.`);
+        globalForDevices.__mcpDeviceStore = backend === 'supabase'
+            ? new SupabaseDeviceAuthorizationStore()
+            : new MemoryDeviceAuthorizationStore();
+    }
+    return globalForDevices.__mcpDeviceStore;
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const ISSUER = 'https://auth.example.test/tenant-a';
+
+const metadata = {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+};
+
+let served: Record<string, unknown>;
+let requestedUrls: string[];
+
+// Each test loads a fresh module, so the metadata cache starts empty and the issuer is read again
+async function loadDiscovery(issuer: string) {
+    vi.resetModules();
+    vi.stubEnv('NEXT_PUBLIC_OAUTH_ISSUER_URL', issuer);
+    return import('@/lib/auth/discovery');
+}
+
+beforeEach(() => {
+    served = {};
+    requestedUrls = [];
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+        const url = String(input);
+        requestedUrls.push(url);
+        return url in served
+            ? new Response(JSON.stringify(served[url]), { status: 200, headers: { 'Content-Type': 'application/json' } })
+            : new Response(null, { status: 404 });
+    }));
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+});
+
+describe('getAuthorizationServerMetadata', () => {
+    it('inserts the well-known segment before the path of an issuer with a path (RFC 8414 §3.1)', async () => {
+        served['https://auth.example.test/.well-known/oauth-authorization-server/tenant-a'] = metadata;
+        const { getAuthorizationServerMetadata } = await loadDiscovery(ISSUER);
+
+        expect(await getAuthorizationServerMetadata()).toEqual(metadata);
+        expect(requestedUrls).toEqual(['https://auth.example.test/.well-known/oauth-authorization-server/tenant-a']);
+    });
+
+    it('falls back to OpenID Connect discovery, appended to the issuer', async () => {
+        served['https://auth.example.test/tenant-a/.well-known/openid-configuration'] = metadata;
+        const { getAuthorizationServerMetadata } = await loadDiscovery(`${ISSUER}/`);
+
+        expect(await getAuthorizationServerMetadata()).toEqual(metadata);
+        expect(requestedUrls).toEqual([
+            'https://auth.example.test/.well-known/oauth-authorization-server/tenant-a',
+            'https://auth.example.test/tenant-a/.well-known/openid-configuration',
+        ]);
+    });
+
+    it('uses the plain well-known URL for an issuer without a path', async () => {
+        const rootMetadata = { ...metadata, issuer: 'https://auth.example.test' };
+        served['https://auth.example.test/.well-known/oauth-authorization-server'] = rootMetadata;
+        const { getAuthorizationServerMetadata } = await loadDiscovery('https://auth.example.test');
+
+        expect(await getAuthorizationServerMetadata()).toEqual(rootMetadata);
+    });
+
+    it('rejects a document for another issuer', async () => {
+        served['https://auth.example.test/.well-known/oauth-authorization-server/tenant-a'] = { ...metadata, issuer: 'https://auth.example.test/tenant-b' };
+        const { getAuthorizationServerMetadata } = await loadDiscovery(ISSUER);
+
+        await expect(getAuthorizationServerMetadata()).rejects.toThrow(/issuer mismatch/);
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * @description
+ * Discovers the auth-worker's endpoints from its published metadata instead of
+ * hardcoding `/authorize`, `/token` and `/introspect` paths.
+ * Tries OAuth 2.0 Authorization Server Metadata (RFC 8414) first and falls back
+ * to the OpenID Connect discovery document.
+ *
+ * @dependencies
+ * - lib/constants: Provides OAUTH_ISSUER_URL.
+ *
+ * @notes
+ * - Works in the browser (authorization redirect) and on the server (token exchange,
+ *   introspection). Browser use requires the auth-worker to serve the well-known
+ *   documents with CORS enabled.
+ * - Metadata is cached in memory per runtime; failed lookups are not cached.
+ */
+
+import { OAUTH_ISSUER_URL } from '@/lib/constants';
+
+// Subset of RFC 8414 / OIDC discovery fields this app relies on
+export interface AuthorizationServerMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    introspection_endpoint?: string;
+    jwks_uri?: string;
+    revocation_endpoint?: string;
+    userinfo_endpoint?: string;
+    grants_endpoint?: string; // auth-worker extension: lists the user's grants (GET) and revokes one (DELETE /{id})
+    pushed_authorization_request_endpoint?: string; // RFC 9126 §5
+    require_pushed_authorization_requests?: boolean;
+    scopes_supported?: string[];
+    response_types_supported?: string[];
+    grant_types_supported?: string[];
+    code_challenge_methods_supported?: string[];
+    dpop_signing_alg_values_supported?: string[]; // RFC 9449 §5.1
+}
+
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+let cachedMetadata: { metadata: AuthorizationServerMetadata; cachedAt: number } | null = null;
+// In-flight discovery request, shared so concurrent callers trigger a single fetch
+let pendingMetadata: Promise<AuthorizationServerMetadata> | null = null;
+
+/**
+ * Returns the metadata document URLs to try for an issuer, in order.
+ * RFC 8414 §3.1 inserts the well-known segment between the host and the issuer's path;
+ * OpenID Connect discovery appends it to the issuer instead.
+ */
+function getMetadataUrls(issuer: string): string[] {
+    const issuerUrl = new URL(issuer);
+    const issuerPath = issuerUrl.pathname.replace(/\/$/, '');
+    return [
+        new URL(`/.well-known/oauth-authorization-server${issuerPath}`, issuerUrl.origin).toString(),
+        `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    ];
+}
+
+async function fetchMetadataDocument(issuer: string, metadataUrl: string): Promise<AuthorizationServerMetadata | null> {
+    console.log(`[discovery] Fetching authorization server metadata: ${metadataUrl}`);
+    const response = await fetch(metadataUrl, { headers: { 'Accept': 'application/json' }, cache: 'no-store' });
+    if (!response.ok) {
+        console.warn(`[discovery] ${metadataUrl} returned ${response.status}.`);
+        return null;
+    }
+    const metadata = await response.json() as Partial<AuthorizationServerMetadata>;
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint) {
+        throw new Error(`Authorization server metadata at ${metadataUrl} is missing required endpoints.`);
+    }
+    // RFC 8414 §3.3: the issuer in the document must match the one we asked
+    if (metadata.issuer && metadata.issuer.replace(/\/$/, '') !== issuer) {
+        throw new Error(`Authorization server metadata issuer mismatch: expected ${issuer}, got ${metadata.issuer}.`);
+    }
+    return metadata as AuthorizationServerMetadata;
+}
+
+/**
+ * Returns the auth-worker's metadata, fetching it on first use.
+ * @throws {Error} If no metadata document can be retrieved or it is invalid.
+ */
+export async function getAuthorizationServerMetadata(): Promise<AuthorizationServerMetadata> {
+    if (cachedMetadata && Date.now() - cachedMetadata.cachedAt < METADATA_CACHE_TTL_MS) {
+        return cachedMetadata.metadata;
+    }
+    if (pendingMetadata) {
+        return pendingMetadata;
+    }
+
+    const issuer = OAUTH_ISSUER_URL.replace(/\/$/, '');
+    pendingMetadata = (async () => {
+        try {
+            for (const metadataUrl of getMetadataUrls(issuer)) {
+                const metadata = await fetchMetadataDocument(issuer, metadataUrl);
+                if (metadata) {
+                    cachedMetadata = { metadata, cachedAt: Date.now() };
+                    return metadata;
+                }
+            }
+            throw new Error(`No authorization server metadata found for issuer ${issuer}.`);
+        } finally {
+            pendingMetadata = null;
+        }
+    })();
+    return pendingMetadata;
+}
+
+/**
+ * Returns the introspection endpoint advertised by the auth-worker.
+ * @throws {Error} If discovery fails or the server does not advertise introspection.
+ */
+export async function getIntrospectionEndpoint(): Promise<string> {
+    const metadata = await getAuthorizationServerMetadata();
+    if (!metadata.introspection_endpoint) {
+        throw new Error('Authorization server does not advertise an introspection_endpoint.');
+    }
+    return metadata.introspection_endpoint;
+}
+
+/**
+ * Checks that the server supports S256 PKCE. Servers that omit the list are assumed
+ * to support it, as OAuth 2.1 requires.
+ */
+export function supportsS256Pkce(metadata: AuthorizationServerMetadata): boolean {
+    const methods = metadata.code_challenge_methods_supported;
+    return !methods || methods.includes('S256');
+}
+
+/**
+ * Checks whether the server issues DPoP-bound tokens with the algorithm this app signs proofs with (ES256).
+ * Servers that do not advertise DPoP get plain bearer token requests.
+ */
+export function supportsDpop(metadata: AuthorizationServerMetadata): boolean {
+    return metadata.dpop_signing_alg_values_supported?.includes('ES256') ?? false;
+}
+
+/**
+ * Checks whether the server accepts pushed authorization requests.
+ */
+export function supportsPushedAuthorizationRequests(metadata: AuthorizationServerMetadata): boolean {
+    return Boolean(metadata.pushed_authorization_request_endpoint);
+}
+
+/**
+ * Narrows the requested scopes to those the server advertises (all of them if it advertises none).
+ */
+export function filterSupportedScopes(metadata: AuthorizationServerMetadata, requested: string[]): string[] {
+    const supported = metadata.scopes_supported;
+    if (!supported || supported.length === 0) {
+        return requested;
+    }
+    const granted = requested.filter(scope => supported.includes(scope));
+    const dropped = requested.filter(scope => !supported.includes(scope));
+    if (dropped.length > 0) {
+        console.warn(`[discovery] Authorization server does not support scopes: ${dropped.join(' ')}`);
+    }
+    return granted;
+}
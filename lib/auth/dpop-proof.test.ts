@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createHash, randomUUID } from 'node:crypto';
+import { SignJWT, calculateJwkThumbprint, exportJWK, generateKeyPair, type CryptoKey, type JWK } from 'jose';
+import { verifyDpopProof, type DpopProofRequest } from '@/lib/auth/dpop-proof';
+
+const REQUEST_URL = 'https://app.example.test/api/rag/sources';
+const ACCESS_TOKEN = 'dpop-bound-access-token';
+
+let privateKey: CryptoKey;
+let publicJwk: JWK;
+let jkt: string;
+
+interface ProofOptions {
+    htm?: string;
+    htu?: string;
+    accessToken?: string;
+    jti?: string;
+    issuedAt?: number; // Seconds since the epoch
+    key?: { privateKey: CryptoKey; publicJwk: JWK };
+}
+
+function athOf(accessToken: string): string {
+    return createHash('sha256').update(accessToken).digest('base64url');
+}
+
+function signProof({ htm = 'GET', htu = REQUEST_URL, accessToken = ACCESS_TOKEN, jti = randomUUID(), issuedAt, key }: ProofOptions = {}) {
+    return new SignJWT({ htm, htu, ath: athOf(accessToken) })
+        .setProtectedHeader({ alg: 'ES256', typ: 'dpop+jwt', jwk: key?.publicJwk ?? publicJwk })
+        .setJti(jti)
+        .setIssuedAt(issuedAt ?? Math.floor(Date.now() / 1000))
+        .sign(key?.privateKey ?? privateKey);
+}
+
+function request(proof: string | null, overrides: Partial<DpopProofRequest> = {}): DpopProofRequest {
+    return { proof, method: 'GET', url: `${REQUEST_URL}?page=2`, accessToken: ACCESS_TOKEN, jkt, ...overrides };
+}
+
+beforeAll(async () => {
+    const keyPair = await generateKeyPair('ES256');
+    privateKey = keyPair.privateKey;
+    publicJwk = await exportJWK(keyPair.publicKey);
+    jkt = await calculateJwkThumbprint(publicJwk);
+});
+
+describe('verifyDpopProof', () => {
+    it('accepts a proof for the request, the token and the bound key', async () => {
+        expect(await verifyDpopProof(request(await signProof()))).toBeNull();
+    });
+
+    it('rejects a missing proof', async () => {
+        expect(await verifyDpopProof(request(null))).toBe('DPoP proof missing.');
+    });
+
+    it('rejects a proof for another method', async () => {
+        expect(await verifyDpopProof(request(await signProof({ htm: 'POST' })))).toBe('DPoP proof was made for a different request.');
+    });
+
+    it('rejects a proof for another URL', async () => {
+        const proof = await signProof({ htu: 'https://app.example.test/api/rag/query' });
+        expect(await verifyDpopProof(request(proof))).toBe('DPoP proof was made for a different request.');
+    });
+
+    it('rejects a proof for another access token', async () => {
+        const proof = await signProof({ accessToken: 'some-other-token' });
+        expect(await verifyDpopProof(request(proof))).toBe('DPoP proof was made for a different access token.');
+    });
+
+    it('rejects a proof signed by a key the token is not bound to', async () => {
+        const other = await generateKeyPair('ES256');
+        const proof = await signProof({ key: { privateKey: other.privateKey, publicJwk: await exportJWK(other.publicKey) } });
+        expect(await verifyDpopProof(request(proof))).toBe('DPoP proof key does not match the token binding.');
+    });
+
+    it('rejects a replayed proof', async () => {
+        const proof = await signProof();
+        expect(await verifyDpopProof(request(proof))).toBeNull();
+        expect(await verifyDpopProof(request(proof))).toBe('DPoP proof has already been used.');
+    });
+
+    it('rejects a stale proof', async () => {
+        const proof = await signProof({ issuedAt: Math.floor(Date.now() / 1000) - 600 });
+        expect(await verifyDpopProof(request(proof))).toBe('DPoP proof is invalid.');
+    });
+
+    it('rejects a proof that embeds a private key', async () => {
+        const exportable = await generateKeyPair('ES256', { extractable: true });
+        const privateJwk = await exportJWK(exportable.privateKey);
+        const proof = await signProof({ key: { privateKey: exportable.privateKey, publicJwk: privateJwk } });
+        expect(await verifyDpopProof(request(proof, { jkt: await calculateJwkThumbprint(privateJwk) }))).toBe('DPoP proof must embed a public key.');
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * @description
+ * Server-side DPoP (RFC 9449) proof verification for tokens presented to this app's own API routes.
+ * A DPoP-bound access token (one carrying a `cnf.jkt` claim) is only usable together with a proof
+ * signed by the key it is bound to; this checks that proof for the request being served.
+ *
+ * @dependencies
+ * - jose: Proof signature verification and JWK thumbprints.
+ *
+ * @notes
+ * - Server-side only. The browser-side counterpart (key storage, proof signing) is lib/auth/dpop.
+ * - No server nonces are issued here; freshness relies on `iat` and a short-lived `jti` replay cache.
+ */
+
+import { calculateJwkThumbprint, decodeProtectedHeader, importJWK, jwtVerify, errors, type JWK } from 'jose';
+
+const PROOF_MAX_AGE_SECONDS = 60;
+const CLOCK_TOLERANCE_SECONDS = 30;
+const ALLOWED_ALGORITHMS = ['ES256', 'ES384', 'RS256', 'PS256', 'EdDSA'];
+
+// Proof IDs seen recently, with the time they can be forgotten
+const seenProofIds = new Map<string, number>();
+
+export interface DpopProofRequest {
+    proof: string | null; // The `DPoP` header
+    method: string;
+    url: string; // Absolute URL of the request; query and fragment are ignored
+    accessToken: string;
+    jkt: string; // Thumbprint from the token's `cnf` claim
+}
+
+async function hashAccessToken(accessToken: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(accessToken));
+    return Buffer.from(digest).toString('base64url');
+}
+
+/** The `htu` claim: the target URL without query and fragment (RFC 9449 §4.2). */
+function toHtu(url: string): string {
+    const target = new URL(url);
+    target.search = '';
+    target.hash = '';
+    return target.toString();
+}
+
+/** Records a proof ID, returning false if it was already used. */
+function rememberProofId(jti: string, now: number): boolean {
+    seenProofIds.forEach((forgetAt, id) => {
+        if (forgetAt <= now) {
+            seenProofIds.delete(id);
+        }
+    });
+    if (seenProofIds.has(jti)) {
+        return false;
+    }
+    seenProofIds.set(jti, now + (PROOF_MAX_AGE_SECONDS + CLOCK_TOLERANCE_SECONDS) * 1000);
+    return true;
+}
+
+/**
+ * Verifies the DPoP proof accompanying a request made with a DPoP-bound access token.
+ * @returns Null when the proof is valid, otherwise the reason it was rejected.
+ */
+export async function verifyDpopProof(request: DpopProofRequest): Promise<string | null> {
+    if (!request.proof) {
+        return 'DPoP proof missing.';
+    }
+    let jwk: JWK | undefined;
+    try {
+        const header = decodeProtectedHeader(request.proof);
+        if (header.typ !== 'dpop+jwt' || !header.alg || !ALLOWED_ALGORITHMS.includes(header.alg)) {
+            return 'DPoP proof has an unsupported type or algorithm.';
+        }
+        jwk = header.jwk as JWK | undefined;
+        if (!jwk || 'd' in jwk) {
+            return 'DPoP proof must embed a public key.';
+        }
+        const { payload } = await jwtVerify(request.proof, await importJWK(jwk, header.alg), {
+            typ: 'dpop+jwt',
+            maxTokenAge: PROOF_MAX_AGE_SECONDS,
+            clockTolerance: CLOCK_TOLERANCE_SECONDS,
+            requiredClaims: ['jti', 'htm', 'htu', 'iat', 'ath'],
+        });
+        if (payload.htm !== request.method.toUpperCase() || payload.htu !== toHtu(request.url)) {
+            return 'DPoP proof was made for a different request.';
+        }
+        if (payload.ath !== await hashAccessToken(request.accessToken)) {
+            return 'DPoP proof was made for a different access token.';
+        }
+        if (await calculateJwkThumbprint(jwk) !== request.jkt) {
+            return 'DPoP proof key does not match the token binding.';
+        }
+        if (!rememberProofId(String(payload.jti), Date.now())) {
+            return 'DPoP proof has already been used.';
+        }
+        return null;
+    } catch (error) {
+        if (error instanceof errors.JOSEError || error instanceof TypeError) {
+            console.warn(`[verifyDpopProof] Proof rejected: ${error.message}`);
+            return 'DPoP proof is invalid.';
+        }
+        throw error;
+    }
+}
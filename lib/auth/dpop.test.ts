@@ -0,0 +1,91 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createHash } from 'node:crypto';
+import { calculateJwkThumbprint, decodeJwt, decodeProtectedHeader, type JWK } from 'jose';
+import {
+    createDpopProof,
+    createPendingDpopKeyPair,
+    discardDpopKeyPair,
+    discardPendingDpopKeyPair,
+    promotePendingDpopKeyPair,
+    rememberDpopNonce,
+} from '@/lib/auth/dpop';
+import { verifyDpopProof } from '@/lib/auth/dpop-proof';
+
+const TOKEN_ENDPOINT = 'https://auth.example.test/token';
+const API_URL = 'https://mcp.example.test/api/data';
+
+/** Thumbprint of the key a proof was signed with, i.e. the `cnf.jkt` a token bound to it carries. */
+async function keyOf(proof: string | null): Promise<string> {
+    expect(proof).not.toBeNull();
+    return calculateJwkThumbprint(decodeProtectedHeader(proof!).jwk as JWK);
+}
+
+/** Logs in: a pending key signs the code exchange and becomes the session's key. */
+async function startSession(): Promise<string> {
+    await createPendingDpopKeyPair();
+    await promotePendingDpopKeyPair();
+    return keyOf(await createDpopProof('POST', TOKEN_ENDPOINT));
+}
+
+beforeEach(async () => {
+    await discardDpopKeyPair();
+    await discardPendingDpopKeyPair();
+});
+
+describe('DPoP key lifecycle', () => {
+    it('has no key before the first login', async () => {
+        expect(await createDpopProof('GET', API_URL)).toBeNull();
+        expect(await createDpopProof('POST', TOKEN_ENDPOINT, undefined, { pending: true })).toBeNull();
+    });
+
+    it('signs a new login with a pending key and keeps the session key until it is promoted', async () => {
+        const sessionKey = await startSession();
+
+        await createPendingDpopKeyPair();
+        const pendingKey = await keyOf(await createDpopProof('POST', TOKEN_ENDPOINT, undefined, { pending: true }));
+        expect(pendingKey).not.toBe(sessionKey);
+        expect(await keyOf(await createDpopProof('GET', API_URL))).toBe(sessionKey);
+
+        await promotePendingDpopKeyPair();
+        expect(await keyOf(await createDpopProof('GET', API_URL))).toBe(pendingKey);
+        expect(await createDpopProof('POST', TOKEN_ENDPOINT, undefined, { pending: true })).toBeNull();
+    });
+
+    it('keeps the session key when the login fails', async () => {
+        const sessionKey = await startSession();
+
+        await createPendingDpopKeyPair();
+        await discardPendingDpopKeyPair();
+
+        expect(await keyOf(await createDpopProof('GET', API_URL))).toBe(sessionKey);
+        await expect(promotePendingDpopKeyPair()).rejects.toThrow('No pending DPoP key pair to promote.');
+    });
+
+    it('deletes the session key on logout', async () => {
+        await startSession();
+        await discardDpopKeyPair();
+        expect(await createDpopProof('GET', API_URL)).toBeNull();
+    });
+});
+
+describe('createDpopProof', () => {
+    it('signs a proof the resource server accepts for a token bound to the session key', async () => {
+        const jkt = await startSession();
+        const accessToken = 'dpop-bound-access-token';
+        const ath = createHash('sha256').update(accessToken).digest('base64url');
+
+        const proof = await createDpopProof('get', `${API_URL}?page=2#top`, ath);
+
+        expect(decodeJwt(proof!)).toMatchObject({ htm: 'GET', htu: API_URL, ath });
+        expect(await verifyDpopProof({ proof, method: 'GET', url: API_URL, accessToken, jkt })).toBeNull();
+    });
+
+    it('carries the nonce the server last sent', async () => {
+        await startSession();
+        rememberDpopNonce(TOKEN_ENDPOINT, new Response(null, { headers: { 'DPoP-Nonce': 'server-nonce' } }));
+
+        expect(decodeJwt((await createDpopProof('POST', TOKEN_ENDPOINT))!).nonce).toBe('server-nonce');
+        expect(decodeJwt((await createDpopProof('GET', API_URL))!).nonce).toBeUndefined(); // Nonces are per server
+    });
+});
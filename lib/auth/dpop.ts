@@ -0,0 +1,184 @@
+/**
+ * @description
+ * Browser-side DPoP (RFC 9449) support. Each session gets its own ES256 key pair whose private
+ * key is non-extractable and kept in IndexedDB, so the session's tokens (held server-side) are
+ * bound to this browser: a copy of the tokens alone cannot be used.
+ * - createPendingDpopKeyPair / promotePendingDpopKeyPair / discardPendingDpopKeyPair: Key of a login
+ *   in progress; it replaces the session's key only once the code exchange succeeds.
+ * - discardDpopKeyPair: Deletes the session's key on logout.
+ * - createDpopProof: Signs a proof for one request (method + URL, optionally `ath` and a nonce).
+ * - rememberDpopNonce / isDpopNonceChallenge: Tracks server-provided nonces (`DPoP-Nonce`).
+ *
+ * @dependencies
+ * - jose: Proof signing and public key export.
+ * - lib/constants: IndexedDB database name.
+ *
+ * @notes
+ * - Client-side only. Proofs are forwarded by `/api/auth/token` (token endpoint) and the
+ *   `/api/mcp` proxy (mcp-worker), which know the tokens but never the private key.
+ * - IndexedDB is shared by all tabs, so every tab signs with the key of the shared session.
+ * - A failed re-login or step-up leaves the session and its tokens in place, so the key they are
+ *   bound to must survive it: the new key is kept under a pending id until the exchange succeeds.
+ */
+
+import { SignJWT, exportJWK } from 'jose';
+import { DPOP_KEY_DATABASE_NAME } from '@/lib/constants';
+
+const KEY_STORE_NAME = 'keys';
+const SESSION_KEY_ID = 'session';
+const PENDING_KEY_ID = 'pending'; // Key of a login whose code exchange has not completed
+
+// Latest nonce per server origin
+const dpopNonces = new Map<string, string>();
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DPOP_KEY_DATABASE_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withKeyStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await openKeyDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = operation(database.transaction(KEY_STORE_NAME, mode).objectStore(KEY_STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        database.close();
+    }
+}
+
+/**
+ * Generates the key pair for a new login under the pending id, replacing an earlier pending key.
+ * The session's key stays in use until promotePendingDpopKeyPair.
+ */
+export async function createPendingDpopKeyPair(): Promise<void> {
+    const keyPair = await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false, // The private key can sign but never be exported
+        ['sign', 'verify']
+    );
+    await withKeyStore('readwrite', store => store.put(keyPair, PENDING_KEY_ID));
+    console.log('[dpop] Created a key pair for the pending login.');
+}
+
+/**
+ * Makes the pending key the session's key, once the code exchange bound the new tokens to it.
+ */
+export async function promotePendingDpopKeyPair(): Promise<void> {
+    const keyPair = await withKeyStore<CryptoKeyPair | undefined>('readonly', store => store.get(PENDING_KEY_ID));
+    if (!keyPair) {
+        throw new Error('No pending DPoP key pair to promote.');
+    }
+    await withKeyStore('readwrite', store => store.put(keyPair, SESSION_KEY_ID));
+    await discardPendingDpopKeyPair();
+    console.log('[dpop] The pending key pair is now the session key pair.');
+}
+
+/**
+ * Deletes the pending key after a failed code exchange. Never throws.
+ */
+export async function discardPendingDpopKeyPair(): Promise<void> {
+    try {
+        await withKeyStore('readwrite', store => store.delete(PENDING_KEY_ID));
+    } catch (error) {
+        console.warn('[dpop] Failed to delete the pending key pair:', error);
+    }
+}
+
+/**
+ * Deletes the session's key pair, e.g. on logout. Never throws.
+ */
+export async function discardDpopKeyPair(): Promise<void> {
+    try {
+        await withKeyStore('readwrite', store => store.delete(SESSION_KEY_ID));
+        dpopNonces.clear();
+    } catch (error) {
+        console.warn('[dpop] Failed to delete the session key pair:', error);
+    }
+}
+
+async function loadDpopKeyPair(keyId: string): Promise<CryptoKeyPair | null> {
+    try {
+        return (await withKeyStore<CryptoKeyPair | undefined>('readonly', store => store.get(keyId))) ?? null;
+    } catch (error) {
+        console.warn(`[dpop] Failed to load the ${keyId} key pair:`, error);
+        return null;
+    }
+}
+
+/** The `htu` claim: the target URL without query and fragment (RFC 9449 §4.2). */
+function toHtu(url: string): string {
+    const target = new URL(url);
+    target.search = '';
+    target.hash = '';
+    return target.toString();
+}
+
+/**
+ * Signs a DPoP proof for a request.
+ * @param method - HTTP method of the request.
+ * @param url - Absolute URL of the server the proof is meant for (not the same-origin proxy).
+ * @param accessTokenHash - base64url SHA-256 of the access token (`ath`), required for resource requests.
+ * @param options.pending - Sign with the pending login's key instead of the session's (code exchanges).
+ * @returns The proof, or null when this browser has no such key.
+ */
+export async function createDpopProof(
+    method: string,
+    url: string,
+    accessTokenHash?: string,
+    options: { pending?: boolean } = {}
+): Promise<string | null> {
+    const keyPair = await loadDpopKeyPair(options.pending ? PENDING_KEY_ID : SESSION_KEY_ID);
+    if (!keyPair) {
+        return null;
+    }
+    const nonce = dpopNonces.get(new URL(url).origin);
+    const { kty, crv, x, y } = await exportJWK(keyPair.publicKey);
+    return new SignJWT({
+        htm: method.toUpperCase(),
+        htu: toHtu(url),
+        ...(accessTokenHash ? { ath: accessTokenHash } : {}),
+        ...(nonce ? { nonce } : {}),
+    })
+        .setProtectedHeader({ alg: 'ES256', typ: 'dpop+jwt', jwk: { kty, crv, x, y } })
+        .setJti(crypto.randomUUID())
+        .setIssuedAt()
+        .sign(keyPair.privateKey);
+}
+
+/**
+ * Stores the `DPoP-Nonce` a server sent for use in later proofs.
+ * @param url - URL of the server that sent the response.
+ */
+export function rememberDpopNonce(url: string, response: Response): void {
+    const nonce = response.headers.get('dpop-nonce');
+    if (nonce) {
+        dpopNonces.set(new URL(url).origin, nonce);
+    }
+}
+
+/**
+ * Checks whether a response asks for the request to be retried with a server nonce:
+ * `use_dpop_nonce` as an OAuth error (token endpoint) or in a `WWW-Authenticate: DPoP` challenge.
+ * Remembers the nonce either way.
+ */
+export async function isDpopNonceChallenge(url: string, response: Response): Promise<boolean> {
+    rememberDpopNonce(url, response);
+    if (!response.headers.get('dpop-nonce')) {
+        return false;
+    }
+    if (response.status === 401) {
+        return /error="use_dpop_nonce"/.test(response.headers.get('www-authenticate') || '');
+    }
+    if (response.status === 400) {
+        const body = await response.clone().json().catch(() => null);
+        return body?.error === 'use_dpop_nonce';
+    }
+    return false;
+}
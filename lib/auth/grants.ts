@@ -0,0 +1,137 @@
+/**
+ * @description
+ * Server-side client for the auth-worker's grant listing and revocation endpoints.
+ * A grant is what a client (this app, the local agent, MCP desktop clients) holds for the
+ * user's account: its scopes and the tokens issued under them. Revoking a grant ends all of
+ * the client's tokens at once.
+ *
+ * @dependencies
+ * - lib/auth/discovery: Provides `grants_endpoint` from the auth-worker's metadata.
+ * - lib/auth/session-store: The session whose access token authenticates the calls.
+ *
+ * @notes
+ * - Server-side only. Called with the session's access token. A DPoP-bound token also needs a proof
+ *   from the browser's key for each call: the browser signs it for the grants endpoint and sends it
+ *   along (see createGrantsProofHeaders in lib/mcp/client), and it is forwarded here.
+ * - `scripts/mock-auth-worker.mjs` implements both endpoints for local development and tests.
+ */
+
+import { getAuthorizationServerMetadata } from '@/lib/auth/discovery';
+import type { SessionRecord } from '@/lib/auth/session-store';
+
+// A client holding a grant for the user's account, as shown on the "Authorized apps" page
+export interface AuthorizedApplication {
+    id: string; // Grant ID at the auth-worker
+    clientId: string;
+    clientName: string;
+    scopes: string[];
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+// Shape of one entry in the auth-worker's grant listing
+interface AuthWorkerGrant {
+    id: string;
+    client_id: string;
+    client_name?: string;
+    scope?: string;
+    created_at: string;
+    last_used_at?: string | null;
+}
+
+/**
+ * Thrown when grants cannot be managed for this session (the auth-worker has no `grants_endpoint`).
+ */
+export class GrantsUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GrantsUnavailableError';
+    }
+}
+
+/**
+ * Thrown when the session's token is DPoP-bound and the browser sent no proof for the call.
+ */
+export class GrantsProofRequiredError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GrantsProofRequiredError';
+    }
+}
+
+/**
+ * Returns the grants endpoint and the headers authenticating the session's user.
+ * @param dpopProof - The browser's proof for this call; required when the session's token is DPoP-bound.
+ */
+async function prepareGrantsRequest(session: SessionRecord, dpopProof: string | null): Promise<{ grantsUrl: string; headers: Record<string, string> }> {
+    const { grants_endpoint: grantsUrl } = await getAuthorizationServerMetadata();
+    if (!grantsUrl) {
+        throw new GrantsUnavailableError('The authorization server does not advertise a grants_endpoint.');
+    }
+    if (session.tokenType === 'DPoP') {
+        if (!dpopProof) {
+            throw new GrantsProofRequiredError('A DPoP proof for the grants endpoint is required for this session.');
+        }
+        return {
+            grantsUrl,
+            headers: { 'Authorization': `DPoP ${session.accessToken}`, 'DPoP': dpopProof, 'Accept': 'application/json' },
+        };
+    }
+    return {
+        grantsUrl,
+        headers: { 'Authorization': `Bearer ${session.accessToken}`, 'Accept': 'application/json' },
+    };
+}
+
+function fromAuthWorkerGrant(grant: AuthWorkerGrant): AuthorizedApplication {
+    return {
+        id: grant.id,
+        clientId: grant.client_id,
+        clientName: grant.client_name || grant.client_id,
+        scopes: (grant.scope || '').split(' ').filter(Boolean),
+        createdAt: grant.created_at,
+        lastUsedAt: grant.last_used_at ?? null,
+    };
+}
+
+/**
+ * Lists the clients holding grants for the session's user, most recently used first.
+ * @param dpopProof - Proof for `GET grants_endpoint`, for DPoP-bound sessions.
+ * @throws {GrantsUnavailableError} If grants cannot be managed for this session.
+ * @throws {GrantsProofRequiredError} If the session's token is DPoP-bound and there is no proof.
+ * @throws {Error} If the auth-worker rejects the request or cannot be reached.
+ */
+export async function listAuthorizedApplications(session: SessionRecord, dpopProof: string | null = null): Promise<AuthorizedApplication[]> {
+    const { grantsUrl, headers } = await prepareGrantsRequest(session, dpopProof);
+    const response = await fetch(grantsUrl, { headers, cache: 'no-store' });
+    if (!response.ok) {
+        console.error(`[grants] Grant listing returned ${response.status}:`, await response.text());
+        throw new Error(`Grant listing failed (${response.status}).`);
+    }
+    const data: { grants?: AuthWorkerGrant[] } = await response.json();
+    return (data.grants || [])
+        .map(fromAuthWorkerGrant)
+        .sort((a, b) => (b.lastUsedAt || b.createdAt).localeCompare(a.lastUsedAt || a.createdAt));
+}
+
+/**
+ * Revokes a grant and, with it, every token the client holds for the user.
+ * @param dpopProof - Proof for `DELETE grants_endpoint/{grantId}`, for DPoP-bound sessions.
+ * @returns False if the auth-worker knows no such active grant.
+ * @throws {GrantsUnavailableError} If grants cannot be managed for this session.
+ * @throws {GrantsProofRequiredError} If the session's token is DPoP-bound and there is no proof.
+ * @throws {Error} If the auth-worker rejects the request or cannot be reached.
+ */
+export async function revokeAuthorizedApplication(session: SessionRecord, grantId: string, dpopProof: string | null = null): Promise<boolean> {
+    const { grantsUrl, headers } = await prepareGrantsRequest(session, dpopProof);
+    const response = await fetch(`${grantsUrl}/${encodeURIComponent(grantId)}`, { method: 'DELETE', headers, cache: 'no-store' });
+    if (response.status === 404) {
+        return false;
+    }
+    if (!response.ok) {
+        console.error(`[grants] Grant revocation returned ${response.status}:`, await response.text());
+        throw new Error(`Grant revocation failed (${response.status}).`);
+    }
+    console.log(`[grants] Revoked grant ${grantId}.`);
+    return true;
+}
@@ -0,0 +1,60 @@
+/**
+ * @description
+ * Browser-side access to the Hanko SDK instance.
+ * `MCPClient` uses it to read the signed-in Hanko user during account linking, and
+ * `AuthProvider.signOut` uses the same instance to end the Hanko session.
+ *
+ * @dependencies
+ * - @teamhanko/hanko-elements: Hanko SDK.
+ *
+ * @notes
+ * - Client-side only. Returns null on the server or when NEXT_PUBLIC_HANKO_API_URL is unset.
+ */
+
+import { Hanko } from "@teamhanko/hanko-elements";
+
+// Read env var directly
+const hankoApiUrl = process.env.NEXT_PUBLIC_HANKO_API_URL;
+
+let hankoInstance: Hanko | null = null;
+
+/**
+ * Returns the shared Hanko SDK instance, creating it on first use.
+ */
+export function getHankoClient(): Hanko | null {
+    if (typeof window === 'undefined') {
+        return null;
+    }
+    if (!hankoApiUrl) {
+        console.error("NEXT_PUBLIC_HANKO_API_URL is not configured.");
+        return null;
+    }
+    if (!hankoInstance) {
+        console.log("Initializing Hanko SDK instance...");
+        try {
+            hankoInstance = new Hanko(hankoApiUrl);
+            console.log("Hanko SDK instance created.");
+        } catch (sdkError) {
+            console.error("Failed to initialize Hanko SDK:", sdkError);
+            return null;
+        }
+    }
+    return hankoInstance;
+}
+
+/**
+ * Ends the Hanko session in this browser. Failures are logged, not thrown,
+ * so sign-out can continue with the remaining steps.
+ */
+export async function endHankoSession(): Promise<void> {
+    const hanko = getHankoClient();
+    if (!hanko) {
+        return;
+    }
+    try {
+        await hanko.user.logout();
+        console.log("Hanko session ended.");
+    } catch (error) {
+        console.error("Failed to end Hanko session:", error);
+    }
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The identity_links rows, and how many lookups reached them
+const links = vi.hoisted(() => ({ rows: new Map<string, string>(), queries: 0 }));
+
+vi.mock('@/utils/supabase-admin', () => ({
+    supabaseAdmin: {
+        from: () => {
+            let subject = '';
+            const builder = {
+                select: () => builder,
+                eq: (column: string, value: string) => {
+                    if (column === 'subject') subject = value;
+                    return builder;
+                },
+                maybeSingle: async () => {
+                    links.queries++;
+                    const supabaseUserId = links.rows.get(subject);
+                    return { data: supabaseUserId ? { supabase_user_id: supabaseUserId } : null, error: null };
+                },
+            };
+            return builder;
+        },
+    },
+}));
+
+import { resolveSupabaseUserId, forgetLinkedUser } from '@/lib/auth/identity';
+
+const HANKO_ID = 'hanko-user';
+
+beforeEach(() => {
+    forgetLinkedUser(HANKO_ID);
+    links.rows.clear();
+    links.rows.set(HANKO_ID, 'supabase-user');
+    links.queries = 0;
+});
+
+describe('resolveSupabaseUserId', () => {
+    it('serves repeated lookups from the cache', async () => {
+        expect(await resolveSupabaseUserId(HANKO_ID)).toBe('supabase-user');
+        expect(await resolveSupabaseUserId(HANKO_ID)).toBe('supabase-user');
+        expect(links.queries).toBe(1);
+    });
+
+    it('reads a link removed elsewhere when bypassing the cache, and stops serving it', async () => {
+        await resolveSupabaseUserId(HANKO_ID);
+        links.rows.delete(HANKO_ID); // Unlinked through another server instance
+
+        expect(await resolveSupabaseUserId(HANKO_ID, { bypassCache: true })).toBeNull();
+        expect(await resolveSupabaseUserId(HANKO_ID)).toBeNull();
+        expect(links.queries).toBe(3);
+    });
+
+    it('expires cached links after a short time', async () => {
+        vi.useFakeTimers();
+        try {
+            await resolveSupabaseUserId(HANKO_ID);
+            vi.advanceTimersByTime(31 * 1000);
+            await resolveSupabaseUserId(HANKO_ID);
+            expect(links.queries).toBe(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,169 @@
+/**
+ * @description
+ * Resolves and records the Supabase user linked to a Hanko identity (the `sub` of our access tokens).
+ * Links live in the `identity_links` table (one row per provider subject, see supabase/migrations)
+ * and are written by `/api/auth/link-supabase`.
+ *
+ * @dependencies
+ * - utils/supabase-admin: Service-role client used to read links and Supabase auth users.
+ *
+ * @notes
+ * - Server-side only (uses the service role key).
+ * - Positive lookups are cached in memory for a short time to avoid a query on every API request.
+ *   Writes and the unlink path read the link from Supabase instead (`bypassCache`).
+ * - Linking is idempotent: the unique (provider, subject) constraint decides concurrent requests,
+ *   and every caller gets back the link that won.
+ * - An account can have several linked identities. Unlinking goes through the `unlink_identity`
+ *   database function, which refuses to remove an account's last identity.
+ * - Other server instances may keep serving a removed link to read requests from their cache for up
+ *   to LINK_CACHE_TTL_MS.
+ */
+
+import { supabaseAdmin } from '@/utils/supabase-admin';
+
+export const IDENTITY_PROVIDER_HANKO = 'hanko';
+
+// A sign-in identity linked to a Supabase user
+export interface IdentityLink {
+    id: string;
+    provider: string;
+    subject: string; // Hanko user ID
+    email: string | null;
+    createdAt: string;
+}
+
+export type UnlinkResult = 'removed' | 'not_found' | 'last_identity';
+
+const LINK_CACHE_TTL_MS = 30 * 1000; // 30 seconds
+
+const linkCache = new Map<string, { supabaseUserId: string; cachedAt: number }>();
+
+/**
+ * Records a link so the next lookup does not hit Supabase.
+ */
+export function rememberLinkedUser(hankoId: string, supabaseUserId: string): void {
+    linkCache.set(hankoId, { supabaseUserId, cachedAt: Date.now() });
+}
+
+/**
+ * Drops a cached link, e.g. after the identity was unlinked.
+ */
+export function forgetLinkedUser(hankoId: string): void {
+    linkCache.delete(hankoId);
+}
+
+/**
+ * Finds the Supabase user ID linked to the given Hanko user ID.
+ * @param hankoId - The Hanko user ID taken from a verified token.
+ * @param options.bypassCache - Reads the link from Supabase even when it is cached (e.g. before a write),
+ *   so a link removed on another instance is not honoured.
+ * @returns The linked Supabase user ID, or null if the identity has not been linked yet.
+ * @throws {Error} If Supabase cannot be queried.
+ */
+export async function resolveSupabaseUserId(hankoId: string, options: { bypassCache?: boolean } = {}): Promise<string | null> {
+    const cached = options.bypassCache ? undefined : linkCache.get(hankoId);
+    if (cached && Date.now() - cached.cachedAt < LINK_CACHE_TTL_MS) {
+        return cached.supabaseUserId;
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('identity_links')
+        .select('supabase_user_id')
+        .eq('provider', IDENTITY_PROVIDER_HANKO)
+        .eq('subject', hankoId)
+        .maybeSingle();
+    if (error) {
+        console.error(`[resolveSupabaseUserId] Failed to read identity link for ${hankoId}:`, error);
+        throw error;
+    }
+    if (!data) {
+        forgetLinkedUser(hankoId);
+        return null;
+    }
+    rememberLinkedUser(hankoId, data.supabase_user_id);
+    return data.supabase_user_id;
+}
+
+/**
+ * Finds a Supabase auth user by email (case-insensitive) without paging through every user.
+ * @returns The user's ID, or null if no user has this email.
+ * @throws {Error} If Supabase cannot be queried.
+ */
+export async function findSupabaseUserIdByEmail(email: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin.rpc('get_auth_user_id_by_email', { lookup_email: email });
+    if (error) {
+        console.error(`[findSupabaseUserIdByEmail] Lookup failed for ${email}:`, error);
+        throw error;
+    }
+    return (data as string | null) || null;
+}
+
+/**
+ * Links a Hanko identity to a Supabase user unless it is already linked.
+ * @param hankoId - The Hanko user ID taken from a verified token.
+ * @param supabaseUserId - The Supabase user to link to.
+ * @param email - The verified email of the identity, stored for display.
+ * @returns The Supabase user ID the identity is linked to. This is the existing link
+ *          (possibly written by a concurrent request) when there already was one.
+ * @throws {Error} If Supabase cannot be queried.
+ */
+export async function linkIdentity(hankoId: string, supabaseUserId: string, email: string | null): Promise<string> {
+    const { error: insertError } = await supabaseAdmin
+        .from('identity_links')
+        .upsert(
+            { provider: IDENTITY_PROVIDER_HANKO, subject: hankoId, supabase_user_id: supabaseUserId, email },
+            { onConflict: 'provider,subject', ignoreDuplicates: true }
+        );
+    if (insertError) {
+        console.error(`[linkIdentity] Failed to write identity link for ${hankoId}:`, insertError);
+        throw insertError;
+    }
+
+    // Read back whichever row won; the cache may hold nothing yet, so bypass it
+    const linkedUserId = await resolveSupabaseUserId(hankoId, { bypassCache: true });
+    if (!linkedUserId) {
+        throw new Error(`Identity link for ${hankoId} was not persisted.`);
+    }
+    if (linkedUserId !== supabaseUserId) {
+        console.warn(`[linkIdentity] ${hankoId} is already linked to ${linkedUserId}; keeping the existing link.`);
+    }
+    return linkedUserId;
+}
+
+/**
+ * Lists the identities linked to a Supabase user, oldest first.
+ * @throws {Error} If Supabase cannot be queried.
+ */
+export async function listIdentityLinks(supabaseUserId: string): Promise<IdentityLink[]> {
+    const { data, error } = await supabaseAdmin
+        .from('identity_links')
+        .select('id, provider, subject, email, created_at')
+        .eq('supabase_user_id', supabaseUserId)
+        .order('created_at', { ascending: true });
+    if (error) {
+        console.error(`[listIdentityLinks] Failed to list identities for ${supabaseUserId}:`, error);
+        throw error;
+    }
+    return (data || []).map(row => ({
+        id: row.id,
+        provider: row.provider,
+        subject: row.subject,
+        email: row.email,
+        createdAt: row.created_at,
+    }));
+}
+
+/**
+ * Removes a linked identity from a Supabase user, unless it is the user's last one.
+ * @param linkId - The `identity_links` row to remove.
+ * @param supabaseUserId - The owner; links of other users are reported as not found.
+ * @throws {Error} If Supabase cannot be queried.
+ */
+export async function unlinkIdentity(linkId: string, supabaseUserId: string): Promise<UnlinkResult> {
+    const { data, error } = await supabaseAdmin.rpc('unlink_identity', { link_id: linkId, owner_id: supabaseUserId });
+    if (error) {
+        console.error(`[unlinkIdentity] Failed to unlink ${linkId} from ${supabaseUserId}:`, error);
+        throw error;
+    }
+    return data as UnlinkResult;
+}
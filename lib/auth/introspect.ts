@@ -0,0 +1,82 @@
+/**
+ * @description
+ * Server-side helper for validating OAuth access tokens against the auth-worker's
+ * token introspection endpoint (RFC 7662).
+ *
+ * @dependencies
+ * - lib/auth/discovery: Provides the introspection endpoint from the auth-worker's metadata.
+ *
+ * @notes
+ * - Only call this from server-side code (API routes, middleware running on Node).
+ * - Network failures are thrown; an inactive token is returned as `{ active: false }`.
+ */
+
+import { getIntrospectionEndpoint } from '@/lib/auth/discovery';
+
+// Define structure of a successful Introspection response from auth-worker
+export interface IntrospectionResponse {
+    active: boolean;
+    scope?: string;
+    client_id?: string;
+    sub?: string; // Subject (user identifier used by auth-worker, likely hankoUserId)
+    exp?: number;
+    iat?: number;
+    token_type?: string;
+    cnf?: { jkt?: string }; // Key binding of a DPoP-bound token (RFC 9449 §6)
+    // --- Crucially includes props embedded in the token ---
+    email?: string;
+    hankoUserId?: string; // Should match sub
+    name?: string;
+    // ... any other props you added ...
+}
+
+/**
+ * Calls the auth-worker's introspection endpoint for the given token.
+ * @param token - The raw access token (without the "Bearer " prefix).
+ * @returns The introspection response. `active` is false for invalid or expired tokens.
+ * @throws {Error} If discovery fails, or the introspection endpoint cannot be reached or returns a non-JSON body.
+ */
+export async function introspectToken(token: string): Promise<IntrospectionResponse> {
+    const introspectionUrl = await getIntrospectionEndpoint();
+    const introspectParams = new URLSearchParams();
+    introspectParams.append('token', token);
+    // Optional: Add client credentials if your introspection endpoint requires them (unlikely for public client flow)
+    // introspectParams.append('client_id', 'YOUR_MCP_AUTH_CLIENT_ID');
+
+    console.log(`[introspectToken] Calling introspection endpoint: ${introspectionUrl}`);
+    const introspectResponse = await fetch(introspectionUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: introspectParams.toString(),
+        cache: 'no-store',
+    });
+
+    const introspectionData = await introspectResponse.json() as IntrospectionResponse;
+    if (!introspectResponse.ok) {
+        console.error(`[introspectToken] Introspection endpoint returned ${introspectResponse.status}:`, introspectionData);
+        return { active: false };
+    }
+    return introspectionData;
+}
+
+/**
+ * Extracts the bearer token from an Authorization header value.
+ * @returns The token, or null if the header is missing or not a Bearer credential.
+ */
+export function getBearerToken(authorizationHeader: string | null): string | null {
+    if (!authorizationHeader || !/^Bearer\s+/i.test(authorizationHeader)) {
+        return null;
+    }
+    return authorizationHeader.replace(/^Bearer\s+/i, '').trim() || null;
+}
+
+/**
+ * Extracts the access token from an `Authorization: DPoP` header value (RFC 9449 §7.1).
+ * @returns The token, or null if the header is missing or not a DPoP credential.
+ */
+export function getDpopToken(authorizationHeader: string | null): string | null {
+    if (!authorizationHeader || !/^DPoP\s+/i.test(authorizationHeader)) {
+        return null;
+    }
+    return authorizationHeader.replace(/^DPoP\s+/i, '').trim() || null;
+}
@@ -0,0 +1,46 @@
+/**
+ * @description
+ * Server-side keys derived from SESSION_SECRET.
+ * Each use (session cookie, link intent cookie, authorization request cookie, session and device tokens
+ * at rest) gets its own 256-bit key through HKDF-SHA-256 with a distinct `info` label, so a value
+ * produced for one purpose can never be accepted, or decrypted, as another.
+ *
+ * @notes
+ * - Server-side only. Requires the SESSION_SECRET environment variable.
+ * - Changing a label (or the secret) invalidates everything protected with the old key.
+ */
+
+export type KeyPurpose = 'session-cookie' | 'link-intent' | 'authorization-request' | 'session-tokens' | 'device-tokens';
+
+const KEY_INFO_PREFIX = 'mcp-auth-demo/';
+
+const derivedKeys = new Map<KeyPurpose, Promise<Uint8Array>>();
+
+async function deriveKey(secret: string, purpose: KeyPurpose): Promise<Uint8Array> {
+    const encoder = new TextEncoder();
+    const inputKey = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(`${KEY_INFO_PREFIX}${purpose}`) },
+        inputKey,
+        256,
+    );
+    return new Uint8Array(bits);
+}
+
+/**
+ * Returns the 256-bit key for one purpose, derived once per process.
+ * @throws {Error} If SESSION_SECRET is not set.
+ */
+export function getDerivedKey(purpose: KeyPurpose): Promise<Uint8Array> {
+    let key = derivedKeys.get(purpose);
+    if (!key) {
+        const secret = process.env.SESSION_SECRET;
+        if (!secret) {
+            console.error("Session Error: SESSION_SECRET environment variable is not set.");
+            throw new Error("Session secret is not configured.");
+        }
+        key = deriveKey(secret, purpose);
+        derivedKeys.set(purpose, key);
+    }
+    return key;
+}
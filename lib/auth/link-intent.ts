@@ -0,0 +1,78 @@
+/**
+ * @description
+ * Short-lived "link intent" used when a signed-in user adds another sign-in identity.
+ * `/api/account/identities` (POST) records which account the next login should be linked to
+ * in an encrypted, httpOnly cookie; the user then re-authenticates with the other identity and
+ * `/api/auth/link-supabase` links that identity to the recorded account instead of matching by email.
+ *
+ * @dependencies
+ * - jose: JWE encryption of the cookie payload (dir + A256GCM).
+ * - lib/auth/keys: Link intent cookie key.
+ * - lib/constants: Cookie name and lifetime.
+ *
+ * @notes
+ * - Server-side only. The cookie is bound to the browser that started the flow and expires
+ *   after LINK_INTENT_MAX_AGE_SECONDS.
+ */
+
+import { EncryptJWT, jwtDecrypt } from 'jose';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getDerivedKey } from '@/lib/auth/keys';
+import { LINK_INTENT_COOKIE_NAME, LINK_INTENT_MAX_AGE_SECONDS } from '@/lib/constants';
+
+export interface LinkIntent {
+    supabaseUserId: string; // Account the next identity will be linked to
+    initiatedBy: string; // Subject of the identity that started the flow
+}
+
+/**
+ * Writes the link intent cookie on a response.
+ * @returns The intent's expiry (epoch ms).
+ */
+export async function setLinkIntentCookie(response: NextResponse, intent: LinkIntent): Promise<number> {
+    const cookieValue = await new EncryptJWT({ uid: intent.supabaseUserId, by: intent.initiatedBy })
+        .setProtectedHeader({ alg: 'dir', enc: 'A256GCM' })
+        .setIssuedAt()
+        .setExpirationTime(`${LINK_INTENT_MAX_AGE_SECONDS}s`)
+        .encrypt(await getDerivedKey('link-intent'));
+    response.cookies.set({
+        name: LINK_INTENT_COOKIE_NAME,
+        value: cookieValue,
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: LINK_INTENT_MAX_AGE_SECONDS,
+    });
+    return Date.now() + LINK_INTENT_MAX_AGE_SECONDS * 1000;
+}
+
+/**
+ * Reads the link intent from the request. Returns null when absent, expired or tampered with.
+ */
+export async function getLinkIntentFromRequest(req: NextRequest): Promise<LinkIntent | null> {
+    const cookieValue = req.cookies.get(LINK_INTENT_COOKIE_NAME)?.value;
+    if (!cookieValue) return null;
+    try {
+        const { payload } = await jwtDecrypt(cookieValue, await getDerivedKey('link-intent'));
+        if (typeof payload.uid !== 'string' || typeof payload.by !== 'string') {
+            return null;
+        }
+        return { supabaseUserId: payload.uid, initiatedBy: payload.by };
+    } catch (error) {
+        console.warn('[link-intent] Rejected invalid or expired link intent cookie.');
+        return null;
+    }
+}
+
+export function clearLinkIntentCookie(response: NextResponse): void {
+    response.cookies.set({
+        name: LINK_INTENT_COOKIE_NAME,
+        value: '',
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: 0,
+    });
+}
@@ -0,0 +1,49 @@
+/**
+ * @description
+ * Server-side guard for protected page sections. Called from the section layouts
+ * (`app/vault`, `app/rag`, `app/insights`, `app/debug`) before anything renders.
+ * - No valid session: redirects to the login flow with a return target.
+ * - Session without the scopes from the route policy: renders the 403 page (`app/forbidden.tsx`).
+ *
+ * @dependencies
+ * - next/headers: Request cookies and headers in Server Components.
+ * - next/navigation: redirect() and forbidden().
+ * - lib/auth/route-policy: The route policy table.
+ * - lib/auth/session: Session lookup from the cookie value.
+ * - lib/auth/verify-token: Scope check helper.
+ *
+ * @notes
+ * - Server Components only. Relies on the session's granted scope; token validity is
+ *   still enforced by the API routes on every call.
+ */
+
+import { cookies, headers } from 'next/headers';
+import { redirect, forbidden } from 'next/navigation';
+import { findRoutePolicy, buildLoginPath, REQUEST_PATH_HEADER } from '@/lib/auth/route-policy';
+import { getSessionFromCookieValue } from '@/lib/auth/session';
+import { hasRequiredScopes } from '@/lib/auth/verify-token';
+import { SESSION_COOKIE_NAME } from '@/lib/constants';
+
+/**
+ * Enforces the route policy for a protected section.
+ * @param sectionPath - The section's path prefix (used when the middleware did not forward the request path).
+ */
+export async function requirePageAccess(sectionPath: string): Promise<void> {
+    const requestPath = (await headers()).get(REQUEST_PATH_HEADER) || sectionPath;
+    const policy = findRoutePolicy(requestPath.split('?')[0]) || findRoutePolicy(sectionPath);
+    if (!policy) {
+        return;
+    }
+
+    const cookieValue = (await cookies()).get(SESSION_COOKIE_NAME)?.value;
+    const session = await getSessionFromCookieValue(cookieValue);
+    if (!session) {
+        console.log(`[requirePageAccess] No session for ${requestPath}; redirecting to login.`);
+        redirect(buildLoginPath(requestPath));
+    }
+
+    if (!hasRequiredScopes(session.scope || undefined, policy.requiredScopes)) {
+        console.warn(`[requirePageAccess] Session lacks scopes for ${policy.pathPrefix}: ${policy.requiredScopes.join(' ')}`);
+        forbidden();
+    }
+}
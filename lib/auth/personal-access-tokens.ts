@@ -0,0 +1,225 @@
+/**
+ * @description
+ * Personal access tokens (PATs): long-lived, revocable bearer credentials with restricted
+ * scopes for scripts and integrations, created by users on the "Tokens" settings page.
+ * Tokens look like `mcp_pat_<random>`; only a SHA-256 hash is stored, in the Supabase
+ * `personal_access_tokens` table (see supabase/migrations).
+ *
+ * @dependencies
+ * - utils/supabase-admin: Service-role client used to store and look up tokens.
+ * - lib/constants: Token prefix and the scopes a token may carry.
+ *
+ * @notes
+ * - Server-side only (uses the service role key).
+ * - `lib/auth/route-guard.ts` accepts PATs wherever it accepts OAuth access tokens.
+ * - Successful verifications are cached in memory for a short time; revoking through this module
+ *   clears the local cache, other server instances honour the revocation within the TTL.
+ */
+
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { PERSONAL_ACCESS_TOKEN_PREFIX, PERSONAL_ACCESS_TOKEN_SCOPES } from '@/lib/constants';
+
+// A token as shown on the settings page (never includes the secret)
+export interface PersonalAccessToken {
+    id: string;
+    name: string;
+    tokenPrefix: string; // First characters of the token, to recognise it
+    scopes: string[];
+    expiresAt: string | null;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+}
+
+// The owner and permissions of a valid token
+export interface VerifiedPersonalAccessToken {
+    tokenId: string;
+    userId: string;
+    scopes: string[];
+    expiresAt: number | null; // Epoch ms
+}
+
+export interface CreatePersonalAccessTokenInput {
+    name: string;
+    scopes: string[];
+    expiresInDays: number | null; // null = never expires
+}
+
+const VERIFICATION_CACHE_TTL_MS = 60 * 1000; // 1 minute
+const LAST_USED_WRITE_INTERVAL_MS = 5 * 60 * 1000; // Record usage at most every 5 minutes per token
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 6;
+
+const verificationCache = new Map<string, { result: VerifiedPersonalAccessToken; cachedAt: number }>();
+const lastUsedWrites = new Map<string, number>();
+
+type PersonalAccessTokenRow = {
+    id: string;
+    name: string;
+    token_prefix: string;
+    scopes: string[];
+    expires_at: string | null;
+    last_used_at: string | null;
+    revoked_at: string | null;
+    created_at: string;
+};
+
+function fromRow(row: PersonalAccessTokenRow): PersonalAccessToken {
+    return {
+        id: row.id,
+        name: row.name,
+        tokenPrefix: row.token_prefix,
+        scopes: row.scopes,
+        expiresAt: row.expires_at,
+        lastUsedAt: row.last_used_at,
+        revokedAt: row.revoked_at,
+        createdAt: row.created_at,
+    };
+}
+
+async function hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Tells PATs apart from OAuth access tokens.
+ */
+export function isPersonalAccessToken(token: string): boolean {
+    return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * Creates a token for a user.
+ * @returns The stored token and its secret. The secret is not stored and cannot be shown again.
+ * @throws {Error} If the input is invalid or Supabase cannot be reached.
+ */
+export async function createPersonalAccessToken(
+    userId: string,
+    input: CreatePersonalAccessTokenInput
+): Promise<{ token: string; record: PersonalAccessToken }> {
+    const name = input.name.trim();
+    const scopes = Array.from(new Set(input.scopes));
+    if (!name || name.length > 100) {
+        throw new Error('Token name must be between 1 and 100 characters.');
+    }
+    if (scopes.length === 0 || scopes.some(scope => !PERSONAL_ACCESS_TOKEN_SCOPES.includes(scope))) {
+        throw new Error(`Scopes must be a non-empty subset of: ${PERSONAL_ACCESS_TOKEN_SCOPES.join(', ')}.`);
+    }
+    if (input.expiresInDays !== null && !(Number.isInteger(input.expiresInDays) && input.expiresInDays > 0)) {
+        throw new Error('Expiry must be a positive number of days, or none.');
+    }
+
+    const secret = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${secret}`;
+    const expiresAt = input.expiresInDays === null
+        ? null
+        : new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabaseAdmin
+        .from('personal_access_tokens')
+        .insert({
+            supabase_user_id: userId,
+            name,
+            token_hash: await hashToken(token),
+            token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+            scopes,
+            expires_at: expiresAt,
+        })
+        .select('id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at')
+        .single();
+    if (error) {
+        console.error(`[createPersonalAccessToken] Failed to store token for ${userId}:`, error);
+        throw error;
+    }
+    console.log(`[createPersonalAccessToken] Created token ${data.id} for ${userId} (scopes: ${scopes.join(' ')}).`);
+    return { token, record: fromRow(data) };
+}
+
+/**
+ * Lists a user's tokens, newest first (revoked ones included).
+ * @throws {Error} If Supabase cannot be queried.
+ */
+export async function listPersonalAccessTokens(userId: string): Promise<PersonalAccessToken[]> {
+    const { data, error } = await supabaseAdmin
+        .from('personal_access_tokens')
+        .select('id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at')
+        .eq('supabase_user_id', userId)
+        .order('created_at', { ascending: false });
+    if (error) {
+        console.error(`[listPersonalAccessTokens] Failed to list tokens for ${userId}:`, error);
+        throw error;
+    }
+    return (data || []).map(fromRow);
+}
+
+/**
+ * Revokes one of a user's tokens.
+ * @returns False if the user has no such active token.
+ * @throws {Error} If Supabase cannot be queried.
+ */
+export async function revokePersonalAccessToken(userId: string, tokenId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+        .from('personal_access_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', tokenId)
+        .eq('supabase_user_id', userId)
+        .is('revoked_at', null)
+        .select('id');
+    if (error) {
+        console.error(`[revokePersonalAccessToken] Failed to revoke token ${tokenId}:`, error);
+        throw error;
+    }
+    verificationCache.forEach((entry, key) => {
+        if (entry.result.tokenId === tokenId) verificationCache.delete(key);
+    });
+    return (data || []).length > 0;
+}
+
+/**
+ * Verifies a PAT.
+ * @returns The owner and scopes, or null for unknown, revoked or expired tokens.
+ * @throws {Error} If Supabase cannot be queried.
+ */
+export async function verifyPersonalAccessToken(token: string): Promise<VerifiedPersonalAccessToken | null> {
+    const now = Date.now();
+    const tokenHash = await hashToken(token);
+    const cached = verificationCache.get(tokenHash);
+    if (cached && now - cached.cachedAt < VERIFICATION_CACHE_TTL_MS
+        && (cached.result.expiresAt === null || cached.result.expiresAt > now)) {
+        return cached.result;
+    }
+    verificationCache.delete(tokenHash);
+
+    const { data, error } = await supabaseAdmin
+        .from('personal_access_tokens')
+        .select('id, supabase_user_id, scopes, expires_at, revoked_at')
+        .eq('token_hash', tokenHash)
+        .maybeSingle();
+    if (error) {
+        console.error('[verifyPersonalAccessToken] Failed to look up token:', error);
+        throw error;
+    }
+    if (!data || data.revoked_at) {
+        return null;
+    }
+    const expiresAt = data.expires_at ? new Date(data.expires_at).getTime() : null;
+    if (expiresAt !== null && expiresAt <= now) {
+        return null;
+    }
+
+    const result: VerifiedPersonalAccessToken = { tokenId: data.id, userId: data.supabase_user_id, scopes: data.scopes, expiresAt };
+    verificationCache.set(tokenHash, { result, cachedAt: now });
+
+    // Best effort: usage tracking must never fail the request
+    if (now - (lastUsedWrites.get(data.id) || 0) > LAST_USED_WRITE_INTERVAL_MS) {
+        lastUsedWrites.set(data.id, now);
+        supabaseAdmin
+            .from('personal_access_tokens')
+            .update({ last_used_at: new Date(now).toISOString() })
+            .eq('id', data.id)
+            .then(({ error: updateError }) => {
+                if (updateError) console.warn(`[verifyPersonalAccessToken] Failed to record usage of ${data.id}:`, updateError);
+            });
+    }
+    return result;
+}
@@ -0,0 +1,60 @@
+/**
+ * @description
+ * Server-side helper for revoking OAuth tokens at the auth-worker's revocation
+ * endpoint (RFC 7009).
+ *
+ * @dependencies
+ * - lib/auth/discovery: Provides the revocation endpoint from the auth-worker's metadata.
+ * - lib/auth/verify-token: Drops revoked tokens from the verification cache.
+ * - lib/constants: Provides OAUTH_CLIENT_ID.
+ *
+ * @notes
+ * - Never throws: sign-out must still clear the local session when revocation fails.
+ */
+
+import { getAuthorizationServerMetadata } from '@/lib/auth/discovery';
+import { forgetVerifiedToken } from '@/lib/auth/verify-token';
+import { OAUTH_CLIENT_ID } from '@/lib/constants';
+
+export type TokenTypeHint = 'access_token' | 'refresh_token';
+
+/**
+ * Revokes a token at the auth-worker.
+ * @param token - The raw token to revoke.
+ * @param tokenTypeHint - Which kind of token it is, to speed up the server's lookup.
+ * @returns True if the server accepted the revocation (RFC 7009 answers 200 even for unknown tokens).
+ */
+export async function revokeToken(token: string, tokenTypeHint: TokenTypeHint): Promise<boolean> {
+    if (tokenTypeHint === 'access_token') {
+        await forgetVerifiedToken(token);
+    }
+
+    try {
+        const { revocation_endpoint: revocationUrl } = await getAuthorizationServerMetadata();
+        if (!revocationUrl) {
+            console.warn('[revokeToken] Authorization server does not advertise a revocation_endpoint.');
+            return false;
+        }
+
+        const params = new URLSearchParams();
+        params.append('token', token);
+        params.append('token_type_hint', tokenTypeHint);
+        params.append('client_id', OAUTH_CLIENT_ID);
+
+        console.log(`[revokeToken] Revoking ${tokenTypeHint} at ${revocationUrl}`);
+        const response = await fetch(revocationUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: params.toString(),
+            cache: 'no-store',
+        });
+        if (!response.ok) {
+            console.error(`[revokeToken] Revocation endpoint returned ${response.status}:`, await response.text());
+            return false;
+        }
+        return true;
+    } catch (error) {
+        console.error(`[revokeToken] Failed to revoke ${tokenTypeHint}:`, error);
+        return false;
+    }
+}
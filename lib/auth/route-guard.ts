@@ -0,0 +1,238 @@
+/**
+ * @description
+ * Shared authentication guard for Next.js route handlers.
+ * Takes the caller's access token from the `Authorization: Bearer` header (scripts,
+ * integrations) or from the BFF session cookie (browser), verifies it against the
+ * auth-worker's keys (or by introspection), resolves the linked Supabase user
+ * server-side and hands the verified identity to the handler. Handlers must use `caller.userId` instead of any
+ * client-supplied user ID.
+ * Personal access tokens (`mcp_pat_...`) are accepted as bearer tokens too and verified against
+ * Supabase instead of the auth-worker.
+ * DPoP-bound tokens (`cnf.jkt`) are only accepted from a header with the `DPoP` scheme and a valid proof.
+ *
+ * @dependencies
+ * - next/server: NextRequest/NextResponse.
+ * - lib/auth/verify-token: Local JWT verification with introspection fallback.
+ * - lib/auth/introspect: Authorization header parsing and the claims shape.
+ * - lib/auth/dpop-proof: Proof verification for DPoP-bound tokens.
+ * - lib/auth/identity: Hanko → Supabase user resolution.
+ * - lib/auth/session: BFF session lookup.
+ * - lib/auth/personal-access-tokens: Personal access token verification.
+ *
+ * @notes
+ * - The linked user is read from a short-lived cache for GET and HEAD requests; every other request
+ *   reads it from Supabase, so a write never acts for an identity unlinked on another instance.
+ * - Responds 401 for missing/invalid tokens, 403 when the identity is not linked yet or a
+ *   required scope is missing (`insufficient_scope`, RFC 6750), and 502 when the auth-worker
+ *   or Supabase cannot be reached.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBearerToken, getDpopToken, type IntrospectionResponse } from '@/lib/auth/introspect';
+import { verifyDpopProof } from '@/lib/auth/dpop-proof';
+import { verifyAccessToken, hasRequiredScopes, toRequestableScopes } from '@/lib/auth/verify-token';
+import { resolveSupabaseUserId } from '@/lib/auth/identity';
+import { getSessionFromRequest, updateSession } from '@/lib/auth/session';
+import { isPersonalAccessToken, verifyPersonalAccessToken } from '@/lib/auth/personal-access-tokens';
+import type { SessionRecord } from '@/lib/auth/session-store';
+
+// The verified identity passed to guarded handlers
+export interface VerifiedCaller {
+    userId: string; // Linked Supabase user ID
+    subject: string; // Token subject (Hanko user ID, or `pat:<token id>` for personal access tokens)
+    scopes: string[];
+    accessToken: string;
+    claims: IntrospectionResponse;
+    session: SessionRecord | null; // Set when the caller authenticated via the session cookie
+}
+
+// Methods that only read; other requests resolve the linked user without the cache
+const SAFE_METHODS = ['GET', 'HEAD'];
+
+type GuardedHandler<C> = (req: NextRequest, caller: VerifiedCaller, context: C) => Promise<Response>;
+
+export interface WithAuthOptions {
+    requiredScopes?: string[]; // Every listed scope must be granted to the token
+}
+
+/**
+ * Authenticates a personal access token. Its owner is stored with the token, so no identity lookup is needed.
+ */
+async function authenticatePersonalAccessToken(token: string): Promise<VerifiedCaller | NextResponse> {
+    let verified;
+    try {
+        verified = await verifyPersonalAccessToken(token);
+    } catch (verificationError) {
+        console.error('[authenticateRequest] Error verifying personal access token:', verificationError);
+        return NextResponse.json({ error: 'server_error', message: 'Failed to validate personal access token.' }, { status: 502 });
+    }
+    if (!verified) {
+        return NextResponse.json({ error: 'Unauthorized', message: 'Personal access token is revoked, expired or invalid.' }, { status: 401 });
+    }
+    const subject = `pat:${verified.tokenId}`;
+    const scope = verified.scopes.join(' ');
+    return {
+        userId: verified.userId,
+        subject,
+        scopes: verified.scopes,
+        accessToken: token,
+        claims: {
+            active: true,
+            sub: subject,
+            scope,
+            token_type: 'personal_access_token',
+            exp: verified.expiresAt !== null ? Math.floor(verified.expiresAt / 1000) : undefined,
+        },
+        session: null,
+    };
+}
+
+/**
+ * Checks the sender constraint of a token taken from the Authorization header: a DPoP-bound token
+ * needs the `DPoP` scheme and a proof from its key, and the `DPoP` scheme needs a bound token.
+ * @returns An error response, or null when the token may be used.
+ */
+async function checkSenderConstraint(req: NextRequest, accessToken: string, isDpopScheme: boolean, claims: IntrospectionResponse): Promise<NextResponse | null> {
+    const jkt = claims.cnf?.jkt;
+    let rejection: string | null = null;
+    if (!jkt) {
+        rejection = isDpopScheme ? 'Token is not DPoP-bound.' : null;
+    } else if (!isDpopScheme) {
+        rejection = 'DPoP-bound token must be presented with the DPoP scheme and a proof.';
+    } else {
+        rejection = await verifyDpopProof({
+            proof: req.headers.get('dpop'),
+            method: req.method,
+            url: req.nextUrl.href,
+            accessToken,
+            jkt,
+        });
+    }
+    if (!rejection) {
+        return null;
+    }
+    console.warn(`[authenticateRequest] Rejected sender-constrained token: ${rejection}`);
+    return NextResponse.json(
+        { error: 'invalid_token', message: rejection },
+        { status: 401, headers: { 'WWW-Authenticate': `DPoP error="invalid_token", algs="ES256"` } }
+    );
+}
+
+/**
+ * Authenticates the request. Returns the verified caller, or an error response to send back as-is.
+ */
+export async function authenticateRequest(req: NextRequest): Promise<VerifiedCaller | NextResponse> {
+    const authorizationHeader = req.headers.get('authorization');
+    const dpopToken = getDpopToken(authorizationHeader);
+    const headerToken = getBearerToken(authorizationHeader) || dpopToken;
+    if (headerToken && isPersonalAccessToken(headerToken)) {
+        return authenticatePersonalAccessToken(headerToken);
+    }
+    let session: SessionRecord | null = null;
+    if (!headerToken) {
+        try {
+            session = await getSessionFromRequest(req);
+        } catch (sessionError) {
+            console.error('[authenticateRequest] Failed to load session:', sessionError);
+            return NextResponse.json({ error: 'server_error', message: 'Failed to load session.' }, { status: 500 });
+        }
+    }
+    const accessToken = headerToken || session?.accessToken;
+    if (!accessToken) {
+        return NextResponse.json({ error: 'Unauthorized', message: 'No session or bearer token provided.' }, { status: 401 });
+    }
+
+    let claims: IntrospectionResponse;
+    try {
+        claims = await verifyAccessToken(accessToken);
+    } catch (verificationError) {
+        console.error('[authenticateRequest] Error verifying token with authorization server:', verificationError);
+        return NextResponse.json({ error: 'server_error', message: 'Failed to validate token with authorization server.' }, { status: 502 });
+    }
+    if (!claims.active) {
+        return NextResponse.json({ error: 'Unauthorized', message: 'Token is inactive or invalid.' }, { status: 401 });
+    }
+    // Session tokens are held server-side and never leave this app, so only header tokens need a proof
+    if (headerToken) {
+        const rejection = await checkSenderConstraint(req, headerToken, !!dpopToken, claims);
+        if (rejection) {
+            return rejection;
+        }
+    }
+
+    const subject = claims.hankoUserId || claims.sub;
+    if (!subject) {
+        console.error('[authenticateRequest] Subject (sub) missing from introspection response.');
+        return NextResponse.json({ error: 'Unauthorized', message: 'Could not verify token subject.' }, { status: 401 });
+    }
+
+    // Always go through identity_links (cached briefly for reads): the session's remembered user may have been unlinked since
+    let userId: string | null;
+    try {
+        userId = await resolveSupabaseUserId(subject, { bypassCache: !SAFE_METHODS.includes(req.method) });
+        if (session && session.supabaseUserId !== userId) {
+            console.warn(`[authenticateRequest] Session's linked user ${session.supabaseUserId} is stale; now ${userId}.`);
+            session = await updateSession(session, { supabaseUserId: userId });
+        }
+    } catch (lookupError) {
+        console.error('[authenticateRequest] Failed to resolve linked Supabase user:', lookupError);
+        return NextResponse.json({ error: 'server_error', message: 'Failed to resolve linked user.' }, { status: 502 });
+    }
+    if (!userId) {
+        return NextResponse.json({ error: 'account_not_linked', message: 'This identity is not linked to an account yet.' }, { status: 403 });
+    }
+
+    return {
+        userId,
+        subject,
+        scopes: claims.scope ? claims.scope.split(' ').filter(Boolean) : [],
+        accessToken,
+        claims,
+        session,
+    };
+}
+
+/**
+ * Builds the `Authorization` header for forwarding the caller's credential to a backend service.
+ * Personal access tokens are only meaningful to this app, and a DPoP-bound token is useless without
+ * a proof from the browser's key made for that backend (lib/auth/grants takes one from the browser),
+ * so neither is forwarded;
+ * the backend identifies the user by the verified user ID sent alongside instead.
+ * @returns The header to merge into the upstream request, or an empty object.
+ */
+export function getForwardedAuthorization(caller: VerifiedCaller): Record<string, string> {
+    if (caller.claims.token_type === 'personal_access_token') {
+        return {};
+    }
+    if (caller.session?.tokenType === 'DPoP' || caller.claims.cnf?.jkt) {
+        return {};
+    }
+    return { 'Authorization': `Bearer ${caller.accessToken}` };
+}
+
+/**
+ * Wraps a route handler so it only runs for authenticated, linked callers
+ * that hold the required scopes.
+ * @example
+ * export const GET = withAuth(async (req, { userId }) => NextResponse.json(await listFor(userId)));
+ * export const POST = withAuth(handler, { requiredScopes: [MCP_SCOPE_DATA_WRITE] });
+ */
+export function withAuth<C = unknown>(handler: GuardedHandler<C>, options: WithAuthOptions = {}) {
+    return async (req: NextRequest, context: C): Promise<Response> => {
+        const result = await authenticateRequest(req);
+        if (result instanceof NextResponse) {
+            return result;
+        }
+        const requiredScopes = options.requiredScopes || [];
+        if (!hasRequiredScopes(result.claims.scope, requiredScopes)) {
+            // The challenge names scopes the auth-worker can grant, so clients can step up
+            const scope = toRequestableScopes(requiredScopes).join(' ');
+            console.warn(`[withAuth] Caller ${result.userId} lacks required scopes: ${requiredScopes.join(' ')}`);
+            return NextResponse.json(
+                { error: 'insufficient_scope', message: `This action requires the following scopes: ${requiredScopes.join(' ')}.` },
+                { status: 403, headers: { 'WWW-Authenticate': `Bearer error="insufficient_scope", scope="${scope}"` } }
+            );
+        }
+        return handler(req, result, context);
+    };
+}
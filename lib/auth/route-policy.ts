@@ -0,0 +1,50 @@
+/**
+ * @description
+ * Route policy table for protected pages: which path prefixes require an
+ * authenticated session, and which OAuth scopes each one needs.
+ * Used by `middleware.ts` (fast redirect when there is no session cookie at all)
+ * and by the section layouts via `lib/auth/page-guard.ts` (full session and scope check).
+ *
+ * @notes
+ * - Edge-safe: no Node-only imports, so the middleware can use it.
+ * - The client uses the same table to hide navigation the session cannot open.
+ * - API routes are protected separately by `withAuth` (lib/auth/route-guard.ts).
+ */
+
+import { MCP_SCOPE_DATA_READ } from '@/lib/constants';
+
+export interface RoutePolicy {
+    pathPrefix: string; // Matches the prefix itself and everything below it
+    requiredScopes: string[]; // Every listed scope must have been granted to the session
+}
+
+// Header set by the middleware so server layouts know the full requested path (incl. query)
+export const REQUEST_PATH_HEADER = 'x-request-path';
+
+// Page the login flow starts from (renders MCPClient / the login button)
+const LOGIN_PAGE_PATH = '/client';
+
+export const ROUTE_POLICIES: RoutePolicy[] = [
+    { pathPrefix: '/vault', requiredScopes: [MCP_SCOPE_DATA_READ] },
+    { pathPrefix: '/rag', requiredScopes: [MCP_SCOPE_DATA_READ] },
+    { pathPrefix: '/insights', requiredScopes: [MCP_SCOPE_DATA_READ] },
+    { pathPrefix: '/debug', requiredScopes: [MCP_SCOPE_DATA_READ] },
+    { pathPrefix: '/account', requiredScopes: [] }, // Account settings only need a session
+    { pathPrefix: '/device', requiredScopes: [] }, // Device approval; the device's scopes are checked by the auth-worker
+];
+
+/**
+ * Returns the policy protecting the given pathname, or null for public pages.
+ */
+export function findRoutePolicy(pathname: string): RoutePolicy | null {
+    return ROUTE_POLICIES.find(policy =>
+        pathname === policy.pathPrefix || pathname.startsWith(`${policy.pathPrefix}/`)
+    ) || null;
+}
+
+/**
+ * Builds the login URL that returns the user to `returnTo` after the OAuth round trip.
+ */
+export function buildLoginPath(returnTo: string): string {
+    return `${LOGIN_PAGE_PATH}?returnTo=${encodeURIComponent(returnTo)}`;
+}
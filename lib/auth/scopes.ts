@@ -0,0 +1,21 @@
+/**
+ * @description
+ * Scope expansion shared by the server-side guards (`hasRequiredScopes` in lib/auth/verify-token)
+ * and the client's scope gating (`useScopes` in context/auth-context), so both agree on what a
+ * granted scope string allows.
+ *
+ * @notes
+ * - No server-only imports: safe to use in client components.
+ */
+
+import { SCOPE_IMPLICATIONS } from '@/lib/constants';
+
+/**
+ * Returns the scopes held by a space-delimited scope string, including the narrower scopes
+ * implied by broader ones (SCOPE_IMPLICATIONS).
+ */
+export function expandGrantedScopes(scope: string | null | undefined): Set<string> {
+    const granted = new Set((scope || '').split(' ').filter(Boolean));
+    granted.forEach(grantedScope => SCOPE_IMPLICATIONS[grantedScope]?.forEach(implied => granted.add(implied)));
+    return granted;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemorySessionStore, type SessionRecord } from '@/lib/auth/session-store';
+import { SESSION_MAX_AGE_SECONDS } from '@/lib/constants';
+
+vi.mock('@/utils/supabase-admin', () => ({ supabaseAdmin: {} }));
+
+function session(id: string, overrides: Partial<SessionRecord> = {}): SessionRecord {
+    const now = Date.now();
+    return {
+        id,
+        accessToken: `access-${id}`,
+        refreshToken: `refresh-${id}`,
+        expiresAt: now + 3600_000,
+        scope: 'openid',
+        tokenType: 'Bearer',
+        supabaseUserId: null,
+        profile: null,
+        createdAt: now,
+        updatedAt: now,
+        ...overrides,
+    };
+}
+
+describe('MemorySessionStore', () => {
+    it('purges expired sessions when saving one', async () => {
+        const store = new MemorySessionStore();
+        const now = Date.now();
+        await store.set(session('past-cookie', { createdAt: now - SESSION_MAX_AGE_SECONDS * 1000 - 1 }));
+        await store.set(session('not-renewable', { refreshToken: null, expiresAt: now - 1 }));
+        await store.set(session('renewable', { expiresAt: now - 1 })); // Its refresh token can still renew it
+
+        await store.set(session('new'));
+
+        expect(await store.get('past-cookie')).toBeNull();
+        expect(await store.get('not-renewable')).toBeNull();
+        expect(await store.get('renewable')).not.toBeNull();
+        expect(await store.get('new')).not.toBeNull();
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * @description
+ * Server-side storage for backend-for-frontend (BFF) sessions.
+ * A session record holds the OAuth tokens for one browser session; the browser
+ * itself only ever receives an encrypted, httpOnly cookie carrying the session ID.
+ *
+ * Backends:
+ * - MemorySessionStore: Process-local map. Default; suitable for local development and single instances.
+ * - SupabaseSessionStore: Persists sessions in the `auth_sessions` table (see supabase/migrations),
+ *   with the access and refresh tokens encrypted at rest.
+ *
+ * @dependencies
+ * - utils/supabase-admin: Service-role client for the Supabase backend.
+ * - jose / lib/auth/keys: Token encryption (JWE dir + A256GCM) for the Supabase backend.
+ *
+ * @notes
+ * - Select the backend with the SESSION_STORE environment variable ('memory' | 'supabase').
+ * - Server-side only. Never import this module from client components.
+ */
+
+import { CompactEncrypt, compactDecrypt } from 'jose';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { getDerivedKey } from '@/lib/auth/keys';
+import { SESSION_MAX_AGE_SECONDS } from '@/lib/constants';
+import type { UserProfile } from '@/lib/auth/user-profile';
+
+export interface SessionRecord {
+    id: string;
+    accessToken: string;
+    refreshToken: string | null;
+    expiresAt: number; // Access token expiry, epoch ms
+    scope: string | null;
+    tokenType: 'Bearer' | 'DPoP'; // 'DPoP': the access token is bound to the browser's DPoP key
+    supabaseUserId: string | null;
+    profile: UserProfile | null; // From the validated ID token and userinfo; null without `openid`
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface SessionStore {
+    get(id: string): Promise<SessionRecord | null>;
+    set(record: SessionRecord): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * Whether a session can no longer be used: its cookie has expired, or its access token has
+ * expired and there is no refresh token to renew it.
+ */
+function isSessionExpired(record: SessionRecord, now: number): boolean {
+    return record.createdAt + SESSION_MAX_AGE_SECONDS * 1000 <= now || (!record.refreshToken && record.expiresAt <= now);
+}
+
+/**
+ * Keeps sessions in process memory. Sessions are lost on restart.
+ */
+export class MemorySessionStore implements SessionStore {
+    private sessions = new Map<string, SessionRecord>();
+
+    async get(id: string): Promise<SessionRecord | null> {
+        return this.sessions.get(id) ?? null;
+    }
+
+    async set(record: SessionRecord): Promise<void> {
+        // Drop expired sessions while we are here
+        const now = Date.now();
+        this.sessions.forEach((existing, id) => {
+            if (isSessionExpired(existing, now)) this.sessions.delete(id);
+        });
+        this.sessions.set(record.id, record);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.sessions.delete(id);
+    }
+}
+
+async function encryptToken(token: string): Promise<string> {
+    return new CompactEncrypt(new TextEncoder().encode(token))
+        .setProtectedHeader({ alg: 'dir', enc: 'A256GCM' })
+        .encrypt(await getDerivedKey('session-tokens'));
+}
+
+async function decryptToken(value: string): Promise<string> {
+    const { plaintext } = await compactDecrypt(value, await getDerivedKey('session-tokens'));
+    return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Persists sessions in the Supabase `auth_sessions` table using the service role.
+ * Tokens are encrypted before they are written, so the table (or a backup of it) alone
+ * does not yield usable credentials.
+ */
+export class SupabaseSessionStore implements SessionStore {
+    async get(id: string): Promise<SessionRecord | null> {
+        const { data, error } = await supabaseAdmin
+            .from('auth_sessions')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+        if (error) {
+            console.error(`[SupabaseSessionStore] Failed to load session ${id}:`, error);
+            throw error;
+        }
+        if (!data) return null;
+        let accessToken: string;
+        let refreshToken: string | null;
+        try {
+            accessToken = await decryptToken(data.access_token);
+            refreshToken = data.refresh_token ? await decryptToken(data.refresh_token) : null;
+        } catch (decryptError) {
+            // Written with another key (e.g. a rotated SESSION_SECRET) or not encrypted: treat as signed out
+            console.warn(`[SupabaseSessionStore] Could not decrypt the tokens of session ${id}.`);
+            return null;
+        }
+        return {
+            id: data.id,
+            accessToken,
+            refreshToken,
+            expiresAt: new Date(data.expires_at).getTime(),
+            scope: data.scope,
+            tokenType: data.token_type === 'DPoP' ? 'DPoP' : 'Bearer',
+            supabaseUserId: data.supabase_user_id,
+            profile: (data.profile as UserProfile | null) ?? null,
+            createdAt: new Date(data.created_at).getTime(),
+            updatedAt: new Date(data.updated_at).getTime(),
+        };
+    }
+
+    async set(record: SessionRecord): Promise<void> {
+        const { error } = await supabaseAdmin.from('auth_sessions').upsert({
+            id: record.id,
+            access_token: await encryptToken(record.accessToken),
+            refresh_token: record.refreshToken ? await encryptToken(record.refreshToken) : null,
+            expires_at: new Date(record.expiresAt).toISOString(),
+            scope: record.scope,
+            token_type: record.tokenType,
+            supabase_user_id: record.supabaseUserId,
+            profile: record.profile,
+            created_at: new Date(record.createdAt).toISOString(),
+            updated_at: new Date(record.updatedAt).toISOString(),
+        });
+        if (error) {
+            console.error(`[SupabaseSessionStore] Failed to save session ${record.id}:`, error);
+            throw error;
+        }
+    }
+
+    async delete(id: string): Promise<void> {
+        const { error } = await supabaseAdmin.from('auth_sessions').delete().eq('id', id);
+        if (error) {
+            console.error(`[SupabaseSessionStore] Failed to delete session ${id}:`, error);
+            throw error;
+        }
+    }
+}
+
+// Keep a single store per server process (survives Next.js dev hot reloads)
+const globalForSessions = globalThis as unknown as { __mcpSessionStore?: SessionStore };
+
+/**
+ * Returns the configured session store.
+ */
+export function getSessionStore(): SessionStore {
+    if (!globalForSessions.__mcpSessionStore) {
+        const backend = process.env.SESSION_STORE || 'memory';
+        console.log(`[getSessionStore] Using '${backend}' session store.`);
+        globalForSessions.__mcpSessionStore = backend === 'supabase'
+            ? new SupabaseSessionStore()
+            : new MemorySessionStore();
+    }
+    return globalForSessions.__mcpSessionStore;
+}
@@ -0,0 +1,199 @@
+/**
+ * @description
+ * Backend-for-frontend session handling: creates server-side sessions for OAuth
+ * token sets and binds them to the browser with an encrypted, httpOnly cookie.
+ *
+ * Key functions:
+ * - createSession / updateSessionTokens: Persist token responses from the auth-worker.
+ * - getSessionFromRequest: Decrypt the session cookie and load the session record.
+ * - setSessionCookie / clearSessionCookie: Write or remove the cookie on a response.
+ *
+ * @dependencies
+ * - jose: JWE encryption of the cookie payload (dir + A256GCM).
+ * - lib/auth/session-store: Pluggable session storage.
+ * - lib/auth/keys: Cookie encryption key.
+ * - lib/auth/user-profile: Profile type stored with the session.
+ * - lib/constants: Cookie name and lifetime.
+ *
+ * @notes
+ * - Requires the SESSION_SECRET environment variable (server-side only).
+ * - The cookie only carries the session ID; tokens never leave the server.
+ */
+
+import { EncryptJWT, jwtDecrypt } from 'jose';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getSessionStore, type SessionRecord } from '@/lib/auth/session-store';
+import type { UserProfile } from '@/lib/auth/user-profile';
+import { getDerivedKey } from '@/lib/auth/keys';
+import { SESSION_COOKIE_NAME, SESSION_MAX_AGE_SECONDS } from '@/lib/constants';
+
+// Shape of the token endpoint response we persist
+export interface SessionTokenData {
+    access_token: string;
+    token_type?: string;
+    expires_in?: number;
+    refresh_token?: string;
+    scope?: string;
+    id_token?: string;
+}
+
+// The non-secret session summary returned to the browser
+export interface SessionSummary {
+    authenticated: true;
+    scope: string | null;
+    expiresAt: number;
+    supabaseUserId: string | null;
+    // base64url SHA-256 of a DPoP-bound access token, for the `ath` claim of the browser's proofs
+    accessTokenHash: string | null;
+    profile: UserProfile | null;
+}
+
+/** Encrypts the session ID into the cookie value. */
+async function sealSessionId(sessionId: string): Promise<string> {
+    return new EncryptJWT({ sid: sessionId })
+        .setProtectedHeader({ alg: 'dir', enc: 'A256GCM' })
+        .setIssuedAt()
+        .setExpirationTime(`${SESSION_MAX_AGE_SECONDS}s`)
+        .encrypt(await getDerivedKey('session-cookie'));
+}
+
+/** Decrypts the cookie value. Returns null for tampered, expired or malformed cookies. */
+async function unsealSessionId(cookieValue: string): Promise<string | null> {
+    try {
+        const { payload } = await jwtDecrypt(cookieValue, await getDerivedKey('session-cookie'));
+        return typeof payload.sid === 'string' ? payload.sid : null;
+    } catch (error) {
+        console.warn('[session] Rejected invalid session cookie.');
+        return null;
+    }
+}
+
+function toExpiresAt(tokenData: SessionTokenData): number {
+    return Date.now() + (tokenData.expires_in || 3600) * 1000;
+}
+
+function toTokenType(tokenData: SessionTokenData): SessionRecord['tokenType'] {
+    return tokenData.token_type?.toLowerCase() === 'dpop' ? 'DPoP' : 'Bearer';
+}
+
+/**
+ * Creates a new server-side session for a fresh token response.
+ * @param profile - Profile resolved from the response's ID token (see lib/auth/user-profile).
+ * @returns The stored session and the encrypted cookie value to set on the response.
+ */
+export async function createSession(tokenData: SessionTokenData, profile: UserProfile | null): Promise<{ session: SessionRecord; cookieValue: string }> {
+    const now = Date.now();
+    const session: SessionRecord = {
+        id: crypto.randomUUID(),
+        accessToken: tokenData.access_token,
+        refreshToken: tokenData.refresh_token || null,
+        expiresAt: toExpiresAt(tokenData),
+        scope: tokenData.scope || null,
+        tokenType: toTokenType(tokenData),
+        supabaseUserId: null,
+        profile,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await getSessionStore().set(session);
+    console.log(`[session] Created session ${session.id}.`);
+    return { session, cookieValue: await sealSessionId(session.id) };
+}
+
+/**
+ * Stores a renewed token set on an existing session.
+ * Keeps the previous refresh token when the auth-worker does not rotate it.
+ */
+export async function updateSessionTokens(session: SessionRecord, tokenData: SessionTokenData, profile: UserProfile | null): Promise<SessionRecord> {
+    const updated: SessionRecord = {
+        ...session,
+        accessToken: tokenData.access_token,
+        refreshToken: tokenData.refresh_token || session.refreshToken,
+        expiresAt: toExpiresAt(tokenData),
+        scope: tokenData.scope || session.scope,
+        tokenType: toTokenType(tokenData),
+        profile,
+        updatedAt: Date.now(),
+    };
+    await getSessionStore().set(updated);
+    return updated;
+}
+
+/**
+ * Merges non-token fields (e.g. the linked Supabase user, or a profile completed from userinfo) into a session.
+ */
+export async function updateSession(session: SessionRecord, changes: Partial<Pick<SessionRecord, 'supabaseUserId' | 'profile'>>): Promise<SessionRecord> {
+    const updated: SessionRecord = { ...session, ...changes, updatedAt: Date.now() };
+    await getSessionStore().set(updated);
+    return updated;
+}
+
+/**
+ * Loads the session referenced by the request's session cookie, if any.
+ */
+export async function getSessionFromRequest(req: NextRequest): Promise<SessionRecord | null> {
+    return getSessionFromCookieValue(req.cookies.get(SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * Loads the session referenced by a raw session cookie value (e.g. from `cookies()` in a Server Component).
+ */
+export async function getSessionFromCookieValue(cookieValue: string | undefined): Promise<SessionRecord | null> {
+    if (!cookieValue) return null;
+    const sessionId = await unsealSessionId(cookieValue);
+    if (!sessionId) return null;
+    return getSessionStore().get(sessionId);
+}
+
+/**
+ * Removes a session from the store.
+ */
+export async function destroySession(session: SessionRecord): Promise<void> {
+    await getSessionStore().delete(session.id);
+    console.log(`[session] Destroyed session ${session.id}.`);
+}
+
+/**
+ * Builds the browser-safe summary of a session.
+ * For DPoP sessions it includes the access token hash (not the token), which the browser needs
+ * to sign proofs for mcp-worker calls.
+ */
+export async function toSessionSummary(session: SessionRecord): Promise<SessionSummary> {
+    let accessTokenHash: string | null = null;
+    if (session.tokenType === 'DPoP') {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(session.accessToken));
+        accessTokenHash = Buffer.from(digest).toString('base64url');
+    }
+    return {
+        authenticated: true,
+        scope: session.scope,
+        expiresAt: session.expiresAt,
+        supabaseUserId: session.supabaseUserId,
+        accessTokenHash,
+        profile: session.profile,
+    };
+}
+
+export function setSessionCookie(response: NextResponse, cookieValue: string): void {
+    response.cookies.set({
+        name: SESSION_COOKIE_NAME,
+        value: cookieValue,
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+    response.cookies.set({
+        name: SESSION_COOKIE_NAME,
+        value: '',
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: 0,
+    });
+}
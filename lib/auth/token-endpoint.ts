@@ -0,0 +1,59 @@
+/**
+ * @description
+ * Minimal client for the auth-worker's token endpoint, for server-side flows other than the
+ * browser login (which `app/api/auth/token/route.ts` handles itself).
+ *
+ * @dependencies
+ * - lib/auth/discovery: Token endpoint from the auth-worker's metadata.
+ * - lib/constants: Provides OAUTH_CLIENT_ID.
+ *
+ * @notes
+ * - Server-side only. This app is a public client, so no client authentication is sent.
+ */
+
+import { getAuthorizationServerMetadata } from '@/lib/auth/discovery';
+import { OAUTH_CLIENT_ID } from '@/lib/constants';
+
+// Successful token endpoint response
+export interface TokenEndpointResponse {
+    access_token: string;
+    token_type: string;
+    expires_in?: number;
+    refresh_token?: string;
+    scope?: string;
+    id_token?: string; // When `openid` was granted
+}
+
+export type TokenEndpointResult =
+    | { ok: true; tokens: TokenEndpointResponse }
+    | { ok: false; status: number; error: string; error_description?: string };
+
+/**
+ * Posts a grant to the token endpoint. `client_id` is added automatically.
+ * @returns The tokens, or the OAuth error the auth-worker answered with.
+ * @throws {Error} If discovery fails or the token endpoint cannot be reached or returns a non-JSON body.
+ */
+export async function requestTokens(grant: Record<string, string>): Promise<TokenEndpointResult> {
+    const { token_endpoint: tokenUrl } = await getAuthorizationServerMetadata();
+    const body = new URLSearchParams({ ...grant, client_id: OAUTH_CLIENT_ID });
+
+    console.log(`[requestTokens] Sending '${grant.grant_type}' grant to ${tokenUrl}`);
+    const response = await fetch(tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: body.toString(),
+        cache: 'no-store',
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.access_token) {
+        console.warn(`[requestTokens] Token endpoint returned ${response.status}: ${data.error || 'no access_token'}`);
+        return {
+            ok: false,
+            status: response.ok ? 502 : response.status,
+            error: data.error || 'server_error',
+            error_description: data.error_description,
+        };
+    }
+    return { ok: true, tokens: data as TokenEndpointResponse };
+}
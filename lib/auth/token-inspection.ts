@@ -0,0 +1,58 @@
+/**
+ * @description
+ * Describes tokens for the token inspector (`/account/session`): decodes JWT headers and
+ * claims without verifying them and masks the raw value for display.
+ *
+ * @dependencies
+ * - jose: JWT header and payload decoding.
+ *
+ * @notes
+ * - Decoding is for display only. Authorization decisions must use `lib/auth/verify-token`.
+ * - Opaque (non-JWT) tokens are reported with `format: 'opaque'` and no claims.
+ */
+
+import { decodeJwt, decodeProtectedHeader, type JWTPayload, type ProtectedHeaderParameters } from 'jose';
+
+export type InspectableTokenType = 'access_token' | 'refresh_token';
+
+export interface TokenDescription {
+    type: InspectableTokenType;
+    format: 'jwt' | 'opaque';
+    masked: string;
+    header: ProtectedHeaderParameters | null;
+    claims: JWTPayload | null;
+    expiresAt: number | null; // Epoch ms, from `exp` or the session's record
+}
+
+const VISIBLE_CHARACTERS = 6;
+
+/**
+ * Masks a token, keeping a few characters at each end so it can be recognised.
+ */
+export function maskToken(token: string): string {
+    if (token.length <= VISIBLE_CHARACTERS * 2) {
+        return '•'.repeat(token.length);
+    }
+    return `${token.slice(0, VISIBLE_CHARACTERS)}${'•'.repeat(12)}${token.slice(-VISIBLE_CHARACTERS)}`;
+}
+
+/**
+ * Decodes a token for display.
+ * @param fallbackExpiresAt - Expiry to report when the token carries no `exp` claim (e.g. opaque tokens).
+ */
+export function describeToken(type: InspectableTokenType, token: string, fallbackExpiresAt: number | null = null): TokenDescription {
+    try {
+        const header = decodeProtectedHeader(token);
+        const claims = decodeJwt(token);
+        return {
+            type,
+            format: 'jwt',
+            masked: maskToken(token),
+            header,
+            claims,
+            expiresAt: typeof claims.exp === 'number' ? claims.exp * 1000 : fallbackExpiresAt,
+        };
+    } catch {
+        return { type, format: 'opaque', masked: maskToken(token), header: null, claims: null, expiresAt: fallbackExpiresAt };
+    }
+}
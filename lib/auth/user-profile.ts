@@ -0,0 +1,202 @@
+/**
+ * @description
+ * Builds the signed-in user's profile from OpenID Connect: the `id_token` returned by the
+ * token endpoint is validated (signature, `iss`, `aud`, `exp`, `nonce`), and the userinfo
+ * endpoint is consulted when the ID token lacks the email or name.
+ *
+ * @dependencies
+ * - jose: ID token verification.
+ * - lib/auth/discovery: Issuer, `jwks_uri` and `userinfo_endpoint` from the auth-worker's metadata.
+ * - lib/auth/verify-token: Shared JWKS cache.
+ * - lib/constants: Provides OAUTH_CLIENT_ID (the ID token audience).
+ *
+ * @notes
+ * - Server-side only. The resulting `UserProfile` is stored on the session and included in the
+ *   session summary, so the browser can show it and account linking can rely on it.
+ * - Userinfo for a DPoP-bound token needs a proof from the browser's key, which the token route cannot
+ *   have: the browser only learns the token's hash from the exchange's response. So the profile starts
+ *   from the ID token alone, and the browser completes it right after the login by sending a proof for
+ *   the userinfo endpoint to `/api/auth/session/profile` (see completeUserProfile). Renewals keep
+ *   what the session's profile already has.
+ */
+
+import { jwtVerify, type JWTPayload } from 'jose';
+import { getAuthorizationServerMetadata } from '@/lib/auth/discovery';
+import { getRemoteJwks } from '@/lib/auth/verify-token';
+import { OAUTH_CLIENT_ID } from '@/lib/constants';
+
+// Profile of the signed-in user, as vouched for by the auth-worker
+export interface UserProfile {
+    sub: string; // Subject (Hanko user ID)
+    email: string | null;
+    emailVerified: boolean;
+    name: string | null;
+    picture: string | null;
+}
+
+// The parts of a token endpoint response the profile is built from
+export interface ProfileTokenData {
+    access_token: string;
+    token_type?: string;
+    id_token?: string;
+}
+
+/**
+ * Thrown when the auth-worker returned an ID token that does not validate.
+ */
+export class IdTokenValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IdTokenValidationError';
+    }
+}
+
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+function stringClaim(claims: Record<string, unknown>, name: string): string | null {
+    const value = claims[name];
+    return typeof value === 'string' && value ? value : null;
+}
+
+function profileFromClaims(sub: string, claims: Record<string, unknown>): UserProfile {
+    return {
+        sub,
+        email: stringClaim(claims, 'email'),
+        emailVerified: claims.email_verified === true,
+        name: stringClaim(claims, 'name'),
+        picture: stringClaim(claims, 'picture'),
+    };
+}
+
+/** Whether userinfo could add to the profile. */
+export function isProfileIncomplete(profile: UserProfile): boolean {
+    return !profile.email || !profile.name;
+}
+
+/** Fills the profile's missing claims from another source about the same subject. */
+function fillProfile(profile: UserProfile, source: UserProfile): UserProfile {
+    return {
+        sub: profile.sub,
+        email: profile.email || source.email,
+        emailVerified: profile.email ? profile.emailVerified : source.emailVerified,
+        name: profile.name || source.name,
+        picture: profile.picture || source.picture,
+    };
+}
+
+/**
+ * Validates an ID token (OIDC Core §3.1.3.7).
+ * @param expectedNonce - Nonce sent with the authorization request, null when none was sent;
+ *   undefined for refresh responses, whose nonce is not checked.
+ * @throws {IdTokenValidationError} If the token is invalid.
+ */
+export async function validateIdToken(idToken: string, expectedNonce: string | null | undefined): Promise<JWTPayload> {
+    const metadata = await getAuthorizationServerMetadata();
+    if (!metadata.jwks_uri) {
+        throw new IdTokenValidationError('Authorization server does not publish a jwks_uri to validate ID tokens.');
+    }
+    let payload: JWTPayload;
+    try {
+        ({ payload } = await jwtVerify(idToken, getRemoteJwks(metadata.jwks_uri), {
+            issuer: metadata.issuer,
+            audience: OAUTH_CLIENT_ID,
+            clockTolerance: CLOCK_TOLERANCE_SECONDS,
+        }));
+    } catch (error: any) {
+        throw new IdTokenValidationError(`ID token validation failed: ${error.code || error.message}`);
+    }
+    if (!payload.sub) {
+        throw new IdTokenValidationError('ID token has no subject.');
+    }
+    // A nonce on a code exchange that sent none means the code was issued for another request
+    if (expectedNonce !== undefined && (payload.nonce ?? null) !== expectedNonce) {
+        throw new IdTokenValidationError('ID token nonce does not match the authorization request.');
+    }
+    return payload;
+}
+
+/**
+ * Fetches the userinfo claims for an access token.
+ * @param dpopProof - The browser's proof for `GET userinfo_endpoint`, for a DPoP-bound token.
+ * @returns The claims, or null when there is no userinfo endpoint or the call fails.
+ */
+async function fetchUserInfo(accessToken: string, dpopProof: string | null = null): Promise<Record<string, unknown> | null> {
+    const { userinfo_endpoint: userInfoUrl } = await getAuthorizationServerMetadata();
+    if (!userInfoUrl) return null;
+    const headers: Record<string, string> = dpopProof
+        ? { 'Authorization': `DPoP ${accessToken}`, 'DPoP': dpopProof, 'Accept': 'application/json' }
+        : { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' };
+    try {
+        const response = await fetch(userInfoUrl, { headers, cache: 'no-store' });
+        if (!response.ok) {
+            console.warn(`[user-profile] Userinfo endpoint returned ${response.status}.`);
+            return null;
+        }
+        return await response.json();
+    } catch (error) {
+        console.warn('[user-profile] Failed to reach the userinfo endpoint:', error);
+        return null;
+    }
+}
+
+/**
+ * Builds the user profile from a token endpoint response.
+ * @param options.nonce - Nonce of the authorization request, null when none was sent (code exchanges only).
+ * @param options.previous - Profile of the session being renewed; kept when the response carries no ID token.
+ * @returns The profile, or null when the response has no ID token (e.g. `openid` was not granted) and there is no previous one.
+ * @throws {IdTokenValidationError} If the ID token is invalid or belongs to a different user than `previous`.
+ */
+export async function resolveUserProfile(
+    tokenData: ProfileTokenData,
+    options: { nonce?: string | null; previous?: UserProfile | null } = {},
+): Promise<UserProfile | null> {
+    const previous = options.previous ?? null;
+    if (!tokenData.id_token) {
+        return previous;
+    }
+
+    const claims = await validateIdToken(tokenData.id_token, options.nonce) as Record<string, unknown>;
+    const sub = claims.sub as string;
+    if (previous && previous.sub !== sub) {
+        throw new IdTokenValidationError('Renewed ID token belongs to a different user.');
+    }
+
+    let profile = profileFromClaims(sub, claims);
+
+    const isBearer = !tokenData.token_type || tokenData.token_type.toLowerCase() === 'bearer';
+    if (isProfileIncomplete(profile) && isBearer) {
+        const userInfo = await fetchUserInfo(tokenData.access_token);
+        // Userinfo claims only count when they are about the same subject (OIDC Core §5.3.2)
+        if (userInfo && userInfo.sub === sub) {
+            profile = fillProfile(profile, profileFromClaims(sub, userInfo));
+        } else if (userInfo) {
+            console.warn('[user-profile] Ignoring userinfo response for a different subject.');
+        }
+    } else if (isProfileIncomplete(profile)) {
+        console.log('[user-profile] Userinfo skipped for a DPoP-bound token; the browser completes the profile with its proof.');
+        if (previous) {
+            profile = fillProfile(profile, previous);
+        }
+    }
+
+    console.log(`[user-profile] Resolved profile for ${sub} (email: ${profile.email ? 'yes' : 'no'}, name: ${profile.name ? 'yes' : 'no'}).`);
+    return profile;
+}
+
+/**
+ * Completes a DPoP session's profile from userinfo, with the browser's proof for the call.
+ * @param dpopProof - Proof for `GET userinfo_endpoint`, bound to the session's access token.
+ * @returns The completed profile, or the profile unchanged when userinfo could not be used.
+ */
+export async function completeUserProfile(profile: UserProfile, accessToken: string, dpopProof: string): Promise<UserProfile> {
+    const userInfo = await fetchUserInfo(accessToken, dpopProof);
+    if (!userInfo) {
+        return profile;
+    }
+    if (userInfo.sub !== profile.sub) {
+        console.warn('[user-profile] Ignoring userinfo response for a different subject.');
+        return profile;
+    }
+    console.log(`[user-profile] Completed profile for ${profile.sub} from userinfo.`);
+    return fillProfile(profile, profileFromClaims(profile.sub, userInfo));
+}
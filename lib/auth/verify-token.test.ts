@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SignJWT, exportJWK, generateKeyPair, type CryptoKey } from 'jose';
+import { OAUTH_CLIENT_ID } from '@/lib/constants';
+
+const ISSUER = 'https://auth.example.test';
+const metadata = { issuer: ISSUER, jwks_uri: '', introspection_endpoint: `${ISSUER}/introspect` };
+
+vi.mock('@/lib/auth/discovery', () => ({
+    getAuthorizationServerMetadata: async () => metadata,
+    getIntrospectionEndpoint: async () => metadata.introspection_endpoint,
+}));
+
+const { verifyAccessToken, hasRequiredScopes, toRequestableScopes } = await import('@/lib/auth/verify-token');
+
+let signingKey: CryptoKey;
+let otherKey: CryptoKey;
+let jwksServer: http.Server;
+
+interface TokenOptions {
+    typ?: string;
+    audience?: string;
+    expiresIn?: number; // Seconds from now; negative for an expired token
+    key?: CryptoKey;
+}
+
+function signToken(claims: Record<string, unknown>, { typ = 'at+jwt', audience = OAUTH_CLIENT_ID, expiresIn = 300, key }: TokenOptions = {}) {
+    const now = Math.floor(Date.now() / 1000);
+    return new SignJWT(claims)
+        .setProtectedHeader({ alg: 'RS256', kid: 'test-key', ...(typ ? { typ } : {}) })
+        .setIssuer(ISSUER)
+        .setAudience(audience)
+        .setSubject('hanko-user-1')
+        .setIssuedAt(now)
+        .setExpirationTime(now + expiresIn)
+        .sign(key ?? signingKey);
+}
+
+beforeAll(async () => {
+    const keyPair = await generateKeyPair('RS256');
+    signingKey = keyPair.privateKey;
+    otherKey = (await generateKeyPair('RS256')).privateKey;
+    const jwks = { keys: [{ ...(await exportJWK(keyPair.publicKey)), kid: 'test-key', alg: 'RS256', use: 'sig' }] };
+
+    jwksServer = http.createServer((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(jwks));
+    });
+    await new Promise<void>(resolve => jwksServer.listen(0, '127.0.0.1', resolve));
+    metadata.jwks_uri = `http://127.0.0.1:${(jwksServer.address() as AddressInfo).port}/.well-known/jwks.json`;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => jwksServer.close(resolve));
+});
+
+describe('verifyAccessToken', () => {
+    it('accepts an RFC 9068 access token for this app', async () => {
+        const result = await verifyAccessToken(await signToken({ scope: 'openid mcp:data:read' }));
+
+        expect(result.active).toBe(true);
+        expect(result.sub).toBe('hanko-user-1');
+        expect(result.scope).toBe('openid mcp:data:read');
+    });
+
+    it('accepts the `application/at+jwt` spelling of the type', async () => {
+        const result = await verifyAccessToken(await signToken({ scope: 'openid' }, { typ: 'application/at+jwt' }));
+
+        expect(result.active).toBe(true);
+    });
+
+    it('rejects an ID token signed with the same key for the same audience', async () => {
+        const idToken = await signToken({ email: 'user@example.com', nonce: 'n-1' }, { typ: '' });
+
+        expect(await verifyAccessToken(idToken)).toEqual({ active: false });
+    });
+
+    it('rejects a token of another type', async () => {
+        expect(await verifyAccessToken(await signToken({ scope: 'openid' }, { typ: 'JWT' }))).toEqual({ active: false });
+    });
+
+    it('rejects a token for another audience', async () => {
+        const token = await signToken({ scope: 'openid' }, { audience: 'some-other-client' });
+
+        expect(await verifyAccessToken(token)).toEqual({ active: false });
+    });
+
+    it('rejects an expired token', async () => {
+        const token = await signToken({ scope: 'openid' }, { expiresIn: -3600 });
+
+        expect(await verifyAccessToken(token)).toEqual({ active: false });
+    });
+
+    it('rejects a token signed by an unknown key', async () => {
+        const token = await signToken({ scope: 'openid' }, { key: otherKey });
+
+        expect(await verifyAccessToken(token)).toEqual({ active: false });
+    });
+
+    it('treats a valid token without a required scope as inactive', async () => {
+        const token = await signToken({ scope: 'openid mcp:data:read' });
+
+        expect(await verifyAccessToken(token, { requiredScopes: ['mcp:data:write'] })).toEqual({ active: false });
+    });
+});
+
+describe('hasRequiredScopes', () => {
+    it('counts scopes implied by broader ones', () => {
+        expect(hasRequiredScopes('mcp:data:write', ['rag:ingest'])).toBe(true);
+        expect(hasRequiredScopes('mcp:data:read', ['rag:ingest'])).toBe(false);
+        expect(hasRequiredScopes(undefined, [])).toBe(true);
+    });
+
+    it('maps narrower scopes to the OAuth scope that grants them', () => {
+        expect(toRequestableScopes(['rag:ingest', 'mcp:data:write', 'openid'])).toEqual(['mcp:data:write', 'openid']);
+    });
+});
@@ -0,0 +1,207 @@
+/**
+ * @description
+ * Server-side access-token verification.
+ * JWT access tokens are verified locally against the auth-worker's JWKS
+ * (signature, `typ`, `iss`, `aud`, `exp` and scopes). Opaque tokens, or deployments that
+ * do not publish a `jwks_uri`, fall back to token introspection (RFC 7662).
+ *
+ * @dependencies
+ * - jose: JWKS fetching/caching and JWT verification.
+ * - lib/auth/discovery: Issuer and `jwks_uri` from the auth-worker's metadata.
+ * - lib/auth/introspect: Introspection fallback and the shared result shape.
+ * - lib/auth/scopes: Expands granted scopes with the ones they imply.
+ * - lib/constants: Provides OAUTH_CLIENT_ID (default expected audience) and SCOPE_IMPLICATIONS.
+ *
+ * @notes
+ * - Only RFC 9068 access tokens (`typ: at+jwt`) are accepted. ID tokens are signed with the same
+ *   keys and carry this app's client ID as audience, so without the type check they would pass.
+ * - Set OAUTH_TOKEN_AUDIENCE when the auth-worker issues tokens for a resource
+ *   audience other than this app's client ID.
+ * - Active results are cached in memory for a short TTL (never past the token's `exp`),
+ *   keyed by a SHA-256 hash of the token.
+ * - Invalid tokens resolve to `{ active: false }`; infrastructure failures (JWKS or
+ *   introspection unreachable) are thrown.
+ */
+
+import { createRemoteJWKSet, decodeProtectedHeader, jwtVerify, errors, type JWTPayload } from 'jose';
+import { getAuthorizationServerMetadata } from '@/lib/auth/discovery';
+import { introspectToken, type IntrospectionResponse } from '@/lib/auth/introspect';
+import { expandGrantedScopes } from '@/lib/auth/scopes';
+import { OAUTH_CLIENT_ID, SCOPE_IMPLICATIONS } from '@/lib/constants';
+
+export interface VerifyTokenOptions {
+    requiredScopes?: string[]; // Every listed scope must be granted
+}
+
+const VERIFICATION_CACHE_TTL_MS = 60 * 1000; // 1 minute
+const VERIFICATION_CACHE_MAX_ENTRIES = 1000;
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+// Errors that mean "this token is not valid", as opposed to "we could not check it"
+const INVALID_TOKEN_ERROR_CODES = new Set([
+    'ERR_JWT_EXPIRED',
+    'ERR_JWT_CLAIM_VALIDATION_FAILED',
+    'ERR_JWT_INVALID',
+    'ERR_JWS_INVALID',
+    'ERR_JWS_SIGNATURE_VERIFICATION_FAILED',
+    'ERR_JWKS_NO_MATCHING_KEY',
+    'ERR_JWKS_MULTIPLE_MATCHING_KEYS',
+    'ERR_JOSE_ALG_NOT_ALLOWED',
+    'ERR_JOSE_NOT_SUPPORTED',
+]);
+
+const verificationCache = new Map<string, { result: IntrospectionResponse; expiresAt: number }>();
+let remoteJwks: { uri: string; keySet: ReturnType<typeof createRemoteJWKSet> } | null = null;
+
+function getExpectedAudience(): string {
+    return process.env.OAUTH_TOKEN_AUDIENCE || OAUTH_CLIENT_ID;
+}
+
+/** Returns the cached JWKS for the given URI, creating it when the URI changes. Also used for ID tokens. */
+export function getRemoteJwks(jwksUri: string) {
+    if (!remoteJwks || remoteJwks.uri !== jwksUri) {
+        remoteJwks = { uri: jwksUri, keySet: createRemoteJWKSet(new URL(jwksUri)) };
+    }
+    return remoteJwks.keySet;
+}
+
+/** A compact JWS has three segments and a decodable header with a real algorithm. */
+function isJwt(token: string): boolean {
+    if (token.split('.').length !== 3) {
+        return false;
+    }
+    try {
+        const header = decodeProtectedHeader(token);
+        return !!header.alg && header.alg !== 'none';
+    } catch {
+        return false;
+    }
+}
+
+async function hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Normalizes `scope` (space-delimited string) or `scp` (array) into a space-delimited string. */
+function readScope(payload: JWTPayload): string | undefined {
+    if (typeof payload.scope === 'string') {
+        return payload.scope;
+    }
+    if (Array.isArray(payload.scp)) {
+        return payload.scp.filter(s => typeof s === 'string').join(' ');
+    }
+    return undefined;
+}
+
+/** Verifies a JWT access token locally. */
+async function verifyJwt(token: string, jwksUri: string, issuer: string): Promise<IntrospectionResponse> {
+    try {
+        const { payload } = await jwtVerify(token, getRemoteJwks(jwksUri), {
+            typ: 'at+jwt', // RFC 9068; also matches `application/at+jwt`
+            issuer,
+            audience: getExpectedAudience(),
+            clockTolerance: CLOCK_TOLERANCE_SECONDS,
+            requiredClaims: ['sub', 'exp'],
+        });
+        return {
+            ...payload,
+            active: true,
+            scope: readScope(payload),
+            client_id: typeof payload.client_id === 'string' ? payload.client_id : undefined,
+            token_type: 'Bearer',
+        } as IntrospectionResponse;
+    } catch (error) {
+        if (error instanceof errors.JOSEError && INVALID_TOKEN_ERROR_CODES.has(error.code)) {
+            console.warn(`[verifyAccessToken] JWT rejected (${error.code}): ${error.message}`);
+            return { active: false };
+        }
+        throw error;
+    }
+}
+
+/** Drops expired entries once the cache grows past its bound. */
+function pruneVerificationCache(now: number): void {
+    if (verificationCache.size < VERIFICATION_CACHE_MAX_ENTRIES) {
+        return;
+    }
+    verificationCache.forEach((entry, key) => {
+        if (entry.expiresAt <= now) {
+            verificationCache.delete(key);
+        }
+    });
+    // Still full: evict the oldest insertions
+    while (verificationCache.size >= VERIFICATION_CACHE_MAX_ENTRIES) {
+        const oldestKey = verificationCache.keys().next().value;
+        if (oldestKey === undefined) break;
+        verificationCache.delete(oldestKey);
+    }
+}
+
+/**
+ * Removes a token from the verification cache, e.g. after it has been revoked.
+ */
+export async function forgetVerifiedToken(token: string): Promise<void> {
+    verificationCache.delete(await hashToken(token));
+}
+
+/**
+ * Checks whether a space-delimited scope string grants every required scope,
+ * counting the narrower scopes implied by broader ones (SCOPE_IMPLICATIONS).
+ */
+export function hasRequiredScopes(scope: string | undefined, requiredScopes: string[]): boolean {
+    const granted = expandGrantedScopes(scope);
+    return requiredScopes.every(required => granted.has(required));
+}
+
+/**
+ * Maps required scopes to ones the auth-worker can grant, for `insufficient_scope` challenges:
+ * a narrower scope is replaced by the broader OAuth scope that implies it.
+ */
+export function toRequestableScopes(requiredScopes: string[]): string[] {
+    const requestable = requiredScopes.map(required =>
+        Object.keys(SCOPE_IMPLICATIONS).find(broader => SCOPE_IMPLICATIONS[broader].includes(required)) || required
+    );
+    return Array.from(new Set(requestable));
+}
+
+/**
+ * Verifies an access token, locally when it is a JWT and via introspection otherwise.
+ * @param token - The raw access token (without the "Bearer " prefix).
+ * @param options - Optional scope requirements.
+ * @returns The token claims. `active` is false for invalid, expired or under-scoped tokens.
+ * @throws {Error} If discovery, the JWKS or the introspection endpoint cannot be reached.
+ */
+export async function verifyAccessToken(token: string, options: VerifyTokenOptions = {}): Promise<IntrospectionResponse> {
+    const now = Date.now();
+    const cacheKey = await hashToken(token);
+    const cached = verificationCache.get(cacheKey);
+
+    let result: IntrospectionResponse;
+    if (cached && cached.expiresAt > now) {
+        result = cached.result;
+    } else {
+        verificationCache.delete(cacheKey);
+        const metadata = await getAuthorizationServerMetadata();
+        if (metadata.jwks_uri && isJwt(token)) {
+            result = await verifyJwt(token, metadata.jwks_uri, metadata.issuer);
+        } else {
+            console.log('[verifyAccessToken] Token is opaque or no jwks_uri is published; using introspection.');
+            result = await introspectToken(token);
+        }
+
+        if (result.active) {
+            const expiresAt = Math.min(now + VERIFICATION_CACHE_TTL_MS, result.exp ? result.exp * 1000 : Infinity);
+            if (expiresAt > now) {
+                pruneVerificationCache(now);
+                verificationCache.set(cacheKey, { result, expiresAt });
+            }
+        }
+    }
+
+    if (result.active && options.requiredScopes?.length && !hasRequiredScopes(result.scope, options.requiredScopes)) {
+        console.warn(`[verifyAccessToken] Token lacks required scopes: ${options.requiredScopes.join(' ')}`);
+        return { active: false };
+    }
+    return result;
+}
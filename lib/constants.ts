@@ -24,8 +24,9 @@ export const MCP_API_URL = `${MCP_API_BASE_URL}/api`; // Assuming APIs are under
 export const HANKO_API_URL = process.env.NEXT_PUBLIC_HANKO_API_URL || ''; // Get this from your Hanko project
 
 // --- OAuth Settings ---
-// The issuer URL is the base URL of the auth-worker
-export const OAUTH_ISSUER_URL = AUTH_WORKER_URL;
+// The issuer URL of the auth-worker. Endpoints are discovered from its metadata
+// (`/.well-known/oauth-authorization-server`, see lib/auth/discovery.ts)
+export const OAUTH_ISSUER_URL = process.env.NEXT_PUBLIC_OAUTH_ISSUER_URL || AUTH_WORKER_URL;
 // The Client ID for *this* Next.js application, as registered in the auth-worker
 export const OAUTH_CLIENT_ID = process.env.NEXT_PUBLIC_OAUTH_CLIENT_ID || 'mcp-auth-demo-client';
 // The *exact* redirect URI registered for this client in the auth-worker config
@@ -36,16 +37,94 @@ export const OAUTH_REDIRECT_URI = typeof window !== 'undefined'
     ? `${process.env.NEXT_PUBLIC_APP_BASE_URL}/client`
     : 'http://localhost:3000/client'; // Default for local dev server
 
-// Default scopes to request during the OAuth flow
-export const OAUTH_DEFAULT_SCOPES = ['openid', 'profile', 'email', 'mcp:data:read', 'offline_access'];
+// Scopes understood by the MCP APIs (mcp-worker and this app's RAG/insights routes)
+export const MCP_SCOPE_DATA_READ = 'mcp:data:read';
+export const MCP_SCOPE_DATA_WRITE = 'mcp:data:write';
+// Narrower scope for automation that only feeds documents into RAG (e.g. personal access tokens).
+// OAuth tokens hold it through mcp:data:write, see SCOPE_IMPLICATIONS
+export const MCP_SCOPE_RAG_INGEST = 'rag:ingest';
+// Scopes that include narrower ones: a token granted the key also holds every listed scope
+export const SCOPE_IMPLICATIONS: Record<string, string[]> = {
+    [MCP_SCOPE_DATA_WRITE]: [MCP_SCOPE_RAG_INGEST],
+};
+
+// Where to land after login when no (valid) returnTo target was requested
+export const DEFAULT_POST_LOGIN_PATH = '/dashboard';
+
+// Default scopes to request during the OAuth flow. Kept to the minimum needed to sign in and read;
+// anything more (e.g. write access to the vault) is requested incrementally when an API asks for it
+export const OAUTH_DEFAULT_SCOPES = ['openid', 'email', 'profile', MCP_SCOPE_DATA_READ, 'offline_access'];
 
 // --- Storage Keys (Used in Browser sessionStorage/localStorage) ---
-// Keys for storing temporary OAuth state during the redirect flow
+// Key for storing temporary OAuth state during the redirect flow
 export const STORAGE_KEY_OAUTH_STATE = 'oauth_state';
-export const STORAGE_KEY_PKCE_VERIFIER = 'oauth_pkce_verifier';
-// Keys for storing tokens (Consider more secure storage for production)
-// export const STORAGE_KEY_ACCESS_TOKEN = 'mcp_access_token';
-// export const STORAGE_KEY_REFRESH_TOKEN = 'mcp_refresh_token';
+// The value under STORAGE_KEY_OAUTH_STATE is a JSON object binding the state to the post-login `returnTo` target.
+// The PKCE verifier never reaches the browser: it is kept in the authorization request cookie below.
+// Tokens are NOT stored in the browser. They live in a server-side session
+// referenced by an encrypted, httpOnly cookie (see lib/auth/session.ts).
+// IndexedDB database holding the session's DPoP key pair (non-extractable private key, see lib/auth/dpop.ts)
+export const DPOP_KEY_DATABASE_NAME = 'mcp_auth_dpop';
+// Request header carrying the browser's DPoP proof for the grant listing a revocation checks first
+// (the `DPoP` header carries the proof for the revocation itself, see lib/auth/grants.ts)
+export const GRANTS_LIST_PROOF_HEADER = 'DPoP-Grants-List';
+
+// --- Session Cookie ---
+// Name of the httpOnly cookie carrying the encrypted session ID
+export const SESSION_COOKIE_NAME = 'mcp_session';
+// Lifetime of the session cookie (should cover the refresh token lifetime)
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60; // 7 days
+// httpOnly cookie naming the account a newly signed-in identity should be linked to
+export const LINK_INTENT_COOKIE_NAME = 'mcp_link_intent';
+// How long the user has to sign in with the identity being linked
+export const LINK_INTENT_MAX_AGE_SECONDS = 10 * 60; // 10 minutes
+// Signed httpOnly cookie holding the state and PKCE verifier of the authorization request in progress
+export const AUTHORIZATION_REQUEST_COOKIE_NAME = 'mcp_authorization_request';
+// How long the user has to complete the login at the auth-worker
+export const AUTHORIZATION_REQUEST_MAX_AGE_SECONDS = 10 * 60; // 10 minutes
+
+// --- Token Inspector ---
+// How recently the user must have signed in for the access token to be revealed
+export const TOKEN_REVEAL_MAX_AUTH_AGE_SECONDS = 5 * 60; // 5 minutes
+
+// --- Session Renewal ---
+// How long before `expiresAt` the AuthProvider silently refreshes the access token
+export const TOKEN_REFRESH_LEEWAY_SECONDS = 60;
+
+// --- Device Authorization Grant (RFC 8628) ---
+// Page where a signed-in user enters the code shown by an agent or CLI
+export const DEVICE_VERIFICATION_PATH = '/device';
+// How long a device code / user code pair stays valid
+export const DEVICE_CODE_LIFETIME_SECONDS = 10 * 60; // 10 minutes
+// Minimum seconds between token polls; polling faster answers `slow_down`
+export const DEVICE_POLL_INTERVAL_SECONDS = 5;
+// Scopes a device may request, and the default when it requests none
+export const DEVICE_ALLOWED_SCOPES = [MCP_SCOPE_DATA_READ, MCP_SCOPE_DATA_WRITE, 'offline_access'];
+export const DEVICE_DEFAULT_SCOPES = [MCP_SCOPE_DATA_READ, 'offline_access'];
+
+// --- Personal Access Tokens ---
+// Prefix identifying personal access tokens in an Authorization header
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'mcp_pat_';
+// Scopes a personal access token can be given
+export const PERSONAL_ACCESS_TOKEN_SCOPES = [MCP_SCOPE_DATA_READ, MCP_SCOPE_DATA_WRITE, MCP_SCOPE_RAG_INGEST];
+// Expiry choices offered when creating a token, in days (null = never expires)
+export const PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS: (number | null)[] = [7, 30, 90, 365, null];
+
+// --- Session Monitor ---
+// Sign out after this long without user activity in any tab
+export const SESSION_IDLE_TIMEOUT_SECONDS = 30 * 60; // 30 minutes
+// How long before the idle sign-out the warning dialog appears
+export const SESSION_IDLE_WARNING_SECONDS = 2 * 60; // 2 minutes
+// How long before the access token expires the warning dialog appears. Keep this below
+// TOKEN_REFRESH_LEEWAY_SECONDS so it only shows when the background renewal did not succeed
+export const SESSION_EXPIRY_WARNING_SECONDS = 30;
+// localStorage key holding the last user activity (epoch ms), shared by all tabs
+export const STORAGE_KEY_LAST_ACTIVITY = 'mcp_last_activity';
+
+// --- Cross-Tab Sync ---
+// BroadcastChannel over which AuthProvider instances share login, logout and renewal updates
+export const AUTH_SYNC_CHANNEL_NAME = 'mcp_auth_sync';
+// Web Lock held by the tab that is currently renewing the shared session
+export const AUTH_REFRESH_LOCK_NAME = 'mcp_auth_refresh';
 
 // --- Other Constants ---
 // export const DEFAULT_SESSION_TIMEOUT_SECONDS = 3600; // 1 hour (Example)
@@ -27,7 +27,6 @@ export interface InsightRequest {
   matchThreshold?: number;
   matchCount?: number;
   llmOptions?: LLMOptions;
-  userId?: string;
 }
 
 export interface Insight {
@@ -55,32 +54,20 @@ const API_PREFIX = '/api/insights';
 
 /**
  * Generate multiple insights based on a query
- * @param accessToken MCP access token
  * @param request Insight request parameters
  * @returns Insights response with multiple insight types
  */
 export async function generateInsights(
-  accessToken: string,
   request: InsightRequest
 ): Promise<InsightsResponse> {
   try {
-    const { userId, ...restRequest } = request;
-    
-    // Use the Next.js API route as a proxy
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${accessToken}`,
-    };
-    
-    // Add X-User-ID header if userId is provided
-    if (userId) {
-      headers['X-User-ID'] = userId;
-    }
-    
+    // Use the Next.js API route as a proxy; it resolves the user ID from the session cookie
     const response = await fetch(`${API_PREFIX}`, {
       method: 'POST',
-      headers,
-      body: JSON.stringify(restRequest),
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(request),
     });
 
     if (!response.ok) {
@@ -97,13 +84,11 @@ export async function generateInsights(
 
 /**
  * Generate a summary insight based on a query
- * @param accessToken MCP access token
  * @param query The search query
  * @param options Additional options
  * @returns Summary insight response
  */
 export async function generateSummary(
-  accessToken: string,
   query: string,
   options: {
     sourceTypes?: string[];
@@ -116,8 +101,7 @@ export async function generateSummary(
     const response = await fetch(`${API_PREFIX}/summary`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`
+        'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         query,
@@ -139,13 +123,11 @@ export async function generateSummary(
 
 /**
  * Generate action items based on a query
- * @param accessToken MCP access token
  * @param query The search query
  * @param options Additional options
  * @returns Action items response
  */
 export async function generateActionItems(
-  accessToken: string,
   query: string,
   options: {
     sourceTypes?: string[];
@@ -158,8 +140,7 @@ export async function generateActionItems(
     const response = await fetch(`${API_PREFIX}/action-items`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`
+        'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         query,
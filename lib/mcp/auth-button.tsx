@@ -6,6 +6,7 @@
  * Key features:
  * - Renders a button using shadcn/ui.
  * - Calls the `redirectToAuthorization` utility function on click.
+ * - Passes an optional `returnTo` target so the user lands back on the page they asked for.
  *
  * @dependencies
  * - react: Core React library.
@@ -22,11 +23,15 @@ import React from 'react';
 import { Button } from '@/components/ui/button'; // Assuming shadcn/ui button
 import { redirectToAuthorization } from './client'; // Import the function
 
-const MCPAuthButton: React.FC = () => {
+interface MCPAuthButtonProps {
+  returnTo?: string | null; // Same-origin page to restore after login
+}
+
+const MCPAuthButton: React.FC<MCPAuthButtonProps> = ({ returnTo }) => {
   const handleLoginClick = async () => {
     try {
       // No need to construct URL here, redirectToAuthorization handles it
-      await redirectToAuthorization();
+      await redirectToAuthorization({ returnTo });
       // The page will redirect, so no further action needed here
     } catch (error) {
       console.error('MCP Auth Error:', error);
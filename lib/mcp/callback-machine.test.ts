@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+    callbackReducer,
+    initialCallbackState,
+    readCallbackParams,
+    type CallbackEvent,
+    type CallbackParams,
+    type CallbackState,
+} from '@/lib/mcp/callback-machine';
+import type { StoredOAuthState } from '@/lib/mcp/client';
+import type { SessionSummary } from '@/context/auth-context';
+
+const params: CallbackParams = { code: 'code-1', state: 'state-1', error: null, errorDescription: null };
+const storedState: StoredOAuthState = { state: 'state-1', returnTo: '/dashboard' };
+const session: SessionSummary = { scope: 'openid', expiresAt: Date.now() + 60 * 60 * 1000, supabaseUserId: null, profile: null };
+
+function run(events: CallbackEvent[], state: CallbackState = initialCallbackState): CallbackState {
+    return events.reduce(callbackReducer, state);
+}
+
+const sdkReady = run([{ type: 'SDK_READY' }]);
+
+describe('callbackReducer', () => {
+    it('walks a session callback through exchange and linking', () => {
+        const state = run([
+            { type: 'CALLBACK_RECEIVED', params },
+            { type: 'STORAGE_READ', storedState },
+            { type: 'EXCHANGE_SUCCEEDED', session },
+            { type: 'LINKING_FINISHED' },
+        ], sdkReady);
+
+        expect(state).toMatchObject({ status: 'done', key: 'code-1', outcome: { kind: 'session', returnTo: '/dashboard' } });
+    });
+
+    it('ignores a replayed code once its callback has finished', () => {
+        const done = run([
+            { type: 'CALLBACK_RECEIVED', params },
+            { type: 'STORAGE_READ', storedState },
+            { type: 'EXCHANGE_SUCCEEDED', session },
+            { type: 'LINKING_FINISHED' },
+        ], sdkReady);
+
+        expect(callbackReducer(done, { type: 'CALLBACK_RECEIVED', params })).toBe(done);
+    });
+
+    it('ignores a replayed code while its exchange is in progress', () => {
+        const exchanging = run([{ type: 'CALLBACK_RECEIVED', params }, { type: 'STORAGE_READ', storedState }], sdkReady);
+        expect(exchanging.status).toBe('exchanging');
+
+        expect(callbackReducer(exchanging, { type: 'CALLBACK_RECEIVED', params })).toBe(exchanging);
+        expect(callbackReducer(exchanging, { type: 'CALLBACK_RECEIVED', params: { ...params, code: 'code-2' } })).toBe(exchanging);
+    });
+
+    it('ignores a replayed code after it failed', () => {
+        const failed = run([{ type: 'CALLBACK_RECEIVED', params }, { type: 'STORAGE_READ', storedState: null }], sdkReady);
+
+        expect(callbackReducer(failed, { type: 'CALLBACK_RECEIVED', params })).toBe(failed);
+    });
+
+    it('fails on a state mismatch before exchanging the code', () => {
+        const state = run([
+            { type: 'CALLBACK_RECEIVED', params },
+            { type: 'STORAGE_READ', storedState: { ...storedState, state: 'state-other' } },
+        ], sdkReady);
+
+        expect(state).toMatchObject({ status: 'failed', error: { code: 'state_mismatch' } });
+    });
+
+    it('fails with state_mismatch when no state was stored', () => {
+        const state = run([{ type: 'CALLBACK_RECEIVED', params }, { type: 'STORAGE_READ', storedState: null }], sdkReady);
+
+        expect(state).toMatchObject({ status: 'failed', error: { code: 'state_mismatch' } });
+    });
+
+    it('reports a missing verifier separately from other exchange failures', () => {
+        const exchanging = run([{ type: 'CALLBACK_RECEIVED', params }, { type: 'STORAGE_READ', storedState }], sdkReady);
+
+        expect(callbackReducer(exchanging, { type: 'EXCHANGE_FAILED', error: 'missing_verifier', message: 'No authorization request in progress.' }))
+            .toMatchObject({ status: 'failed', error: { code: 'missing_verifier', message: 'No authorization request in progress.' } });
+        expect(callbackReducer(exchanging, { type: 'EXCHANGE_FAILED', error: 'invalid_grant', message: 'Code expired.' }))
+            .toMatchObject({ status: 'failed', error: { code: 'exchange_failed' } });
+    });
+
+    it('waits for the SDK before exchanging the code', () => {
+        const waiting = run([{ type: 'CALLBACK_RECEIVED', params }, { type: 'STORAGE_READ', storedState }]);
+        expect(waiting.status).toBe('waitingForSdk');
+        // Exchange results cannot arrive before the exchange started
+        expect(callbackReducer(waiting, { type: 'EXCHANGE_SUCCEEDED', session })).toBe(waiting);
+
+        expect(callbackReducer(waiting, { type: 'SDK_READY' })).toMatchObject({ status: 'exchanging', code: 'code-1', sdk: 'ready' });
+    });
+
+    it('fails when the SDK turns out to be unavailable', () => {
+        const waiting = run([{ type: 'CALLBACK_RECEIVED', params }, { type: 'STORAGE_READ', storedState }]);
+
+        expect(callbackReducer(waiting, { type: 'SDK_UNAVAILABLE' })).toMatchObject({ status: 'failed', error: { code: 'sdk_unavailable' } });
+    });
+
+    it('approves a device without waiting for the SDK', () => {
+        const state = run([
+            { type: 'CALLBACK_RECEIVED', params },
+            { type: 'STORAGE_READ', storedState: { ...storedState, deviceUserCode: 'ABCD-EFGH' } },
+            { type: 'DEVICE_APPROVAL_FINISHED', approved: true },
+        ]);
+
+        expect(state).toMatchObject({ status: 'done', outcome: { kind: 'device', approved: true } });
+    });
+
+    it('fails on an authorization error or missing parameters', () => {
+        expect(run([{ type: 'CALLBACK_RECEIVED', params: { ...params, code: null, error: 'access_denied' } }]))
+            .toMatchObject({ status: 'failed', key: 'error:access_denied', error: { code: 'authorization_error' } });
+        expect(run([{ type: 'CALLBACK_RECEIVED', params: { ...params, state: null } }]))
+            .toMatchObject({ status: 'failed', error: { code: 'missing_parameters' } });
+    });
+});
+
+describe('readCallbackParams', () => {
+    it('returns null when the page is not an OAuth callback', () => {
+        expect(readCallbackParams(new URLSearchParams('tab=settings'))).toBeNull();
+        expect(readCallbackParams(new URLSearchParams('code=c&state=s'))).toEqual({ code: 'c', state: 's', error: null, errorDescription: null });
+    });
+});
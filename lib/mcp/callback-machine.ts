@@ -0,0 +1,181 @@
+/**
+ * @description
+ * State machine for the OAuth callback handled by `MCPClient`.
+ * The reducer is pure: it decides what happens next from the callback parameters, the stored
+ * OAuth state and the outcome of each step, while the component performs the side effects
+ * (reading sessionStorage, calling `/api/auth/token`, linking, redirecting) and reports back
+ * with events.
+ *
+ * Flow: idle → validatingState → [waitingForSdk →] exchanging → linking → done,
+ * or → failed with a typed error code. Device approvals go validatingState → exchanging → done.
+ *
+ * @dependencies
+ * - lib/mcp/client: `StoredOAuthState` type.
+ * - context/auth-context: `SessionSummary` type.
+ *
+ * @notes
+ * - Each callback is identified by its code (or redirect error). Receiving the same callback again
+ *   (effect re-runs, React strict mode, a second tab event) is a no-op, so a code is never exchanged twice.
+ * - While one callback is in progress, other callbacks are ignored.
+ * - No React or browser APIs are used here, so the transitions can be exercised in isolation.
+ */
+
+import type { StoredOAuthState } from './client';
+import type { SessionSummary } from '@/context/auth-context';
+
+// Query parameters the auth-worker redirects back with
+export interface CallbackParams {
+    code: string | null;
+    state: string | null;
+    error: string | null;
+    errorDescription: string | null;
+}
+
+export type CallbackErrorCode =
+    | 'authorization_error' // The auth-worker redirected back with ?error=
+    | 'missing_parameters' // Code or state missing from the redirect
+    | 'state_mismatch' // No stored state, or it does not match (CSRF, replayed or stale redirect)
+    | 'sdk_unavailable' // Hanko SDK cannot be initialized, so the account cannot be linked
+    | 'missing_verifier' // The server no longer holds the PKCE verifier (authorization request cookie expired or absent)
+    | 'exchange_failed'; // /api/auth/token rejected the code
+
+export interface CallbackError {
+    code: CallbackErrorCode;
+    message: string;
+}
+
+// Whether the Hanko SDK (needed for linking) is usable
+export type SdkStatus = 'pending' | 'ready' | 'unavailable';
+
+export type CallbackOutcome =
+    | { kind: 'session'; returnTo: string; pendingRequest?: StoredOAuthState['pendingRequest'] }
+    | { kind: 'device'; approved: boolean };
+
+type CallbackPhase =
+    | { status: 'idle' }
+    | { status: 'validatingState'; key: string; params: CallbackParams }
+    | { status: 'waitingForSdk'; key: string; code: string; storedState: StoredOAuthState }
+    | { status: 'exchanging'; key: string; code: string; storedState: StoredOAuthState; target: 'session' | 'device' }
+    | { status: 'linking'; key: string; storedState: StoredOAuthState; session: SessionSummary }
+    | { status: 'done'; key: string; outcome: CallbackOutcome }
+    | { status: 'failed'; key: string; error: CallbackError };
+
+export type CallbackState = CallbackPhase & { sdk: SdkStatus };
+
+export type CallbackEvent =
+    | { type: 'CALLBACK_RECEIVED'; params: CallbackParams }
+    | { type: 'SDK_READY' }
+    | { type: 'SDK_UNAVAILABLE' }
+    | { type: 'STORAGE_READ'; storedState: StoredOAuthState | null }
+    | { type: 'EXCHANGE_SUCCEEDED'; session: SessionSummary }
+    | { type: 'EXCHANGE_FAILED'; message: string; error?: string } // `error` is the token route's error code
+    | { type: 'DEVICE_APPROVAL_FINISHED'; approved: boolean }
+    | { type: 'LINKING_FINISHED' };
+
+export const initialCallbackState: CallbackState = { status: 'idle', sdk: 'pending' };
+
+/**
+ * Reads the callback parameters from the URL.
+ * @returns The parameters, or null when the page was not loaded as an OAuth callback.
+ */
+export function readCallbackParams(searchParams: URLSearchParams): CallbackParams | null {
+    const params: CallbackParams = {
+        code: searchParams.get('code'),
+        state: searchParams.get('state'),
+        error: searchParams.get('error'),
+        errorDescription: searchParams.get('error_description'),
+    };
+    return params.code || params.error ? params : null;
+}
+
+/** True while a callback is being processed (neither idle nor finished). */
+export function isCallbackInProgress(state: CallbackState): boolean {
+    return state.status !== 'idle' && state.status !== 'done' && state.status !== 'failed';
+}
+
+function fail(state: CallbackState, key: string, code: CallbackErrorCode, message: string): CallbackState {
+    return { status: 'failed', key, error: { code, message }, sdk: state.sdk };
+}
+
+// Moves a validated session callback on, depending on whether linking will be possible
+function proceedWithSdk(state: CallbackState, key: string, code: string, storedState: StoredOAuthState): CallbackState {
+    if (state.sdk === 'ready') {
+        return { status: 'exchanging', key, code, storedState, target: 'session', sdk: state.sdk };
+    }
+    if (state.sdk === 'unavailable') {
+        return fail(state, key, 'sdk_unavailable', 'Hanko SDK is not available, so the account cannot be linked.');
+    }
+    return { status: 'waitingForSdk', key, code, storedState, sdk: state.sdk };
+}
+
+/**
+ * Computes the next callback state. Events that do not apply to the current state are ignored.
+ */
+export function callbackReducer(state: CallbackState, event: CallbackEvent): CallbackState {
+    switch (event.type) {
+        case 'CALLBACK_RECEIVED': {
+            const { params } = event;
+            const key = params.code || `error:${params.error}`;
+            if (isCallbackInProgress(state) || (state.status !== 'idle' && state.key === key)) {
+                return state; // Already handling this or another callback, or this one is finished
+            }
+            if (params.error) {
+                const description = params.errorDescription || 'No description provided';
+                return fail(state, key, 'authorization_error', `Authorization failed: ${params.error} (${description})`);
+            }
+            if (!params.code || !params.state) {
+                return fail(state, key, 'missing_parameters', 'Authorization response is missing the code or state.');
+            }
+            return { status: 'validatingState', key, params, sdk: state.sdk };
+        }
+
+        case 'SDK_READY':
+        case 'SDK_UNAVAILABLE': {
+            const sdk: SdkStatus = event.type === 'SDK_READY' ? 'ready' : 'unavailable';
+            const next = { ...state, sdk };
+            if (state.status === 'waitingForSdk') {
+                return proceedWithSdk(next, state.key, state.code, state.storedState);
+            }
+            return next;
+        }
+
+        case 'STORAGE_READ': {
+            if (state.status !== 'validatingState') return state;
+            const { storedState } = event;
+            // The backend checks the state again against the authorization request cookie before exchanging
+            if (!storedState || storedState.state !== state.params.state) {
+                return fail(state, state.key, 'state_mismatch', 'State mismatch.');
+            }
+            const code = state.params.code as string;
+            if (storedState.deviceUserCode) {
+                // The tokens go to the device; this browser's session and account are not involved
+                return { status: 'exchanging', key: state.key, code, storedState, target: 'device', sdk: state.sdk };
+            }
+            return proceedWithSdk(state, state.key, code, storedState);
+        }
+
+        case 'EXCHANGE_SUCCEEDED':
+            if (state.status !== 'exchanging' || state.target !== 'session') return state;
+            return { status: 'linking', key: state.key, storedState: state.storedState, session: event.session, sdk: state.sdk };
+
+        case 'EXCHANGE_FAILED':
+            if (state.status !== 'exchanging' || state.target !== 'session') return state;
+            return fail(state, state.key, event.error === 'missing_verifier' ? 'missing_verifier' : 'exchange_failed', event.message);
+
+        case 'DEVICE_APPROVAL_FINISHED':
+            if (state.status !== 'exchanging' || state.target !== 'device') return state;
+            return { status: 'done', key: state.key, outcome: { kind: 'device', approved: event.approved }, sdk: state.sdk };
+
+        case 'LINKING_FINISHED':
+            if (state.status !== 'linking') return state;
+            return {
+                status: 'done',
+                key: state.key,
+                outcome: { kind: 'session', returnTo: state.storedState.returnTo, pendingRequest: state.storedState.pendingRequest },
+                sdk: state.sdk,
+            };
+
+        default:
+            return state;
+    }
+}
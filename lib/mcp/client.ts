@@ -5,34 +5,68 @@
  * The token exchange itself is now handled server-side in this Next.js app.
  *
  * Key functions:
- * - PKCE Generation: Creates code verifier and challenge.
- * - State Generation: Creates random state for CSRF protection.
- * - Authorization Redirect: Constructs the /authorize URL for auth-worker and redirects the user.
- * - API Fetch: Makes authenticated requests to the mcp-worker API using the access token.
+ * - Authorization Redirect: Asks `/api/auth/authorize` to start the login (state, PKCE and, when
+ *   supported, a pushed authorization request are handled server-side), remembers the post-login
+ *   `returnTo` target under the returned state and redirects the user.
+ * - API Fetch: Makes requests to the mcp-worker API through the same-origin `/api/mcp` proxy,
+ *   which attaches the access token server-side.
+ * - Session Tokens: Requests the session's tokens from `/api/auth/token`, with a DPoP proof when
+ *   the auth-worker supports sender-constrained tokens. After a DPoP login it has the session's
+ *   profile completed from userinfo, which the server cannot call without this browser's proof.
+ * - Step-up: Recognises `insufficient_scope` challenges and re-authorizes for the missing scopes,
+ *   carrying the rejected request through the redirect so it can be retried afterwards.
+ * - Grant Proofs: Signs the DPoP proofs `/api/account/apps` forwards to the auth-worker's grants endpoint.
  *
  * @dependencies
- * - lib/constants: Provides URLs, client ID, redirect URI, scopes, storage keys.
+ * - lib/constants: Provides client ID, redirect URI, scopes, storage keys.
+ * - lib/auth/discovery: Authorization server metadata (endpoints, PKCE methods, scopes, DPoP).
+ * - lib/auth/dpop: DPoP key pair and proofs.
  *
  * @notes
- * - Uses browser's SubtleCrypto API for SHA256 and crypto.getRandomValues.
- * - Stores PKCE verifier and state temporarily in sessionStorage.
+ * - The PKCE verifier never reaches the browser; it stays in the httpOnly authorization request cookie.
+ * - Stores the state and the redirect context (return target, pending request) temporarily in sessionStorage.
+ * - Access and refresh tokens never reach the browser; they live in the server-side session.
+ * - DPoP proofs are signed for the real servers (token endpoint, `MCP_API_URL`, userinfo and grants endpoints), not for the
+ *   same-origin routes that forward them. A `DPoP-Nonce` challenge is retried once with the nonce.
  */
 
 import {
-	AUTH_WORKER_URL,
-	OAUTH_CLIENT_ID,
 	OAUTH_REDIRECT_URI,
 	OAUTH_DEFAULT_SCOPES,
-	STORAGE_KEY_PKCE_VERIFIER,
 	STORAGE_KEY_OAUTH_STATE,
-	MCP_API_URL // Base URL + path for the MCP resource server API (e.g., http://localhost:8789/api)
+	DEFAULT_POST_LOGIN_PATH,
+	MCP_API_URL,
+	GRANTS_LIST_PROOF_HEADER,
 } from '@/lib/constants';
+import { getAuthorizationServerMetadata, supportsDpop } from '@/lib/auth/discovery';
+import {
+    createDpopProof,
+    createPendingDpopKeyPair,
+    discardPendingDpopKeyPair,
+    isDpopNonceChallenge,
+    promotePendingDpopKeyPair,
+} from '@/lib/auth/dpop';
+
+// Same-origin proxy in front of the MCP resource server API (see app/api/mcp/[...path]/route.ts)
+const MCP_PROXY_PREFIX = '/api/mcp';
+
+// Same-origin start of the authorization code flow (see app/api/auth/authorize/route.ts)
+const AUTHORIZATION_START_ROUTE = '/api/auth/authorize';
+
+// Same-origin token exchange and renewal (see app/api/auth/token/route.ts)
+const SESSION_TOKEN_ROUTE = '/api/auth/token';
+
+// Same-origin completion of a DPoP session's profile from userinfo (see app/api/auth/session/profile/route.ts)
+const SESSION_PROFILE_ROUTE = '/api/auth/session/profile';
+
+// Hash of the session's DPoP-bound access token (`ath`): undefined until loaded, null for Bearer sessions
+let accessTokenHash: string | null | undefined;
 
 // --- Type Definitions (Token types might be needed by components still) ---
 
 export interface TokenResponse {
     access_token: string;
-    token_type: 'Bearer';
+    token_type: 'Bearer' | 'DPoP';
     expires_in: number; // Typically seconds
     refresh_token?: string;
     scope: string; // Space-separated list of granted scopes
@@ -46,101 +80,172 @@ export interface TokenErrorResponse {
     error_description?: string;
 }
 
+// Body of a request to the same-origin token route
+export interface SessionTokenRequest {
+    grantType?: 'authorization_code' | 'refresh_token';
+    code?: string;
+    state?: string; // Matched against the authorization request cookie, which holds the PKCE verifier
+}
+
+// A serializable MCP API request, replayed after a step-up authorization
+export interface PendingMcpRequest {
+    path: string; // Relative API path, as passed to fetchMcpApi
+    method: string;
+    body?: string;
+    contentType?: string;
+}
+
+// What is stored under STORAGE_KEY_OAUTH_STATE during the redirect
+export interface StoredOAuthState {
+    state: string;
+    returnTo: string; // Same-origin path to restore after login
+    pendingRequest?: PendingMcpRequest; // Request to retry once the new scopes are granted
+    deviceUserCode?: string; // Set when the tokens are for a device being approved, not this browser
+}
+
+export interface AuthorizationRedirectOptions {
+    returnTo?: string | null; // Page to return to after login (defaults to DEFAULT_POST_LOGIN_PATH)
+    scopes?: string[]; // Scopes to request (defaults to OAUTH_DEFAULT_SCOPES)
+    pendingRequest?: PendingMcpRequest;
+    prompt?: 'login' | 'consent'; // Forces the auth-worker to re-authenticate or re-ask for consent
+    deviceUserCode?: string; // Approves a device authorization (see app/device) with the resulting code
+}
+
+/**
+ * Thrown by `fetchMcpApi` when the mcp-worker rejects the call with
+ * `WWW-Authenticate: Bearer error="insufficient_scope"`.
+ */
+export class InsufficientScopeError extends Error {
+    constructor(
+        public readonly requiredScopes: string[],
+        public readonly request: PendingMcpRequest,
+        description?: string,
+    ) {
+        super(description || `Additional permission required: ${requiredScopes.join(' ')}`);
+        this.name = 'InsufficientScopeError';
+    }
+}
+
 
-// --- PKCE and State Generation Utilities (Still needed client-side) ---
+// --- Random Values ---
 
-/** Generates a cryptographically random string */
+/**
+ * Generates a cryptographically random string.
+ * @throws {Error} If the Web Crypto API is unavailable; there is deliberately no weaker fallback.
+ */
 export function generateRandomString(length: number): string {
+    if (typeof crypto === 'undefined' || typeof crypto.getRandomValues !== 'function') {
+        throw new Error("crypto.getRandomValues is not available; refusing to generate insecure random values.");
+    }
     const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~';
+    const randomValues = crypto.getRandomValues(new Uint8Array(length));
     let result = '';
-    const randomValues = new Uint8Array(length);
-    if (typeof window !== 'undefined' && window.crypto) {
-        window.crypto.getRandomValues(randomValues);
-        for (let i = 0; i < length; i++) {
-            result += characters.charAt(randomValues[i] % characters.length);
-        }
-    } else {
-        console.warn("crypto.getRandomValues not available during string generation.");
-        for (let i = 0; i < length; i++) {
-            result += characters.charAt(Math.floor(Math.random() * characters.length));
-        }
+    for (let i = 0; i < length; i++) {
+        result += characters.charAt(randomValues[i] % characters.length);
     }
     return result;
 }
 
-/** Calculates the SHA256 hash of a string */
-async function sha256(plain: string): Promise<ArrayBuffer> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(plain);
-    if (typeof window !== 'undefined' && window.crypto?.subtle) {
-         return window.crypto.subtle.digest('SHA-256', data);
-    } else {
-         console.error("SubtleCrypto API not available for SHA256 calculation.");
-         throw new Error("Crypto API unavailable.");
-    }
-}
+// --- Post-Login Return Target ---
 
-/** Base64 URL encodes an ArrayBuffer */
-function base64UrlEncode(buffer: ArrayBuffer): string {
-    const bytes = new Uint8Array(buffer);
-    let binary = '';
-    bytes.forEach((byte) => {
-        binary += String.fromCharCode(byte);
-    });
-    if (typeof window !== 'undefined' && typeof window.btoa === 'function') {
-         return window.btoa(binary)
-            .replace(/\+/g, '-')
-            .replace(/\//g, '_')
-            .replace(/=+$/, '');
-    } else {
-         console.error("btoa function not available.");
-         throw new Error("Cannot perform base64url encoding.");
+/**
+ * Validates a post-login target. Only same-origin targets are accepted (no open redirects),
+ * and the callback page itself is rejected to avoid loops.
+ * @returns The target as a relative path (`/path?query#hash`), or null if it is not acceptable.
+ */
+export function sanitizeReturnTo(target: string | null | undefined): string | null {
+    if (!target || typeof window === 'undefined') {
+        return null;
+    }
+    try {
+        const url = new URL(target, window.location.origin);
+        if (url.origin !== window.location.origin) {
+            console.warn(`Rejected cross-origin returnTo target: ${target}`);
+            return null;
+        }
+        if (url.pathname === new URL(OAUTH_REDIRECT_URI, window.location.origin).pathname) {
+            return null;
+        }
+        // Dot segments can normalise to `//host` (e.g. `/.//evil.com`), which the router treats as protocol-relative
+        if (url.pathname.startsWith('//') || url.pathname.startsWith('/\\')) {
+            console.warn(`Rejected protocol-relative returnTo target: ${target}`);
+            return null;
+        }
+        return `${url.pathname}${url.search}${url.hash}`;
+    } catch {
+        console.warn(`Rejected malformed returnTo target: ${target}`);
+        return null;
     }
 }
 
-/** Generates PKCE code_verifier and corresponding code_challenge */
-async function generatePkceChallenge(): Promise<{ verifier: string; challenge: string }> {
-    const verifier = generateRandomString(64); // Generate a random verifier
-    const challengeBuffer = await sha256(verifier); // Hash the verifier
-    const challenge = base64UrlEncode(challengeBuffer); // Encode the hash
-    return { verifier, challenge };
+/**
+ * Reads and removes the state stored by `redirectToAuthorization`.
+ * @returns The stored state and return target, or null if nothing (valid) was stored.
+ */
+export function consumeStoredOAuthState(): StoredOAuthState | null {
+    const raw = sessionStorage.getItem(STORAGE_KEY_OAUTH_STATE);
+    sessionStorage.removeItem(STORAGE_KEY_OAUTH_STATE);
+    if (!raw) {
+        return null;
+    }
+    try {
+        const parsed = JSON.parse(raw) as Partial<StoredOAuthState>;
+        if (typeof parsed.state !== 'string') {
+            return null;
+        }
+        return {
+            state: parsed.state,
+            returnTo: sanitizeReturnTo(parsed.returnTo) || DEFAULT_POST_LOGIN_PATH,
+            pendingRequest: parsed.pendingRequest,
+            deviceUserCode: typeof parsed.deviceUserCode === 'string' ? parsed.deviceUserCode : undefined,
+        };
+    } catch {
+        return null;
+    }
 }
 
 // --- Authorization Flow Initiation ---
 
 /**
- * Generates PKCE/state, stores them, and redirects user to the authorization server (auth-worker).
+ * Starts a login server-side, stores the redirect context, and redirects user to the authorization server (auth-worker).
+ * @param options.returnTo Same-origin page to restore after the callback; invalid targets fall back to the default.
+ * @param options.scopes Scopes to request instead of the (minimal) defaults, e.g. for a step-up.
+ * @param options.pendingRequest MCP API request to retry after the callback.
+ * @param options.prompt Asks the auth-worker to re-authenticate (`login`) or re-ask for consent.
+ * @param options.deviceUserCode Binds the resulting tokens to this device authorization instead of the browser session.
  */
-export async function redirectToAuthorization() {
+export async function redirectToAuthorization(options: AuthorizationRedirectOptions = {}) {
     if (typeof window === 'undefined' || typeof sessionStorage === 'undefined') {
         console.error("redirectToAuthorization called in non-browser environment.");
         return;
     }
     try {
-        // 1. Generate PKCE verifier and challenge
-        const { verifier, challenge } = await generatePkceChallenge();
-
-        // 2. Generate state
-        const state = generateRandomString(32);
-
-        // 3. Store verifier and state in sessionStorage using keys from constants
-        sessionStorage.setItem(STORAGE_KEY_PKCE_VERIFIER, verifier);
-        sessionStorage.setItem(STORAGE_KEY_OAUTH_STATE, state);
-        console.log(`Stored PKCE verifier ('${STORAGE_KEY_PKCE_VERIFIER}') and state ('${STORAGE_KEY_OAUTH_STATE}') in sessionStorage.`);
-
-        // 4. Construct the authorization URL using constants
-        const authUrl = new URL(`${AUTH_WORKER_URL}/authorize`);
-        authUrl.searchParams.append('response_type', 'code');
-        authUrl.searchParams.append('client_id', OAUTH_CLIENT_ID);
-        authUrl.searchParams.append('redirect_uri', OAUTH_REDIRECT_URI); // Use correct callback URL
-        authUrl.searchParams.append('scope', OAUTH_DEFAULT_SCOPES.join(' '));
-        authUrl.searchParams.append('state', state);
-        authUrl.searchParams.append('code_challenge', challenge);
-        authUrl.searchParams.append('code_challenge_method', 'S256');
-
-        // 5. Redirect the user
-        console.log('Redirecting to authorization server:', authUrl.toString());
-        window.location.href = authUrl.toString();
+        // 1. Let the backend create state and PKCE verifier (kept in an httpOnly cookie) and build the URL
+        const response = await fetch(AUTHORIZATION_START_ROUTE, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'same-origin',
+            body: JSON.stringify({ scopes: options.scopes || OAUTH_DEFAULT_SCOPES, prompt: options.prompt }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error_description || data.error || `Authorization request failed: ${response.status}`);
+        }
+        const { authorizationUrl, state } = data as { authorizationUrl: string; state: string };
+
+        // 2. Store the state (bound to the return target) in sessionStorage using the key from constants
+        const storedState: StoredOAuthState = {
+            state,
+            returnTo: sanitizeReturnTo(options.returnTo) || DEFAULT_POST_LOGIN_PATH,
+            pendingRequest: options.pendingRequest,
+            deviceUserCode: options.deviceUserCode,
+        };
+        sessionStorage.setItem(STORAGE_KEY_OAUTH_STATE, JSON.stringify(storedState));
+        console.log(`Stored state ('${STORAGE_KEY_OAUTH_STATE}', returnTo: ${storedState.returnTo}) in sessionStorage.`);
+
+        // 3. Redirect the user
+        console.log('Redirecting to authorization server:', authorizationUrl);
+        window.location.href = authorizationUrl;
 
     } catch (error) {
         console.error("Failed to initiate authorization flow:", error);
@@ -153,32 +258,266 @@ export async function redirectToAuthorization() {
 // The exchangeCodeForToken function is removed. This logic now resides in
 // the Next.js backend API route (e.g., app/api/auth/token/route.ts).
 
+// --- Session Tokens ---
+
+/**
+ * Asks the backend to exchange a code for the session's tokens, or to renew them.
+ * When the auth-worker supports DPoP, a proof for its token endpoint is attached, so the tokens
+ * are bound to this browser's key; each login (code exchange) starts with a new key, which only
+ * replaces the session's key once the exchange succeeds. A DPoP login's profile is then completed
+ * from userinfo (see completeSessionProfile).
+ * @returns The raw Fetch Response (session summary or OAuth error).
+ */
+export async function requestSessionTokens(body: SessionTokenRequest): Promise<Response> {
+    const metadata = await getAuthorizationServerMetadata().catch((error) => {
+        console.warn('Could not load authorization server metadata; requesting tokens without DPoP.', error);
+        return null;
+    });
+    const tokenEndpoint = metadata && supportsDpop(metadata) ? metadata.token_endpoint : null;
+    // The current session's tokens stay bound to its key until the new ones exist
+    const usePendingKey = Boolean(tokenEndpoint) && (body.grantType || 'authorization_code') === 'authorization_code';
+    if (usePendingKey) {
+        await createPendingDpopKeyPair();
+    }
+
+    const send = async (): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const proof = tokenEndpoint ? await createDpopProof('POST', tokenEndpoint, undefined, { pending: usePendingKey }) : null;
+        if (proof) {
+            headers['DPoP'] = proof;
+        }
+        return fetch(SESSION_TOKEN_ROUTE, {
+            method: 'POST',
+            headers,
+            credentials: 'same-origin',
+            body: JSON.stringify(body),
+        });
+    };
+
+    let response: Response;
+    try {
+        response = await send();
+        if (tokenEndpoint && await isDpopNonceChallenge(tokenEndpoint, response)) {
+            console.log('Token endpoint requires a DPoP nonce; retrying.');
+            response = await send();
+        }
+    } catch (error) {
+        if (usePendingKey) {
+            await discardPendingDpopKeyPair();
+        }
+        throw error;
+    }
+    if (usePendingKey) {
+        await (response.ok ? promotePendingDpopKeyPair() : discardPendingDpopKeyPair());
+    }
+    if (response.ok) {
+        const summary = await response.clone().json().catch(() => null);
+        accessTokenHash = summary?.accessTokenHash ?? null;
+        const profile = summary?.profile;
+        if (usePendingKey && accessTokenHash && metadata?.userinfo_endpoint && profile && (!profile.email || !profile.name)) {
+            return (await completeSessionProfile(metadata.userinfo_endpoint, accessTokenHash)) ?? response;
+        }
+    }
+    return response;
+}
+
+/**
+ * Has the server complete a DPoP session's profile from userinfo, signing the proof for the call.
+ * @returns The route's response (the updated session summary), or null when it failed; the session
+ *   then keeps the profile from the ID token.
+ */
+async function completeSessionProfile(userInfoUrl: string, tokenHash: string): Promise<Response | null> {
+    try {
+        const proof = await createDpopProof('GET', userInfoUrl, tokenHash);
+        if (!proof) {
+            return null;
+        }
+        const response = await fetch(SESSION_PROFILE_ROUTE, {
+            method: 'POST',
+            headers: { 'DPoP': proof },
+            credentials: 'same-origin',
+        });
+        if (response.ok) {
+            return response;
+        }
+        console.warn(`Could not complete the profile from userinfo (${response.status}).`);
+    } catch (error) {
+        console.warn('Could not complete the profile from userinfo:', error);
+    }
+    return null;
+}
+
+/**
+ * Returns the `ath` value for proofs to the mcp-worker, or null when the session's token is not
+ * DPoP-bound. Loaded from the session summary once, or again when `reload` is set
+ * (e.g. after another tab renewed the shared session).
+ */
+async function loadAccessTokenHash(reload = false): Promise<string | null> {
+    if (accessTokenHash === undefined || reload) {
+        try {
+            const response = await fetch('/api/auth/session', { credentials: 'same-origin' });
+            const summary = response.ok ? await response.json() : null;
+            accessTokenHash = summary?.accessTokenHash ?? null;
+        } catch (error) {
+            console.warn('Could not load the session summary for DPoP proofs:', error);
+            return null;
+        }
+    }
+    return accessTokenHash ?? null;
+}
+
 
 // --- Authenticated API Calls ---
 
 /**
- * Makes an authenticated request to the MCP Resource Server API (mcp-worker).
- * @param accessToken The OAuth access token obtained via the backend token exchange.
+ * Parses the parameters of a `WWW-Authenticate: Bearer ...` challenge (RFC 6750 §3),
+ * or of the equivalent `DPoP ...` challenge (RFC 9449 §7.1).
+ */
+export function parseBearerChallenge(header: string | null): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (!header || !/^(Bearer|DPoP)\b/i.test(header)) {
+        return params;
+    }
+    const paramPattern = /(\w+)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = paramPattern.exec(header)) !== null) {
+        params[match[1]] = match[2];
+    }
+    return params;
+}
+
+/**
+ * Makes an authenticated request to the MCP Resource Server API (mcp-worker) via the
+ * same-origin proxy. The session cookie identifies the caller; the proxy attaches the token.
+ * For DPoP sessions each call carries a fresh proof bound to the method and the mcp-worker URL.
  * @param relativeApiPath The relative path of the API endpoint starting from the API base (e.g., '/data').
  * @param options Optional Fetch options (method, body, etc.).
  * @returns The raw Fetch Response object.
+ * @throws {InsufficientScopeError} If the token lacks a scope the endpoint requires.
  */
-export async function fetchMcpApi(accessToken: string, relativeApiPath: string, options: RequestInit = {}): Promise<Response> {
-    // Construct full API URL using MCP_API_URL from constants
-    const apiUrl = `${MCP_API_URL}${relativeApiPath.startsWith('/') ? relativeApiPath : '/' + relativeApiPath}`;
-    console.log(`Making authenticated API call to MCP Resource Server: ${apiUrl}`);
-
-    const headers = new Headers(options.headers || {});
-    headers.append('Authorization', `Bearer ${accessToken}`);
+export async function fetchMcpApi(relativeApiPath: string, options: RequestInit = {}): Promise<Response> {
+    // Construct the proxy URL for the API path
+    const normalizedPath = relativeApiPath.startsWith('/') ? relativeApiPath : '/' + relativeApiPath;
+    const apiUrl = `${MCP_PROXY_PREFIX}${normalizedPath}`;
+    const upstreamUrl = `${MCP_API_URL}${normalizedPath}`; // What the proxy calls, and so what the proof is for
+    const method = options.method || 'GET';
+    console.log(`Making authenticated API call to MCP Resource Server via proxy: ${apiUrl}`);
 
-    try {
+    const send = async (reloadTokenHash = false): Promise<{ response: Response; dpop: boolean }> => {
+        const headers = new Headers(options.headers);
+        const tokenHash = await loadAccessTokenHash(reloadTokenHash);
+        const proof = tokenHash ? await createDpopProof(method, upstreamUrl, tokenHash) : null;
+        if (proof) {
+            headers.set('DPoP', proof);
+        }
         const response = await fetch(apiUrl, {
             ...options, // Spread existing options (method, body, etc.)
-            headers: headers, // Add the Authorization header
+            headers,
+            credentials: 'same-origin', // Send the session cookie
         });
-        return response; // Return the raw response for the caller to handle
+        return { response, dpop: Boolean(proof) };
+    };
+
+    let response: Response;
+    try {
+        const first = await send();
+        response = first.response;
+        if (first.dpop && response.status === 401) {
+            if (await isDpopNonceChallenge(upstreamUrl, response)) {
+                console.log(`MCP API (${relativeApiPath}) requires a DPoP nonce; retrying.`);
+                response = (await send()).response;
+            } else if (parseBearerChallenge(response.headers.get('www-authenticate')).error === 'invalid_token') {
+                // The session may have been renewed in another tab, changing the token the proof must match
+                console.log(`MCP API (${relativeApiPath}) rejected the token; retrying with the current session.`);
+                response = (await send(true)).response;
+            }
+        }
     } catch (error) {
         console.error(`Network error fetching MCP API (${relativeApiPath}):`, error);
         throw error; // Re-throw network errors
     }
+
+    if (response.status === 403) {
+        const challenge = parseBearerChallenge(response.headers.get('www-authenticate'));
+        if (challenge.error === 'insufficient_scope') {
+            const requiredScopes = (challenge.scope || '').split(' ').filter(Boolean);
+            console.warn(`MCP API (${relativeApiPath}) requires additional scopes: ${requiredScopes.join(' ')}`);
+            throw new InsufficientScopeError(requiredScopes, {
+                path: normalizedPath,
+                method,
+                body: typeof options.body === 'string' ? options.body : undefined,
+                contentType: new Headers(options.headers).get('Content-Type') || undefined,
+            }, challenge.error_description);
+        }
+    }
+    return response; // Return the raw response for the caller to handle
+}
+
+/**
+ * Re-authorizes with the currently granted scopes plus the ones the API asked for,
+ * then returns to the current page and retries the rejected request.
+ * @param error The step-up challenge raised by `fetchMcpApi`.
+ * @param grantedScope The session's current (space-separated) scope, if known.
+ */
+export async function requestAdditionalScopes(error: InsufficientScopeError, grantedScope: string | null): Promise<void> {
+    await requestScopes(error.requiredScopes, grantedScope, error.request);
+}
+
+/**
+ * Starts an incremental authorization for the given scopes on top of the granted ones,
+ * returning to the current page afterwards.
+ * @param additionalScopes Scopes to add to the session.
+ * @param grantedScope The session's current (space-separated) scope, if known.
+ * @param pendingRequest Optional MCP API request to retry after consent.
+ */
+export async function requestScopes(additionalScopes: string[], grantedScope: string | null, pendingRequest?: PendingMcpRequest): Promise<void> {
+    const currentScopes = grantedScope ? grantedScope.split(' ').filter(Boolean) : OAUTH_DEFAULT_SCOPES;
+    const scopes = Array.from(new Set([...currentScopes, ...additionalScopes]));
+    console.log(`Requesting incremental authorization for scopes: ${scopes.join(' ')}`);
+    await redirectToAuthorization({
+        returnTo: window.location.href,
+        scopes,
+        pendingRequest,
+    });
+}
+
+/**
+ * Retries a request that was rejected before a step-up authorization.
+ */
+export async function replayPendingMcpRequest(request: PendingMcpRequest): Promise<Response> {
+    console.log(`Retrying ${request.method} ${request.path} after step-up authorization.`);
+    return fetchMcpApi(request.path, {
+        method: request.method,
+        headers: request.contentType ? { 'Content-Type': request.contentType } : undefined,
+        body: request.body,
+    });
+}
+
+
+// --- Grant Management Proofs ---
+
+/**
+ * Builds the proof headers for `/api/account/apps` (see app/api/account/apps), which calls the
+ * auth-worker's grants endpoint with the session's token. Empty for Bearer sessions.
+ * @param revokeGrantId When set, the headers are for revoking this grant: the `DPoP` proof is for
+ *   the revocation and GRANTS_LIST_PROOF_HEADER carries one for the listing the route checks first.
+ */
+export async function createGrantsProofHeaders(revokeGrantId?: string): Promise<Record<string, string>> {
+    const tokenHash = await loadAccessTokenHash(true); // Another tab may have renewed the session
+    if (!tokenHash) {
+        return {};
+    }
+    const { grants_endpoint: grantsUrl } = await getAuthorizationServerMetadata();
+    if (!grantsUrl) {
+        return {}; // The route answers that grants cannot be managed
+    }
+    const listProof = await createDpopProof('GET', grantsUrl, tokenHash);
+    if (revokeGrantId === undefined) {
+        return listProof ? { 'DPoP': listProof } : {};
+    }
+    const revokeProof = await createDpopProof('DELETE', `${grantsUrl}/${encodeURIComponent(revokeGrantId)}`, tokenHash);
+    if (!listProof || !revokeProof) {
+        return {}; // No key in this browser; the route answers that a proof is required
+    }
+    return { 'DPoP': revokeProof, [GRANTS_LIST_PROOF_HEADER]: listProof };
 }
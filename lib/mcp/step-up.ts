@@ -0,0 +1,30 @@
+/**
+ * @description
+ * UI helper for step-up authorization. Shows a toast explaining which extra
+ * permission an action needs and lets the user start the incremental consent flow.
+ *
+ * @dependencies
+ * - sonner: Toast notifications library.
+ * - lib/mcp/client: `InsufficientScopeError` and `requestAdditionalScopes`.
+ */
+
+import { toast } from "sonner";
+import { InsufficientScopeError, requestAdditionalScopes } from './client';
+
+/**
+ * Offers to grant the missing scopes. The rejected request is retried after consent.
+ * @param error The challenge raised by `fetchMcpApi`.
+ * @param grantedScope The session's current scope string (`authState.scope`).
+ */
+export function offerStepUpAuthorization(error: InsufficientScopeError, grantedScope: string | null): void {
+    toast.warning("Additional permission required", {
+        description: `This action needs: ${error.requiredScopes.join(', ') || 'more access'}. Grant it to continue; your request will be retried.`,
+        duration: 15000,
+        action: {
+            label: "Grant access",
+            onClick: () => {
+                requestAdditionalScopes(error, grantedScope);
+            },
+        },
+    });
+}
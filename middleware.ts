@@ -1,13 +1,28 @@
 /**
- * Next.js middleware to refresh Supabase session cookies.
+ * Next.js middleware to refresh Supabase session cookies and to send
+ * signed-out visitors of protected pages (see lib/auth/route-policy.ts) to the login flow.
+ * Scope checks happen in the section layouts, which can read the server-side session.
  */
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { findRoutePolicy, buildLoginPath, REQUEST_PATH_HEADER } from '@/lib/auth/route-policy'
+import { SESSION_COOKIE_NAME } from '@/lib/constants'
 
 export async function middleware(request: NextRequest) {
+  const requestPath = `${request.nextUrl.pathname}${request.nextUrl.search}`
+
+  // No session cookie at all: skip rendering and go straight to login, returning here afterwards
+  if (findRoutePolicy(request.nextUrl.pathname) && !request.cookies.has(SESSION_COOKIE_NAME)) {
+    return NextResponse.redirect(new URL(buildLoginPath(requestPath), request.url))
+  }
+
+  // Let server layouts know the full requested path for their own redirects
+  const requestHeaders = new Headers(request.headers)
+  requestHeaders.set(REQUEST_PATH_HEADER, requestPath)
+
   let response = NextResponse.next({
     request: {
-      headers: request.headers,
+      headers: requestHeaders,
     },
   })
 
@@ -24,7 +39,7 @@ export async function middleware(request: NextRequest) {
           request.cookies.set({ name, value, ...options })
           response = NextResponse.next({
             request: {
-              headers: request.headers,
+              headers: requestHeaders,
             },
           })
           response.cookies.set({ name, value, ...options })
@@ -34,7 +49,7 @@ export async function middleware(request: NextRequest) {
           request.cookies.set({ name, value: '', ...options })
           response = NextResponse.next({
             request: {
-              headers: request.headers,
+              headers: requestHeaders,
             },
           })
           response.cookies.set({ name, value: '', ...options })
@@ -3,6 +3,10 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
     // Add Next.js configuration options here if needed later
     // Example: reactStrictMode: true,
+    experimental: {
+        // Enables forbidden() / app/forbidden.tsx for the page route guard (lib/auth/page-guard.ts)
+        authInterrupts: true,
+    },
 };
 
 export default nextConfig;
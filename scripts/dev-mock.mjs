@@ -0,0 +1,38 @@
+// Starts the mock auth-worker (scripts/mock-auth-worker.mjs) and `next dev` pointed at it,
+// so the app can be developed without the real auth-worker, mcp-worker or Hanko.
+// Run with: npm run dev:mock
+// Supabase settings still come from .env.local; a local Supabase (`supabase start`) keeps it all offline.
+
+import { spawn } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { randomBytes } from 'node:crypto';
+import { startMockAuthWorker } from './mock-auth-worker.mjs';
+
+const require = createRequire(import.meta.url);
+
+const mock = await startMockAuthWorker();
+
+// Variables set in the shell take precedence over .env.local in Next.js, so these override it
+const env = {
+  ...process.env,
+  NEXT_PUBLIC_AUTH_WORKER_URL: mock.url,
+  NEXT_PUBLIC_OAUTH_ISSUER_URL: mock.url,
+  NEXT_PUBLIC_MCP_WORKER_URL: mock.url,
+  NEXT_PUBLIC_HANKO_API_URL: `${mock.url}/hanko`,
+  SESSION_STORE: process.env.SESSION_STORE || 'memory',
+  SESSION_SECRET: process.env.SESSION_SECRET || randomBytes(32).toString('hex'),
+};
+
+const next = spawn(process.execPath, [require.resolve('next/dist/bin/next'), 'dev', ...process.argv.slice(2)], {
+  stdio: 'inherit',
+  env,
+});
+
+const stop = () => next.kill('SIGTERM');
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+next.on('exit', async (code) => {
+  await mock.close();
+  process.exit(code ?? 0);
+});
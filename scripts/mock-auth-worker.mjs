@@ -0,0 +1,556 @@
+// Local mock of the auth-worker (OAuth 2.1 authorization server), the mcp-worker API and the
+// parts of the Hanko API the app uses, so the login → link → dashboard flow works offline.
+// Run with: node scripts/mock-auth-worker.mjs   (or `npm run dev:mock` to start it together with the app)
+// Automated tests can `import { startMockAuthWorker } from './mock-auth-worker.mjs'` instead.
+//
+// Endpoints (all on one port, default 8788):
+// - /.well-known/oauth-authorization-server, /.well-known/openid-configuration: RFC 8414 metadata
+// - /.well-known/jwks.json: signing key (RS256, generated at startup)
+// - /authorize: auto-approves as the mock user and redirects back with a code
+// - /par: pushed authorization requests (RFC 9126); /authorize then accepts client_id + request_uri
+// - /token: authorization_code (PKCE S256 required, codes are single-use) and refresh_token (rotating)
+//   In DPoP mode, a request with a `DPoP` proof gets tokens bound to its key (RFC 9449); the bound
+//   refresh token then needs a proof from the same key, and bound access tokens need the `DPoP` scheme
+//   and a proof on every call below. Requests without a proof still get bearer tokens.
+// - /introspect (RFC 7662), /revoke (RFC 7009)
+// - /userinfo: OIDC userinfo (the id_token carries sub, nonce and email; the name is only available here)
+// - /grants (GET), /grants/:id (DELETE): the user's grants per client; revoking one ends all of its tokens
+// - /api/data (mcp:data:read), /api/vault (GET mcp:data:read, POST mcp:data:write): mcp-worker stand-ins
+// - /hanko/me, /hanko/users/:id, /hanko/logout: Hanko API stand-ins for account linking
+//
+// Account linking still writes to Supabase, so point the app at a local Supabase (`supabase start`).
+// Configuration: MOCK_AUTH_PORT, MOCK_USER_ID, MOCK_USER_EMAIL, MOCK_USER_NAME, MOCK_ACCESS_TOKEN_TTL (seconds),
+// MOCK_CLIENT_NAMES (JSON object of client_id → display name for /grants), MOCK_DPOP (`true` to advertise DPoP),
+// and OAUTH_TOKEN_AUDIENCE (defaults to the requesting client_id, which is what the app expects).
+
+import http from 'node:http';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { SignJWT, jwtVerify, generateKeyPair, exportJWK, decodeProtectedHeader, importJWK, calculateJwkThumbprint } from 'jose';
+
+const SUPPORTED_SCOPES = ['openid', 'email', 'profile', 'offline_access', 'mcp:data:read', 'mcp:data:write'];
+const CODE_TTL_SECONDS = 60;
+const REQUEST_URI_TTL_SECONDS = 60;
+const REQUEST_URI_PREFIX = 'urn:ietf:params:oauth:request_uri:';
+const DEFAULT_CLIENT_NAMES = { 'mcp-auth-demo-client': 'MCP Auth Demo' };
+
+function base64Url(buffer) {
+  return Buffer.from(buffer).toString('base64url');
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function oauthError(res, status, error, description) {
+  sendJson(res, status, { error, error_description: description });
+}
+
+async function readForm(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if ((req.headers['content-type'] || '').includes('application/json')) {
+    return raw ? JSON.parse(raw) : {};
+  }
+  return Object.fromEntries(new URLSearchParams(raw));
+}
+
+// Browsers call discovery and the Hanko endpoints cross-origin (Hanko with credentials)
+function setCorsHeaders(req, res) {
+  const origin = req.headers.origin;
+  if (!origin) return;
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Session-Lifetime');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Expose-Headers', 'WWW-Authenticate, X-Auth-Token, X-Session-Lifetime');
+  res.setHeader('Vary', 'Origin');
+}
+
+/**
+ * @typedef {object} MockAuthWorkerState In-memory state of a running mock, exposed for tests
+ * @property {Map<string, { clientId: string, redirectUri: string, scope: string, codeChallenge: string | null, nonce: string | null, expiresAt: number, used: boolean, issuedRefreshTokens: string[] }>} codes
+ * @property {Map<string, { clientId: string, scope: string, grantId: string, jkt: string | null, revoked: boolean }>} refreshTokens
+ * @property {Map<string, { clientId: string, scope: string, createdAt: number, lastUsedAt: number, revoked: boolean }>} grants
+ * @property {Map<string, { params: Record<string, string>, expiresAt: number }>} pushedRequests
+ * @property {Set<string>} revokedAccessTokens
+ * @property {Set<string>} dpopProofIds
+ * @property {Map<string, unknown>} vault
+ */
+
+/**
+ * Starts the mock server.
+ * @returns {Promise<{ url: string, close: () => Promise<void>, state: MockAuthWorkerState }>}
+ */
+export async function startMockAuthWorker(options = {}) {
+  const port = options.port ?? Number(process.env.MOCK_AUTH_PORT || 8788);
+  const user = {
+    id: options.userId || process.env.MOCK_USER_ID || '00000000-0000-4000-8000-000000000001',
+    email: options.userEmail || process.env.MOCK_USER_EMAIL || 'dev@example.com',
+    name: options.userName || process.env.MOCK_USER_NAME || 'Dev User',
+  };
+  const accessTokenTtl = options.accessTokenTtl ?? Number(process.env.MOCK_ACCESS_TOKEN_TTL || 3600);
+  const audienceOverride = options.audience || process.env.OAUTH_TOKEN_AUDIENCE;
+  const dpop = options.dpop ?? process.env.MOCK_DPOP === 'true';
+  const clientNames = {
+    ...DEFAULT_CLIENT_NAMES,
+    ...(process.env.MOCK_CLIENT_NAMES ? JSON.parse(process.env.MOCK_CLIENT_NAMES) : {}),
+    ...options.clientNames,
+  };
+  const log = options.quiet ? () => {} : (...args) => console.log('[mock-auth-worker]', ...args);
+
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: randomUUID(), alg: 'RS256', use: 'sig' };
+
+  // In-memory state, exposed for tests
+  /** @type {MockAuthWorkerState} */
+  const state = {
+    codes: new Map(), // code → authorization request it was issued for
+    refreshTokens: new Map(), // token → client, scope and grant it was issued for
+    grants: new Map(), // grant id → client, scope and usage of an authorization
+    pushedRequests: new Map(), // request_uri → pushed parameters
+    revokedAccessTokens: new Set(), // jti
+    dpopProofIds: new Set(), // jti of DPoP proofs already used
+    vault: new Map(), // sub → vault data
+  };
+
+  let issuer = options.issuer || `http://localhost:${port}`;
+
+  // One active grant per client; a new authorization after a revocation starts a new one
+  function recordGrant(clientId, scope) {
+    for (const [id, grant] of state.grants) {
+      if (grant.clientId === clientId && !grant.revoked) {
+        const scopes = new Set([...grant.scope.split(' '), ...scope.split(' ')]);
+        grant.scope = [...scopes].join(' ');
+        grant.lastUsedAt = Date.now();
+        return id;
+      }
+    }
+    const id = randomUUID();
+    state.grants.set(id, { clientId, scope, createdAt: Date.now(), lastUsedAt: Date.now(), revoked: false });
+    return id;
+  }
+
+  async function issueAccessToken(clientId, scope, grantId, jkt) {
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { scope, client_id: clientId, grant_id: grantId, hankoUserId: user.id, email: user.email };
+    return new SignJWT(jkt ? { ...claims, cnf: { jkt } } : claims)
+      .setProtectedHeader({ alg: 'RS256', kid: jwk.kid, typ: 'at+jwt' })
+      .setIssuer(issuer)
+      .setAudience(audienceOverride || clientId)
+      .setSubject(user.id)
+      .setIssuedAt(now)
+      .setExpirationTime(now + accessTokenTtl)
+      .setJti(randomUUID())
+      .sign(privateKey);
+  }
+
+  async function issueIdToken(clientId, scopes, nonce) {
+    const now = Math.floor(Date.now() / 1000);
+    const claims = scopes.includes('email') ? { email: user.email, email_verified: true } : {};
+    return new SignJWT(nonce ? { ...claims, nonce } : claims)
+      .setProtectedHeader({ alg: 'RS256', kid: jwk.kid })
+      .setIssuer(issuer)
+      .setAudience(clientId)
+      .setSubject(user.id)
+      .setIssuedAt(now)
+      .setExpirationTime(now + accessTokenTtl)
+      .sign(privateKey);
+  }
+
+  // jkt: thumbprint of the DPoP key the tokens are bound to, or null for bearer tokens
+  async function issueTokens(clientId, scope, nonce, jkt = null) {
+    const scopes = scope.split(' ');
+    const grantId = recordGrant(clientId, scope);
+    const tokens = {
+      access_token: await issueAccessToken(clientId, scope, grantId, jkt),
+      token_type: jkt ? 'DPoP' : 'Bearer',
+      expires_in: accessTokenTtl,
+      scope,
+    };
+    if (scopes.includes('offline_access')) {
+      tokens.refresh_token = base64Url(randomBytes(32));
+      state.refreshTokens.set(tokens.refresh_token, { clientId, scope, grantId, jkt, revoked: false });
+    }
+    if (scopes.includes('openid')) {
+      tokens.id_token = await issueIdToken(clientId, scopes, nonce);
+    }
+    return tokens;
+  }
+
+  // Returns the claims of a valid, unrevoked access token, or null
+  async function verifyAccessToken(token) {
+    try {
+      const { payload } = await jwtVerify(token, publicKey, { issuer });
+      const revoked = state.revokedAccessTokens.has(payload.jti) || state.grants.get(payload.grant_id)?.revoked;
+      return revoked ? null : payload;
+    } catch {
+      return null;
+    }
+  }
+
+  // Checks the DPoP proof of a request to this server; returns the key's thumbprint, or an error message
+  async function verifyDpopProof(req, path, accessToken) {
+    const proof = req.headers.dpop;
+    if (!proof) return { error: 'DPoP proof missing.' };
+    try {
+      const header = decodeProtectedHeader(proof);
+      if (header.typ !== 'dpop+jwt' || header.alg !== 'ES256' || !header.jwk || header.jwk.d) {
+        return { error: 'DPoP proof must be an ES256 dpop+jwt with a public jwk.' };
+      }
+      const { payload } = await jwtVerify(proof, await importJWK(header.jwk, 'ES256'), { typ: 'dpop+jwt', maxTokenAge: 60 });
+      if (payload.htm !== req.method || payload.htu !== `${issuer}${path}`) {
+        return { error: 'DPoP proof was made for a different request.' };
+      }
+      if (accessToken && payload.ath !== base64Url(createHash('sha256').update(accessToken).digest())) {
+        return { error: 'DPoP proof was made for a different access token.' };
+      }
+      if (!payload.jti || state.dpopProofIds.has(payload.jti)) {
+        return { error: 'DPoP proof has no or a reused jti.' };
+      }
+      state.dpopProofIds.add(payload.jti);
+      return { jkt: await calculateJwkThumbprint(header.jwk) };
+    } catch (error) {
+      return { error: `DPoP proof is invalid: ${error.message}` };
+    }
+  }
+
+  // Authenticates a call to a resource endpoint; bound tokens need the DPoP scheme and a proof from their key
+  async function authenticateResourceRequest(req, path) {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    const claims = token ? await verifyAccessToken(token) : null;
+    if (!claims) return { error: 'Missing or invalid access token.' };
+    const jkt = claims.cnf?.jkt;
+    if (!jkt) {
+      return scheme === 'Bearer' ? { claims } : { error: 'Token is not DPoP-bound.' };
+    }
+    if (scheme !== 'DPoP') return { error: 'DPoP-bound token must be presented with the DPoP scheme.' };
+    const proof = await verifyDpopProof(req, path, token);
+    if (proof.error) return proof;
+    return proof.jkt === jkt ? { claims } : { error: 'DPoP proof key does not match the token binding.' };
+  }
+
+  function sendInvalidToken(res, message) {
+    sendJson(res, 401, { error: 'invalid_token', message }, {
+      'WWW-Authenticate': dpop ? 'DPoP error="invalid_token", algs="ES256"' : 'Bearer error="invalid_token"',
+    });
+  }
+
+  function metadata() {
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      pushed_authorization_request_endpoint: `${issuer}/par`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      introspection_endpoint: `${issuer}/introspect`,
+      revocation_endpoint: `${issuer}/revoke`,
+      grants_endpoint: `${issuer}/grants`,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      scopes_supported: SUPPORTED_SCOPES,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none'],
+      ...(dpop ? { dpop_signing_alg_values_supported: ['ES256'] } : {}),
+    };
+  }
+
+  async function handlePushedAuthorizationRequest(req, res) {
+    const form = await readForm(req);
+    if (!form.client_id || !form.redirect_uri) {
+      return oauthError(res, 400, 'invalid_request', 'client_id and redirect_uri are required.');
+    }
+    if (form.request_uri) {
+      return oauthError(res, 400, 'invalid_request', 'request_uri must not be pushed.');
+    }
+    const requestUri = `${REQUEST_URI_PREFIX}${base64Url(randomBytes(24))}`;
+    state.pushedRequests.set(requestUri, { params: form, expiresAt: Date.now() + REQUEST_URI_TTL_SECONDS * 1000 });
+    log(`Stored pushed authorization request for ${form.client_id}.`);
+    return sendJson(res, 201, { request_uri: requestUri, expires_in: REQUEST_URI_TTL_SECONDS }, { 'Cache-Control': 'no-store' });
+  }
+
+  // Resolves a request_uri into the pushed parameters (single use)
+  function resolveAuthorizeParams(url) {
+    const requestUri = url.searchParams.get('request_uri');
+    if (!requestUri) return url.searchParams;
+    const pushed = state.pushedRequests.get(requestUri);
+    state.pushedRequests.delete(requestUri);
+    if (!pushed || pushed.expiresAt < Date.now() || pushed.params.client_id !== url.searchParams.get('client_id')) {
+      return null;
+    }
+    return new URLSearchParams(pushed.params);
+  }
+
+  function handleAuthorize(url, res) {
+    const params = resolveAuthorizeParams(url);
+    if (!params) {
+      return oauthError(res, 400, 'invalid_request_uri', 'Unknown, expired or foreign request_uri.');
+    }
+    const redirectUri = params.get('redirect_uri');
+    const clientId = params.get('client_id');
+    if (!redirectUri || !clientId) {
+      return oauthError(res, 400, 'invalid_request', 'client_id and redirect_uri are required.');
+    }
+    const redirect = new URL(redirectUri);
+    const fail = (error, description) => {
+      redirect.searchParams.set('error', error);
+      redirect.searchParams.set('error_description', description);
+      if (params.get('state')) redirect.searchParams.set('state', params.get('state'));
+      res.writeHead(302, { Location: redirect.toString() });
+      res.end();
+    };
+    if (params.get('response_type') !== 'code') {
+      return fail('unsupported_response_type', 'Only response_type=code is supported.');
+    }
+    if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') {
+      return fail('invalid_request', 'PKCE with code_challenge_method=S256 is required.');
+    }
+    const requested = (params.get('scope') || '').split(' ').filter(Boolean);
+    const unsupported = requested.filter(scope => !SUPPORTED_SCOPES.includes(scope));
+    if (unsupported.length > 0) {
+      return fail('invalid_scope', `Unsupported scopes: ${unsupported.join(' ')}`);
+    }
+
+    // Auto-approve: the mock user consents to everything
+    const code = base64Url(randomBytes(24));
+    state.codes.set(code, {
+      clientId,
+      redirectUri,
+      scope: requested.join(' '),
+      codeChallenge: params.get('code_challenge'),
+      nonce: params.get('nonce'),
+      expiresAt: Date.now() + CODE_TTL_SECONDS * 1000,
+      used: false,
+      issuedRefreshTokens: [],
+    });
+    redirect.searchParams.set('code', code);
+    if (params.get('state')) redirect.searchParams.set('state', params.get('state'));
+    log(`Authorized ${user.email} for ${clientId} (scope: ${requested.join(' ')}).`);
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+  }
+
+  async function handleToken(req, res) {
+    const form = await readForm(req);
+    let jkt = null;
+    if (dpop && req.headers.dpop) {
+      const proof = await verifyDpopProof(req, '/token');
+      if (proof.error) return oauthError(res, 400, 'invalid_dpop_proof', proof.error);
+      jkt = proof.jkt;
+    }
+    if (form.grant_type === 'authorization_code') {
+      const entry = state.codes.get(form.code);
+      if (!entry || entry.expiresAt < Date.now()) {
+        return oauthError(res, 400, 'invalid_grant', 'Unknown or expired authorization code.');
+      }
+      if (entry.used) {
+        // A replayed code revokes everything issued from it (OAuth 2.1 §4.1.3)
+        entry.issuedRefreshTokens.forEach(token => { state.refreshTokens.get(token).revoked = true; });
+        return oauthError(res, 400, 'invalid_grant', 'Authorization code has already been used.');
+      }
+      if (entry.clientId !== form.client_id || entry.redirectUri !== form.redirect_uri) {
+        return oauthError(res, 400, 'invalid_grant', 'client_id or redirect_uri does not match the authorization request.');
+      }
+      const challenge = form.code_verifier ? base64Url(createHash('sha256').update(form.code_verifier).digest()) : null;
+      if (challenge !== entry.codeChallenge) {
+        return oauthError(res, 400, 'invalid_grant', 'PKCE verification failed.');
+      }
+      entry.used = true;
+      const tokens = await issueTokens(entry.clientId, entry.scope, entry.nonce, jkt);
+      if (tokens.refresh_token) entry.issuedRefreshTokens.push(tokens.refresh_token);
+      log(`Issued tokens for ${entry.clientId} (authorization_code).`);
+      return sendJson(res, 200, tokens);
+    }
+
+    if (form.grant_type === 'refresh_token') {
+      const entry = state.refreshTokens.get(form.refresh_token);
+      if (!entry || entry.revoked || state.grants.get(entry.grantId)?.revoked || entry.clientId !== form.client_id) {
+        return oauthError(res, 400, 'invalid_grant', 'Unknown, revoked or foreign refresh token.');
+      }
+      if (entry.jkt && entry.jkt !== jkt) {
+        return oauthError(res, 400, 'invalid_dpop_proof', 'Refresh token is bound to a different DPoP key.');
+      }
+      let scope = entry.scope;
+      if (form.scope) {
+        const granted = entry.scope.split(' ');
+        const narrowed = form.scope.split(' ').filter(Boolean);
+        if (narrowed.some(item => !granted.includes(item))) {
+          return oauthError(res, 400, 'invalid_scope', 'A refresh cannot widen the granted scope.');
+        }
+        scope = narrowed.join(' ');
+      }
+      // Rotation: the presented refresh token is spent
+      entry.revoked = true;
+      const tokens = await issueTokens(entry.clientId, scope, null, entry.jkt);
+      log(`Issued tokens for ${entry.clientId} (refresh_token).`);
+      return sendJson(res, 200, tokens);
+    }
+
+    return oauthError(res, 400, 'unsupported_grant_type', `Unsupported grant type: ${form.grant_type}.`);
+  }
+
+  async function handleIntrospect(req, res) {
+    const { token } = await readForm(req);
+    const refresh = token && state.refreshTokens.get(token);
+    if (refresh) {
+      return sendJson(res, 200, refresh.revoked || state.grants.get(refresh.grantId)?.revoked
+        ? { active: false }
+        : { active: true, scope: refresh.scope, client_id: refresh.clientId, sub: user.id, hankoUserId: user.id, token_type: 'refresh_token' });
+    }
+    const claims = token ? await verifyAccessToken(token) : null;
+    sendJson(res, 200, claims ? { ...claims, active: true, token_type: claims.cnf ? 'DPoP' : 'Bearer' } : { active: false });
+  }
+
+  async function handleRevoke(req, res) {
+    const { token } = await readForm(req);
+    const refresh = token && state.refreshTokens.get(token);
+    if (refresh) {
+      refresh.revoked = true;
+    } else if (token) {
+      const claims = await verifyAccessToken(token);
+      if (claims?.jti) state.revokedAccessTokens.add(claims.jti);
+    }
+    // RFC 7009: unknown tokens are not an error
+    res.writeHead(200);
+    res.end();
+  }
+
+  async function handleMcpApi(req, res, path) {
+    const { claims, error } = await authenticateResourceRequest(req, path);
+    if (!claims) return sendInvalidToken(res, error);
+    const grant = state.grants.get(claims.grant_id);
+    if (grant) grant.lastUsedAt = Date.now();
+    const requiredScope = req.method === 'POST' ? 'mcp:data:write' : 'mcp:data:read';
+    if (!String(claims.scope || '').split(' ').includes(requiredScope)) {
+      return sendJson(res, 403, { error: 'insufficient_scope', message: `This action requires ${requiredScope}.` }, {
+        'WWW-Authenticate': `Bearer error="insufficient_scope", scope="${requiredScope}"`,
+      });
+    }
+    if (path === '/api/vault' && req.method === 'POST') {
+      state.vault.set(claims.sub, await readForm(req));
+      return sendJson(res, 200, { success: true });
+    }
+    if (req.method !== 'GET') {
+      return sendJson(res, 405, { error: 'method_not_allowed' });
+    }
+    return sendJson(res, 200, {
+      message: 'Hello from the mock mcp-worker.',
+      userId: claims.sub,
+      scope: claims.scope,
+      vaultData: state.vault.get(claims.sub) ?? null,
+    });
+  }
+
+  async function handleUserInfo(req, res) {
+    const { claims, error } = await authenticateResourceRequest(req, '/userinfo');
+    if (!claims) return sendInvalidToken(res, error);
+    const scopes = String(claims.scope || '').split(' ');
+    if (!scopes.includes('openid')) {
+      return sendJson(res, 403, { error: 'insufficient_scope' }, { 'WWW-Authenticate': 'Bearer error="insufficient_scope", scope="openid"' });
+    }
+    return sendJson(res, 200, {
+      sub: user.id,
+      ...(scopes.includes('email') ? { email: user.email, email_verified: true } : {}),
+      ...(scopes.includes('profile') ? { name: user.name } : {}),
+    });
+  }
+
+  // Lists the user's grants, or revokes one with everything issued under it
+  async function handleGrants(req, res, path) {
+    const { claims, error } = await authenticateResourceRequest(req, path);
+    if (!claims) return sendInvalidToken(res, error);
+    if (path === '/grants' && req.method === 'GET') {
+      const grants = [...state.grants].filter(([, grant]) => !grant.revoked).map(([id, grant]) => ({
+        id,
+        client_id: grant.clientId,
+        client_name: clientNames[grant.clientId] || grant.clientId,
+        scope: grant.scope,
+        created_at: new Date(grant.createdAt).toISOString(),
+        last_used_at: new Date(grant.lastUsedAt).toISOString(),
+      }));
+      return sendJson(res, 200, { grants }, { 'Cache-Control': 'no-store' });
+    }
+    const grant = req.method === 'DELETE' ? state.grants.get(path.slice('/grants/'.length)) : null;
+    if (!grant || grant.revoked) {
+      return sendJson(res, 404, { error: 'not_found', error_description: 'Unknown or already revoked grant.' });
+    }
+    grant.revoked = true;
+    log(`Revoked grant of ${grant.clientId}.`);
+    res.writeHead(204);
+    res.end();
+  }
+
+  function handleHanko(req, res, path) {
+    const hankoUser = {
+      id: user.id,
+      email: user.email,
+      emails: [{ id: user.id, address: user.email, is_verified: true, is_primary: true }],
+      created_at: new Date(0).toISOString(),
+      updated_at: new Date(0).toISOString(),
+    };
+    if (path === '/hanko/me') return sendJson(res, 200, { id: user.id });
+    if (path === `/hanko/users/${user.id}`) return sendJson(res, 200, hankoUser);
+    if (path === '/hanko/logout') {
+      res.writeHead(204);
+      return res.end();
+    }
+    return sendJson(res, 404, { code: 404, message: 'Not Found' });
+  }
+
+  const server = http.createServer(async (req, res) => {
+    setCorsHeaders(req, res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      return res.end();
+    }
+    const url = new URL(req.url, issuer);
+    const path = url.pathname;
+    try {
+      if (path === '/.well-known/oauth-authorization-server' || path === '/.well-known/openid-configuration') {
+        return sendJson(res, 200, metadata(), { 'Cache-Control': 'public, max-age=60' });
+      }
+      if (path === '/.well-known/jwks.json') return sendJson(res, 200, { keys: [jwk] });
+      if (path === '/authorize' && req.method === 'GET') return handleAuthorize(url, res);
+      if (path === '/par' && req.method === 'POST') return await handlePushedAuthorizationRequest(req, res);
+      if (path === '/token' && req.method === 'POST') return await handleToken(req, res);
+      if (path === '/userinfo' && req.method === 'GET') return await handleUserInfo(req, res);
+      if (path === '/introspect' && req.method === 'POST') return await handleIntrospect(req, res);
+      if (path === '/revoke' && req.method === 'POST') return await handleRevoke(req, res);
+      if (path === '/grants' || path.startsWith('/grants/')) return await handleGrants(req, res, path);
+      if (path === '/api/data' || path === '/api/vault') return await handleMcpApi(req, res, path);
+      if (path.startsWith('/hanko/')) return handleHanko(req, res, path);
+      sendJson(res, 404, { error: 'not_found' });
+    } catch (error) {
+      console.error('[mock-auth-worker] Error handling', req.method, path, error);
+      sendJson(res, 500, { error: 'server_error', error_description: error.message });
+    }
+  });
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, resolve);
+  });
+  const actualPort = server.address().port;
+  if (!options.issuer) issuer = `http://localhost:${actualPort}`;
+  log(`Listening on ${issuer} (user: ${user.email}).`);
+
+  return {
+    url: issuer,
+    state,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// Run standalone: node scripts/mock-auth-worker.mjs
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const mock = await startMockAuthWorker();
+  const shutdown = async () => {
+    await mock.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
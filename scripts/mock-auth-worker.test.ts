@@ -0,0 +1,295 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { spawn } from 'node:child_process';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import net from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { SignJWT, calculateJwkThumbprint, createRemoteJWKSet, decodeJwt, decodeProtectedHeader, exportJWK, generateKeyPair, jwtVerify } from 'jose';
+import { startMockAuthWorker } from './mock-auth-worker.mjs';
+
+const CLIENT_ID = 'mcp-auth-demo-client';
+const REDIRECT_URI = 'http://localhost:3000/client';
+const USER_ID = '00000000-0000-4000-8000-0000000000aa';
+
+let mock: Awaited<ReturnType<typeof startMockAuthWorker>>;
+
+beforeAll(async () => {
+  mock = await startMockAuthWorker({ port: 0, quiet: true, userId: USER_ID, userEmail: 'mock@example.com' });
+});
+
+afterAll(async () => {
+  await mock?.close();
+});
+
+function form(params: Record<string, string>): RequestInit {
+  return { method: 'POST', headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, body: new URLSearchParams(params) };
+}
+
+function bearer(token: string): RequestInit {
+  return { headers: { Authorization: `Bearer ${token}` } };
+}
+
+/** Pushes an authorization request and follows the auto-approving redirect. */
+async function authorize(scope: string, extra: Record<string, string> = {}) {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const pushed = await fetch(`${mock.url}/par`, form({
+    client_id: CLIENT_ID,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    scope,
+    state: 'state-1',
+    code_challenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+    code_challenge_method: 'S256',
+    ...extra,
+  }));
+  expect(pushed.status).toBe(201);
+  const { request_uri } = await pushed.json();
+
+  const redirect = await fetch(`${mock.url}/authorize?client_id=${CLIENT_ID}&request_uri=${encodeURIComponent(request_uri)}`, { redirect: 'manual' });
+  expect(redirect.status).toBe(302);
+  const callback = new URL(redirect.headers.get('location')!);
+  return { callback, code: callback.searchParams.get('code')!, codeVerifier };
+}
+
+async function exchange(code: string, codeVerifier: string, headers: Record<string, string> = {}) {
+  const request = form({
+    grant_type: 'authorization_code', code, code_verifier: codeVerifier, client_id: CLIENT_ID, redirect_uri: REDIRECT_URI,
+  });
+  return fetch(`${mock.url}/token`, { ...request, headers: { ...request.headers, ...headers } });
+}
+
+async function signIn(scope = 'openid email offline_access mcp:data:read mcp:data:write') {
+  const { code, codeVerifier } = await authorize(scope);
+  const response = await exchange(code, codeVerifier);
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+async function introspect(token: string) {
+  return (await fetch(`${mock.url}/introspect`, form({ token }))).json();
+}
+
+describe('mock auth-worker', () => {
+  it('publishes metadata for the issuer it listens on', async () => {
+    const metadata = await (await fetch(`${mock.url}/.well-known/oauth-authorization-server`)).json();
+
+    expect(metadata.issuer).toBe(mock.url);
+    expect(metadata.token_endpoint).toBe(`${mock.url}/token`);
+    expect(metadata.code_challenge_methods_supported).toEqual(['S256']);
+  });
+
+  it('issues RFC 9068 access tokens verifiable with its JWKS', async () => {
+    const tokens = await signIn();
+
+    expect(decodeProtectedHeader(tokens.access_token).typ).toBe('at+jwt');
+    const { payload } = await jwtVerify(tokens.access_token, createRemoteJWKSet(new URL(`${mock.url}/.well-known/jwks.json`)), {
+      issuer: mock.url,
+      audience: CLIENT_ID,
+    });
+    expect(payload.sub).toBe(USER_ID);
+    expect(tokens.refresh_token).toEqual(expect.any(String));
+    expect(tokens.id_token).toEqual(expect.any(String));
+  });
+
+  it('redirects back with an error when PKCE is missing', async () => {
+    const { callback } = await authorize('openid', { code_challenge_method: 'plain' });
+
+    expect(callback.searchParams.get('error')).toBe('invalid_request');
+    expect(callback.searchParams.get('state')).toBe('state-1');
+  });
+
+  it('rejects a code exchanged with the wrong verifier', async () => {
+    const { code } = await authorize('openid');
+
+    const response = await exchange(code, 'not-the-verifier');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'invalid_grant', error_description: 'PKCE verification failed.' });
+  });
+
+  it('revokes the refresh tokens issued from a code that is replayed', async () => {
+    const { code, codeVerifier } = await authorize('openid offline_access');
+    const tokens = await (await exchange(code, codeVerifier)).json();
+
+    const replay = await exchange(code, codeVerifier);
+
+    expect(replay.status).toBe(400);
+    expect(await introspect(tokens.refresh_token)).toEqual({ active: false });
+  });
+
+  it('rotates refresh tokens and refuses to widen the scope', async () => {
+    const tokens = await signIn('openid offline_access mcp:data:read');
+
+    const widened = await fetch(`${mock.url}/token`, form({
+      grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: CLIENT_ID, scope: 'mcp:data:write',
+    }));
+    expect((await widened.json()).error).toBe('invalid_scope');
+
+    const refreshed = await fetch(`${mock.url}/token`, form({
+      grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: CLIENT_ID,
+    }));
+    expect(refreshed.status).toBe(200);
+    expect((await refreshed.json()).refresh_token).not.toBe(tokens.refresh_token);
+    expect(await introspect(tokens.refresh_token)).toEqual({ active: false });
+  });
+
+  it('introspects and revokes access tokens', async () => {
+    const tokens = await signIn();
+    expect(await introspect(tokens.access_token)).toMatchObject({ active: true, sub: USER_ID });
+
+    await fetch(`${mock.url}/revoke`, form({ token: tokens.access_token }));
+
+    expect(await introspect(tokens.access_token)).toEqual({ active: false });
+  });
+
+  it('serves the vault API by scope', async () => {
+    const readOnly = await signIn('openid mcp:data:read');
+    const readWrite = await signIn();
+
+    const denied = await fetch(`${mock.url}/api/vault`, { method: 'POST', ...bearer(readOnly.access_token), body: '{}' });
+    expect(denied.status).toBe(403);
+    expect(denied.headers.get('www-authenticate')).toContain('scope="mcp:data:write"');
+
+    const saved = await fetch(`${mock.url}/api/vault`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${readWrite.access_token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ notes: 'hello' }),
+    });
+    expect(await saved.json()).toEqual({ success: true });
+
+    const read = await fetch(`${mock.url}/api/data`, bearer(readOnly.access_token));
+    expect((await read.json()).vaultData).toEqual({ notes: 'hello' });
+  });
+
+  it('ends every token of a revoked grant', async () => {
+    const tokens = await signIn();
+    const { grants } = await (await fetch(`${mock.url}/grants`, bearer(tokens.access_token))).json();
+    expect(grants).toEqual([expect.objectContaining({ client_id: CLIENT_ID, client_name: 'MCP Auth Demo' })]);
+
+    const revoked = await fetch(`${mock.url}/grants/${grants[0].id}`, { method: 'DELETE', ...bearer(tokens.access_token) });
+
+    expect(revoked.status).toBe(204);
+    expect((await fetch(`${mock.url}/api/data`, bearer(tokens.access_token))).status).toBe(401);
+    expect(await introspect(tokens.refresh_token)).toEqual({ active: false });
+  });
+});
+
+describe('mock auth-worker in DPoP mode', () => {
+  let keyPair: CryptoKeyPair;
+
+  /** Signs a DPoP proof with the test key, for a token request or (with the token) a resource request. */
+  async function proof(method: string, url: string, accessToken?: string, key = keyPair) {
+    const { kty, crv, x, y } = await exportJWK(key.publicKey);
+    const ath = accessToken ? createHash('sha256').update(accessToken).digest('base64url') : undefined;
+    return new SignJWT({ htm: method, htu: url, ...(ath ? { ath } : {}) })
+      .setProtectedHeader({ alg: 'ES256', typ: 'dpop+jwt', jwk: { kty, crv, x, y } })
+      .setJti(randomUUID())
+      .setIssuedAt()
+      .sign(key.privateKey);
+  }
+
+  beforeAll(async () => {
+    await mock.close();
+    mock = await startMockAuthWorker({ port: 0, quiet: true, userId: USER_ID, userEmail: 'mock@example.com', dpop: true });
+    keyPair = await generateKeyPair('ES256');
+  });
+
+  it('advertises DPoP and binds the tokens to the key of the proof', async () => {
+    const metadata = await (await fetch(`${mock.url}/.well-known/oauth-authorization-server`)).json();
+    expect(metadata.dpop_signing_alg_values_supported).toEqual(['ES256']);
+
+    const { code, codeVerifier } = await authorize('openid offline_access mcp:data:read');
+    const tokens = await (await exchange(code, codeVerifier, { DPoP: await proof('POST', `${mock.url}/token`) })).json();
+
+    expect(tokens.token_type).toBe('DPoP');
+    expect(decodeJwt(tokens.access_token).cnf).toEqual({ jkt: await calculateJwkThumbprint(await exportJWK(keyPair.publicKey)) });
+    expect(await introspect(tokens.access_token)).toMatchObject({ active: true, token_type: 'DPoP' });
+  });
+
+  it('still issues bearer tokens to requests without a proof', async () => {
+    const tokens = await signIn('openid mcp:data:read');
+
+    expect(tokens.token_type).toBe('Bearer');
+    expect((await fetch(`${mock.url}/api/data`, bearer(tokens.access_token))).status).toBe(200);
+  });
+
+  it('requires the DPoP scheme and a proof from the bound key on resource calls', async () => {
+    const { code, codeVerifier } = await authorize('openid mcp:data:read');
+    const tokens = await (await exchange(code, codeVerifier, { DPoP: await proof('POST', `${mock.url}/token`) })).json();
+    const dataUrl = `${mock.url}/api/data`;
+
+    expect((await fetch(dataUrl, bearer(tokens.access_token))).status).toBe(401);
+    const withoutProof = await fetch(dataUrl, { headers: { Authorization: `DPoP ${tokens.access_token}` } });
+    expect(withoutProof.status).toBe(401);
+    expect(withoutProof.headers.get('www-authenticate')).toContain('DPoP error="invalid_token"');
+    const otherKey = await proof('GET', dataUrl, tokens.access_token, await generateKeyPair('ES256'));
+    expect((await fetch(dataUrl, { headers: { Authorization: `DPoP ${tokens.access_token}`, DPoP: otherKey } })).status).toBe(401);
+
+    const sameProof = await proof('GET', dataUrl, tokens.access_token);
+    const accepted = await fetch(dataUrl, { headers: { Authorization: `DPoP ${tokens.access_token}`, DPoP: sameProof } });
+    expect(accepted.status).toBe(200);
+    expect((await fetch(dataUrl, { headers: { Authorization: `DPoP ${tokens.access_token}`, DPoP: sameProof } })).status).toBe(401); // Replayed
+  });
+
+  it('renews a bound refresh token only with a proof from the same key', async () => {
+    const { code, codeVerifier } = await authorize('openid offline_access mcp:data:read');
+    const tokens = await (await exchange(code, codeVerifier, { DPoP: await proof('POST', `${mock.url}/token`) })).json();
+    const refresh = async (headers: Record<string, string>) => {
+      const request = form({ grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: CLIENT_ID });
+      return fetch(`${mock.url}/token`, { ...request, headers: { ...request.headers, ...headers } });
+    };
+
+    expect((await (await refresh({})).json()).error).toBe('invalid_dpop_proof');
+    expect((await (await refresh({ DPoP: await proof('POST', `${mock.url}/token`, undefined, await generateKeyPair('ES256')) })).json()).error)
+      .toBe('invalid_dpop_proof');
+    const renewed = await refresh({ DPoP: await proof('POST', `${mock.url}/token`) });
+    expect(renewed.status).toBe(200);
+    expect((await renewed.json()).token_type).toBe('DPoP');
+  });
+});
+
+describe('mock stand-in scripts', () => {
+  async function freePort(): Promise<number> {
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const { port } = server.address() as net.AddressInfo;
+    await new Promise(resolve => server.close(resolve));
+    return port;
+  }
+
+  it('serves discovery when run standalone and stops on SIGTERM', async () => {
+    const port = await freePort();
+    const child = spawn(process.execPath, [fileURLToPath(new URL('./mock-auth-worker.mjs', import.meta.url))], {
+      env: { ...process.env, MOCK_AUTH_PORT: String(port) },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    const exited = new Promise<number | null>(resolve => child.on('exit', resolve));
+    try {
+      await new Promise<void>((resolve, reject) => {
+        child.stdout.on('data', chunk => { if (String(chunk).includes('Listening on')) resolve(); });
+        child.on('exit', code => reject(new Error(`Mock exited early with code ${code}`)));
+      });
+
+      const metadata = await (await fetch(`http://localhost:${port}/.well-known/openid-configuration`)).json();
+      expect(metadata.issuer).toBe(`http://localhost:${port}`);
+    } finally {
+      child.kill('SIGTERM');
+    }
+    expect(await exited).toBe(0);
+  });
+
+  it('starts the mock for `npm run dev:mock` and shuts it down with Next.js', async () => {
+    // `next dev --help` exits right away, which is enough to see the wiring without building the app
+    const child = spawn(process.execPath, [fileURLToPath(new URL('./dev-mock.mjs', import.meta.url)), '--help'], {
+      env: { ...process.env, MOCK_AUTH_PORT: '0' },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    let output = '';
+    child.stdout.on('data', chunk => { output += chunk; });
+
+    const code = await new Promise<number | null>(resolve => child.on('exit', resolve));
+
+    expect(code).toBe(0);
+    expect(output).toMatch(/\[mock-auth-worker\] Listening on http:\/\/localhost:\d+/);
+    expect(output).toContain('next dev');
+  });
+});
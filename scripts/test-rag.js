@@ -1,29 +1,70 @@
 // Test script for the RAG system
-// Run with: USER_ID=your-user-id node scripts/test-rag.js
+// Run with: MCP_PAT=mcp_pat_... node scripts/test-rag.js
+// using a personal access token with the mcp:data:read and mcp:data:write scopes (create one at /account/tokens).
+// Without MCP_PAT, ACCESS_TOKEN=your-access-token is used, and without either the script signs in as a device.
 
 // Import fetch for Node.js
 import fetch from 'node-fetch';
 
-async function testRag() {
-  // You need to replace this with your actual user ID
-  // Get it from localStorage.getItem('mcp_auth_state') and extract the supabaseUserId
-  const userId = process.env.USER_ID;
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const DEVICE_CLIENT_ID = 'test-rag-script';
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
 
-  if (!userId) {
-    console.error("Please set USER_ID environment variable to your Supabase User ID");
-    console.log("You can get this from browser localStorage under 'mcp_auth_state'");
-    process.exit(1);
+// Sign in with the device authorization grant (RFC 8628): approve the printed code in the browser
+async function getAccessTokenViaDevice() {
+  const authorizeResponse = await fetch(`${APP_URL}/api/device/authorize`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ client_id: DEVICE_CLIENT_ID, scope: 'mcp:data:read mcp:data:write' }).toString()
+  });
+  const authorization = await authorizeResponse.json();
+  if (!authorizeResponse.ok) {
+    throw new Error(`Device authorization failed: ${authorization.error_description || authorization.error}`);
+  }
+
+  console.log(`To sign in, open ${authorization.verification_uri_complete}`);
+  console.log(`or go to ${authorization.verification_uri} and enter the code ${authorization.user_code}`);
+
+  let interval = authorization.interval;
+  const deadline = Date.now() + authorization.expires_in * 1000;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, interval * 1000));
+    const tokenResponse = await fetch(`${APP_URL}/api/device/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: DEVICE_CODE_GRANT_TYPE,
+        device_code: authorization.device_code,
+        client_id: DEVICE_CLIENT_ID
+      }).toString()
+    });
+    const tokenData = await tokenResponse.json();
+    if (tokenResponse.ok) {
+      console.log(`Signed in (scope: ${tokenData.scope}).`);
+      return tokenData.access_token;
+    }
+    if (tokenData.error === 'slow_down') {
+      interval += 5;
+    } else if (tokenData.error !== 'authorization_pending') {
+      throw new Error(`Device sign-in failed: ${tokenData.error_description || tokenData.error}`);
+    }
   }
+  throw new Error('Device sign-in timed out.');
+}
+
+async function testRag() {
+  // The API routes derive the user from the token, so only a token is needed
+  const accessToken = process.env.MCP_PAT || process.env.ACCESS_TOKEN || await getAccessTokenViaDevice();
 
-  console.log(`Testing RAG with user ID: ${userId}`);
+  console.log(`Testing RAG with ${process.env.MCP_PAT ? 'the personal access token' : 'the obtained access token'}`);
 
   // Step 1: Create a source
   console.log("Creating test source...");
-  const sourceResponse = await fetch('http://localhost:3000/api/rag/sources', {
+  const sourceResponse = await fetch(`${APP_URL}/api/rag/sources`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'X-User-ID': userId
+      'Authorization': `Bearer ${accessToken}`
     },
     body: JSON.stringify({
       sourceType: 'test',
@@ -46,11 +87,11 @@ async function testRag() {
 
   // Step 2: Ingest a test document
   console.log("Ingesting test document...");
-  const ingestResponse = await fetch('http://localhost:3000/api/rag/ingest', {
+  const ingestResponse = await fetch(`${APP_URL}/api/rag/ingest`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'X-User-ID': userId
+      'Authorization': `Bearer ${accessToken}`
     },
     body: JSON.stringify({
       sourceId: sourceId,
@@ -75,11 +116,11 @@ async function testRag() {
 
   // Step 3: Test query
   console.log("Testing query...");
-  const queryResponse = await fetch('http://localhost:3000/api/rag/query', {
+  const queryResponse = await fetch(`${APP_URL}/api/rag/query`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'X-User-ID': userId
+      'Authorization': `Bearer ${accessToken}`
     },
     body: JSON.stringify({
       queryText: 'artificial intelligence',
@@ -0,0 +1,21 @@
+-- Server-side backend-for-frontend sessions (SESSION_STORE=supabase, see lib/auth/session-store.ts).
+-- The browser only holds an encrypted cookie with the session ID; the tokens live here.
+-- access_token and refresh_token are encrypted by the app (JWE, key derived from SESSION_SECRET)
+-- before they are written, so a database dump alone does not yield usable tokens.
+
+create table if not exists public.auth_sessions (
+    id uuid primary key,
+    access_token text not null,
+    refresh_token text,
+    expires_at timestamptz not null,
+    scope text,
+    supabase_user_id uuid references auth.users (id) on delete cascade,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists auth_sessions_supabase_user_id_idx
+    on public.auth_sessions (supabase_user_id);
+
+-- Only the service role (server routes) reads or writes sessions
+alter table public.auth_sessions enable row level security;
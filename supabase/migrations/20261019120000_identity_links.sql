@@ -0,0 +1,39 @@
+-- Durable links between sign-in identities (Hanko subjects) and Supabase users.
+-- Replaces the lookup through `auth.users.raw_app_meta_data ->> 'hanko_id'`.
+
+create table if not exists public.identity_links (
+    id uuid primary key default gen_random_uuid(),
+    provider text not null default 'hanko',
+    subject text not null,
+    supabase_user_id uuid not null references auth.users (id) on delete cascade,
+    email text,
+    created_at timestamptz not null default now(),
+    constraint identity_links_provider_subject_key unique (provider, subject)
+);
+
+create index if not exists identity_links_supabase_user_id_idx
+    on public.identity_links (supabase_user_id);
+
+-- Only the service role (server routes) reads or writes links
+alter table public.identity_links enable row level security;
+
+-- Carry over links recorded by earlier versions in app_metadata
+insert into public.identity_links (provider, subject, supabase_user_id, email)
+select 'hanko', u.raw_app_meta_data ->> 'hanko_id', u.id, u.email
+from auth.users u
+where u.raw_app_meta_data ? 'hanko_id'
+on conflict (provider, subject) do nothing;
+
+-- Exact, case-insensitive lookup of an auth user by email (listUsers cannot filter by email)
+create or replace function public.get_auth_user_id_by_email(lookup_email text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+    select id from auth.users where lower(email) = lower(lookup_email) limit 1;
+$$;
+
+revoke execute on function public.get_auth_user_id_by_email(text) from public, anon, authenticated;
+grant execute on function public.get_auth_user_id_by_email(text) to service_role;
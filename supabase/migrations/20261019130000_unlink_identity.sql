@@ -0,0 +1,31 @@
+-- Removes one linked identity from an account, refusing to remove the last one.
+-- Returns 'removed', 'not_found' (no such link on this account) or 'last_identity'.
+
+create or replace function public.unlink_identity(link_id uuid, owner_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+    remaining integer;
+begin
+    -- Lock the account's links so two concurrent unlinks cannot both pass the count check
+    perform 1 from public.identity_links where supabase_user_id = owner_id for update;
+
+    if not exists (select 1 from public.identity_links where id = link_id and supabase_user_id = owner_id) then
+        return 'not_found';
+    end if;
+
+    select count(*) into remaining from public.identity_links where supabase_user_id = owner_id;
+    if remaining <= 1 then
+        return 'last_identity';
+    end if;
+
+    delete from public.identity_links where id = link_id and supabase_user_id = owner_id;
+    return 'removed';
+end;
+$$;
+
+revoke execute on function public.unlink_identity(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.unlink_identity(uuid, uuid) to service_role;
@@ -0,0 +1,25 @@
+-- Pending device authorizations (RFC 8628), used when SESSION_STORE=supabase.
+-- Rows live for a few minutes: from the device's request until it collects its tokens.
+
+create table if not exists public.device_authorizations (
+    id text primary key, -- SHA-256 of the device code
+    user_code text not null unique,
+    client_id text not null,
+    scope text not null,
+    status text not null default 'pending' check (status in ('pending', 'approved', 'denied')),
+    supabase_user_id uuid references auth.users (id) on delete cascade,
+    access_token text,
+    refresh_token text,
+    token_expires_in integer,
+    granted_scope text,
+    interval integer not null,
+    last_polled_at timestamptz,
+    expires_at timestamptz not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists device_authorizations_expires_at_idx
+    on public.device_authorizations (expires_at);
+
+-- Only the service role (server routes) reads or writes device authorizations
+alter table public.device_authorizations enable row level security;
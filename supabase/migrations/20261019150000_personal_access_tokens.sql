@@ -0,0 +1,22 @@
+-- Personal access tokens for scripts and integrations.
+-- Only a SHA-256 hash of each token is stored; the token itself is shown to the user once.
+
+create table if not exists public.personal_access_tokens (
+    id uuid primary key default gen_random_uuid(),
+    supabase_user_id uuid not null references auth.users (id) on delete cascade,
+    name text not null,
+    token_hash text not null,
+    token_prefix text not null,
+    scopes text[] not null,
+    expires_at timestamptz,
+    last_used_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz not null default now(),
+    constraint personal_access_tokens_token_hash_key unique (token_hash)
+);
+
+create index if not exists personal_access_tokens_supabase_user_id_idx
+    on public.personal_access_tokens (supabase_user_id);
+
+-- Only the service role (server routes) reads or writes tokens
+alter table public.personal_access_tokens enable row level security;
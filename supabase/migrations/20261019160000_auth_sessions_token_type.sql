@@ -0,0 +1,6 @@
+-- Records how a session's access token must be presented to the mcp-worker:
+-- 'DPoP' when the auth-worker bound it to the browser's DPoP key, 'Bearer' otherwise.
+
+alter table public.auth_sessions
+    add column if not exists token_type text not null default 'Bearer'
+    check (token_type in ('Bearer', 'DPoP'));
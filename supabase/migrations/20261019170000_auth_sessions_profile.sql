@@ -0,0 +1,5 @@
+-- Profile of the signed-in user (subject, email, name, picture) from the validated OIDC
+-- id_token and userinfo, so the session summary can include it without another round trip.
+
+alter table public.auth_sessions
+    add column if not exists profile jsonb;
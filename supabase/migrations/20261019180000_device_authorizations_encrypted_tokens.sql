@@ -0,0 +1,6 @@
+-- Device tokens are now encrypted by the app (JWE, key derived from SESSION_SECRET) before they are
+-- written, like the tokens in auth_sessions. Rows written before hold them in plaintext: drop those.
+-- Their devices get invalid_grant on the next poll and start a new device authorization.
+
+delete from public.device_authorizations
+    where access_token is not null or refresh_token is not null;
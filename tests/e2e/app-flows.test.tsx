@@ -0,0 +1,716 @@
+// @vitest-environment happy-dom
+// @vitest-environment-options { "settings": { "fetch": { "disableSameOriginPolicy": true } } }
+/**
+ * @description
+ * End-to-end flows through the app's pages against the mock stand-ins: the mock auth-worker
+ * (which also serves the mcp-worker and Hanko APIs) and the Supabase, RAG service and LLM
+ * backend stand-ins. Each visit runs the middleware and the section layout like the server
+ * would, then renders the page in happy-dom inside the root layout's providers; the page's
+ * requests reach the app's route handlers through a browser with a cookie jar (see ./browser),
+ * and the tests assert on what the user sees.
+ *
+ * Covered: the route policy (login redirect and return, ended sessions, the 403 page), login
+ * (including a forged callback and an expired verifier), account linking, the RAG source pages,
+ * ingest, search, insights, saving the vault, a failed step-up, approving a device, revoking an
+ * authorized app and signing out.
+ *
+ * @notes
+ * - Every test starts with a new browser and no RAG, LLM or vault data; the tests under
+ *   `signed in` sign in first and seed the stand-ins with whatever else they need. There is one
+ *   mock user, so the Supabase user and link from the first login carry over.
+ * - Environment variables are set before the app's modules are imported, since several of them
+ *   read their configuration at load time.
+ * - Navigation is simulated: `window.location.href` assignments are captured so the test can
+ *   follow the redirect through the auth-worker, and `next/navigation` and `next/headers` read
+ *   the current URL and the browser's cookies.
+ * - The route handlers share the page's globals, so their requests to the stand-ins go through
+ *   happy-dom's `fetch` too; its same-origin policy is off, as a server is not bound by it.
+ * - The suite runs twice (see vitest.config.mts): with bearer tokens, and with `E2E_DPOP` set against
+ *   a mock auth-worker that advertises DPoP, so the session's tokens are bound to a key the browser
+ *   keeps in IndexedDB (fake-indexeddb here).
+ */
+
+import 'fake-indexeddb/auto';
+import React from 'react';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, configure, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { randomBytes } from 'node:crypto';
+import { NextRequest } from 'next/server';
+import { toast } from 'sonner';
+import { startMockAuthWorker } from '../../scripts/mock-auth-worker.mjs';
+import { APP_URL, TestBrowser, type BoundRouteHandler, type RouteContext } from './browser';
+import {
+    startLlmBackendStandIn,
+    startRagServiceStandIn,
+    startSupabaseStandIn,
+    type StandIn,
+    type SupabaseState,
+    type RagServiceState,
+} from './stand-ins';
+
+// What the server sees of the request being rendered, for `next/headers`
+const server = vi.hoisted(() => ({
+    cookies: new Map<string, string>(),
+    headers: new Headers(),
+}));
+
+// Thrown by the mocked redirect() and forbidden(), like Next.js interrupts a render
+const navigation = vi.hoisted(() => {
+    class NavigationInterrupt extends Error {
+        constructor(readonly kind: 'redirect' | 'forbidden', readonly location = '') {
+            super(`${kind} ${location}`);
+        }
+    }
+    return { replace: vi.fn(), NavigationInterrupt };
+});
+
+// No App Router is mounted: the hooks read the URL the test navigated to
+vi.mock('next/navigation', async () => {
+    const { useMemo } = await import('react');
+    return {
+        useSearchParams: () => {
+            const search = window.location.search;
+            return useMemo(() => new URLSearchParams(search), [search]);
+        },
+        usePathname: () => window.location.pathname,
+        useRouter: () => ({ replace: navigation.replace, push: navigation.replace }),
+        redirect: (location: string) => {
+            throw new navigation.NavigationInterrupt('redirect', location);
+        },
+        forbidden: () => {
+            throw new navigation.NavigationInterrupt('forbidden');
+        },
+    };
+});
+
+vi.mock('next/headers', () => ({
+    cookies: async () => ({
+        get: (name: string) => server.cookies.has(name) ? { name, value: server.cookies.get(name)! } : undefined,
+    }),
+    headers: async () => server.headers,
+}));
+
+const RAG_API_KEY = 'e2e-rag-key';
+const MOCK_USER_ID = '00000000-0000-4000-8000-0000000000e2';
+const MOCK_USER_EMAIL = 'e2e@example.com';
+const NO_PARAMS: RouteContext = { params: {} };
+const DPOP = process.env.E2E_DPOP === 'true';
+
+let authWorker: Awaited<ReturnType<typeof startMockAuthWorker>>;
+let supabase: StandIn<SupabaseState>;
+let ragService: StandIn<RagServiceState>;
+let llmBackend: StandIn<null>;
+let routes: Awaited<ReturnType<typeof importRoutes>>;
+let app: Awaited<ReturnType<typeof importApp>>;
+
+async function importRoutes() {
+    return {
+        authorize: await import('@/app/api/auth/authorize/route'),
+        token: await import('@/app/api/auth/token/route'),
+        session: await import('@/app/api/auth/session/route'),
+        sessionProfile: await import('@/app/api/auth/session/profile/route'),
+        logout: await import('@/app/api/auth/logout/route'),
+        linkSupabase: await import('@/app/api/auth/link-supabase/route'),
+        sources: await import('@/app/api/rag/sources/route'),
+        source: await import('@/app/api/rag/sources/[id]/route'),
+        ingest: await import('@/app/api/rag/ingest/route'),
+        query: await import('@/app/api/rag/query/route'),
+        insights: await import('@/app/api/insights/route'),
+        mcp: await import('@/app/api/mcp/[...path]/route'),
+        deviceAuthorize: await import('@/app/api/device/authorize/route'),
+        deviceToken: await import('@/app/api/device/token/route'),
+        deviceVerify: await import('@/app/api/device/verify/route'),
+        accountApps: await import('@/app/api/account/apps/route'),
+        accountApp: await import('@/app/api/account/apps/[id]/route'),
+    };
+}
+
+async function importApp() {
+    return {
+        middleware: (await import('@/middleware')).middleware,
+        AuthProvider: (await import('@/context/auth-context')).AuthProvider,
+        Header: (await import('@/components/layout/header')).Header,
+        Toaster: (await import('@/components/ui/sonner')).Toaster,
+        Forbidden: (await import('@/app/forbidden')).default,
+        ClientPage: (await import('@/app/client/page')).default,
+        DevicePage: (await import('@/app/device/page')).default,
+        DeviceLayout: (await import('@/app/device/layout')).default,
+        SourcesPage: (await import('@/app/rag/sources/page')).default,
+        IngestPage: (await import('@/app/rag/ingest/page')).default,
+        SearchPage: (await import('@/app/rag/search/page')).default,
+        RagLayout: (await import('@/app/rag/layout')).default,
+        InsightsPage: (await import('@/app/insights/page')).default,
+        InsightsLayout: (await import('@/app/insights/layout')).default,
+        AuthorizedAppsPage: (await import('@/app/account/apps/page')).default,
+        AccountLayout: (await import('@/app/account/layout')).default,
+        VaultEditor: (await import('@/components/vault/vault-editor')).VaultEditor,
+        MemorySessionStore: (await import('@/lib/auth/session-store')).MemorySessionStore,
+        requestScopes: (await import('@/lib/mcp/client')).requestScopes,
+        DEFAULT_POST_LOGIN_PATH: (await import('@/lib/constants')).DEFAULT_POST_LOGIN_PATH,
+        MCP_SCOPE_DATA_WRITE: (await import('@/lib/constants')).MCP_SCOPE_DATA_WRITE,
+    };
+}
+
+/** The app's route table: which handler serves a same-origin request. */
+function resolveRoute(method: string, pathname: string): BoundRouteHandler | null {
+    const staticRoutes: Record<string, BoundRouteHandler> = {
+        'POST /api/auth/authorize': req => routes.authorize.POST(req),
+        'POST /api/auth/token': req => routes.token.POST(req),
+        'GET /api/auth/session': req => routes.session.GET(req),
+        'DELETE /api/auth/session': req => routes.session.DELETE(req),
+        'POST /api/auth/session/profile': req => routes.sessionProfile.POST(req),
+        'POST /api/auth/logout': req => routes.logout.POST(req),
+        'POST /api/auth/link-supabase': req => routes.linkSupabase.POST(req),
+        'GET /api/rag/sources': req => routes.sources.GET(req, NO_PARAMS),
+        'POST /api/rag/sources': req => routes.sources.POST(req, NO_PARAMS),
+        'POST /api/rag/ingest': req => routes.ingest.POST(req, NO_PARAMS),
+        'POST /api/rag/query': req => routes.query.POST(req, NO_PARAMS),
+        'POST /api/insights': req => routes.insights.POST(req, NO_PARAMS),
+        'POST /api/device/authorize': req => routes.deviceAuthorize.POST(req),
+        'POST /api/device/token': req => routes.deviceToken.POST(req),
+        'GET /api/device/verify': req => routes.deviceVerify.GET(req, NO_PARAMS),
+        'POST /api/device/verify': req => routes.deviceVerify.POST(req, NO_PARAMS),
+        'GET /api/account/apps': req => routes.accountApps.GET(req, NO_PARAMS),
+    };
+    const staticRoute = staticRoutes[`${method} ${pathname}`];
+    if (staticRoute) {
+        return staticRoute;
+    }
+
+    const sourceId = pathname.match(/^\/api\/rag\/sources\/([^/]+)$/)?.[1];
+    if (sourceId) {
+        const context = { params: { id: decodeURIComponent(sourceId) } };
+        if (method === 'GET') return req => routes.source.GET(req, context);
+        if (method === 'PUT') return req => routes.source.PUT(req, context);
+        if (method === 'DELETE') return req => routes.source.DELETE(req, context);
+        return null;
+    }
+
+    const grantId = pathname.match(/^\/api\/account\/apps\/([^/]+)$/)?.[1];
+    if (grantId) {
+        const context = { params: { id: decodeURIComponent(grantId) } };
+        return method === 'DELETE' ? req => routes.accountApp.DELETE(req, context) : null;
+    }
+
+    const mcpPath = pathname.match(/^\/api\/mcp\/(.+)$/)?.[1];
+    if (mcpPath) {
+        const context = { params: { path: mcpPath.split('/').map(decodeURIComponent) } };
+        return req => routes.mcp.GET(req, context); // One proxy handler serves every method
+    }
+    return null;
+}
+
+type SectionLayout = (props: { children: React.ReactNode }) => Promise<React.ReactElement>;
+
+/** The app's pages, each with the section layout it renders in. */
+function resolvePage(pathname: string): { page: React.ReactElement; layout?: SectionLayout } {
+    const pages: Record<string, { page: React.ReactElement; layout?: SectionLayout }> = {
+        '/client': { page: <app.ClientPage /> },
+        '/device': { page: <app.DevicePage />, layout: app.DeviceLayout },
+        '/rag/sources': { page: <app.SourcesPage />, layout: app.RagLayout },
+        '/rag/ingest': { page: <app.IngestPage />, layout: app.RagLayout },
+        '/rag/search': { page: <app.SearchPage />, layout: app.RagLayout },
+        '/insights': { page: <app.InsightsPage />, layout: app.InsightsLayout },
+        '/account/apps': { page: <app.AuthorizedAppsPage />, layout: app.AccountLayout },
+    };
+    const match = pages[pathname];
+    if (!match) {
+        throw new Error(`No page for ${pathname} in the test's page table`);
+    }
+    return match;
+}
+
+// --- Browser ---
+
+let browser: TestBrowser;
+const hrefAssignments = vi.fn<(url: string) => void>();
+
+/** Shows `ui` at the current URL, inside the root layout's providers. */
+function renderInApp(ui: React.ReactElement) {
+    cleanup();
+    const { AuthProvider, Header, Toaster } = app;
+    return render(
+        <AuthProvider>
+            <Header />
+            <main>{ui}</main>
+            <Toaster />
+        </AuthProvider>
+    );
+}
+
+/**
+ * Navigates to `path` like a full page load: the middleware runs, then the section layout
+ * renders around the page. Redirects from either are followed; `forbidden()` shows the 403 page.
+ */
+async function visit(path: string): Promise<void> {
+    const url = new URL(path, APP_URL);
+    const request = new NextRequest(url);
+    browser.cookies.forEach((value, name) => request.cookies.set(name, value));
+    const middlewareResponse = await app.middleware(request);
+    const location = middlewareResponse.headers.get('location');
+    if (location) {
+        return visit(location);
+    }
+
+    // The request headers the middleware passes on to the render
+    server.cookies = new Map(browser.cookies);
+    server.headers = new Headers();
+    middlewareResponse.headers.forEach((value, name) => {
+        if (name.startsWith('x-middleware-request-')) {
+            server.headers.set(name.slice('x-middleware-request-'.length), value);
+        }
+    });
+
+    window.history.replaceState(null, '', `${url.pathname}${url.search}`);
+    const { page, layout } = resolvePage(url.pathname);
+    let ui = page;
+    if (layout) {
+        try {
+            ui = await layout({ children: page });
+        } catch (error) {
+            if (!(error instanceof navigation.NavigationInterrupt)) throw error;
+            if (error.kind === 'redirect') {
+                return visit(error.location);
+            }
+            ui = <app.Forbidden />;
+        }
+    }
+    renderInApp(ui);
+}
+
+/**
+ * Starts a login (by clicking a control, or with `start`) and follows the browser through the
+ * auth-worker, which redirects straight back with a code.
+ * @returns The callback URL the auth-worker sent the browser to.
+ */
+async function authorizeWith(start: HTMLElement | (() => Promise<void>)): Promise<URL> {
+    hrefAssignments.mockClear();
+    if (start instanceof HTMLElement) {
+        fireEvent.click(start);
+    } else {
+        await start();
+    }
+    await waitFor(() => expect(hrefAssignments).toHaveBeenCalled());
+    const redirect = await fetch(hrefAssignments.mock.calls[0][0], { redirect: 'manual' });
+    expect(redirect.status).toBe(302);
+    const callback = new URL(redirect.headers.get('location')!);
+    expect(callback.pathname).toBe('/client');
+    return callback;
+}
+
+/** Opens the callback URL and waits for the callback page to send the browser on to `returnTo`. */
+async function completeLogin(callback: URL, returnTo = app.DEFAULT_POST_LOGIN_PATH): Promise<void> {
+    navigation.replace.mockClear();
+    await visit(`${callback.pathname}${callback.search}`);
+    await waitFor(() => expect(navigation.replace).toHaveBeenCalledWith(returnTo));
+    window.history.replaceState(null, '', returnTo); // A client-side navigation keeps the page state
+}
+
+/**
+ * Signs in from the login page. The login button asks for the default scopes; with
+ * `extraScopes` the login starts the way a "Request access" notice does instead.
+ */
+async function signIn(extraScopes: string[] = []): Promise<void> {
+    await visit('/client');
+    const loginButton = await screen.findByRole('button', { name: 'Login with MCP' });
+    await completeLogin(await authorizeWith(extraScopes.length > 0 ? () => app.requestScopes(extraScopes, null) : loginButton));
+}
+
+/** Waits until the login linked the user, and returns their Supabase user ID. */
+async function linkedUserId(): Promise<string> {
+    await waitFor(() => expect(supabase.state.tables.get('identity_links')).toHaveLength(1));
+    return String(supabase.state.tables.get('identity_links')![0].supabase_user_id);
+}
+
+beforeAll(async () => {
+    authWorker = await startMockAuthWorker({ port: 0, quiet: true, userId: MOCK_USER_ID, userEmail: MOCK_USER_EMAIL, dpop: DPOP });
+    supabase = await startSupabaseStandIn();
+    ragService = await startRagServiceStandIn(RAG_API_KEY);
+    llmBackend = await startLlmBackendStandIn();
+
+    Object.assign(process.env, {
+        NEXT_PUBLIC_AUTH_WORKER_URL: authWorker.url,
+        NEXT_PUBLIC_OAUTH_ISSUER_URL: authWorker.url,
+        NEXT_PUBLIC_MCP_WORKER_URL: authWorker.url,
+        NEXT_PUBLIC_HANKO_API_URL: `${authWorker.url}/hanko`,
+        NEXT_PUBLIC_SUPABASE_URL: supabase.url,
+        NEXT_PUBLIC_SUPABASE_ANON_KEY: 'e2e-anon-key',
+        NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY: 'e2e-service-role-key',
+        NEXT_PUBLIC_RAG_SERVICE_URL: ragService.url,
+        RAG_SERVICE_API_KEY: RAG_API_KEY,
+        LLM_BACKEND_URL: llmBackend.url,
+        SESSION_STORE: 'memory',
+        SESSION_SECRET: randomBytes(32).toString('hex'),
+    });
+    routes = await importRoutes();
+    app = await importApp();
+
+    // The page leaves for the auth-worker by assigning the location; the test follows instead
+    vi.spyOn(window.location, 'href', 'set').mockImplementation(hrefAssignments);
+    // A step can wait on several route handlers and stand-ins, which takes longer than the 1s default on a busy machine
+    configure({ asyncUtilTimeout: 10000 });
+});
+
+beforeEach(() => {
+    ragService.state.sources.clear();
+    ragService.state.documents.length = 0;
+    llmBackend.requests.length = 0;
+    authWorker.state.vault.clear();
+
+    browser = new TestBrowser(resolveRoute);
+    vi.stubGlobal('fetch', browser.fetch);
+    sessionStorage.clear();
+});
+
+afterEach(() => {
+    cleanup();
+    // Sonner keeps undismissed toasts in a module-level store and replays them to the next Toaster
+    toast.dismiss();
+});
+
+afterAll(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await Promise.all([authWorker?.close(), supabase?.close(), ragService?.close(), llmBackend?.close()]);
+});
+
+describe('route policy', () => {
+    it('sends a signed-out visitor of a protected page to the login and back to the page afterwards', async () => {
+        await visit('/rag/sources');
+
+        expect(`${window.location.pathname}${window.location.search}`).toBe('/client?returnTo=%2Frag%2Fsources');
+        const callback = await authorizeWith(await screen.findByRole('button', { name: 'Login with MCP' }));
+        await completeLogin(callback, '/rag/sources');
+
+        await visit('/rag/sources');
+        expect(await screen.findByText(/No data sources found/)).toBeTruthy();
+    });
+
+    it('sends a visitor whose session has ended to the login', async () => {
+        browser.cookies.set('mcp_session', 'ended-session'); // The middleware only sees that there is a cookie
+
+        await visit('/insights?tab=history');
+
+        expect(`${window.location.pathname}${window.location.search}`).toBe(`/client?returnTo=${encodeURIComponent('/insights?tab=history')}`);
+        expect(await screen.findByRole('button', { name: 'Login with MCP' })).toBeTruthy();
+    });
+
+    it('shows the 403 page when the session was not granted the scope a section requires', async () => {
+        await visit('/client');
+        const callback = await authorizeWith(await screen.findByRole('button', { name: 'Login with MCP' }));
+        // The user declined the data permission on the consent screen
+        authWorker.state.codes.get(callback.searchParams.get('code')!)!.scope = 'openid email offline_access';
+        await completeLogin(callback);
+
+        await visit('/rag/search');
+
+        expect(await screen.findByText('403 – Access denied')).toBeTruthy();
+        expect(screen.queryByLabelText('Search Query')).toBeNull();
+    });
+});
+
+describe('login', () => {
+    it('rejects a login start whose body is not a JSON object', async () => {
+        for (const body of ['null', '"openid"', '[]']) {
+            const response = await browser.fetch('/api/auth/authorize', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+            expect(response.status).toBe(400);
+            expect(await response.json()).toMatchObject({ error: 'invalid_request' });
+        }
+        expect(browser.cookies.has('mcp_authorization_request')).toBe(false);
+    });
+
+    it('rejects a callback whose state does not match the login this browser started', async () => {
+        await visit('/client');
+        const callback = await authorizeWith(await screen.findByRole('button', { name: 'Login with MCP' }));
+        const code = callback.searchParams.get('code')!;
+
+        // A link crafted by someone else, carrying their state
+        await visit(`/client?code=${encodeURIComponent(code)}&state=forged-state`);
+
+        expect(await screen.findByText('Authentication Failed')).toBeTruthy();
+        expect(screen.getByText('State mismatch.')).toBeTruthy();
+        expect(browser.cookies.has('mcp_session')).toBe(false);
+        // The code never reached the auth-worker, so it was not spent
+        expect(authWorker.state.codes.get(code)?.used).toBe(false);
+    });
+
+    it('reports a missing verifier when the authorization request cookie is gone', async () => {
+        await visit('/client');
+        const callback = await authorizeWith(await screen.findByRole('button', { name: 'Login with MCP' }));
+        browser.cookies.delete('mcp_authorization_request'); // Expired, or the callback opened in another browser
+
+        await visit(`${callback.pathname}${callback.search}`);
+
+        expect((await screen.findAllByText(/No authorization request in progress/)).length).toBeGreaterThan(0); // Toast and page
+        expect(screen.getByText('Authentication Failed')).toBeTruthy();
+        expect(browser.cookies.has('mcp_session')).toBe(false);
+    });
+
+    it('reports a session store failure and revokes the tokens it could not keep', async () => {
+        await visit('/client');
+        const callback = await authorizeWith(await screen.findByRole('button', { name: 'Login with MCP' }));
+        const refreshTokens = new Set(authWorker.state.refreshTokens.keys());
+        const storeSet = vi.spyOn(app.MemorySessionStore.prototype, 'set').mockRejectedValueOnce(new Error('store unavailable'));
+
+        try {
+            await visit(`${callback.pathname}${callback.search}`);
+            expect((await screen.findAllByText('Failed to store the session.')).length).toBeGreaterThan(0); // Toast and page
+        } finally {
+            storeSet.mockRestore();
+        }
+        expect(browser.cookies.has('mcp_session')).toBe(false);
+        const issued = [...authWorker.state.refreshTokens].filter(([token]) => !refreshTokens.has(token));
+        expect(issued).toEqual([[expect.any(String), expect.objectContaining({ revoked: true })]]);
+    });
+
+    it('signs in and links the identity to a Supabase user', async () => {
+        await signIn();
+
+        expect(await screen.findByText('Authentication Successful')).toBeTruthy();
+        expect(screen.getByText('authenticated')).toBeTruthy(); // Status
+        expect(browser.cookies.has('mcp_session')).toBe(true);
+        expect(screen.queryByText(/access_token/)).toBeNull(); // Tokens stay server-side
+        // With DPoP they are bound to the key this browser keeps, so a copy of them alone is useless
+        expect([...authWorker.state.refreshTokens.values()].at(-1)!.jkt).toEqual(DPOP ? expect.any(String) : null);
+        const userId = await linkedUserId();
+        expect(supabase.state.users).toEqual([{ id: userId, email: MOCK_USER_EMAIL }]);
+        expect(supabase.state.tables.get('identity_links')).toEqual([
+            expect.objectContaining({ provider: 'hanko', subject: MOCK_USER_ID, supabase_user_id: userId }),
+        ]);
+        // The header's profile menu shows who is signed in, from the validated id_token and userinfo
+        fireEvent.click(screen.getByRole('button', { name: 'Open profile menu' }));
+        expect(await screen.findByText('Dev User')).toBeTruthy(); // With DPoP, userinfo is called with the browser's proof
+        expect(screen.getByText(MOCK_USER_EMAIL)).toBeTruthy();
+    });
+});
+
+describe('signed in', () => {
+    it('adds, disables and deletes a RAG source on the sources page', async () => {
+        await signIn([app.MCP_SCOPE_DATA_WRITE]);
+        const userId = await linkedUserId();
+
+        await visit('/rag/sources');
+        expect(await screen.findByText(/No data sources found/)).toBeTruthy();
+        fireEvent.click(screen.getByRole('button', { name: 'Add New Source' }));
+        const dialog = await screen.findByRole('dialog');
+        fireEvent.change(within(dialog).getByLabelText('Source Type *'), { target: { value: 'notes' } });
+        fireEvent.change(within(dialog).getByLabelText('Source Identifier'), { target: { value: 'e2e' } });
+        fireEvent.click(within(dialog).getByRole('button', { name: 'Add Source' }));
+
+        expect(await screen.findByText('Data source added successfully!')).toBeTruthy();
+        expect(await screen.findByRole('cell', { name: 'e2e' })).toBeTruthy();
+        // The source belongs to the linked user, whatever the page sent
+        expect([...ragService.state.sources.values()]).toEqual([
+            expect.objectContaining({ sourceIdentifier: 'e2e', userId }),
+        ]);
+
+        fireEvent.click(screen.getByRole('switch', { name: 'Disable Source' }));
+        expect(await screen.findByText('Source disabled.')).toBeTruthy();
+        expect(await screen.findByRole('switch', { name: 'Enable Source' })).toBeTruthy();
+
+        fireEvent.click(screen.getByTitle('Delete Source'));
+        const confirmation = await screen.findByRole('alertdialog');
+        fireEvent.click(within(confirmation).getByRole('button', { name: 'Delete Source' }));
+
+        expect(await screen.findByText('Source deleted successfully.')).toBeTruthy();
+        expect(await screen.findByText(/No data sources found/)).toBeTruthy();
+        expect(ragService.state.sources.size).toBe(0);
+    });
+
+    it('ingests content into a source on the ingest page', async () => {
+        await signIn([app.MCP_SCOPE_DATA_WRITE]);
+        const userId = await linkedUserId();
+        ragService.state.sources.set('source-1', { id: 'source-1', userId, sourceType: 'notes', sourceIdentifier: 'reports', enabled: true });
+
+        await visit('/rag/ingest');
+        fireEvent.keyDown(await screen.findByRole('combobox'), { key: 'Enter' });
+        fireEvent.click(await screen.findByRole('option', { name: 'notes: reports' }));
+        fireEvent.change(screen.getByLabelText('Document ID *'), { target: { value: 'doc-1' } });
+        fireEvent.change(screen.getByLabelText('Content *'), { target: { value: 'The quarterly report is due on Friday.' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Ingest Content' }));
+
+        expect(await screen.findByText('Content Ingested Successfully')).toBeTruthy();
+        expect(screen.getByText('1 chunks created for document ID: doc-1')).toBeTruthy();
+        expect(ragService.state.documents).toEqual([
+            expect.objectContaining({ userId, sourceId: 'source-1', documentId: 'doc-1' }),
+        ]);
+    });
+
+    it("finds the linked user's content on the search page", async () => {
+        await signIn();
+        const userId = await linkedUserId();
+        ragService.state.documents.push(
+            { userId, sourceId: 'source-1', sourceType: 'notes', documentId: 'doc-1', content: 'The quarterly report is due on Friday.' },
+            { userId: 'another-user', sourceId: 'source-2', sourceType: 'notes', documentId: 'doc-2', content: 'Their quarterly numbers.' },
+        );
+
+        await visit('/rag/search');
+        fireEvent.change(await screen.findByLabelText('Search Query'), { target: { value: 'quarterly' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+
+        expect(await screen.findByText('Results (1)')).toBeTruthy();
+        expect(screen.getByText('The quarterly report is due on Friday.')).toBeTruthy();
+        expect(screen.getByText(/Doc: doc-1/)).toBeTruthy();
+    });
+
+    it('shows insights the LLM backend generated for the linked user', async () => {
+        await signIn();
+        const userId = await linkedUserId();
+
+        await visit('/insights');
+        fireEvent.change(await screen.findByLabelText('Query'), { target: { value: 'What is due?' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Generate Insights' }));
+
+        expect(await screen.findByText('Insights for: "What is due?"')).toBeTruthy();
+        expect(screen.getByText(/Mock summary for/)).toBeTruthy();
+        expect(screen.getByText('Insights generated successfully')).toBeTruthy();
+        const forwarded = llmBackend.requests.at(-1)!;
+        expect(forwarded.path).toBe('/insights');
+        expect(forwarded.headers['x-user-id']).toBe(userId);
+        if (DPOP) {
+            expect(forwarded.headers.authorization).toBeUndefined(); // Useless without the browser's key
+        } else {
+            expect(forwarded.headers.authorization).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/);
+        }
+    });
+
+    it('asks for write access from the vault editor, then saves the vault and loads it again', async () => {
+        await signIn();
+        // No page mounts the editor yet, so it is shown on its own, at the dashboard's URL
+        renderInApp(<app.VaultEditor />);
+        expect(await screen.findByText(/To save vault data, you need the/)).toBeTruthy();
+        expect(screen.getByRole<HTMLButtonElement>('button', { name: 'Save Vault Data' }).disabled).toBe(true);
+
+        // Step-up: the login that comes back grants the extra scope and returns to the editor
+        const stepUp = await authorizeWith(screen.getByRole('button', { name: 'Request access' }));
+        await completeLogin(stepUp, app.DEFAULT_POST_LOGIN_PATH);
+
+        // Seeded so the editor's load is observable: it only fetches once the session is restored
+        authWorker.state.vault.set(MOCK_USER_ID, { notes: 'Draft' });
+        const vaultData = { notes: 'Remember the report' };
+        renderInApp(<app.VaultEditor />);
+        await waitFor(() => expect(JSON.parse(screen.getByRole<HTMLTextAreaElement>('textbox').value)).toEqual({ notes: 'Draft' }));
+        await waitFor(() => expect(screen.getByRole<HTMLButtonElement>('button', { name: 'Save Vault Data' }).disabled).toBe(false));
+        expect(screen.queryByRole('button', { name: 'Request access' })).toBeNull();
+        fireEvent.change(screen.getByRole('textbox'), { target: { value: JSON.stringify(vaultData) } });
+        fireEvent.click(screen.getByRole('button', { name: 'Save Vault Data' }));
+
+        expect(await screen.findByText('Vault Saved')).toBeTruthy();
+        expect(authWorker.state.vault.get(MOCK_USER_ID)).toMatchObject(vaultData);
+
+        renderInApp(<app.VaultEditor />);
+        await waitFor(async () => expect(JSON.parse((await screen.findByRole<HTMLTextAreaElement>('textbox')).value)).toMatchObject(vaultData));
+    });
+
+    it('keeps the session working when a step-up login fails', async () => {
+        await signIn();
+        authWorker.state.vault.set(MOCK_USER_ID, { notes: 'Draft' });
+
+        const stepUp = await authorizeWith(() => app.requestScopes([app.MCP_SCOPE_DATA_WRITE], null));
+        // Someone else redeemed the code before the callback reached the app
+        authWorker.state.codes.get(stepUp.searchParams.get('code')!)!.used = true;
+        await visit(`${stepUp.pathname}${stepUp.search}`);
+        expect(await screen.findByText('Authentication Failed')).toBeTruthy();
+
+        // The session's tokens, and with DPoP the key they are bound to, are still the ones from the first login
+        history.replaceState(null, '', app.DEFAULT_POST_LOGIN_PATH);
+        renderInApp(<app.VaultEditor />);
+        await waitFor(() => expect(JSON.parse(screen.getByRole<HTMLTextAreaElement>('textbox').value)).toEqual({ notes: 'Draft' }));
+        expect(screen.queryByText('Failed to Load Vault')).toBeNull();
+    });
+
+    it('keeps a device pending when its approval fails and approves it on a retry', async () => {
+        await signIn();
+        // The agent starts a device authorization; the user opens verification_uri_complete
+        const agent = new TestBrowser(resolveRoute);
+        const malformed = await agent.fetch('/api/device/authorize', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: 'null' });
+        expect(malformed.status).toBe(400);
+        expect(await malformed.json()).toMatchObject({ error: 'invalid_request' });
+        const started = await agent.fetch('/api/device/authorize', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ client_id: 'e2e-agent' }),
+        });
+        const { device_code: deviceCode, verification_uri_complete: verificationUri } = await started.json();
+        const devicePath = verificationUri.slice(APP_URL.length);
+
+        await visit(devicePath);
+        expect(await screen.findByText('Approve this device?')).toBeTruthy();
+        const intercepted = await authorizeWith(screen.getByRole('button', { name: 'Approve' }));
+        // Someone else redeemed the code before the callback reached the app
+        authWorker.state.codes.get(intercepted.searchParams.get('code')!)!.used = true;
+        navigation.replace.mockClear();
+        await visit(`${intercepted.pathname}${intercepted.search}`);
+
+        expect(await screen.findByText('Device Approval Failed')).toBeTruthy();
+        await waitFor(() => expect(navigation.replace).toHaveBeenCalledWith('/device?result=failed'));
+
+        // An ID token from another round trip is rejected, and the tokens are not bound to the device
+        await visit(devicePath);
+        const substituted = await authorizeWith(await screen.findByRole('button', { name: 'Approve' }));
+        const substitutedCode = authWorker.state.codes.get(substituted.searchParams.get('code')!)!;
+        substitutedCode.scope = `${substitutedCode.scope} openid`;
+        substitutedCode.nonce = 'nonce-of-another-login';
+        navigation.replace.mockClear();
+        await visit(`${substituted.pathname}${substituted.search}`);
+
+        expect(await screen.findByText('Device Approval Failed')).toBeTruthy();
+        await waitFor(() => expect(navigation.replace).toHaveBeenCalledWith('/device?result=failed'));
+
+        // Still pending, so the user can try again
+        await visit(devicePath);
+        const approval = await authorizeWith(await screen.findByRole('button', { name: 'Approve' }));
+        navigation.replace.mockClear();
+        await visit(`${approval.pathname}${approval.search}`);
+
+        expect(await screen.findByText('Device Approved')).toBeTruthy();
+        await waitFor(() => expect(navigation.replace).toHaveBeenCalledWith('/device?result=approved'));
+        await visit('/device?result=approved');
+        expect(await screen.findByText('Device connected')).toBeTruthy();
+
+        // The agent's next poll picks up its tokens
+        const polled = await agent.fetch('/api/device/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:device_code', device_code: deviceCode, client_id: 'e2e-agent' }).toString(),
+        });
+        expect(polled.status).toBe(200);
+        expect(await polled.json()).toMatchObject({ token_type: 'Bearer', scope: 'mcp:data:read offline_access' });
+    });
+
+    it('lists the authorized apps and revokes one', async () => {
+        await signIn();
+        const agentGrantId = 'e2e-agent-grant';
+        authWorker.state.grants.set(agentGrantId, {
+            clientId: 'e2e-agent', scope: 'mcp:data:read offline_access', createdAt: Date.now(), lastUsedAt: Date.now(), revoked: false,
+        });
+
+        await visit('/account/apps');
+        const agentRow = (await screen.findByText('e2e-agent')).closest('li')!;
+        expect(within(screen.getByText('This app').closest('li')!).getByText('MCP Auth Demo')).toBeTruthy();
+
+        fireEvent.click(within(agentRow).getByRole('button', { name: 'Revoke access' }));
+        fireEvent.click(await screen.findByRole('button', { name: 'Revoke' }));
+
+        expect(await screen.findByText('Access revoked')).toBeTruthy();
+        await waitFor(() => expect(screen.queryByText('e2e-agent')).toBeNull());
+        expect(authWorker.state.grants.get(agentGrantId)!.revoked).toBe(true);
+        expect(browser.cookies.has('mcp_session')).toBe(true); // Another app's grant, so the session stays
+    });
+
+    it('signs out from the profile menu', async () => {
+        await signIn();
+
+        await visit('/rag/sources');
+        fireEvent.click(await screen.findByRole('button', { name: 'Open profile menu' }));
+        const signOutButton = await screen.findByRole('button', { name: 'Sign out' });
+        await act(async () => {
+            fireEvent.click(signOutButton);
+        });
+
+        expect(await screen.findByText('Not Logged In')).toBeTruthy();
+        await waitFor(() => expect(browser.cookies.has('mcp_session')).toBe(false));
+        await visit('/rag/sources');
+        expect(window.location.pathname).toBe('/client'); // Back to the login
+    });
+});
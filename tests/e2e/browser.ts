@@ -0,0 +1,75 @@
+/**
+ * @description
+ * The network side of the end-to-end tests' browser: a cookie jar and a `fetch` for the page
+ * code. Same-origin requests go to the app's route handlers in-process, carrying the jar's
+ * cookies the way the pages' `credentials: 'same-origin'` requests do; anything else (the
+ * auth-worker, the Hanko API) goes out to the stand-ins over the network.
+ *
+ * @notes
+ * - Set-Cookie headers are applied like a browser would (an empty value or `Max-Age=0` deletes).
+ * - Requests carry no `Authorization` header unless the page adds one, so the BFF session cookie
+ *   is the credential.
+ * - Which handler serves a path is up to the test (see RouteResolver), so route modules can be
+ *   imported after the environment they read at load time is set.
+ */
+
+import { NextRequest } from 'next/server';
+
+export const APP_URL = 'http://localhost:3000';
+
+export interface RouteContext {
+    params: Record<string, string | string[]>; // Dynamic segments, e.g. `{ id }` or `{ path: [...] }`
+}
+
+// A route handler with its route context already bound
+export type BoundRouteHandler = (req: NextRequest) => Promise<Response>;
+
+// Finds the handler for a same-origin request, or null when the app has no such route
+export type RouteResolver = (method: string, pathname: string) => BoundRouteHandler | null;
+
+// The network, for requests that leave the app
+const networkFetch = globalThis.fetch.bind(globalThis);
+
+export class TestBrowser {
+    readonly cookies = new Map<string, string>();
+
+    constructor(private readonly resolveRoute: RouteResolver) {}
+
+    private applySetCookie(response: Response): void {
+        for (const header of response.headers.getSetCookie()) {
+            const [pair, ...attributes] = header.split(';');
+            const separator = pair.indexOf('=');
+            const name = pair.slice(0, separator).trim();
+            const value = pair.slice(separator + 1).trim();
+            const expired = attributes.some(attribute => /^\s*max-age=0\s*$/i.test(attribute));
+            if (!value || expired) {
+                this.cookies.delete(name);
+            } else {
+                this.cookies.set(name, value);
+            }
+        }
+    }
+
+    /**
+     * `fetch` for the page code, to install as the global one.
+     * Unknown same-origin paths get a 404, like from the Next.js server.
+     */
+    readonly fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+        const url = new URL(input instanceof Request ? input.url : String(input), APP_URL);
+        if (url.origin !== APP_URL) {
+            return networkFetch(input, init);
+        }
+        const method = (init.method || 'GET').toUpperCase();
+        const handler = this.resolveRoute(method, url.pathname);
+        if (!handler) {
+            return new Response(JSON.stringify({ error: 'not_found' }), { status: 404, headers: { 'Content-Type': 'application/json' } });
+        }
+
+        const req = new NextRequest(url, { method, headers: init.headers, body: init.body ?? undefined });
+        // Set after construction: a DOM `Request` drops the `cookie` header like a browser's would
+        this.cookies.forEach((value, name) => req.cookies.set(name, value));
+        const response = await handler(req);
+        this.applySetCookie(response);
+        return response;
+    };
+}
@@ -0,0 +1,250 @@
+/**
+ * @description
+ * In-process HTTP stand-ins for the services the app talks to besides the auth-worker
+ * (which has its own mock in scripts/mock-auth-worker.mjs):
+ * - startSupabaseStandIn: The PostgREST tables/RPCs and GoTrue admin endpoint used by `utils/supabase-admin`.
+ * - startRagServiceStandIn: The RAG service behind `lib/rag/client`.
+ * - startLlmBackendStandIn: The LLM backend behind `/api/insights`.
+ *
+ * @notes
+ * - Each stand-in listens on an ephemeral port and records what it received, so tests can
+ *   assert on what the app forwarded (user IDs, credentials).
+ * - Only the request shapes the app actually sends are implemented.
+ */
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: http.IncomingHttpHeaders;
+    body: unknown; // Parsed JSON, null when empty
+}
+
+export interface StandIn<S> {
+    url: string;
+    state: S;
+    requests: RecordedRequest[];
+    close: () => Promise<void>;
+}
+
+type StandInHandler = (request: RecordedRequest) => { status: number; body?: unknown };
+
+type JsonObject = Record<string, unknown>;
+
+/** Narrows a request body to a JSON object; anything else reads as an empty one. */
+function asObject(body: unknown): JsonObject {
+    return typeof body === 'object' && body !== null && !Array.isArray(body) ? body as JsonObject : {};
+}
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString('utf8');
+    return raw ? JSON.parse(raw) : null;
+}
+
+async function startStandIn<S>(state: S, handler: StandInHandler): Promise<StandIn<S>> {
+    const requests: RecordedRequest[] = [];
+    const server = http.createServer(async (req, res) => {
+        try {
+            const url = new URL(req.url || '/', 'http://localhost');
+            const request: RecordedRequest = {
+                method: req.method || 'GET',
+                path: url.pathname,
+                query: url.searchParams,
+                headers: req.headers,
+                body: await readBody(req),
+            };
+            requests.push(request);
+            const { status, body } = handler(request);
+            if (body === undefined) {
+                res.writeHead(status);
+                return res.end();
+            }
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        } catch (error) {
+            res.writeHead(500, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ message: error instanceof Error ? error.message : String(error) }));
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        state,
+        requests,
+        close: () => new Promise(resolve => server.close(() => resolve())),
+    };
+}
+
+// --- Supabase ---
+
+export interface SupabaseState {
+    users: { id: string; email: string }[];
+    tables: Map<string, JsonObject[]>;
+}
+
+/** Applies PostgREST `column=eq.value` filters and the `select` projection. */
+function queryRows(rows: JsonObject[], query: URLSearchParams): JsonObject[] {
+    let result = rows;
+    query.forEach((value, column) => {
+        if (value.startsWith('eq.')) {
+            result = result.filter(row => String(row[column]) === value.slice(3));
+        }
+    });
+    const select = query.get('select');
+    if (!select || select === '*') {
+        return result;
+    }
+    const columns = select.split(',').map(column => column.trim());
+    return result.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null])));
+}
+
+function insertRows(rows: JsonObject[], values: JsonObject[], conflictColumns: string[], ignoreDuplicates: boolean) {
+    for (const value of values) {
+        const existing = conflictColumns.length > 0
+            ? rows.find(row => conflictColumns.every(column => row[column] === value[column]))
+            : undefined;
+        if (existing) {
+            if (!ignoreDuplicates) Object.assign(existing, value);
+            continue;
+        }
+        rows.push({ id: randomUUID(), created_at: new Date().toISOString(), ...value });
+    }
+}
+
+export function startSupabaseStandIn(): Promise<StandIn<SupabaseState>> {
+    const state: SupabaseState = { users: [], tables: new Map() };
+    const tableRows = (table: string) => {
+        if (!state.tables.has(table)) state.tables.set(table, []);
+        return state.tables.get(table)!;
+    };
+    return startStandIn(state, ({ method, path, query, headers, body }) => {
+        const fields = asObject(body);
+        if (method === 'POST' && path === '/auth/v1/admin/users') {
+            const email = String(fields.email);
+            if (state.users.some(user => user.email.toLowerCase() === email.toLowerCase())) {
+                return { status: 422, body: { code: 422, error_code: 'email_exists', msg: 'A user with this email address has already been registered' } };
+            }
+            const user = { id: randomUUID(), email };
+            state.users.push(user);
+            return { status: 200, body: { ...user, aud: 'authenticated', email_confirmed_at: new Date().toISOString() } };
+        }
+        if (method === 'POST' && path === '/rest/v1/rpc/get_auth_user_id_by_email') {
+            const user = state.users.find(candidate => candidate.email.toLowerCase() === String(fields.lookup_email).toLowerCase());
+            return { status: 200, body: user?.id ?? null };
+        }
+        const table = path.match(/^\/rest\/v1\/([a-z_]+)$/)?.[1];
+        if (table && method === 'GET') {
+            return { status: 200, body: queryRows(tableRows(table), query) };
+        }
+        if (table && method === 'POST') {
+            const conflictColumns = (query.get('on_conflict') || '').split(',').filter(Boolean);
+            const ignoreDuplicates = /resolution=ignore-duplicates/.test(String(headers.prefer || ''));
+            const values = Array.isArray(body) ? body.map(asObject) : [fields];
+            insertRows(tableRows(table), values, conflictColumns, ignoreDuplicates);
+            return { status: 201 };
+        }
+        return { status: 404, body: { message: `No stand-in for ${method} ${path}` } };
+    });
+}
+
+// --- RAG service ---
+
+export interface RagServiceState {
+    sources: Map<string, JsonObject>;
+    documents: { userId: string; sourceId: string; sourceType: string; documentId: string; content: string }[];
+}
+
+export function startRagServiceStandIn(apiKey: string): Promise<StandIn<RagServiceState>> {
+    const state: RagServiceState = { sources: new Map(), documents: [] };
+    const notFound = { status: 404, body: { message: 'Not Found' } };
+    return startStandIn(state, ({ method, path, query, headers, body }) => {
+        if (headers['x-internal-api-key'] !== apiKey) {
+            return { status: 401, body: { message: 'Invalid internal API key.' } };
+        }
+        const fields = asObject(body);
+        const userId = String(fields.userId ?? query.get('userId'));
+        if (path === '/api/v1/sources' && method === 'GET') {
+            return { status: 200, body: [...state.sources.values()].filter(source => source.userId === userId) };
+        }
+        if (path === '/api/v1/sources' && method === 'POST') {
+            const source = { enabled: true, lastSyncedAt: null, createdAt: new Date().toISOString(), ...fields, id: randomUUID() };
+            state.sources.set(source.id, source);
+            return { status: 201, body: source };
+        }
+        const sourceId = path.match(/^\/api\/v1\/sources\/([^/]+)$/)?.[1];
+        if (sourceId) {
+            const id = decodeURIComponent(sourceId);
+            const source = state.sources.get(id);
+            if (!source || source.userId !== userId) return notFound;
+            if (method === 'GET') return { status: 200, body: source };
+            if (method === 'PUT') return { status: 200, body: Object.assign(source, fields, { id }) };
+            if (method === 'DELETE') {
+                state.sources.delete(id);
+                return { status: 204 };
+            }
+        }
+        if (path === '/api/v1/ingest' && method === 'POST') {
+            const sourceId = String(fields.sourceId);
+            const documentId = String(fields.documentId);
+            const source = state.sources.get(sourceId);
+            if (!source || source.userId !== userId) return notFound;
+            state.documents.push({ userId, sourceId, sourceType: String(source.sourceType), documentId, content: String(fields.content) });
+            return { status: 201, body: { success: true, documentId, chunksCreated: 1 } };
+        }
+        if (path === '/api/v1/query' && method === 'POST') {
+            const terms = String(fields.queryText).toLowerCase().split(/\s+/).filter(Boolean);
+            const matches = state.documents
+                .filter(document => document.userId === userId)
+                .filter(document => terms.some(term => document.content.toLowerCase().includes(term)));
+            return {
+                status: 200,
+                body: matches.map((document, index) => ({
+                    id: `${document.documentId}-${index}`,
+                    documentId: document.documentId,
+                    chunkSequence: 0,
+                    similarity: 0.9,
+                    sourceType: document.sourceType,
+                    content: document.content,
+                    metadata: null,
+                })),
+            };
+        }
+        return { status: 404, body: { message: `No stand-in for ${method} ${path}` } };
+    });
+}
+
+// --- LLM backend ---
+
+export function startLlmBackendStandIn(): Promise<StandIn<null>> {
+    return startStandIn(null, ({ method, path, headers, body }) => {
+        if (method !== 'POST') {
+            return { status: 405, body: { error: 'method_not_allowed' } };
+        }
+        if (path === '/insights' || path === '/insights/summary' || path === '/debug/query-rag') {
+            const fields = asObject(body);
+            const insightTypes = Array.isArray(fields.insightTypes) ? fields.insightTypes.map(String) : ['summary'];
+            return {
+                status: 200,
+                body: {
+                    query: fields.query,
+                    userId: headers['x-user-id'] ?? fields.userId ?? null,
+                    timestamp: new Date().toISOString(),
+                    documentCount: 1,
+                    insights: insightTypes.map(type => ({
+                        type,
+                        content: `Mock ${type} for "${fields.query}"`,
+                        metadata: { model: 'mock-model', provider: 'mock', insightType: type },
+                    })),
+                },
+            };
+        }
+        return { status: 404, body: { error: 'not_found' } };
+    });
+}
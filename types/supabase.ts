@@ -9,6 +9,162 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      auth_sessions: {
+        Row: {
+          access_token: string
+          created_at: string
+          expires_at: string
+          id: string
+          profile: Json | null
+          refresh_token: string | null
+          scope: string | null
+          supabase_user_id: string | null
+          token_type: string
+          updated_at: string
+        }
+        Insert: {
+          access_token: string
+          created_at?: string
+          expires_at: string
+          id: string
+          profile?: Json | null
+          refresh_token?: string | null
+          scope?: string | null
+          supabase_user_id?: string | null
+          token_type?: string
+          updated_at?: string
+        }
+        Update: {
+          access_token?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          profile?: Json | null
+          refresh_token?: string | null
+          scope?: string | null
+          supabase_user_id?: string | null
+          token_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      device_authorizations: {
+        Row: {
+          access_token: string | null
+          client_id: string
+          created_at: string
+          expires_at: string
+          granted_scope: string | null
+          id: string
+          interval: number
+          last_polled_at: string | null
+          refresh_token: string | null
+          scope: string
+          status: string
+          supabase_user_id: string | null
+          token_expires_in: number | null
+          user_code: string
+        }
+        Insert: {
+          access_token?: string | null
+          client_id: string
+          created_at?: string
+          expires_at: string
+          granted_scope?: string | null
+          id: string
+          interval: number
+          last_polled_at?: string | null
+          refresh_token?: string | null
+          scope: string
+          status?: string
+          supabase_user_id?: string | null
+          token_expires_in?: number | null
+          user_code: string
+        }
+        Update: {
+          access_token?: string | null
+          client_id?: string
+          created_at?: string
+          expires_at?: string
+          granted_scope?: string | null
+          id?: string
+          interval?: number
+          last_polled_at?: string | null
+          refresh_token?: string | null
+          scope?: string
+          status?: string
+          supabase_user_id?: string | null
+          token_expires_in?: number | null
+          user_code?: string
+        }
+        Relationships: []
+      }
+      identity_links: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          provider: string
+          subject: string
+          supabase_user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          provider?: string
+          subject: string
+          supabase_user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          provider?: string
+          subject?: string
+          supabase_user_id?: string
+        }
+        Relationships: []
+      }
+      personal_access_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          scopes: string[]
+          supabase_user_id: string
+          token_hash: string
+          token_prefix: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          scopes: string[]
+          supabase_user_id: string
+          token_hash: string
+          token_prefix: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          scopes?: string[]
+          supabase_user_id?: string
+          token_hash?: string
+          token_prefix?: string
+        }
+        Relationships: []
+      }
       rag_document_chunks: {
         Row: {
           account_type: string
@@ -97,6 +253,12 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      get_auth_user_id_by_email: {
+        Args: {
+          lookup_email: string
+        }
+        Returns: string
+      }
       match_rag_document_chunks: {
         Args: {
           query_embedding: string
@@ -115,6 +277,13 @@ export type Database = {
           document_id: string
         }[]
       }
+      unlink_identity: {
+        Args: {
+          link_id: string
+          owner_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
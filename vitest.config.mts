@@ -0,0 +1,31 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+// supabase-js needs a global WebSocket, which Node only has without a flag from version 22
+const nodeMajorVersion = Number(process.versions.node.split('.')[0]);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  // tsconfig keeps JSX as-is for Next.js, so the tests compile it themselves
+  oxc: {
+    jsx: { runtime: 'automatic' },
+  },
+  test: {
+    include: ['**/*.test.{ts,tsx}'],
+    exclude: ['node_modules/**', '.next/**'],
+    environment: 'node',
+    execArgv: nodeMajorVersion < 22 ? ['--experimental-websocket'] : [],
+    // The end-to-end suite starts local HTTP stand-ins and walks through whole flows
+    testTimeout: 20000,
+    hookTimeout: 20000,
+    projects: [
+      { extends: true, test: { name: 'default' } },
+      // The end-to-end suite again, against a mock auth-worker that issues DPoP-bound tokens
+      { extends: true, test: { name: 'e2e-dpop', include: ['tests/e2e/**/*.test.{ts,tsx}'], env: { E2E_DPOP: 'true' } } },
+    ],
+  },
+});